@@ -0,0 +1,4 @@
+-- AlterTable
+-- Add optional thread mode for publishing long posts to Bluesky
+ALTER TABLE `users` ADD COLUMN `bluesky_thread_mode` BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE `users` ADD COLUMN `bluesky_thread_link_position` VARCHAR(191) NOT NULL DEFAULT 'first';
@@ -0,0 +1,8 @@
+-- AlterTable
+-- Per-user template for the text of bridged Bluesky posts
+ALTER TABLE `users` ADD COLUMN `bluesky_post_template` TEXT NULL;
+
+-- AlterTable
+-- Tags and author for template variables
+ALTER TABLE `posts` ADD COLUMN `tags` TEXT NULL,
+    ADD COLUMN `author_name` VARCHAR(191) NULL;
@@ -0,0 +1,7 @@
+-- AlterTable
+-- Per-user webhook URL token and signing secret
+ALTER TABLE `users` ADD COLUMN `ghost_webhook_token` VARCHAR(191) NULL,
+    ADD COLUMN `ghost_webhook_secret` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `users_ghost_webhook_token_key` ON `users`(`ghost_webhook_token`);
@@ -0,0 +1,8 @@
+-- AlterTable
+-- Track what happened to each bridged reply on Bluesky
+ALTER TABLE `comment_mappings` ADD COLUMN `bsky_reply_cid` VARCHAR(191) NULL,
+    ADD COLUMN `state` VARCHAR(191) NOT NULL DEFAULT 'published',
+    ADD COLUMN `last_verified_at` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `comment_mappings_state_last_verified_at_idx` ON `comment_mappings`(`state`, `last_verified_at`);
@@ -0,0 +1,19 @@
+-- CreateTable
+-- One Ghost member per Bluesky commenter DID, per user
+CREATE TABLE `commenter_members` (
+    `id` VARCHAR(191) NOT NULL,
+    `did` VARCHAR(191) NOT NULL,
+    `ghost_member_id` VARCHAR(191) NOT NULL,
+    `handle` VARCHAR(191) NOT NULL,
+    `display_name` VARCHAR(191) NULL,
+    `avatar_url` TEXT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+    `user_id` VARCHAR(191) NOT NULL,
+
+    UNIQUE INDEX `commenter_members_user_id_did_key`(`user_id`, `did`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `commenter_members` ADD CONSTRAINT `commenter_members_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
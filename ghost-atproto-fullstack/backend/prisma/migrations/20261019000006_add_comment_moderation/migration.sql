@@ -0,0 +1,52 @@
+-- AlterTable
+-- Comment moderation mode: off, filter or review
+ALTER TABLE `users` ADD COLUMN `moderation_mode` VARCHAR(191) NOT NULL DEFAULT 'off';
+
+-- CreateTable
+-- Replies held for review or rejected by filters
+CREATE TABLE `pending_comments` (
+    `id` VARCHAR(191) NOT NULL,
+    `bsky_reply_uri` VARCHAR(191) NOT NULL,
+    `bsky_reply_cid` VARCHAR(191) NULL,
+    `parent_uri` VARCHAR(191) NULL,
+    `author_did` VARCHAR(191) NOT NULL,
+    `author_handle` VARCHAR(191) NOT NULL,
+    `author_display_name` VARCHAR(191) NULL,
+    `author_avatar` TEXT NULL,
+    `text` TEXT NOT NULL,
+    `reply_created_at` DATETIME(3) NOT NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'pending',
+    `reason` VARCHAR(191) NULL,
+    `reviewed_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+    `post_id` VARCHAR(191) NOT NULL,
+    `user_id` VARCHAR(191) NOT NULL,
+
+    UNIQUE INDEX `pending_comments_bsky_reply_uri_key`(`bsky_reply_uri`),
+    INDEX `pending_comments_user_id_status_idx`(`user_id`, `status`),
+    INDEX `pending_comments_post_id_idx`(`post_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+-- Keyword and regex filters, blocked authors and trusted authors
+CREATE TABLE `moderation_rules` (
+    `id` VARCHAR(191) NOT NULL,
+    `type` VARCHAR(191) NOT NULL,
+    `value` VARCHAR(191) NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `user_id` VARCHAR(191) NOT NULL,
+
+    UNIQUE INDEX `moderation_rules_user_id_type_value_key`(`user_id`, `type`, `value`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `pending_comments` ADD CONSTRAINT `pending_comments_post_id_fkey` FOREIGN KEY (`post_id`) REFERENCES `posts`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `pending_comments` ADD CONSTRAINT `pending_comments_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `moderation_rules` ADD CONSTRAINT `moderation_rules_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
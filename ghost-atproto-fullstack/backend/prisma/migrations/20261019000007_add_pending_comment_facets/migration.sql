@@ -0,0 +1,3 @@
+-- AlterTable
+-- Rich text facets of held replies, so links survive moderation
+ALTER TABLE `pending_comments` ADD COLUMN `facets` JSON NULL;
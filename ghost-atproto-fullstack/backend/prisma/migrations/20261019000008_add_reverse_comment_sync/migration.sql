@@ -0,0 +1,11 @@
+-- AlterTable
+-- Opt-in mirroring of Ghost comments to Bluesky, and how far it has got
+ALTER TABLE `users` ADD COLUMN `reverse_comment_sync` BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN `reverse_comment_synced_at` DATETIME(3) NULL;
+
+-- AlterTable
+-- Which way a comment was bridged: a Bluesky reply copied to Ghost, or a Ghost comment posted to Bluesky
+ALTER TABLE `comment_mappings` ADD COLUMN `direction` VARCHAR(191) NOT NULL DEFAULT 'bsky_to_ghost';
+
+-- CreateIndex
+CREATE INDEX `comment_mappings_ghost_comment_id_idx` ON `comment_mappings`(`ghost_comment_id`);
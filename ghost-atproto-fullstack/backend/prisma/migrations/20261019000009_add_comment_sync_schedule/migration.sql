@@ -0,0 +1,27 @@
+-- AlterTable
+-- Minutes between scheduled comment syncs; 0 turns them off
+ALTER TABLE `users` ADD COLUMN `comment_sync_interval` INTEGER NOT NULL DEFAULT 15;
+
+-- AlterTable
+-- When the post's replies were last polled, so older posts can be polled less often
+ALTER TABLE `posts` ADD COLUMN `comments_checked_at` DATETIME(3) NULL;
+
+-- CreateTable
+CREATE TABLE `comment_sync_runs` (
+    `id` VARCHAR(191) NOT NULL,
+    `user_id` VARCHAR(191) NOT NULL,
+    `trigger` VARCHAR(191) NOT NULL DEFAULT 'schedule',
+    `status` VARCHAR(191) NOT NULL,
+    `posts_checked` INTEGER NOT NULL DEFAULT 0,
+    `new_comments` INTEGER NOT NULL DEFAULT 0,
+    `error_count` INTEGER NOT NULL DEFAULT 0,
+    `errors` TEXT NULL,
+    `started_at` DATETIME(3) NOT NULL,
+    `finished_at` DATETIME(3) NOT NULL,
+
+    INDEX `comment_sync_runs_user_id_started_at_idx`(`user_id`, `started_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `comment_sync_runs` ADD CONSTRAINT `comment_sync_runs_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+-- Thread parts posted so far ({ parts: [{ uri, cid }], total }), so a retried publish
+-- continues the thread instead of posting it again
+ALTER TABLE `posts` ADD COLUMN `atproto_thread` JSON NULL;
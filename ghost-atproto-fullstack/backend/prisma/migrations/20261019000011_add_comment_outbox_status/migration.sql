@@ -0,0 +1,6 @@
+-- AlterTable
+-- 'queued' while the comment waits in the shim's outbox (Ghost was unreachable)
+ALTER TABLE `comment_mappings` ADD COLUMN `outbox_status` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE INDEX `comment_mappings_outbox_status_idx` ON `comment_mappings`(`outbox_status`);
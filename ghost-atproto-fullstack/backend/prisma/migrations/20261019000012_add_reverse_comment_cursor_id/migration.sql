@@ -0,0 +1,4 @@
+-- AlterTable
+-- ID of the last Ghost comment mirrored at reverse_comment_synced_at; with the timestamp
+-- it makes a cursor that doesn't repeat comments written in the same second
+ALTER TABLE `users` ADD COLUMN `reverse_comment_synced_id` VARCHAR(191) NULL;
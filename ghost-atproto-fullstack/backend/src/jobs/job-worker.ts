@@ -0,0 +1,67 @@
+import os from 'os';
+import { Job } from '@prisma/client';
+import { claimNextJob, completeJob, failJob, JobType } from '../lib/job-queue';
+
+export type JobHandler = (job: Job) => Promise<void>;
+
+const handlers = new Map<string, JobHandler>();
+
+const POLL_INTERVAL_MS = 5000;
+
+const workerId = `${os.hostname()}:${process.pid}`;
+
+export function registerJobHandler(type: JobType, handler: JobHandler) {
+  handlers.set(type, handler);
+}
+
+/**
+ * Claim and run one due job. Returns false when the queue is empty.
+ */
+export async function processNextJob(): Promise<boolean> {
+  const job = await claimNextJob(workerId);
+  if (!job) return false;
+
+  const handler = handlers.get(job.type);
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type "${job.type}"`);
+    }
+    await handler(job);
+    await completeJob(job);
+    console.log(`✅ Job ${job.id} (${job.type}) succeeded on attempt ${job.attempts}`);
+  } catch (error) {
+    const status = await failJob(job, error);
+    if (status === 'dead') {
+      console.error(`💀 Job ${job.id} (${job.type}) dead-lettered after ${job.attempts} attempts:`, error);
+    } else {
+      console.warn(`🔁 Job ${job.id} (${job.type}) failed on attempt ${job.attempts}, will retry:`, error);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Poll the job table and work through due jobs one at a time
+ */
+export function startJobWorker(intervalMs: number = POLL_INTERVAL_MS) {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      while (await processNextJob()) {
+        // Keep draining while jobs are due
+      }
+    } catch (error) {
+      console.error('❌ Job worker error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  setInterval(tick, intervalMs);
+  console.log(`⚙️  Job worker started (${workerId}, polling every ${intervalMs / 1000}s)`);
+}
@@ -0,0 +1,343 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  JETSTREAM_POST_COLLECTION,
+  JetstreamConnection,
+  JetstreamEvent,
+  JetstreamSource,
+  WebSocketJetstreamSource,
+} from '../lib/jetstream';
+import { enqueueJob, JOB_TYPES } from '../lib/job-queue';
+
+const prisma = new PrismaClient();
+
+const CURSOR_KEY = 'jetstream_reply_cursor';
+
+// Replay a few seconds on (re)connect so events in flight when the stream dropped aren't lost
+const CURSOR_REWIND_US = 5_000_000;
+const CURSOR_SAVE_INTERVAL_MS = 5000;
+const TRACKED_REFRESH_MS = 60_000;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+
+/**
+ * A reply taken from the stream, queued for the comment-sync service
+ */
+export interface StreamedReply {
+  uri: string;
+  cid: string | null;
+  did: string;
+  text: string;
+  facets?: any[];
+  // Raw record embed; images and quotes are resolved through the AppView when syncing
+  embed?: any;
+  createdAt: string;
+  rootUri: string;
+  parentUri: string;
+}
+
+interface TrackedPost {
+  id: string;
+  userId: string;
+}
+
+const didFromUri = (uri: string) => uri.replace('at://', '').split('/')[0];
+
+/**
+ * A delete or edit of a post, as seen on the stream
+ */
+export interface StreamedPostChange {
+  uri: string;
+  action: 'deleted' | 'edited';
+  text?: string;
+  facets?: any[];
+  embed?: any;
+  cid?: string | null;
+}
+
+/**
+ * Pull a post delete or update out of a Jetstream event
+ */
+export function postChangeFromEvent(event: JetstreamEvent): StreamedPostChange | null {
+  const commit = event.commit;
+  if (event.kind !== 'commit' || !commit || commit.collection !== JETSTREAM_POST_COLLECTION) return null;
+
+  const uri = `at://${event.did}/${commit.collection}/${commit.rkey}`;
+  if (commit.operation === 'delete') {
+    return { uri, action: 'deleted' };
+  }
+  if (commit.operation === 'update') {
+    return {
+      uri,
+      action: 'edited',
+      text: String(commit.record?.text || ''),
+      facets: commit.record?.facets,
+      embed: commit.record?.embed,
+      cid: commit.cid || null,
+    };
+  }
+  return null;
+}
+
+/**
+ * Pull the reply out of a Jetstream event. Returns null for anything that isn't a newly
+ * created post replying to something.
+ */
+export function replyFromEvent(event: JetstreamEvent): StreamedReply | null {
+  const commit = event.commit;
+  if (event.kind !== 'commit' || !commit) return null;
+  if (commit.operation !== 'create' || commit.collection !== JETSTREAM_POST_COLLECTION) return null;
+
+  const reply = commit.record?.reply;
+  if (!reply?.root?.uri || !reply?.parent?.uri) return null;
+
+  return {
+    uri: `at://${event.did}/${commit.collection}/${commit.rkey}`,
+    cid: commit.cid || null,
+    did: event.did,
+    text: String(commit.record.text || ''),
+    facets: commit.record.facets,
+    embed: commit.record.embed,
+    createdAt: commit.record.createdAt || new Date(event.time_us / 1000).toISOString(),
+    rootUri: reply.root.uri,
+    parentUri: reply.parent.uri,
+  };
+}
+
+export async function loadCursor(): Promise<number | null> {
+  const setting = await prisma.settings.findUnique({ where: { key: CURSOR_KEY } });
+  const cursor = setting ? parseInt(setting.value, 10) : NaN;
+  return Number.isFinite(cursor) ? cursor : null;
+}
+
+export async function saveCursor(cursor: number): Promise<void> {
+  await prisma.settings.upsert({
+    where: { key: CURSOR_KEY },
+    update: { value: String(cursor) },
+    create: { key: CURSOR_KEY, value: String(cursor) },
+  });
+}
+
+/**
+ * Follows a Jetstream feed of app.bsky.feed.post records and queues a reply-sync job for
+ * every reply, at any depth, in a thread rooted at one of our bridged posts.
+ * The stream position is saved to the settings table so a restart picks up where it left off.
+ */
+export class ReplySubscriber {
+  private connection: JetstreamConnection | null = null;
+  private tracked = new Map<string, TrackedPost>();
+  private trackedDids = new Set<string>();
+  private trackedReplies = new Set<string>();
+  private cursor: number | null = null;
+  private savedCursor: number | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private timers: NodeJS.Timeout[] = [];
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts = 0;
+  private failedAt: number | null = null;
+  private stopped = false;
+
+  constructor(
+    private source: JetstreamSource,
+    private options: { reconnectDelayMs?: number } = {}
+  ) {}
+
+  async start(): Promise<void> {
+    this.stopped = false;
+    await this.refreshTrackedPosts();
+
+    this.cursor = await loadCursor();
+    this.savedCursor = this.cursor;
+
+    this.connect();
+
+    this.timers.push(
+      setInterval(() => {
+        this.persistCursor().catch((error) => console.error('❌ Failed to save Jetstream cursor:', error));
+      }, CURSOR_SAVE_INTERVAL_MS),
+      setInterval(() => {
+        this.refreshTrackedPosts().catch((error) => console.error('❌ Failed to refresh tracked posts:', error));
+      }, TRACKED_REFRESH_MS)
+    );
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.timers.forEach(clearInterval);
+    this.timers = [];
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.connection?.close();
+    this.connection = null;
+    await this.idle();
+    await this.persistCursor();
+  }
+
+  /**
+   * Resolves once every event received so far has been handled
+   */
+  idle(): Promise<void> {
+    return this.queue;
+  }
+
+  private connect() {
+    const connection = this.source.subscribe({
+      cursor: this.cursor ? this.cursor - CURSOR_REWIND_US : null,
+      collections: [JETSTREAM_POST_COLLECTION],
+    });
+    this.connection = connection;
+    // Set when an event fails: nothing after it on this connection is handled, so the cursor
+    // stays on the last event that was, and the new connection replays the failed one
+    let abandoned = false;
+
+    connection.on('event', (event: JetstreamEvent) => {
+      // Handle events one at a time so the cursor only moves forward
+      this.queue = this.queue.then(async () => {
+        if (abandoned) return;
+        try {
+          await this.handleEvent(event);
+        } catch (error) {
+          console.error('❌ Failed to handle Jetstream event, reconnecting from the last handled one:', error);
+          abandoned = true;
+          this.failedAt = event.time_us;
+          this.reconnect(connection);
+          return;
+        }
+        // Back off until we're past the event that failed, then start over
+        if (!this.failedAt || event.time_us > this.failedAt) {
+          this.failedAt = null;
+          this.reconnectAttempts = 0;
+        }
+      });
+    });
+    connection.on('error', (error: unknown) => {
+      console.error('⚠️ Jetstream connection error:', error);
+    });
+    connection.on('close', () => this.reconnect(connection));
+  }
+
+  /**
+   * Drop the connection and open a new one after a backoff delay, from the cursor
+   */
+  private reconnect(connection: JetstreamConnection) {
+    if (this.stopped || this.connection !== connection) return;
+    this.connection = null;
+    connection.close();
+
+    const delay = this.options.reconnectDelayMs ??
+      Math.min(RECONNECT_BASE_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_MS);
+    this.reconnectAttempts++;
+    console.warn(`🔌 Jetstream disconnected, reconnecting in ${delay}ms`);
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private async handleEvent(event: JetstreamEvent): Promise<void> {
+    const reply = replyFromEvent(event);
+    const change = reply ? null : postChangeFromEvent(event);
+
+    // Deleted or edited replies that we've bridged into Ghost
+    if (change && this.trackedReplies.has(change.uri)) {
+      // Replies still waiting for their sync job have no mapping yet; the periodic check catches those
+      const userId = await this.ownerOfReply(change.uri);
+      if (userId) {
+        await enqueueJob(JOB_TYPES.REPLY_UPDATE, { ...change }, { userId });
+        console.log(`✏️  Queued ${change.action} reply ${change.uri}`);
+      }
+      if (change.action === 'deleted') {
+        this.trackedReplies.delete(change.uri);
+      }
+    }
+
+    if (reply) {
+      const post = await this.findTrackedPost(reply.rootUri);
+      // Our own replies in the thread (e.g. thread-mode continuations) aren't comments
+      if (post && reply.did !== didFromUri(reply.rootUri)) {
+        await enqueueJob(
+          JOB_TYPES.REPLY_SYNC,
+          { postId: post.id, reply: { ...reply } },
+          { userId: post.userId, postId: post.id }
+        );
+        this.trackedReplies.add(reply.uri);
+        console.log(`💬 Queued reply ${reply.uri} for post ${post.id}`);
+      }
+    }
+
+    if (event.time_us && (!this.cursor || event.time_us > this.cursor)) {
+      this.cursor = event.time_us;
+    }
+  }
+
+  /**
+   * Match a thread root to a bridged post. Roots from accounts we track that aren't in
+   * the cache yet (posts published since the last refresh) are looked up directly.
+   */
+  private async findTrackedPost(rootUri: string): Promise<TrackedPost | null> {
+    const cached = this.tracked.get(rootUri);
+    if (cached) return cached;
+    if (!this.trackedDids.has(didFromUri(rootUri))) return null;
+
+    const post = await prisma.post.findFirst({
+      where: {
+        atprotoUri: rootUri,
+        ghostId: { not: null },
+        user: { shimUrl: { not: null }, shimSecret: { not: null } },
+      },
+      select: { id: true, userId: true },
+    });
+    if (post) {
+      this.tracked.set(rootUri, post);
+    }
+    return post;
+  }
+
+  private async refreshTrackedPosts(): Promise<void> {
+    const posts = await prisma.post.findMany({
+      where: {
+        atprotoUri: { not: null },
+        ghostId: { not: null },
+        user: { shimUrl: { not: null }, shimSecret: { not: null } },
+      },
+      select: { id: true, userId: true, atprotoUri: true },
+    });
+
+    this.tracked = new Map(posts.map((post) => [post.atprotoUri!, { id: post.id, userId: post.userId }]));
+    this.trackedDids = new Set(posts.map((post) => didFromUri(post.atprotoUri!)));
+
+    const mappings = await prisma.commentMapping.findMany({
+      where: { state: { not: 'deleted' }, direction: 'bsky_to_ghost' },
+      select: { bskyReplyUri: true },
+    });
+    // Keep replies queued since the last refresh that haven't been mapped yet
+    this.trackedReplies = new Set([...this.trackedReplies, ...mappings.map((m) => m.bskyReplyUri)]);
+  }
+
+  private async ownerOfReply(uri: string): Promise<string | null> {
+    const mapping = await prisma.commentMapping.findUnique({
+      where: { bskyReplyUri: uri },
+      select: { direction: true, post: { select: { userId: true } } },
+    });
+    return mapping?.direction === 'bsky_to_ghost' ? mapping.post.userId : null;
+  }
+
+  private async persistCursor(): Promise<void> {
+    if (!this.cursor || this.cursor === this.savedCursor) return;
+    await saveCursor(this.cursor);
+    this.savedCursor = this.cursor;
+  }
+}
+
+/**
+ * Start following Jetstream for replies when JETSTREAM_ENABLED=true. Off by default: it reads
+ * every post on the network, which scheduled comment sync doesn't need.
+ */
+export function startReplySubscriber(source: JetstreamSource = new WebSocketJetstreamSource()): ReplySubscriber | null {
+  if (process.env.JETSTREAM_ENABLED !== 'true') {
+    console.log('💤 Jetstream reply subscriber disabled (set JETSTREAM_ENABLED=true to turn it on)');
+    return null;
+  }
+
+  const subscriber = new ReplySubscriber(source);
+  subscriber
+    .start()
+    .then(() => console.log('📡 Jetstream reply subscriber started'))
+    .catch((error) => console.error('❌ Failed to start Jetstream reply subscriber:', error));
+  return subscriber;
+}
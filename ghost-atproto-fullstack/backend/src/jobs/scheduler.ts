@@ -1,6 +1,7 @@
 import cron from 'node-cron';
 import { syncMobilizeEvents } from './sync-mobilize';
-import { runCommentSync } from './sync-comments';
+import { runCommentMirror, runCommentSync } from './sync-comments';
+import { verifyCommentMappings } from '../services/comment-sync';
 
 export function startScheduler() {
   console.log('📅 Starting job scheduler...');
@@ -15,19 +16,42 @@ export function startScheduler() {
     }
   });
 
-  // DISABLED: Run comment sync every 15 minutes (testing manual sync first)
-  // This fetches new Bluesky replies and syncs them to Ghost
-  // TODO: Re-enable once manual sync is tested and working
-  // cron.schedule('*/15 * * * *', async () => {
-  //   console.log('🕐 Running scheduled comment sync...');
-  //   try {
-  //     await runCommentSync();
-  //   } catch (error) {
-  //     console.error('❌ Scheduled comment sync failed:', error);
-  //   }
-  // });
+  // Check every minute for users whose comment sync interval has come round
+  // (set per user in Settings; replies to older posts are polled less often)
+  cron.schedule('* * * * *', async () => {
+    try {
+      await runCommentSync();
+    } catch (error) {
+      console.error('❌ Scheduled comment sync failed:', error);
+    }
+  });
+
+  // Re-check bridged replies every 30 minutes: deletes, moderation hides and edits
+  // that the Jetstream subscriber missed (e.g. while it was down) reach Ghost here
+  cron.schedule('*/30 * * * *', async () => {
+    try {
+      const result = await verifyCommentMappings();
+      console.log(`🔍 Verified ${result.checked} bridged replies (${result.deleted} deleted, ${result.hidden} hidden, ${result.edited} edited)`);
+    } catch (error) {
+      console.error('❌ Scheduled reply verification failed:', error);
+    }
+  });
+
+  // Post new Ghost comments as Bluesky replies for users who turned on two-way comments
+  cron.schedule('*/10 * * * *', async () => {
+    try {
+      const result = await runCommentMirror();
+      if (result.totalPosted > 0 || result.totalErrors > 0) {
+        console.log(`↩️  Mirrored ${result.totalPosted} Ghost comments to Bluesky (${result.totalErrors} errors)`);
+      }
+    } catch (error) {
+      console.error('❌ Scheduled comment mirroring failed:', error);
+    }
+  });
 
   console.log('✅ Scheduler started:');
   console.log('   - Mobilize sync: daily at 2:00 AM');
-  console.log('   - Comment sync: DISABLED (testing manual sync first)');
+  console.log('   - Comment sync: per-user interval, checked every minute');
+  console.log('   - Reply verification: every 30 minutes');
+  console.log('   - Ghost comment mirroring: every 10 minutes');
 }
@@ -1,27 +1,190 @@
-import { PrismaClient } from '@prisma/client';
-import { syncCommentsForPost } from '../services/comment-sync';
+import { Job, PrismaClient } from '@prisma/client';
+import {
+  applyReplyChange,
+  backfillCommentsForPost,
+  checkQueuedComments,
+  syncCommentsForPost,
+  syncReply,
+} from '../services/comment-sync';
+import { mirrorGhostComments } from '../services/comment-mirror';
+import { createPublicAgent, fetchReplyEmbed, loginToBluesky } from '../lib/atproto';
 import { ShimClient } from '../lib/shim-client';
+import { StreamedPostChange, StreamedReply } from './reply-subscriber';
 
 const prisma = new PrismaClient();
 
-/**
- * Sync Bluesky comments to Ghost for all users with configured shims
- * This job runs periodically to fetch new replies from Bluesky
- * and sync them to each user's Ghost instance via their configured shim.
- */
-export async function runCommentSync(): Promise<{
+// Choices offered in Settings, in minutes; 0 turns scheduled sync off
+export const COMMENT_SYNC_INTERVALS = [0, 5, 15, 30, 60, 180, 360, 1440];
+
+const DEFAULT_COMMENT_SYNC_CONCURRENCY = 3;
+const COMMENT_SYNC_RUN_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CommentSyncSummary {
   success: boolean;
   usersProcessed: number;
   postsProcessed: number;
   totalNewComments: number;
   totalErrors: number;
-}> {
-  console.log('🔄 Starting scheduled comment sync...');
+}
 
-  let usersProcessed = 0;
+type CommentSyncUser = {
+  id: string;
+  email: string;
+  shimUrl: string | null;
+  shimSecret: string | null;
+  blueskyHandle: string | null;
+  blueskyPassword: string | null;
+  commentSyncInterval: number;
+};
+
+let commentSyncRunning = false;
+
+/**
+ * How often a post's replies are polled. Fresh posts are checked every run; replies
+ * slow down as a post ages, so older posts are checked less often.
+ */
+export function postPollInterval(publishedAt: Date, baseMinutes: number, now: Date = new Date()): number {
+  const ageDays = (now.getTime() - publishedAt.getTime()) / DAY_MS;
+  if (ageDays < 3) return baseMinutes;
+  if (ageDays < 30) return baseMinutes * 4;
+  return baseMinutes * 24;
+}
+
+/**
+ * Whether a post is due for polling under the user's interval
+ */
+export function isPostDue(
+  post: { publishedAt: Date | null; createdAt: Date; commentsCheckedAt: Date | null },
+  baseMinutes: number,
+  now: Date = new Date()
+): boolean {
+  if (!post.commentsCheckedAt) return true;
+  const interval = postPollInterval(post.publishedAt || post.createdAt, baseMinutes, now);
+  return now.getTime() - post.commentsCheckedAt.getTime() >= interval * 60 * 1000;
+}
+
+/**
+ * Run `worker` over `items` with at most `limit` running at once
+ */
+async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+/**
+ * Sync one user's posts, newest first, with a single Bluesky session, and store the
+ * run summary. With `force`, every post is polled regardless of age.
+ */
+async function syncCommentsForUser(
+  user: CommentSyncUser,
+  options: { force: boolean; trigger: 'schedule' | 'manual' }
+): Promise<{ postsProcessed: number; newComments: number; errors: string[] }> {
+  const startedAt = new Date();
+  const errors: string[] = [];
   let postsProcessed = 0;
-  let totalNewComments = 0;
-  let totalErrors = 0;
+  let newComments = 0;
+  let failed = false;
+
+  try {
+    const shimClient = new ShimClient({
+      shimUrl: user.shimUrl!,
+      sharedSecret: user.shimSecret!,
+      // One ID for the whole run, so the shim's logs for it can be pulled up together
+      requestId: `comment-sync-${user.id}-${startedAt.getTime()}`,
+    });
+
+    // Check shim health
+    if (!(await shimClient.healthCheck())) {
+      throw new Error('Shim not healthy');
+    }
+
+    // Comments the shim couldn't deliver are sent again before polling for new ones
+    const queued = await checkQueuedComments(user.id, shimClient);
+    errors.push(...queued.errors);
+
+    // Get posts for this user that have been published to Bluesky
+    const posts = await prisma.post.findMany({
+      where: {
+        userId: user.id,
+        atprotoUri: { not: null },
+        ghostId: { not: null },
+      },
+      select: { id: true, publishedAt: true, createdAt: true, commentsCheckedAt: true },
+      orderBy: [{ publishedAt: 'desc' }, { createdAt: 'desc' }],
+    });
+    const baseMinutes = user.commentSyncInterval || 15;
+    const due = options.force ? posts : posts.filter((post) => isPostDue(post, baseMinutes, startedAt));
+
+    if (due.length > 0) {
+      const credentials = { handle: user.blueskyHandle!, password: user.blueskyPassword! };
+      const agent = await loginToBluesky(credentials);
+
+      for (const post of due) {
+        const result = await syncCommentsForPost(post.id, shimClient, credentials.handle, credentials.password, agent);
+        postsProcessed++;
+        newComments += result.newComments;
+        errors.push(...result.errors);
+
+        // A post with failures is polled again on the next run
+        if (result.errors.length === 0) {
+          await prisma.post.update({ where: { id: post.id }, data: { commentsCheckedAt: startedAt } });
+        }
+      }
+    }
+  } catch (err) {
+    console.error(`Failed to sync comments for user ${user.email}:`, err);
+    errors.push(err instanceof Error ? err.message : 'Unknown error');
+    failed = true;
+  }
+
+  await prisma.commentSyncRun.create({
+    data: {
+      userId: user.id,
+      trigger: options.trigger,
+      status: failed ? 'failed' : errors.length > 0 ? 'partial' : 'success',
+      postsChecked: postsProcessed,
+      newComments,
+      errorCount: errors.length,
+      errors: errors.length > 0 ? errors.join('\n') : null,
+      startedAt,
+      finishedAt: new Date(),
+    },
+  });
+
+  return { postsProcessed, newComments, errors };
+}
+
+/**
+ * Sync Bluesky comments to Ghost for every user whose sync interval has come round.
+ * Users run in parallel up to COMMENT_SYNC_CONCURRENCY (default 3); each gets one
+ * Bluesky session for all of its posts. With `force` (the admin "sync all" button),
+ * every configured user and post is synced now, whatever their interval.
+ */
+export async function runCommentSync(
+  options: { force?: boolean; trigger?: 'schedule' | 'manual' } = {}
+): Promise<CommentSyncSummary> {
+  const force = options.force ?? false;
+  const trigger = options.trigger ?? 'schedule';
+  const summary: CommentSyncSummary = {
+    success: true,
+    usersProcessed: 0,
+    postsProcessed: 0,
+    totalNewComments: 0,
+    totalErrors: 0,
+  };
+
+  // A slow run shouldn't overlap the next scheduler tick
+  if (commentSyncRunning) {
+    console.log('⏭️  Comment sync still running, skipping this tick');
+    return summary;
+  }
+  commentSyncRunning = true;
 
   try {
     // Get all users who have shim and Bluesky configured
@@ -31,6 +194,7 @@ export async function runCommentSync(): Promise<{
         shimSecret: { not: null },
         blueskyHandle: { not: null },
         blueskyPassword: { not: null },
+        ...(force ? {} : { commentSyncInterval: { gt: 0 } }),
       },
       select: {
         id: true,
@@ -39,88 +203,213 @@ export async function runCommentSync(): Promise<{
         shimSecret: true,
         blueskyHandle: true,
         blueskyPassword: true,
+        commentSyncInterval: true,
       },
     });
 
-    if (users.length === 0) {
-      console.log('⚠️ No users have shim configured, skipping sync');
-      return { success: true, usersProcessed: 0, postsProcessed: 0, totalNewComments: 0, totalErrors: 0 };
+    const now = Date.now();
+    const due: CommentSyncUser[] = [];
+    for (const user of users) {
+      const lastRun = await prisma.commentSyncRun.findFirst({
+        where: { userId: user.id },
+        orderBy: { startedAt: 'desc' },
+        select: { startedAt: true },
+      });
+      if (force || !lastRun || now - lastRun.startedAt.getTime() >= user.commentSyncInterval * 60 * 1000) {
+        due.push(user);
+      }
     }
 
-    console.log(`📋 Found ${users.length} users with shim configured`);
+    if (due.length === 0) {
+      return summary;
+    }
 
-    for (const user of users) {
-      try {
-        const shimClient = new ShimClient({
-          shimUrl: user.shimUrl!,
-          sharedSecret: user.shimSecret!,
-        });
-
-        // Check shim health
-        const healthy = await shimClient.healthCheck();
-        if (!healthy) {
-          console.log(`⚠️ Shim not healthy for user ${user.email}, skipping`);
-          totalErrors++;
-          continue;
-        }
+    console.log(`🔄 Syncing comments for ${due.length} user(s)...`);
+    const concurrency = Number(process.env.COMMENT_SYNC_CONCURRENCY) || DEFAULT_COMMENT_SYNC_CONCURRENCY;
 
-        // Get posts for this user that have been published to Bluesky
-        const posts = await prisma.post.findMany({
-          where: {
-            userId: user.id,
-            atprotoUri: { not: null },
-            ghostId: { not: null },
-          },
-          select: { id: true, title: true },
-        });
-
-        for (const post of posts) {
-          try {
-            const result = await syncCommentsForPost(
-              post.id,
-              shimClient,
-              user.blueskyHandle!,
-              user.blueskyPassword!
-            );
-            postsProcessed++;
-            totalNewComments += result.newComments;
-            totalErrors += result.errors.length;
-          } catch (err) {
-            console.error(`Failed to sync post ${post.id}:`, err);
-            totalErrors++;
-          }
-        }
+    await runWithConcurrency(due, concurrency, async (user) => {
+      const result = await syncCommentsForUser(user, { force, trigger });
+      summary.usersProcessed++;
+      summary.postsProcessed += result.postsProcessed;
+      summary.totalNewComments += result.newComments;
+      summary.totalErrors += result.errors.length;
+    });
 
-        usersProcessed++;
-      } catch (err) {
-        console.error(`Failed to sync for user ${user.email}:`, err);
-        totalErrors++;
-      }
-    }
+    await prisma.commentSyncRun.deleteMany({
+      where: { startedAt: { lt: new Date(now - COMMENT_SYNC_RUN_RETENTION_DAYS * DAY_MS) } },
+    });
 
     console.log(`✅ Comment sync completed:`);
-    console.log(`   👤 Users processed: ${usersProcessed}`);
-    console.log(`   📝 Posts processed: ${postsProcessed}`);
-    console.log(`   💬 New comments synced: ${totalNewComments}`);
-    if (totalErrors > 0) {
-      console.log(`   ⚠️ Errors: ${totalErrors}`);
+    console.log(`   👤 Users processed: ${summary.usersProcessed}`);
+    console.log(`   📝 Posts processed: ${summary.postsProcessed}`);
+    console.log(`   💬 New comments synced: ${summary.totalNewComments}`);
+    if (summary.totalErrors > 0) {
+      console.log(`   ⚠️ Errors: ${summary.totalErrors}`);
     }
 
-    return {
-      success: true,
-      usersProcessed,
-      postsProcessed,
-      totalNewComments,
-      totalErrors,
-    };
+    return summary;
   } catch (error) {
     console.error('❌ Comment sync failed:', error);
-    return {
-      success: false,
-      usersProcessed,
-      postsProcessed,
-      totalNewComments,
-      totalErrors: totalErrors + 1,
-    };
+    return { ...summary, success: false, totalErrors: summary.totalErrors + 1 };
+  } finally {
+    commentSyncRunning = false;
+  }
+}
+
+/**
+ * Mirror comments written on Ghost back to Bluesky for every user who has turned it on
+ */
+export async function runCommentMirror(): Promise<{ usersProcessed: number; totalPosted: number; totalErrors: number }> {
+  const users = await prisma.user.findMany({
+    where: { reverseCommentSync: true, shimUrl: { not: null }, shimSecret: { not: null } },
+    select: { id: true, email: true },
+  });
+
+  let usersProcessed = 0;
+  let totalPosted = 0;
+  let totalErrors = 0;
+
+  for (const user of users) {
+    try {
+      const result = await mirrorGhostComments(user.id);
+      usersProcessed++;
+      totalPosted += result.posted;
+      totalErrors += result.errors.length;
+    } catch (err) {
+      console.error(`Failed to mirror Ghost comments for user ${user.email}:`, err);
+      totalErrors++;
+    }
+  }
+
+  return { usersProcessed, totalPosted, totalErrors };
+}
+
+/**
+ * Job handler: sync Bluesky replies to Ghost for a single post.
+ * Throws when any reply failed so the queue retries (already-synced replies are skipped).
+ */
+export async function syncPostCommentsJob(job: Job): Promise<void> {
+  const { postId } = job.payload as { postId: string };
+
+  const user = await prisma.user.findUnique({ where: { id: job.userId } });
+  if (!user?.shimUrl || !user.shimSecret || !user.blueskyHandle || !user.blueskyPassword) {
+    throw new Error('Shim or Bluesky credentials are no longer configured');
+  }
+
+  const shimClient = new ShimClient({
+    shimUrl: user.shimUrl,
+    sharedSecret: user.shimSecret,
+  });
+
+  const result = await syncCommentsForPost(postId, shimClient, user.blueskyHandle, user.blueskyPassword);
+  if (result.errors.length > 0) {
+    throw new Error(result.errors.join('; '));
   }
 }
+
+/**
+ * Job handler: turn one reply seen by the Jetstream subscriber into a Ghost comment
+ */
+export async function syncStreamedReplyJob(job: Job): Promise<void> {
+  const { postId, reply } = job.payload as unknown as { postId: string; reply: StreamedReply };
+
+  const post = await prisma.post.findUnique({
+    where: { id: postId },
+    include: { user: true },
+  });
+  if (!post) {
+    throw new Error(`Post not found: ${postId}`);
+  }
+  if (!post.user.shimUrl || !post.user.shimSecret) {
+    throw new Error('Shim is no longer configured');
+  }
+
+  // Jetstream only carries the DID; look up the handle for the comment byline
+  const profile = await createPublicAgent().getProfile({ actor: reply.did });
+
+  const shimClient = new ShimClient({
+    shimUrl: post.user.shimUrl,
+    sharedSecret: post.user.shimSecret,
+  });
+
+  const created = await syncReply(post, {
+    uri: reply.uri,
+    cid: reply.cid || '',
+    author: {
+      did: reply.did,
+      handle: profile.data.handle,
+      displayName: profile.data.displayName,
+      avatar: profile.data.avatar,
+    },
+    record: {
+      text: reply.text,
+      facets: reply.facets,
+      embed: reply.embed,
+      createdAt: reply.createdAt,
+    },
+    parent: { uri: reply.parentUri },
+  }, shimClient);
+
+  if (created) {
+    console.log(`✅ Synced reply ${reply.uri} to Ghost`);
+  }
+}
+
+/**
+ * Job handler: backfill the full reply tree of one post.
+ * Throws when any reply failed so the queue retries (already-synced replies are skipped).
+ */
+export async function backfillPostCommentsJob(job: Job): Promise<void> {
+  const { postId, depth } = job.payload as { postId: string; depth?: number };
+
+  const user = await prisma.user.findUnique({ where: { id: job.userId } });
+  if (!user?.shimUrl || !user.shimSecret) {
+    throw new Error('Shim is no longer configured');
+  }
+
+  const shimClient = new ShimClient({
+    shimUrl: user.shimUrl,
+    sharedSecret: user.shimSecret,
+  });
+
+  const result = await backfillCommentsForPost(postId, shimClient, { depth });
+  console.log(`📚 Backfilled ${result.newComments} comments for post ${postId}`);
+  if (result.errors.length > 0) {
+    throw new Error(result.errors.join('; '));
+  }
+}
+
+/**
+ * Job handler: a bridged reply was deleted or edited on Bluesky (seen by the Jetstream subscriber)
+ */
+export async function syncReplyUpdateJob(job: Job): Promise<void> {
+  const change = job.payload as unknown as StreamedPostChange;
+
+  const mapping = await prisma.commentMapping.findUnique({
+    where: { bskyReplyUri: change.uri },
+    include: { post: { include: { user: true } } },
+  });
+  if (!mapping) {
+    console.log(`No Ghost comment for ${change.uri}, nothing to update`);
+    return;
+  }
+
+  const { shimUrl, shimSecret } = mapping.post.user;
+  if (!shimUrl || !shimSecret) {
+    throw new Error('Shim is no longer configured');
+  }
+
+  const shimClient = new ShimClient({ shimUrl, sharedSecret: shimSecret });
+  if (change.action === 'deleted') {
+    await applyReplyChange(mapping, { action: 'deleted' }, shimClient);
+    return;
+  }
+
+  // A failed lookup throws so the job is retried rather than the edit dropping the images
+  const embed = change.embed ? await fetchReplyEmbed(change.uri) : undefined;
+  await applyReplyChange(
+    mapping,
+    { action: 'edited', text: change.text || '', cid: change.cid || null, facets: change.facets, embed },
+    shimClient
+  );
+}
@@ -1,5 +1,16 @@
-import { AtpAgent, AppBskyFeedDefs, AppBskyFeedGetPostThread } from '@atproto/api';
+import {
+  AtpAgent,
+  AppBskyEmbedImages,
+  AppBskyEmbedRecord,
+  AppBskyEmbedRecordWithMedia,
+  AppBskyFeedDefs,
+  AppBskyFeedGetPostThread,
+  AppBskyRichtextFacet,
+  RichText,
+} from '@atproto/api';
 import dotenv from 'dotenv';
+import { buildExternalEmbed, LinkCardInput } from './link-card';
+import { CommentEmbed } from './shim-client';
 
 dotenv.config();
 
@@ -10,11 +21,17 @@ export interface PostReply {
     did: string;
     handle: string;
     displayName?: string;
+    avatar?: string;
   };
   record: {
     text: string;
     createdAt: string;
+    facets?: AppBskyRichtextFacet.Main[];
+    // Raw embed from the record; only tells us there is something to resolve
+    embed?: unknown;
   };
+  // Images and quoted post, when the source already returned the resolved embed view
+  embed?: CommentEmbed;
   parent?: {
     uri: string;
   };
@@ -33,9 +50,27 @@ export interface BlueskyCredentials {
   password: string;
 }
 
+/**
+ * Build post text with link, mention and hashtag facets.
+ * Mentions that can't be resolved to a DID are dropped instead of being posted as invalid facets.
+ */
+export async function buildRichText(text: string, agent: AtpAgent): Promise<RichText> {
+  const rt = new RichText({ text });
+  await rt.detectFacets(agent);
+
+  if (rt.facets) {
+    rt.facets = rt.facets.filter((facet) =>
+      facet.features.every((feature) => !AppBskyRichtextFacet.isMention(feature) || feature.did)
+    );
+  }
+
+  return rt;
+}
+
 export async function publishToBluesky(
   content: string,
-  credentials?: BlueskyCredentials
+  credentials?: BlueskyCredentials,
+  card?: LinkCardInput
 ): Promise<{ uri: string; cid: string }> {
   const agent = new AtpAgent({
     service: process.env.BLUESKY_SERVICE_URL || 'https://bsky.social'
@@ -55,8 +90,13 @@ export async function publishToBluesky(
       password
     });
 
+    const embed = card ? await buildExternalEmbed(agent, card) : undefined;
+    const rt = await buildRichText(content, agent);
+
     const response = await agent.post({
-      text: content,
+      text: rt.text,
+      facets: rt.facets,
+      embed,
       createdAt: new Date().toISOString()
     });
 
@@ -71,23 +111,34 @@ export async function publishToBluesky(
 }
 
 /**
- * Get replies to user's posts via notifications API (more efficient than getPostThread)
- * Filters notifications for reply events to specific post URIs
+ * Log in to the user's Bluesky account
  */
-export async function getNotificationReplies(
-  credentials: BlueskyCredentials,
-  postUris: string[]
-): Promise<PostReply[]> {
+export async function loginToBluesky(credentials: BlueskyCredentials): Promise<AtpAgent> {
   const agent = new AtpAgent({
     service: process.env.BLUESKY_SERVICE_URL || 'https://bsky.social'
   });
+  await agent.login({
+    identifier: credentials.handle,
+    password: credentials.password
+  });
+  return agent;
+}
 
+/**
+ * Get replies to user's posts via notifications API (more efficient than getPostThread)
+ * Filters notifications for reply events to specific post URIs.
+ * Pass a logged-in `agent` to reuse one session across calls.
+ */
+export async function getNotificationReplies(
+  credentials: BlueskyCredentials,
+  postUris: string[],
+  agent?: AtpAgent
+): Promise<PostReply[]> {
   try {
     // Authenticate
-    await agent.login({
-      identifier: credentials.handle,
-      password: credentials.password
-    });
+    if (!agent) {
+      agent = await loginToBluesky(credentials);
+    }
 
     // Fetch notifications
     const response = await agent.listNotifications({
@@ -131,10 +182,13 @@ export async function getNotificationReplies(
           did: notification.author.did,
           handle: notification.author.handle,
           displayName: notification.author.displayName,
+          avatar: notification.author.avatar,
         },
         record: {
           text: record.text || '',
           createdAt: record.createdAt || notification.indexedAt,
+          facets: record.facets,
+          embed: record.embed,
         },
         parent: {
           uri: parentUri,
@@ -147,4 +201,180 @@ export async function getNotificationReplies(
     console.error('Error fetching notification replies:', error);
     throw new Error(`Failed to fetch notification replies: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
-}
\ No newline at end of file
+}
+export const DEFAULT_BACKFILL_DEPTH = 50;
+export const MAX_BACKFILL_DEPTH = 1000;
+
+// Levels returned by one getPostThread call; deeper branches are fetched again from where they were cut off
+const THREAD_PAGE_DEPTH = 10;
+
+/**
+ * Pull the images and quoted post out of an embed view as the shim expects them.
+ * Videos and link cards aren't carried over; a quote of something other than a post
+ * (a feed, a list) or of a deleted or blocked post is left out.
+ */
+export function embedFromView(view: AppBskyFeedDefs.PostView['embed']): CommentEmbed | undefined {
+  let media: AppBskyFeedDefs.PostView['embed'] | AppBskyEmbedRecordWithMedia.View['media'] = view;
+  let quoted: AppBskyEmbedRecord.View['record'] | undefined;
+
+  if (AppBskyEmbedRecordWithMedia.isView(view)) {
+    media = view.media;
+    quoted = view.record.record;
+  } else if (AppBskyEmbedRecord.isView(view)) {
+    media = undefined;
+    quoted = view.record;
+  }
+
+  const embed: CommentEmbed = {};
+
+  if (AppBskyEmbedImages.isView(media)) {
+    embed.images = media.images.map((image) => ({
+      thumb: image.thumb,
+      fullsize: image.fullsize,
+      alt: image.alt || '',
+    }));
+  }
+
+  if (AppBskyEmbedRecord.isViewRecord(quoted)) {
+    embed.quote = {
+      url: `https://bsky.app/profile/${quoted.author.handle}/post/${quoted.uri.split('/').pop()}`,
+      author_handle: quoted.author.handle,
+      author_name: quoted.author.displayName || undefined,
+      text: String((quoted.value as { text?: string }).text || ''),
+    };
+  }
+
+  return embed.images || embed.quote ? embed : undefined;
+}
+
+/**
+ * Look up a reply's embed view. Notifications and Jetstream only carry the raw record,
+ * which has blob refs instead of image URLs.
+ */
+export async function fetchReplyEmbed(uri: string, agent: AtpAgent = createPublicAgent()): Promise<CommentEmbed | undefined> {
+  const response = await agent.getPosts({ uris: [uri] });
+  return embedFromView(response.data.posts[0]?.embed);
+}
+
+/**
+ * Look up a single reply, with its embed view, for re-sending it. Null when it's gone.
+ */
+export async function fetchReply(uri: string, agent: AtpAgent = createPublicAgent()): Promise<PostReply | null> {
+  const response = await agent.getPosts({ uris: [uri] });
+  const view = response.data.posts[0];
+  if (!view) {
+    return null;
+  }
+
+  const record = view.record as {
+    text?: string;
+    createdAt?: string;
+    facets?: AppBskyRichtextFacet.Main[];
+    reply?: { parent?: { uri: string } };
+  };
+  return {
+    uri: view.uri,
+    cid: view.cid,
+    author: {
+      did: view.author.did,
+      handle: view.author.handle,
+      displayName: view.author.displayName,
+      avatar: view.author.avatar,
+    },
+    record: {
+      text: String(record.text || ''),
+      createdAt: String(record.createdAt || view.indexedAt),
+      facets: record.facets,
+    },
+    embed: embedFromView(view.embed),
+    parent: record.reply?.parent ? { uri: record.reply.parent.uri } : undefined,
+  };
+}
+
+/**
+ * Unauthenticated agent for public AppView reads (threads, profiles)
+ */
+export function createPublicAgent(): AtpAgent {
+  return new AtpAgent({
+    service: process.env.BLUESKY_APPVIEW_URL || 'https://public.api.bsky.app'
+  });
+}
+
+/**
+ * Get every reply under a post by walking getPostThread, down to `depth` levels.
+ * Replies come back parent-before-child with siblings oldest first, so a reply's parent
+ * is always synced before it. The post author's own posts in the thread (e.g. thread-mode
+ * continuations) are walked through but not returned.
+ */
+export async function getThreadReplies(
+  rootUri: string,
+  options: { depth?: number; agent?: AtpAgent } = {}
+): Promise<PostReply[]> {
+  const agent = options.agent || createPublicAgent();
+  const maxDepth = Math.min(Math.max(1, options.depth ?? DEFAULT_BACKFILL_DEPTH), MAX_BACKFILL_DEPTH);
+  const rootDid = rootUri.replace('at://', '').split('/')[0];
+
+  const replies: PostReply[] = [];
+  const seen = new Set<string>();
+
+  const fetchThread = async (uri: string, depth: number) => {
+    const response: AppBskyFeedGetPostThread.Response = await agent.getPostThread({
+      uri,
+      depth: Math.min(depth, THREAD_PAGE_DEPTH),
+      parentHeight: 0,
+    });
+    return AppBskyFeedDefs.isThreadViewPost(response.data.thread) ? response.data.thread : null;
+  };
+
+  const createdAt = (node: AppBskyFeedDefs.ThreadViewPost) =>
+    String((node.post.record as { createdAt?: string }).createdAt || node.post.indexedAt);
+
+  const walk = async (node: AppBskyFeedDefs.ThreadViewPost, level: number): Promise<void> => {
+    if (level >= maxDepth) return;
+
+    let children = node.replies;
+    // The response stops at the page depth; pick the branch up again from this post
+    if (children === undefined && (node.post.replyCount ?? 0) > 0) {
+      children = (await fetchThread(node.post.uri, maxDepth - level))?.replies;
+    }
+
+    const sorted = (children || [])
+      .filter(AppBskyFeedDefs.isThreadViewPost)
+      .sort((a, b) => new Date(createdAt(a)).getTime() - new Date(createdAt(b)).getTime());
+
+    for (const child of sorted) {
+      if (seen.has(child.post.uri)) continue;
+      seen.add(child.post.uri);
+
+      if (child.post.author.did !== rootDid) {
+        replies.push({
+          uri: child.post.uri,
+          cid: child.post.cid,
+          author: {
+            did: child.post.author.did,
+            handle: child.post.author.handle,
+            displayName: child.post.author.displayName,
+            avatar: child.post.author.avatar,
+          },
+          record: {
+            text: String((child.post.record as { text?: string }).text || ''),
+            createdAt: createdAt(child),
+            facets: (child.post.record as { facets?: AppBskyRichtextFacet.Main[] }).facets,
+          },
+          embed: embedFromView(child.post.embed),
+          parent: { uri: node.post.uri },
+        });
+      }
+
+      await walk(child, level + 1);
+    }
+  };
+
+  const root = await fetchThread(rootUri, maxDepth);
+  if (!root) {
+    throw new Error(`Thread not found: ${rootUri}`);
+  }
+
+  await walk(root, 0);
+  return replies;
+}
@@ -0,0 +1,258 @@
+import { AppBskyFeedPost, AtpAgent, RichText } from '@atproto/api';
+
+/**
+ * Bluesky post limit, measured in graphemes
+ */
+export const BLUESKY_MAX_GRAPHEMES = 300;
+
+export type ThreadLinkPosition = 'first' | 'last';
+
+export interface ThreadOptions {
+  title: string;
+  content: string; // Ghost HTML or plain text
+  url?: string;
+  linkPosition?: ThreadLinkPosition;
+  maxPosts?: number;
+  maxGraphemes?: number;
+}
+
+export interface PostRef {
+  uri: string;
+  cid: string;
+}
+
+/**
+ * How far a thread got: the posts published so far (root first) and how many it has
+ */
+export interface ThreadProgress {
+  parts: PostRef[];
+  total: number;
+}
+
+export interface PostThreadOptions {
+  // Embed for the root post, only built when the root still has to be posted
+  embed?: () => Promise<AppBskyFeedPost.Record['embed']>;
+  // Posts an earlier attempt already published, root first
+  resume?: PostRef[];
+  // Called after each post, before the next one goes out
+  onProgress?: (progress: ThreadProgress) => Promise<void>;
+}
+
+interface TextUnit {
+  text: string;
+  startsParagraph: boolean;
+}
+
+const DEFAULT_MAX_POSTS = 10;
+const ELLIPSIS = '…';
+
+export function graphemeLength(text: string): number {
+  return new RichText({ text }).graphemeLength;
+}
+
+/**
+ * Cut text down to at most `max` graphemes
+ */
+function sliceGraphemes(text: string, max: number): string {
+  const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+  let result = '';
+  let count = 0;
+  for (const { segment } of segmenter.segment(text)) {
+    if (count >= max) break;
+    result += segment;
+    count++;
+  }
+  return result;
+}
+
+/**
+ * Shorten text to fit `max` graphemes, ending with an ellipsis on a word boundary when possible
+ */
+export function truncateWithEllipsis(text: string, max: number): string {
+  if (graphemeLength(text) <= max) return text;
+
+  const cut = sliceGraphemes(text, Math.max(0, max - 1));
+  const lastSpace = cut.lastIndexOf(' ');
+  const trimmed = lastSpace > cut.length / 2 ? cut.slice(0, lastSpace) : cut;
+  return `${trimmed.trimEnd()}${ELLIPSIS}`;
+}
+
+/**
+ * Convert Ghost HTML into plain-text paragraphs, keeping block boundaries
+ */
+export function htmlToParagraphs(html: string): string[] {
+  const text = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|h[1-6]|li|blockquote|figcaption|pre|div)>/gi, '\n\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'");
+
+  return text
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/\s+/g, ' ').trim())
+    .filter((p) => p.length > 0);
+}
+
+/**
+ * Break paragraphs into sentence-sized units. Sentences that are too long for a
+ * single post are split on words, and words that are still too long are hard-cut.
+ */
+function toUnits(paragraphs: string[], budget: number): TextUnit[] {
+  const segmenter = new Intl.Segmenter(undefined, { granularity: 'sentence' });
+  const units: TextUnit[] = [];
+
+  for (const paragraph of paragraphs) {
+    let first = true;
+    for (const { segment } of segmenter.segment(paragraph)) {
+      const sentence = segment.trim();
+      if (!sentence) continue;
+
+      if (graphemeLength(sentence) <= budget) {
+        units.push({ text: sentence, startsParagraph: first });
+        first = false;
+        continue;
+      }
+
+      // Sentence is longer than a whole post - fall back to words
+      let current = '';
+      for (const word of sentence.split(' ')) {
+        let remaining = word;
+        while (graphemeLength(remaining) > budget) {
+          if (current) {
+            units.push({ text: current, startsParagraph: first });
+            first = false;
+            current = '';
+          }
+          const head = sliceGraphemes(remaining, budget);
+          units.push({ text: head, startsParagraph: first });
+          first = false;
+          remaining = remaining.slice(head.length);
+        }
+        if (!remaining) continue;
+        const candidate = current ? `${current} ${remaining}` : remaining;
+        if (graphemeLength(candidate) > budget) {
+          units.push({ text: current, startsParagraph: first });
+          first = false;
+          current = remaining;
+        } else {
+          current = candidate;
+        }
+      }
+      if (current) {
+        units.push({ text: current, startsParagraph: first });
+        first = false;
+      }
+    }
+  }
+
+  return units;
+}
+
+/**
+ * Split a Ghost post into the text of each post in a Bluesky thread.
+ *
+ * Splits fall on paragraph or sentence boundaries, every post ends with an
+ * "n/N" marker, and the title plus link are placed in the first post (or the
+ * link in the last post when linkPosition is 'last').
+ */
+export function buildThreadPosts(options: ThreadOptions): string[] {
+  const maxGraphemes = options.maxGraphemes ?? BLUESKY_MAX_GRAPHEMES;
+  const maxPosts = Math.max(1, options.maxPosts ?? DEFAULT_MAX_POSTS);
+  const linkPosition = options.linkPosition ?? 'first';
+  const linkText = options.url ? `🔗 ${options.url}` : '';
+
+  // Reserve room for the largest marker we can produce (" 10/10" etc.)
+  const markerReserve = ` ${maxPosts}/${maxPosts}`.length;
+  const budget = maxGraphemes - markerReserve;
+
+  let header = options.title.trim();
+  if (linkText && linkPosition === 'first') {
+    header = `${header}\n\n${linkText}`;
+  }
+  header = truncateWithEllipsis(header, budget);
+
+  const units = toUnits(htmlToParagraphs(options.content), budget);
+
+  // Greedily pack units into posts, starting after the header
+  const chunks: string[] = [header];
+  for (const unit of units) {
+    const current = chunks[chunks.length - 1];
+    const separator = current ? (unit.startsParagraph ? '\n\n' : ' ') : '';
+    const candidate = `${current}${separator}${unit.text}`;
+
+    if (graphemeLength(candidate) <= budget) {
+      chunks[chunks.length - 1] = candidate;
+    } else {
+      chunks.push(unit.text);
+    }
+  }
+
+  // Drop anything past the post limit and mark the cut
+  if (chunks.length > maxPosts) {
+    chunks.length = maxPosts;
+    chunks[maxPosts - 1] = truncateWithEllipsis(`${chunks[maxPosts - 1]}${ELLIPSIS}`, budget);
+  }
+
+  if (linkText && linkPosition === 'last') {
+    const lastIndex = chunks.length - 1;
+    const withLink = `${chunks[lastIndex]}\n\n${linkText}`;
+
+    if (graphemeLength(withLink) <= budget) {
+      chunks[lastIndex] = withLink;
+    } else if (chunks.length < maxPosts) {
+      chunks.push(linkText);
+    } else {
+      const room = budget - graphemeLength(`\n\n${linkText}`);
+      chunks[lastIndex] = `${truncateWithEllipsis(chunks[lastIndex], room)}\n\n${linkText}`;
+    }
+  }
+
+  if (chunks.length === 1) {
+    return chunks;
+  }
+
+  const total = chunks.length;
+  return chunks.map((chunk, index) => `${chunk} ${index + 1}/${total}`);
+}
+
+/**
+ * Posts of a thread that stopped part way through, to pass as `resume`. Undefined when
+ * there's nothing to finish.
+ */
+export function unfinishedThread(progress: ThreadProgress | null | undefined): PostRef[] | undefined {
+  return progress && progress.parts.length < progress.total ? progress.parts : undefined;
+}
+
+/**
+ * Publish thread parts as a chain of replies and return the root post.
+ *
+ * Parts already in `resume` are skipped and the thread continues from the last of them,
+ * so a retry after a partial failure doesn't post the thread a second time.
+ */
+export async function postThread(agent: AtpAgent, parts: string[], options: PostThreadOptions = {}): Promise<PostRef> {
+  const posted = [...(options.resume || [])];
+
+  for (const part of parts.slice(posted.length)) {
+    const rt = new RichText({ text: part });
+    await rt.detectFacets(agent);
+
+    const root = posted[0];
+    const parent = posted[posted.length - 1];
+    const result = await agent.post({
+      text: rt.text,
+      facets: rt.facets,
+      createdAt: new Date().toISOString(),
+      ...(root ? { reply: { root, parent } } : { embed: await options.embed?.() }),
+    });
+
+    posted.push({ uri: result.uri, cid: result.cid });
+    await options.onProgress?.({ parts: posted, total: parts.length });
+  }
+
+  return posted[0];
+}
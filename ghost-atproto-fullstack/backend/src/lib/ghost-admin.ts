@@ -20,7 +20,7 @@ export interface GhostMember {
 /**
  * Create a JWT token for Ghost Admin API
  */
-function createGhostAdminToken(apiKey: string): string {
+export function createGhostAdminToken(apiKey: string): string {
   const [id, secret] = apiKey.split(':');
   if (!id || !secret) {
     throw new Error('Invalid API key format. Expected format: id:secret');
@@ -68,6 +68,41 @@ export async function createGhostMember(
   return data.members[0];
 }
 
+/**
+ * Update a member's name, note or labels in Ghost
+ */
+export async function updateGhostMember(
+  ghostUrl: string,
+  ghostApiKey: string,
+  memberId: string,
+  memberData: Partial<GhostMemberData>
+): Promise<GhostMember> {
+  const token = createGhostAdminToken(ghostApiKey);
+
+  const url = new URL(ghostUrl);
+  const apiUrl = `${url.origin}/ghost/api/admin/members/${memberId}/`;
+
+  const response = await global.fetch(apiUrl, {
+    method: 'PUT',
+    headers: {
+      'Authorization': `Ghost ${token}`,
+      'Accept-Version': 'v5.0',
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      members: [memberData],
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to update Ghost member: ${response.statusText} - ${errorText}`);
+  }
+
+  const data: any = await response.json();
+  return data.members[0];
+}
+
 /**
  * Get a member by email from Ghost
  */
@@ -0,0 +1,110 @@
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+
+export const JETSTREAM_POST_COLLECTION = 'app.bsky.feed.post';
+
+const DEFAULT_JETSTREAM_URL = 'wss://jetstream2.us-east.bsky.network/subscribe';
+
+/**
+ * A Jetstream commit event (https://github.com/bluesky-social/jetstream).
+ * `time_us` doubles as the cursor for resuming the stream.
+ */
+export interface JetstreamEvent {
+  did: string;
+  time_us: number;
+  kind: 'commit' | 'identity' | 'account';
+  commit?: {
+    rev: string;
+    operation: 'create' | 'update' | 'delete';
+    collection: string;
+    rkey: string;
+    cid?: string;
+    record?: any;
+  };
+}
+
+export interface JetstreamSubscribeOptions {
+  cursor?: number | null;
+  collections?: string[];
+}
+
+/**
+ * A connection to a Jetstream-style feed. Emits `event` (JetstreamEvent), `error` and `close`.
+ */
+export interface JetstreamConnection extends EventEmitter {
+  close(): void;
+}
+
+export interface JetstreamSource {
+  subscribe(options: JetstreamSubscribeOptions): JetstreamConnection;
+}
+
+/**
+ * Jetstream over WebSocket. Uses JETSTREAM_URL when set, otherwise a public instance.
+ */
+export class WebSocketJetstreamSource implements JetstreamSource {
+  constructor(private url: string = process.env.JETSTREAM_URL || DEFAULT_JETSTREAM_URL) {}
+
+  subscribe(options: JetstreamSubscribeOptions): JetstreamConnection {
+    const url = new URL(this.url);
+    for (const collection of options.collections || []) {
+      url.searchParams.append('wantedCollections', collection);
+    }
+    if (options.cursor) {
+      url.searchParams.set('cursor', String(options.cursor));
+    }
+
+    const connection = new EventEmitter() as JetstreamConnection;
+    const socket = new WebSocket(url.toString());
+
+    socket.on('message', (data) => {
+      try {
+        connection.emit('event', JSON.parse(data.toString()) as JetstreamEvent);
+      } catch (error) {
+        connection.emit('error', error);
+      }
+    });
+    socket.on('error', (error) => connection.emit('error', error));
+    socket.on('close', () => connection.emit('close'));
+
+    connection.close = () => socket.close();
+    return connection;
+  }
+}
+
+/**
+ * In-memory event source for tests and local development. Events pushed with `emit`
+ * go to every open connection; `subscriptions` records the options each subscriber used.
+ */
+export class FakeJetstreamSource implements JetstreamSource {
+  readonly subscriptions: JetstreamSubscribeOptions[] = [];
+  private connections = new Set<JetstreamConnection>();
+
+  subscribe(options: JetstreamSubscribeOptions): JetstreamConnection {
+    this.subscriptions.push(options);
+
+    const connection = new EventEmitter() as JetstreamConnection;
+    connection.close = () => {
+      if (this.connections.delete(connection)) {
+        connection.emit('close');
+      }
+    };
+    this.connections.add(connection);
+    return connection;
+  }
+
+  emit(event: JetstreamEvent) {
+    for (const connection of this.connections) {
+      connection.emit('event', event);
+    }
+  }
+
+  /**
+   * Drop every connection, as if the server went away
+   */
+  disconnect() {
+    for (const connection of [...this.connections]) {
+      connection.close();
+    }
+  }
+}
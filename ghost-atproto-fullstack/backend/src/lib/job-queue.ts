@@ -0,0 +1,145 @@
+import { Job, Prisma, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * Job types handled by the worker
+ */
+export const JOB_TYPES = {
+  PUBLISH: 'publish', // Ghost post.published -> Bluesky post
+  POST_UPDATE: 'post_update', // Ghost edits, unpublishes and deletes -> standard.site document / Bluesky post
+  COMMENT_SYNC: 'comment_sync', // Bluesky replies -> Ghost comments for one post
+  REPLY_SYNC: 'reply_sync', // One reply seen on Jetstream -> Ghost comment
+  REPLY_UPDATE: 'reply_update', // A bridged reply deleted or edited on Bluesky -> Ghost comment
+  COMMENT_BACKFILL: 'comment_backfill', // Whole Bluesky reply tree -> Ghost comments for one post
+} as const;
+
+export type JobType = (typeof JOB_TYPES)[keyof typeof JOB_TYPES];
+
+export type JobStatus = 'pending' | 'running' | 'succeeded' | 'dead' | 'discarded';
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+const BACKOFF_BASE_MS = 30_000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+// A running job whose worker hasn't finished within this window is assumed lost
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+/**
+ * Delay before the next attempt: 30s, 1m, 2m, 4m... capped at one hour
+ */
+export function backoffDelay(attempt: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempt - 1), BACKOFF_MAX_MS);
+}
+
+/**
+ * Persist a job. Resolves once the row is written, so callers can acknowledge safely.
+ */
+export async function enqueueJob(
+  type: JobType,
+  payload: Prisma.InputJsonValue,
+  options: { userId: string; postId?: string | null; maxAttempts?: number; runAt?: Date }
+): Promise<Job> {
+  return prisma.job.create({
+    data: {
+      type,
+      payload,
+      userId: options.userId,
+      postId: options.postId || null,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      runAt: options.runAt ?? new Date(),
+    },
+  });
+}
+
+/**
+ * Claim the next due job for a worker. Returns null when nothing is due.
+ * The claim is a conditional update, so two workers can't take the same job.
+ */
+export async function claimNextJob(workerId: string): Promise<Job | null> {
+  const now = new Date();
+
+  // Release jobs held by workers that died mid-run
+  await prisma.job.updateMany({
+    where: { status: 'running', lockedAt: { lt: new Date(now.getTime() - STALE_LOCK_MS) } },
+    data: { status: 'pending', lockedAt: null, lockedBy: null },
+  });
+
+  for (let tries = 0; tries < 3; tries++) {
+    const candidate = await prisma.job.findFirst({
+      where: { status: 'pending', runAt: { lte: now } },
+      orderBy: { runAt: 'asc' },
+    });
+    if (!candidate) return null;
+
+    const claimed = await prisma.job.updateMany({
+      where: { id: candidate.id, status: 'pending' },
+      data: {
+        status: 'running',
+        lockedAt: now,
+        lockedBy: workerId,
+        attempts: { increment: 1 },
+      },
+    });
+
+    if (claimed.count === 1) {
+      return prisma.job.findUnique({ where: { id: candidate.id } });
+    }
+  }
+
+  return null;
+}
+
+export async function completeJob(job: Job): Promise<void> {
+  await prisma.job.update({
+    where: { id: job.id },
+    data: { status: 'succeeded', lockedAt: null, lockedBy: null, lastError: null },
+  });
+}
+
+/**
+ * Record a failed attempt: schedule a retry with backoff, or dead-letter the job
+ * once it has used all its attempts
+ */
+export async function failJob(job: Job, error: unknown): Promise<JobStatus> {
+  const message = error instanceof Error ? error.message : String(error);
+  const dead = job.attempts >= job.maxAttempts;
+
+  await prisma.job.update({
+    where: { id: job.id },
+    data: {
+      status: dead ? 'dead' : 'pending',
+      runAt: dead ? job.runAt : new Date(Date.now() + backoffDelay(job.attempts)),
+      lockedAt: null,
+      lockedBy: null,
+      lastError: message,
+    },
+  });
+
+  return dead ? 'dead' : 'pending';
+}
+
+/**
+ * Run a failed or waiting job as soon as possible. Dead jobs get one more attempt.
+ */
+export async function retryJob(job: Job): Promise<Job> {
+  return prisma.job.update({
+    where: { id: job.id },
+    data: {
+      status: 'pending',
+      runAt: new Date(),
+      maxAttempts: Math.max(job.maxAttempts, job.attempts + 1),
+    },
+  });
+}
+
+/**
+ * Give up on a job without running it again
+ */
+export async function discardJob(job: Job): Promise<Job> {
+  return prisma.job.update({
+    where: { id: job.id },
+    data: { status: 'discarded', lockedAt: null, lockedBy: null },
+  });
+}
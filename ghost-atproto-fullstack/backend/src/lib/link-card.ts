@@ -0,0 +1,242 @@
+import { $Typed, AtpAgent, AppBskyEmbedExternal } from '@atproto/api';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import sharp from 'sharp';
+
+/**
+ * Bluesky rejects external-embed thumbnails larger than this (bytes)
+ */
+export const MAX_THUMB_BYTES = 976_560;
+
+/**
+ * Largest source image we'll download before resizing (bytes)
+ */
+export const MAX_SOURCE_BYTES = 10 * 1024 * 1024;
+
+const THUMB_MAX_DIMENSION = 1200;
+const FETCH_TIMEOUT_MS = 8000;
+const MAX_REDIRECTS = 3;
+
+export interface LinkCardInput {
+  uri: string;
+  title: string;
+  description?: string | null;
+  imageUrl?: string | null;
+}
+
+/**
+ * Whether an address is loopback, link-local, private or otherwise not on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168);
+  }
+
+  const lower = address.toLowerCase();
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    return isPrivateAddress(mapped[1]);
+  }
+  return lower === '::' || lower === '::1' ||
+    /^f[cd]/.test(lower) ||   // unique local, fc00::/7
+    /^fe[89ab]/.test(lower) || // link-local, fe80::/10
+    /^ff/.test(lower);         // multicast
+}
+
+/**
+ * Only fetch thumbnails over http(s), and never from an IP address that isn't public.
+ * Hostnames are checked by publicLookup as the connection is made.
+ */
+function checkThumbnailUrl(imageUrl: string): URL {
+  const url = new URL(imageUrl);
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported thumbnail URL scheme: ${url.protocol}`);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(hostname) && isPrivateAddress(hostname)) {
+    throw new Error(`Thumbnail host is not a public address: ${url.hostname}`);
+  }
+  return url;
+}
+
+/**
+ * dns.lookup for thumbnail requests that refuses hosts resolving to a private address, so a
+ * post's feature image can't point the server at itself or the local network. The socket
+ * connects to the address checked here, so a host can't pass the check and then resolve
+ * somewhere else for the connection (DNS rebinding).
+ */
+export function publicLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+      callback(new Error(`Thumbnail host is not a public address: ${hostname}`), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+/**
+ * GET a URL through publicLookup, without following redirects
+ */
+function getThumbnailSource(url: URL, signal: AbortSignal): Promise<http.IncomingMessage> {
+  const client = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    client
+      .get(url, { lookup: publicLookup as unknown as net.LookupFunction, signal }, resolve)
+      .on('error', reject);
+  });
+}
+
+/**
+ * Read a response body, giving up once it passes `limit` bytes
+ */
+async function readBodyWithLimit(response: http.IncomingMessage, limit: number): Promise<Buffer> {
+  const declared = Number(response.headers['content-length']);
+  if (declared > limit) {
+    response.destroy();
+    throw new Error(`Thumbnail source is too large (${declared} bytes)`);
+  }
+
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of response) {
+    total += chunk.length;
+    if (total > limit) {
+      response.destroy();
+      throw new Error(`Thumbnail source is larger than ${limit} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function isRedirect(response: http.IncomingMessage): boolean {
+  const status = response.statusCode || 0;
+  return status >= 300 && status < 400 && !!response.headers.location;
+}
+
+/**
+ * Download an image and re-encode it as a JPEG under the blob size limit.
+ * Returns null when the image can't be fetched or decoded, is too large to download,
+ * or isn't on a public http(s) URL.
+ */
+export async function fetchThumbnail(imageUrl: string): Promise<Buffer | null> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    // Follow redirects ourselves so every hop is checked
+    let url = checkThumbnailUrl(imageUrl);
+    let response = await getThumbnailSource(url, controller.signal);
+    for (let hops = 0; isRedirect(response); hops++) {
+      response.destroy();
+      if (hops === MAX_REDIRECTS) {
+        throw new Error('Too many redirects');
+      }
+      url = checkThumbnailUrl(new URL(response.headers.location!, url).toString());
+      response = await getThumbnailSource(url, controller.signal);
+    }
+
+    const status = response.statusCode || 0;
+    if (status < 200 || status >= 300) {
+      response.destroy();
+      clearTimeout(timeoutId);
+      console.warn(`Thumbnail fetch failed (${status}): ${imageUrl}`);
+      return null;
+    }
+
+    const original = await readBodyWithLimit(response, MAX_SOURCE_BYTES);
+    clearTimeout(timeoutId);
+
+    // Step quality and size down until the image fits
+    let dimension = THUMB_MAX_DIMENSION;
+    for (const quality of [85, 75, 65, 55, 45]) {
+      const resized = await sharp(original)
+        .rotate()
+        .resize({ width: dimension, height: dimension, fit: 'inside', withoutEnlargement: true })
+        .jpeg({ quality, mozjpeg: true })
+        .toBuffer();
+
+      if (resized.length <= MAX_THUMB_BYTES) {
+        return resized;
+      }
+      dimension = Math.round(dimension * 0.8);
+    }
+
+    console.warn(`Thumbnail still too large after resizing: ${imageUrl}`);
+    return null;
+  } catch (error) {
+    clearTimeout(timeoutId);
+    console.warn('Thumbnail processing failed:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Build an app.bsky.embed.external card for a Ghost post.
+ * The thumbnail is optional - any failure fetching or uploading it leaves the card without one.
+ */
+export async function buildExternalEmbed(
+  agent: AtpAgent,
+  card: LinkCardInput
+): Promise<$Typed<AppBskyEmbedExternal.Main>> {
+  const external: AppBskyEmbedExternal.External = {
+    uri: card.uri,
+    title: card.title,
+    description: card.description || '',
+  };
+
+  if (card.imageUrl) {
+    const thumbnail = await fetchThumbnail(card.imageUrl);
+    if (thumbnail) {
+      try {
+        const upload = await agent.uploadBlob(thumbnail, { encoding: 'image/jpeg' });
+        external.thumb = upload.data.blob;
+      } catch (error) {
+        console.warn('Thumbnail upload failed, posting card without image:', error);
+      }
+    }
+  }
+
+  return {
+    $type: 'app.bsky.embed.external',
+    external,
+  };
+}
+
+/**
+ * Describe the card buildExternalEmbed would create, without fetching or uploading the thumbnail
+ */
+export function previewExternalEmbed(card: LinkCardInput) {
+  return {
+    $type: 'app.bsky.embed.external' as const,
+    external: {
+      uri: card.uri,
+      title: card.title,
+      description: card.description || '',
+      // Downloaded, resized and uploaded as a blob at publish time
+      thumb: card.imageUrl ? { imageUrl: card.imageUrl, maxBytes: MAX_THUMB_BYTES } : undefined,
+    },
+  };
+}
@@ -0,0 +1,212 @@
+import {
+  BLUESKY_MAX_GRAPHEMES,
+  graphemeLength,
+  htmlToParagraphs,
+  truncateWithEllipsis,
+} from './bluesky-thread';
+
+/**
+ * Variables available to Bluesky post templates
+ */
+export interface TemplateVariables {
+  title: string;
+  excerpt: string;
+  url: string;
+  tags: string;
+  author: string;
+}
+
+export type TemplateVariable = keyof TemplateVariables;
+
+export const TEMPLATE_VARIABLES: TemplateVariable[] = ['title', 'excerpt', 'url', 'tags', 'author'];
+
+/**
+ * Matches the layout posts had before templates existed
+ */
+export const DEFAULT_POST_TEMPLATE = '{{title}}\n\n{{excerpt}}{{#url}}\n\n🔗 {{url}}{{/url}}';
+
+// Order in which variables give up space when the post is too long.
+// URLs are never shortened - a cut link is worse than no link.
+const SHORTEN_ORDER: TemplateVariable[] = ['excerpt', 'tags', 'author', 'title'];
+
+const SECTION_PATTERN = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const TAG_PATTERN = /\{\{([#^/]?)(\w+)\}\}/g;
+
+type Piece = { text: string } | { variable: TemplateVariable };
+
+const isVariable = (name: string): name is TemplateVariable =>
+  (TEMPLATE_VARIABLES as string[]).includes(name);
+
+/**
+ * Check a template for unknown placeholders and unbalanced sections.
+ * Returns an error message, or null when the template is valid.
+ */
+export function validateTemplate(template: string): string | null {
+  const open: string[] = [];
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const [, marker, name] = match;
+    if (!isVariable(name)) {
+      return `Unknown placeholder {{${marker}${name}}}`;
+    }
+    if (marker === '#' || marker === '^') {
+      open.push(name);
+    } else if (marker === '/') {
+      const expected = open.pop();
+      if (expected !== name) {
+        return expected
+          ? `Section {{#${expected}}} is closed by {{/${name}}}`
+          : `{{/${name}}} has no matching opening section`;
+      }
+    }
+  }
+
+  if (open.length > 0) {
+    return `Section {{#${open[open.length - 1]}}} is never closed`;
+  }
+
+  // Sections are resolved in a single pass, so they can't nest
+  for (const [, , , body] of template.matchAll(SECTION_PATTERN)) {
+    if (/\{\{[#^/]/.test(body)) {
+      return 'Sections cannot be nested';
+    }
+  }
+
+  const fixedText = template.replace(SECTION_PATTERN, '$3').replace(TAG_PATTERN, '');
+  if (graphemeLength(fixedText) > BLUESKY_MAX_GRAPHEMES) {
+    return `Template text is longer than ${BLUESKY_MAX_GRAPHEMES} characters before any variables`;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve sections and split the template into literal text and variables.
+ * `{{#name}}...{{/name}}` renders when the variable is non-empty, `{{^name}}...{{/name}}` when it is empty.
+ */
+function parseTemplate(template: string, variables: TemplateVariables): Piece[] {
+  const resolved = template.replace(SECTION_PATTERN, (_match, marker: string, name: string, body: string) => {
+    const present = isVariable(name) && variables[name].trim().length > 0;
+    return (marker === '#') === present ? body : '';
+  });
+
+  const pieces: Piece[] = [];
+  let lastIndex = 0;
+  for (const match of resolved.matchAll(TAG_PATTERN)) {
+    const [tag, marker, name] = match;
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      pieces.push({ text: resolved.slice(lastIndex, index) });
+    }
+    if (!marker && isVariable(name)) {
+      pieces.push({ variable: name });
+    }
+    lastIndex = index + tag.length;
+  }
+  if (lastIndex < resolved.length) {
+    pieces.push({ text: resolved.slice(lastIndex) });
+  }
+
+  return pieces;
+}
+
+/**
+ * Shorten one variable to at most `max` graphemes. Tags are dropped whole rather than cut.
+ */
+function shortenValue(name: TemplateVariable, value: string, max: number): string {
+  if (max <= 1) return '';
+
+  if (name === 'tags') {
+    const tags = value.split(' ');
+    while (tags.length > 0 && graphemeLength(tags.join(' ')) > max) {
+      tags.pop();
+    }
+    return tags.join(' ');
+  }
+
+  return truncateWithEllipsis(value, max);
+}
+
+/**
+ * Render a post template, shortening variable values (never the template's own text)
+ * until the result fits in a single Bluesky post.
+ */
+export function renderPostTemplate(
+  template: string,
+  variables: TemplateVariables,
+  maxGraphemes: number = BLUESKY_MAX_GRAPHEMES
+): string {
+  const pieces = parseTemplate(template, variables);
+  const values: TemplateVariables = { ...variables };
+
+  const render = () =>
+    pieces
+      .map((piece) => ('text' in piece ? piece.text : values[piece.variable]))
+      .join('')
+      .trim();
+
+  for (const name of SHORTEN_ORDER) {
+    const excess = graphemeLength(render()) - maxGraphemes;
+    if (excess <= 0) break;
+
+    const occurrences = pieces.filter((piece) => 'variable' in piece && piece.variable === name).length;
+    if (occurrences === 0 || !values[name]) continue;
+
+    const target = graphemeLength(values[name]) - Math.ceil(excess / occurrences);
+    values[name] = shortenValue(name, values[name], target);
+  }
+
+  const text = render();
+  if (graphemeLength(text) > maxGraphemes) {
+    throw new Error(`Post template does not fit in ${maxGraphemes} characters`);
+  }
+  return text;
+}
+
+/**
+ * Turn Ghost tag names into hashtags, skipping Ghost's internal (#-prefixed) tags
+ */
+export function formatHashtags(tagNames: string[]): string {
+  return tagNames
+    .filter((name) => name && !name.startsWith('#'))
+    .map((name) => `#${name.replace(/[^\p{L}\p{N}_]/gu, '')}`)
+    .filter((tag) => tag.length > 1)
+    .join(' ');
+}
+
+/**
+ * Build template variables from a stored post
+ */
+export function templateVariablesFromPost(post: {
+  title: string;
+  content: string;
+  excerpt?: string | null;
+  ghostUrl?: string | null;
+  tags?: string | null;
+  authorName?: string | null;
+}): TemplateVariables {
+  const excerpt = post.excerpt?.trim() || htmlToParagraphs(post.content).join(' ');
+
+  return {
+    title: post.title,
+    excerpt,
+    url: post.ghostUrl || '',
+    tags: formatHashtags(post.tags ? post.tags.split(',').map((tag) => tag.trim()) : []),
+    author: post.authorName || '',
+  };
+}
+
+/**
+ * Pull tag names and the primary author from a Ghost post (webhook payload or Admin API)
+ */
+export function ghostPostTemplateFields(ghostPost: any): { tags: string | null; authorName: string | null } {
+  const tagNames: string[] = Array.isArray(ghostPost?.tags)
+    ? ghostPost.tags.map((tag: any) => String(tag?.name || '')).filter(Boolean)
+    : [];
+  const author = ghostPost?.primary_author || ghostPost?.authors?.[0];
+
+  return {
+    tags: tagNames.length > 0 ? tagNames.join(',') : null,
+    authorName: author?.name || null,
+  };
+}
@@ -1,7 +1,22 @@
+import { AppBskyRichtextFacet } from '@atproto/api';
+import crypto from 'crypto';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
+/**
+ * Images and quoted post attached to a reply, rendered below the comment text by the shim
+ */
+export interface CommentEmbed {
+  images?: { thumb: string; fullsize: string; alt: string }[];
+  quote?: {
+    url: string;
+    author_handle: string;
+    author_name?: string;
+    text: string;
+  };
+}
+
 export interface CreateCommentRequest {
   post_id: string;
   bsky_handle: string;
@@ -10,15 +25,126 @@ export interface CreateCommentRequest {
   comment_text: string;
   parent_comment_id: string | null;
   created_at: string;
+  // Ghost member to post as; the shim's shared Bluesky member when omitted
+  member_id?: string | null;
+  // The reply's AT-URI; the shim returns the existing comment when it sees one again
+  bsky_reply_uri?: string;
+  // Rich text facets (links, mentions, hashtags), rendered as links by the shim
+  facets?: AppBskyRichtextFacet.Main[];
+  embed?: CommentEmbed;
 }
 
 export interface CreateCommentResponse {
   comment_id: string;
+  // Set when Ghost was unreachable and the shim queued the comment in its outbox; it will
+  // land under comment_id once Ghost is back
+  status?: ShimOutboxStatus;
+}
+
+/**
+ * One comment of a batch. Later items can name an earlier one as their parent by its
+ * temp_id, before it has a Ghost ID.
+ */
+export interface BatchCommentItem extends CreateCommentRequest {
+  temp_id: string;
+  parent_temp_id?: string | null;
+}
+
+export interface BatchCreateCommentsResponse {
+  // In request order; created is false when the reply was already in Ghost. Items the shim
+  // sent to its outbox also carry their outbox status.
+  comments: { temp_id: string; comment_id: string; created: boolean; queued?: boolean; status?: ShimOutboxStatus }[];
+}
+
+export type ShimOutboxStatus = 'queued' | 'delivered' | 'failed';
+
+/**
+ * A comment the shim queued while Ghost's database was unreachable
+ */
+export interface ShimOutboxItem {
+  comment_id: string;
+  status: ShimOutboxStatus;
+  attempts: number;
+  last_error: string | null;
+  queued_at: string;
+  delivered_at: string | null;
+}
+
+export type ShimCommentStatus = 'published' | 'hidden' | 'deleted';
+
+/**
+ * Status change and/or new text for an existing comment. The html is rebuilt by the shim,
+ * so new text has to come with the handle and URLs.
+ */
+export interface UpdateCommentRequest {
+  status?: ShimCommentStatus;
+  comment_text?: string;
+  bsky_handle?: string;
+  bsky_profile_url?: string;
+  bsky_post_url?: string;
+  facets?: AppBskyRichtextFacet.Main[];
+  embed?: CommentEmbed;
+}
+
+export interface UpdateCommentResponse {
+  comment_id: string;
+  status: ShimCommentStatus;
+}
+
+/**
+ * A comment as stored in Ghost, whoever wrote it
+ */
+export interface ShimCommentDetails {
+  comment_id: string;
+  post_id: string;
+  member_id: string | null;
+  parent_id: string | null;
+  status: ShimCommentStatus;
+  html: string;
+  created_at: string;
+  updated_at: string | null;
+}
+
+/**
+ * A comment written on the Ghost site (not by a Bluesky member)
+ */
+export interface ShimComment {
+  id: string;
+  post_id: string;
+  parent_id: string | null;
+  member_name: string | null;
+  html: string;
+  created_at: string;
+}
+
+export interface ListCommentsResponse {
+  comments: ShimComment[];
+  has_more: boolean;
 }
 
 export interface ShimClientConfig {
   shimUrl: string;
   sharedSecret: string;
+  // Sent as X-Request-Id so the shim's logs can be matched to ours; a fresh ID per call
+  // when not set
+  requestId?: string;
+}
+
+/**
+ * Headers that sign a shim request: HMAC-SHA256 over the method, path, timestamp, nonce
+ * and body hash, so the shared secret itself never goes over the wire
+ */
+function signatureHeaders(secret: string, method: string, path: string, body: string): Record<string, string> {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const nonce = crypto.randomBytes(16).toString('hex');
+  const bodyHash = crypto.createHash('sha256').update(body).digest('hex');
+  const payload = [method.toUpperCase(), path, timestamp, nonce, bodyHash].join('\n');
+
+  return {
+    'X-Bridge-Timestamp': timestamp,
+    'X-Bridge-Nonce': nonce,
+    'X-Bridge-Signature': crypto.createHmac('sha256', secret).update(payload).digest('hex'),
+  };
 }
 
 export class ShimClient {
@@ -29,19 +155,23 @@ export class ShimClient {
   }
 
   /**
-   * Create a comment in Ghost via the shim
+   * Send a signed JSON request to the shim. `path` is what gets signed, so it must be the
+   * path the shim sees (shimUrl can carry a prefix a reverse proxy strips).
    */
-  async createComment(request: CreateCommentRequest): Promise<CreateCommentResponse> {
-    const url = `${this.config.shimUrl}/comments`;
+  private async send<T>(method: string, path: string, action: string, body?: unknown): Promise<T> {
+    const url = `${this.config.shimUrl}${path}`;
+    const payload = body === undefined ? undefined : JSON.stringify(body);
+    const requestId = this.config.requestId || crypto.randomUUID();
 
     try {
       const response = await fetch(url, {
-        method: 'POST',
+        method,
         headers: {
-          'Authorization': `Bearer ${this.config.sharedSecret}`,
+          ...signatureHeaders(this.config.sharedSecret, method, path, payload || ''),
           'Content-Type': 'application/json',
+          'X-Request-Id': requestId,
         },
-        body: JSON.stringify(request),
+        body: payload,
       });
 
       if (!response.ok) {
@@ -49,13 +179,66 @@ export class ShimClient {
         throw new Error(`Shim API error (${response.status}): ${errorData.error || response.statusText}`);
       }
 
-      return await response.json() as CreateCommentResponse;
+      return await response.json() as T;
     } catch (error) {
-      console.error('Error calling shim:', error);
-      throw new Error(`Failed to create comment via shim: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`Error calling shim (request ${requestId}):`, error);
+      throw new Error(`Failed to ${action} via shim: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * List comments written on the Ghost site at or after `since`, oldest first. With
+   * `afterId`, comments from that same second up to and including it are skipped.
+   */
+  async listComments(since: string, limit?: number, afterId?: string | null): Promise<ListCommentsResponse> {
+    const query = new URLSearchParams({ since });
+    if (limit !== undefined) query.set('limit', String(limit));
+    if (afterId) query.set('after_id', afterId);
+    return this.send<ListCommentsResponse>('GET', `/comments?${query}`, 'list comments');
+  }
+
+  /**
+   * Create a comment in Ghost via the shim
+   */
+  async createComment(request: CreateCommentRequest): Promise<CreateCommentResponse> {
+    return this.send<CreateCommentResponse>('POST', '/comments', 'create comment', request);
+  }
+
+  /**
+   * Create up to 100 comments in one transaction; either all of them land or none do
+   */
+  async createComments(comments: BatchCommentItem[]): Promise<BatchCreateCommentsResponse> {
+    return this.send<BatchCreateCommentsResponse>('POST', '/comments/batch', 'create comments', { comments });
+  }
+
+  /**
+   * Look up a comment in Ghost. Soft-deleted comments come back with status 'deleted'.
+   */
+  async getComment(commentId: string): Promise<ShimCommentDetails> {
+    return this.send<ShimCommentDetails>('GET', `/comments/${commentId}`, 'look up comment');
+  }
+
+  /**
+   * Check on a comment the shim queued in its outbox (a 202 from createComment(s))
+   */
+  async getOutboxItem(commentId: string): Promise<ShimOutboxItem> {
+    return this.send<ShimOutboxItem>('GET', `/comments/outbox/${commentId}`, 'look up outbox item');
+  }
+
+  /**
+   * Change a comment's status or rewrite its text
+   */
+  async updateComment(commentId: string, request: UpdateCommentRequest): Promise<UpdateCommentResponse> {
+    return this.send<UpdateCommentResponse>('PATCH', `/comments/${commentId}`, 'update comment', request);
+  }
+
+  /**
+   * Soft-delete a comment (Ghost keeps the row with status 'deleted')
+   */
+  async deleteComment(commentId: string): Promise<UpdateCommentResponse> {
+    return this.send<UpdateCommentResponse>('DELETE', `/comments/${commentId}`, 'delete comment');
+  }
+
   /**
    * Health check for the shim
    */
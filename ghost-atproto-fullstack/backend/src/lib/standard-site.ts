@@ -96,6 +96,55 @@ export async function createPublication(
   }
 }
 
+export interface DocumentPost {
+  title: string;
+  content: string;
+  slug: string;
+  publishedAt: Date | string;
+  excerpt?: string;
+}
+
+/**
+ * Build the record body for a site.standard.document
+ */
+export function buildDocumentRecord(publicationUri: string, post: DocumentPost): Record<string, unknown> {
+  // Convert HTML content to plain text for textContent field
+  const textContent = post.excerpt || stripHtml(post.content).substring(0, 500);
+
+  // Format path (ensure it starts with /)
+  const path = post.slug.startsWith('/') ? post.slug : `/${post.slug}`;
+
+  // Ensure publishedAt is ISO string
+  const publishedAt =
+    typeof post.publishedAt === 'string'
+      ? post.publishedAt
+      : post.publishedAt.toISOString();
+
+  return {
+    $type: 'site.standard.document',
+    title: post.title,
+    site: publicationUri,
+    path,
+    content: post.content,
+    textContent,
+    publishedAt,
+  };
+}
+
+/**
+ * Split an AT-URI into repo, collection and rkey
+ * Format: at://did:plc:xxx/collection/rkey
+ */
+function parseRecordUri(uri: string): { repo: string; collection: string; rkey: string } {
+  const parts = uri.replace('at://', '').split('/');
+  if (parts.length !== 3) {
+    throw new Error(`Invalid record URI format: ${uri}`);
+  }
+
+  const [repo, collection, rkey] = parts;
+  return { repo, collection, rkey };
+}
+
 /**
  * Create a site.standard.document record
  * This represents an individual blog post/article
@@ -103,45 +152,17 @@ export async function createPublication(
 export async function createDocument(
   agent: AtpAgent,
   publicationUri: string,
-  post: {
-    title: string;
-    content: string;
-    slug: string;
-    publishedAt: Date | string;
-    excerpt?: string;
-  }
+  post: DocumentPost
 ): Promise<DocumentResult> {
   try {
     if (!agent.session) {
       throw new Error('Agent must be authenticated');
     }
 
-    // Convert HTML content to plain text for textContent field
-    const textContent = post.excerpt || stripHtml(post.content).substring(0, 500);
-
-    // Format path (ensure it starts with /)
-    const path = post.slug.startsWith('/') ? post.slug : `/${post.slug}`;
-
-    // Ensure publishedAt is ISO string
-    const publishedAt =
-      typeof post.publishedAt === 'string'
-        ? post.publishedAt
-        : post.publishedAt.toISOString();
-
-    const record: Record<string, unknown> = {
-      $type: 'site.standard.document',
-      title: post.title,
-      site: publicationUri,
-      path,
-      content: post.content,
-      textContent,
-      publishedAt,
-    };
-
     const response = await agent.com.atproto.repo.createRecord({
       repo: agent.session.did,
       collection: 'site.standard.document',
-      record,
+      record: buildDocumentRecord(publicationUri, post),
     });
 
     return {
@@ -156,6 +177,65 @@ export async function createDocument(
   }
 }
 
+/**
+ * Rewrite an existing site.standard.document record in place (keeps the same URI)
+ */
+export async function updateDocument(
+  agent: AtpAgent,
+  documentUri: string,
+  publicationUri: string,
+  post: DocumentPost
+): Promise<DocumentResult> {
+  try {
+    if (!agent.session) {
+      throw new Error('Agent must be authenticated');
+    }
+
+    const { collection, rkey } = parseRecordUri(documentUri);
+
+    const response = await agent.com.atproto.repo.putRecord({
+      repo: agent.session.did,
+      collection,
+      rkey,
+      record: buildDocumentRecord(publicationUri, post),
+    });
+
+    return {
+      uri: response.data.uri,
+      cid: response.data.cid,
+    };
+  } catch (error) {
+    console.error('Error updating document:', error);
+    throw new Error(
+      `Failed to update document: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Delete a site.standard.document record
+ */
+export async function deleteDocument(agent: AtpAgent, documentUri: string): Promise<void> {
+  try {
+    if (!agent.session) {
+      throw new Error('Agent must be authenticated');
+    }
+
+    const { collection, rkey } = parseRecordUri(documentUri);
+
+    await agent.com.atproto.repo.deleteRecord({
+      repo: agent.session.did,
+      collection,
+      rkey,
+    });
+  } catch (error) {
+    console.error('Error deleting document:', error);
+    throw new Error(
+      `Failed to delete document: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
 /**
  * Get existing publication URI for a user, or create one if it doesn't exist
  */
@@ -219,13 +299,7 @@ export async function verifyPublication(
     }
 
     // Parse the URI to get repo, collection, and rkey
-    // Format: at://did:plc:xxx/site.standard.publication/rkey
-    const parts = publicationUri.replace('at://', '').split('/');
-    if (parts.length !== 3) {
-      throw new Error('Invalid publication URI format');
-    }
-
-    const [repo, collection, rkey] = parts;
+    const { repo, collection, rkey } = parseRecordUri(publicationUri);
 
     // Try to fetch the record
     const response = await agent.com.atproto.repo.getRecord({
@@ -1,19 +1,69 @@
 import express from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Post, User } from '@prisma/client';
 import { AtpAgent } from '@atproto/api';
-import { publishToBluesky } from '../lib/atproto';
+import { buildRichText, publishToBluesky } from '../lib/atproto';
 import bcrypt from 'bcryptjs';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
 import {
   getOrCreatePublication,
   createDocument,
+  buildDocumentRecord,
+  DocumentPost,
   PublicationMetadata,
 } from '../lib/standard-site';
 import { fetchGhostSiteMetadata } from '../lib/ghost-admin';
+import { DEFAULT_POST_TEMPLATE, renderPostTemplate, templateVariablesFromPost } from '../lib/post-template';
+import { LinkCardInput, previewExternalEmbed } from '../lib/link-card';
+import { BLUESKY_MAX_GRAPHEMES, graphemeLength } from '../lib/bluesky-thread';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
+/**
+ * Whether the user wrote their own social post text
+ */
+function hasCustomText(customText: unknown): customText is string {
+  return typeof customText === 'string' && customText.trim().length > 0;
+}
+
+/**
+ * Text of the social post: customText overrides the user's post template for this one post.
+ * Throws when the template can't be rendered.
+ */
+function resolveSocialText(user: User, post: Post, customText: unknown): string {
+  if (hasCustomText(customText)) {
+    return customText;
+  }
+  return renderPostTemplate(user.blueskyPostTemplate || DEFAULT_POST_TEMPLATE, templateVariablesFromPost(post));
+}
+
+/**
+ * Link preview card pointing back to the Ghost post
+ */
+function linkCardForPost(post: Post): LinkCardInput | undefined {
+  return post.ghostUrl
+    ? {
+        uri: post.ghostUrl,
+        title: post.title,
+        description: post.excerpt,
+        imageUrl: post.featureImage,
+      }
+    : undefined;
+}
+
+/**
+ * Fields of a post that go into its site.standard.document record
+ */
+function documentPostFor(post: Post): DocumentPost {
+  return {
+    title: post.title,
+    content: post.content,
+    slug: post.slug,
+    publishedAt: post.publishedAt || new Date(),
+    excerpt: post.excerpt || undefined,
+  };
+}
+
 // Publish post to ATProto/Bluesky (requires authentication)
 router.post('/publish', authenticateToken, async (req: any, res) => {
   try {
@@ -74,6 +124,17 @@ router.post('/publish', authenticateToken, async (req: any, res) => {
       });
     }
 
+    let socialText: string;
+    try {
+      socialText = resolveSocialText(user, post, customText);
+    } catch (templateError) {
+      return res.status(400).json({
+        error: templateError instanceof Error ? templateError.message : 'Failed to render post template'
+      });
+    }
+
+    const linkCard = linkCardForPost(post);
+
     // Check if user has standard.site enabled
     if (user.useStandardSite) {
       // ===== STANDARD.SITE PUBLISHING =====
@@ -129,13 +190,7 @@ router.post('/publish', authenticateToken, async (req: any, res) => {
       console.log('Publication ready:', publication.uri);
 
       // Create document record for this post
-      const documentResult = await createDocument(agent, publication.uri, {
-        title: post.title,
-        content: post.content,
-        slug: post.slug,
-        publishedAt: post.publishedAt || new Date(),
-        excerpt: post.excerpt || undefined,
-      });
+      const documentResult = await createDocument(agent, publication.uri, documentPostFor(post));
 
       console.log('Document created:', documentResult.uri);
 
@@ -143,14 +198,15 @@ router.post('/publish', authenticateToken, async (req: any, res) => {
       let socialPostUri = null;
       let socialPostCid = null;
 
-      if (user.standardSiteDualPost && customText) {
+      // Dual posting only adds a social post when the user wrote one
+      if (user.standardSiteDualPost && hasCustomText(customText)) {
         console.log('Dual posting: creating social post...');
         try {
-          if (customText.trim().length > 0 && customText.length <= 300) {
-            const socialResult = await publishToBluesky(customText, {
+          if (graphemeLength(socialText) <= BLUESKY_MAX_GRAPHEMES) {
+            const socialResult = await publishToBluesky(socialText, {
               handle: user.blueskyHandle,
               password: user.blueskyPassword
-            });
+            }, linkCard);
             socialPostUri = socialResult.uri;
             socialPostCid = socialResult.cid;
             console.log('Social post created:', socialPostUri);
@@ -201,8 +257,8 @@ router.post('/publish', authenticateToken, async (req: any, res) => {
       // ===== LEGACY PUBLISHING (social post) =====
       console.log('Publishing using legacy format (social post)...');
 
-      // Use the customText directly - user has full control
-      const blueskyContent = customText;
+      // customText gives the user full control; otherwise the rendered template is used
+      const blueskyContent = socialText;
 
       if (!blueskyContent || blueskyContent.trim().length === 0) {
         return res.status(400).json({
@@ -210,10 +266,11 @@ router.post('/publish', authenticateToken, async (req: any, res) => {
         });
       }
 
-      // Bluesky character limit is 300
-      if (blueskyContent.length > 300) {
+      // Bluesky limit is 300 graphemes
+      const contentLength = graphemeLength(blueskyContent);
+      if (contentLength > BLUESKY_MAX_GRAPHEMES) {
         return res.status(400).json({
-          error: `Content exceeds Bluesky's 300 character limit (currently ${blueskyContent.length} characters)`
+          error: `Content exceeds Bluesky's ${BLUESKY_MAX_GRAPHEMES} character limit (currently ${contentLength} characters)`
         });
       }
 
@@ -221,7 +278,7 @@ router.post('/publish', authenticateToken, async (req: any, res) => {
       const atprotoResult = await publishToBluesky(blueskyContent, {
         handle: user.blueskyHandle,
         password: user.blueskyPassword
-      });
+      }, linkCard);
 
       // Update sync_logs
       await prisma.syncLog.create({
@@ -311,6 +368,130 @@ router.post('/publish', authenticateToken, async (req: any, res) => {
   }
 });
 
+/**
+ * POST /api/atproto/preview
+ * Dry run of /publish: returns the post text, facets, embed card and standard.site
+ * record that would be created, without writing anything to the PDS
+ */
+router.post('/preview', authenticateToken, async (req: any, res) => {
+  try {
+    const userId = req.userId;
+    const { postId, customText } = req.body;
+
+    if (!postId) {
+      return res.status(400).json({
+        error: 'Post ID is required'
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const post = await prisma.post.findUnique({
+      where: { id: postId }
+    });
+
+    if (!post) {
+      return res.status(404).json({
+        error: 'Post not found'
+      });
+    }
+
+    if (post.userId !== userId) {
+      return res.status(403).json({
+        error: 'You can only preview your own posts'
+      });
+    }
+
+    // Problems /publish would reject - reported instead of failing so the preview still renders
+    const warnings: string[] = [];
+    if (!user.blueskyHandle || !user.blueskyPassword) {
+      warnings.push('Bluesky credentials not configured');
+    }
+    if (post.status !== 'published') {
+      warnings.push('Only published posts can be synced to ATProto');
+    }
+    if (post.atprotoUri) {
+      warnings.push('Post has already been published to Bluesky');
+    }
+
+    let socialText: string;
+    try {
+      socialText = resolveSocialText(user, post, customText);
+    } catch (templateError) {
+      return res.status(400).json({
+        error: templateError instanceof Error ? templateError.message : 'Failed to render post template'
+      });
+    }
+
+    // Standard.site only creates a social post when dual posting is on and custom text is given
+    const createsSocialPost = !user.useStandardSite || (user.standardSiteDualPost && hasCustomText(customText));
+    let socialPost = null;
+
+    if (createsSocialPost) {
+      // Mentions resolve without logging in, so nothing touches the user's repo
+      const publicAgent = new AtpAgent({
+        service: process.env.BLUESKY_SERVICE_URL || 'https://bsky.social'
+      });
+      const rt = await buildRichText(socialText, publicAgent);
+      const graphemes = rt.graphemeLength;
+      const linkCard = linkCardForPost(post);
+
+      if (graphemes > BLUESKY_MAX_GRAPHEMES) {
+        warnings.push(
+          user.useStandardSite
+            ? `Social post exceeds ${BLUESKY_MAX_GRAPHEMES} characters and would be skipped`
+            : `Content exceeds Bluesky's ${BLUESKY_MAX_GRAPHEMES} character limit`
+        );
+      }
+
+      socialPost = {
+        text: rt.text,
+        graphemes,
+        maxGraphemes: BLUESKY_MAX_GRAPHEMES,
+        withinLimit: graphemes <= BLUESKY_MAX_GRAPHEMES,
+        facets: (rt.facets || []).map((facet) => ({
+          byteStart: facet.index.byteStart,
+          byteEnd: facet.index.byteEnd,
+          text: rt.unicodeText.slice(facet.index.byteStart, facet.index.byteEnd),
+          features: facet.features,
+        })),
+        embed: linkCard ? previewExternalEmbed(linkCard) : null,
+      };
+    }
+
+    let document = null;
+    if (user.useStandardSite) {
+      if (!user.standardSitePublicationUri) {
+        warnings.push('Publication record will be created on first publish');
+      }
+      document = buildDocumentRecord(
+        user.standardSitePublicationUri || 'at://(pending)/site.standard.publication/(pending)',
+        documentPostFor(post)
+      );
+    }
+
+    res.json({
+      postId: post.id,
+      format: user.useStandardSite ? 'standard.site' : 'bluesky',
+      socialPost,
+      document,
+      warnings,
+    });
+  } catch (error) {
+    console.error('Error building publish preview:', error);
+    res.status(500).json({
+      error: 'Failed to build preview',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Get sync logs for a specific post
 router.get('/sync-logs/:postId', async (req, res) => {
   try {
@@ -9,6 +9,7 @@
  *   POST /api/auth/logout     - Clear session
  *   GET  /api/auth/me         - Get current user
  *   PUT  /api/auth/me         - Update current user
+ *   POST /api/auth/me/webhook-secret - Rotate the Ghost webhook signing secret
  */
 
 import { Router, Request, Response } from 'express';
@@ -18,6 +19,10 @@ import jwt from 'jsonwebtoken';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
 import { ApiError, handleError } from '../lib/errors';
 import { fetchGhostPosts } from '../lib/ghost-admin';
+import { DEFAULT_POST_TEMPLATE, validateTemplate } from '../lib/post-template';
+import { ghostWebhookUrl } from '../lib/ghost-webhook';
+import { rotateGhostWebhookSecret } from '../services/ghost-webhooks';
+import { COMMENT_SYNC_INTERVALS } from '../jobs/sync-comments';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -196,12 +201,19 @@ router.get('/me', authenticateToken, async (req: Request, res: Response) => {
       blueskyHandle: user.blueskyHandle,
       ghostUrl: user.ghostUrl,
       shimUrl: user.shimUrl,
+      blueskyThreadMode: user.blueskyThreadMode,
+      blueskyThreadLinkPosition: user.blueskyThreadLinkPosition,
+      blueskyPostTemplate: user.blueskyPostTemplate || DEFAULT_POST_TEMPLATE,
+      reverseCommentSync: user.reverseCommentSync,
+      commentSyncInterval: user.commentSyncInterval,
+      ghostWebhookUrl: user.ghostWebhookToken ? ghostWebhookUrl(user.ghostWebhookToken) : null,
       createdAt: user.createdAt,
       // Indicate if configured without exposing actual values
       blueskyPassword: user.blueskyPassword ? '••••••••' : null,
       ghostApiKey: user.ghostApiKey ? '••••••••' : null,
       ghostContentApiKey: user.ghostContentApiKey ? '••••••••' : null,
       shimSecret: user.shimSecret ? '••••••••' : null,
+      ghostWebhookSecret: user.ghostWebhookSecret ? '••••••••' : null,
     });
   } catch (error) {
     handleError(res, error, 'Failed to fetch user', 'auth/me');
@@ -226,10 +238,34 @@ router.put('/me', authenticateToken, async (req: Request, res: Response) => {
       ghostContentApiKey,
       shimUrl,
       shimSecret,
+      blueskyThreadMode,
+      blueskyThreadLinkPosition,
+      blueskyPostTemplate,
+      reverseCommentSync,
+      commentSyncInterval,
     } = req.body;
 
+    if (
+      blueskyThreadLinkPosition !== undefined &&
+      blueskyThreadLinkPosition !== 'first' &&
+      blueskyThreadLinkPosition !== 'last'
+    ) {
+      throw ApiError.validation("blueskyThreadLinkPosition must be 'first' or 'last'");
+    }
+
+    if (commentSyncInterval !== undefined && !COMMENT_SYNC_INTERVALS.includes(commentSyncInterval)) {
+      throw ApiError.validation(`commentSyncInterval must be one of: ${COMMENT_SYNC_INTERVALS.join(', ')} (minutes, 0 = off)`);
+    }
+
+    if (blueskyPostTemplate) {
+      const templateError = validateTemplate(String(blueskyPostTemplate));
+      if (templateError) {
+        throw ApiError.validation(`Invalid post template: ${templateError}`);
+      }
+    }
+
     // Build update data - only include fields that were provided
-    const updateData: Record<string, string | null> = {};
+    const updateData: Record<string, string | boolean | number | Date | null> = {};
 
     if (name !== undefined) updateData.name = name;
     if (blueskyHandle !== undefined) updateData.blueskyHandle = blueskyHandle;
@@ -239,6 +275,22 @@ router.put('/me', authenticateToken, async (req: Request, res: Response) => {
     if (ghostContentApiKey !== undefined) updateData.ghostContentApiKey = ghostContentApiKey;
     if (shimUrl !== undefined) updateData.shimUrl = shimUrl;
     if (shimSecret !== undefined) updateData.shimSecret = shimSecret;
+    if (blueskyThreadMode !== undefined) updateData.blueskyThreadMode = Boolean(blueskyThreadMode);
+    if (blueskyThreadLinkPosition !== undefined) updateData.blueskyThreadLinkPosition = blueskyThreadLinkPosition;
+    // An empty template falls back to the default layout
+    if (blueskyPostTemplate !== undefined) updateData.blueskyPostTemplate = blueskyPostTemplate || null;
+    if (commentSyncInterval !== undefined) updateData.commentSyncInterval = commentSyncInterval;
+    if (reverseCommentSync !== undefined) {
+      updateData.reverseCommentSync = Boolean(reverseCommentSync);
+      // Mirror comments written from now on, not the whole archive
+      if (reverseCommentSync) {
+        const current = await prisma.user.findUnique({ where: { id: userId }, select: { reverseCommentSync: true } });
+        if (!current?.reverseCommentSync) {
+          updateData.reverseCommentSyncedAt = new Date();
+          updateData.reverseCommentSyncedId = null;
+        }
+      }
+    }
 
     const user = await prisma.user.update({
       where: { id: userId },
@@ -253,17 +305,44 @@ router.put('/me', authenticateToken, async (req: Request, res: Response) => {
       blueskyHandle: user.blueskyHandle,
       ghostUrl: user.ghostUrl,
       shimUrl: user.shimUrl,
+      blueskyThreadMode: user.blueskyThreadMode,
+      blueskyThreadLinkPosition: user.blueskyThreadLinkPosition,
+      blueskyPostTemplate: user.blueskyPostTemplate || DEFAULT_POST_TEMPLATE,
+      reverseCommentSync: user.reverseCommentSync,
+      commentSyncInterval: user.commentSyncInterval,
+      ghostWebhookUrl: user.ghostWebhookToken ? ghostWebhookUrl(user.ghostWebhookToken) : null,
       createdAt: user.createdAt,
       blueskyPassword: user.blueskyPassword ? '••••••••' : null,
       ghostApiKey: user.ghostApiKey ? '••••••••' : null,
       ghostContentApiKey: user.ghostContentApiKey ? '••••••••' : null,
       shimSecret: user.shimSecret ? '••••••••' : null,
+      ghostWebhookSecret: user.ghostWebhookSecret ? '••••••••' : null,
     });
   } catch (error) {
     handleError(res, error, 'Failed to update user', 'auth/me PUT');
   }
 });
 
+/**
+ * POST /api/auth/me/webhook-secret
+ * Generate a new webhook signing secret and re-register the Ghost webhooks with it.
+ * The new secret is only ever returned here.
+ */
+router.post('/me/webhook-secret', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthRequest;
+    const { webhookUrl, secret, webhookId } = await rotateGhostWebhookSecret(authReq.user.id);
+
+    res.json({
+      ghostWebhookUrl: webhookUrl,
+      ghostWebhookSecret: secret,
+      registered: Boolean(webhookId),
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to rotate webhook secret', 'auth/me/webhook-secret');
+  }
+});
+
 /**
  * GET /api/auth/posts
  * Get posts from database for the authenticated user
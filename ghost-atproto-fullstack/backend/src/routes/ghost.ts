@@ -1,7 +1,10 @@
 import express from 'express';
 import { PrismaClient } from '@prisma/client';
 import { ensureBlueskyMember, testGhostConnection, fetchGhostPosts } from '../lib/ghost-admin';
-import { syncCommentsForPost } from '../services/comment-sync';
+import { backfillCommentsForPost, syncCommentsForPost } from '../services/comment-sync';
+import { mirrorGhostComments } from '../services/comment-mirror';
+import { MAX_BACKFILL_DEPTH } from '../lib/atproto';
+import { enqueueJob, JOB_TYPES } from '../lib/job-queue';
 import { ShimClient } from '../lib/shim-client';
 import { runCommentSync } from '../jobs/sync-comments';
 import { authenticateToken } from '../middleware/auth';
@@ -9,6 +12,17 @@ import { authenticateToken } from '../middleware/auth';
 const router = express.Router();
 const prisma = new PrismaClient();
 
+/**
+ * Read the optional backfill depth from the request body.
+ * Returns undefined for the default, or null when the value is invalid.
+ */
+function parseBackfillDepth(value: unknown): number | undefined | null {
+  if (value === undefined || value === null || value === '') return undefined;
+  const depth = Number(value);
+  if (!Number.isInteger(depth) || depth < 1 || depth > MAX_BACKFILL_DEPTH) return null;
+  return depth;
+}
+
 /**
  * Create or get the Bluesky member for comment sync
  * POST /api/ghost/bluesky-member/setup
@@ -257,6 +271,201 @@ router.post('/sync-comments/:postId', authenticateToken, async (req, res) => {
   }
 });
 
+/**
+ * Backfill the full reply tree of one post (any depth, not just recent notifications)
+ * POST /api/ghost/backfill-comments/:postId
+ * Body: { depth?: number }
+ */
+router.post('/backfill-comments/:postId', authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).userId;
+    const { postId } = req.params;
+
+    const depth = parseBackfillDepth(req.body?.depth);
+    if (depth === null) {
+      return res.status(400).json({ error: `depth must be a whole number from 1 to ${MAX_BACKFILL_DEPTH}` });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { shimUrl: true, shimSecret: true },
+    });
+
+    if (!user?.shimUrl || !user?.shimSecret) {
+      return res.status(400).json({
+        error: 'Shim not configured. Go to Settings to configure your comment sync.',
+      });
+    }
+
+    const post = await prisma.post.findUnique({
+      where: { id: postId },
+      select: { userId: true, title: true, atprotoUri: true, ghostId: true },
+    });
+
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    if (post.userId !== userId) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    if (!post.atprotoUri) {
+      return res.status(400).json({ error: 'Post has not been published to Bluesky' });
+    }
+
+    if (!post.ghostId) {
+      return res.status(400).json({ error: 'Post has no Ghost ID' });
+    }
+
+    const shimClient = new ShimClient({
+      shimUrl: user.shimUrl,
+      sharedSecret: user.shimSecret,
+    });
+
+    const shimHealthy = await shimClient.healthCheck();
+    if (!shimHealthy) {
+      return res.status(503).json({ error: 'Comment shim is not available' });
+    }
+
+    const result = await backfillCommentsForPost(postId, shimClient, { depth });
+
+    return res.json({
+      success: true,
+      postId,
+      postTitle: post.title,
+      newComments: result.newComments,
+      errors: result.errors,
+    });
+  } catch (error) {
+    console.error('Backfill comments error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to backfill comments',
+    });
+  }
+});
+
+/**
+ * Backfill the reply trees of all of the current user's bridged posts.
+ * Each post is queued as its own job, so failures retry independently.
+ * POST /api/ghost/backfill-comments
+ * Body: { depth?: number }
+ */
+router.post('/backfill-comments', authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).userId;
+
+    const depth = parseBackfillDepth(req.body?.depth);
+    if (depth === null) {
+      return res.status(400).json({ error: `depth must be a whole number from 1 to ${MAX_BACKFILL_DEPTH}` });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { shimUrl: true, shimSecret: true },
+    });
+
+    if (!user?.shimUrl || !user?.shimSecret) {
+      return res.status(400).json({
+        error: 'Shim not configured. Go to Settings to configure your comment sync.',
+      });
+    }
+
+    const posts = await prisma.post.findMany({
+      where: {
+        userId,
+        atprotoUri: { not: null },
+        ghostId: { not: null },
+      },
+      select: { id: true },
+    });
+
+    const jobIds: string[] = [];
+    for (const post of posts) {
+      const job = await enqueueJob(
+        JOB_TYPES.COMMENT_BACKFILL,
+        { postId: post.id, ...(depth ? { depth } : {}) },
+        { userId, postId: post.id }
+      );
+      jobIds.push(job.id);
+    }
+
+    return res.status(202).json({
+      success: true,
+      postsQueued: jobIds.length,
+      jobIds,
+    });
+  } catch (error) {
+    console.error('Backfill all comments error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to queue comment backfill',
+    });
+  }
+});
+
+/**
+ * Post new Ghost comments as Bluesky replies now, instead of waiting for the scheduler.
+ * Two-way comments have to be turned on in Settings first.
+ * POST /api/ghost/mirror-comments
+ */
+router.post('/mirror-comments', authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).userId;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { reverseCommentSync: true },
+    });
+
+    if (!user?.reverseCommentSync) {
+      return res.status(400).json({
+        error: 'Two-way comments are turned off. Enable them in Settings first.',
+      });
+    }
+
+    const result = await mirrorGhostComments(userId);
+
+    return res.json({
+      success: result.errors.length === 0,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Mirror comments error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to mirror comments',
+    });
+  }
+});
+
+/**
+ * Scheduled comment sync setting and the latest run
+ * GET /api/ghost/comment-sync/status
+ */
+router.get('/comment-sync/status', authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).userId;
+
+    const [user, lastRun] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { commentSyncInterval: true } }),
+      prisma.commentSyncRun.findFirst({ where: { userId }, orderBy: { startedAt: 'desc' } }),
+    ]);
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    return res.json({
+      interval: user.commentSyncInterval,
+      lastRun,
+    });
+  } catch (error) {
+    console.error('Comment sync status error:', error);
+    return res.status(500).json({
+      error: 'Failed to check comment sync status',
+    });
+  }
+});
+
 /**
  * Sync comments for all users (admin only)
  * POST /api/ghost/sync-comments
@@ -275,8 +484,8 @@ router.post('/sync-comments', authenticateToken, async (req, res) => {
       return res.status(403).json({ error: 'Admin access required for bulk sync' });
     }
 
-    // Run the sync job for all users
-    const result = await runCommentSync();
+    // Run the sync job for all users, whatever their interval
+    const result = await runCommentSync({ force: true, trigger: 'manual' });
 
     return res.json({
       success: result.success,
@@ -0,0 +1,103 @@
+/**
+ * Job Queue Routes
+ *
+ * File: backend/src/routes/jobs.ts
+ *
+ * Routes:
+ *   GET  /api/jobs              - List current user's jobs (optional ?status=)
+ *   POST /api/jobs/:id/retry    - Run a failed or dead job again now
+ *   POST /api/jobs/:id/discard  - Stop retrying a job
+ */
+
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { ApiError, handleError } from '../lib/errors';
+import { discardJob, retryJob } from '../lib/job-queue';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const JOB_STATUSES = ['pending', 'running', 'succeeded', 'dead', 'discarded'];
+
+router.use(authenticateToken);
+
+/**
+ * Load a job owned by the current user
+ */
+async function findOwnJob(req: Request) {
+  const authReq = req as AuthRequest;
+  const job = await prisma.job.findUnique({ where: { id: req.params.id } });
+
+  if (!job || job.userId !== authReq.user.id) {
+    throw ApiError.notFound('Job');
+  }
+  return job;
+}
+
+// =============================================================================
+// Routes
+// =============================================================================
+
+/**
+ * GET /api/jobs
+ * List the current user's most recent jobs
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthRequest;
+    const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+
+    if (status && !JOB_STATUSES.includes(status)) {
+      throw ApiError.validation(`status must be one of: ${JOB_STATUSES.join(', ')}`);
+    }
+
+    const jobs = await prisma.job.findMany({
+      where: { userId: authReq.user.id, ...(status ? { status } : {}) },
+      orderBy: { updatedAt: 'desc' },
+      take: 100,
+    });
+
+    res.json(jobs);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch jobs', 'jobs/list');
+  }
+});
+
+/**
+ * POST /api/jobs/:id/retry
+ * Schedule a job to run immediately
+ */
+router.post('/:id/retry', async (req: Request, res: Response) => {
+  try {
+    const job = await findOwnJob(req);
+
+    if (job.status === 'running' || job.status === 'succeeded') {
+      throw ApiError.conflict(`Job is ${job.status} and cannot be retried`);
+    }
+
+    res.json(await retryJob(job));
+  } catch (error) {
+    handleError(res, error, 'Failed to retry job', 'jobs/retry');
+  }
+});
+
+/**
+ * POST /api/jobs/:id/discard
+ * Stop a job from being retried
+ */
+router.post('/:id/discard', async (req: Request, res: Response) => {
+  try {
+    const job = await findOwnJob(req);
+
+    if (job.status === 'running' || job.status === 'succeeded') {
+      throw ApiError.conflict(`Job is ${job.status} and cannot be discarded`);
+    }
+
+    res.json(await discardJob(job));
+  } catch (error) {
+    handleError(res, error, 'Failed to discard job', 'jobs/discard');
+  }
+});
+
+export default router;
@@ -0,0 +1,275 @@
+/**
+ * Comment Moderation Routes
+ *
+ * File: backend/src/routes/moderation.ts
+ *
+ * Routes:
+ *   GET    /api/moderation/comments              - Moderation inbox (optional ?status=, default pending)
+ *   POST   /api/moderation/comments/:id/approve  - Publish a held reply to Ghost
+ *   POST   /api/moderation/comments/:id/reject   - Keep a reply out of Ghost
+ *   POST   /api/moderation/comments/:id/trust    - Always trust the author and publish their held replies
+ *   GET    /api/moderation/settings              - Moderation mode and rules
+ *   PUT    /api/moderation/settings              - Change the moderation mode
+ *   POST   /api/moderation/rules                 - Add a keyword, regex, block or trust rule
+ *   DELETE /api/moderation/rules/:id             - Remove a rule
+ */
+
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { ApiError, handleError } from '../lib/errors';
+import { ShimClient } from '../lib/shim-client';
+import { publishPendingComment } from '../services/comment-sync';
+import {
+  MODERATION_MODES,
+  MODERATION_RULE_TYPES,
+  ModerationMode,
+  ModerationRuleType,
+  normalizeRuleValue,
+} from '../services/comment-moderation';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const PENDING_STATUSES = ['pending', 'approved', 'rejected'];
+
+router.use(authenticateToken);
+
+/**
+ * Load a held reply owned by the current user
+ */
+async function findOwnPendingComment(req: Request) {
+  const authReq = req as AuthRequest;
+  const pending = await prisma.pendingComment.findUnique({ where: { id: req.params.id } });
+
+  if (!pending || pending.userId !== authReq.user.id) {
+    throw ApiError.notFound('Comment');
+  }
+  return pending;
+}
+
+async function shimClientFor(userId: string): Promise<ShimClient> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { shimUrl: true, shimSecret: true },
+  });
+  if (!user?.shimUrl || !user.shimSecret) {
+    throw ApiError.validation('Comment shim is not configured');
+  }
+  return new ShimClient({ shimUrl: user.shimUrl, sharedSecret: user.shimSecret });
+}
+
+async function getModerationSettings(userId: string) {
+  const [user, rules] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId }, select: { moderationMode: true } }),
+    prisma.moderationRule.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+  ]);
+  return { mode: user?.moderationMode || 'off', rules };
+}
+
+// =============================================================================
+// Inbox
+// =============================================================================
+
+/**
+ * GET /api/moderation/comments
+ * List held replies, newest first
+ */
+router.get('/comments', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthRequest;
+    const status = typeof req.query.status === 'string' ? req.query.status : 'pending';
+
+    if (!PENDING_STATUSES.includes(status)) {
+      throw ApiError.validation(`status must be one of: ${PENDING_STATUSES.join(', ')}`);
+    }
+
+    const comments = await prisma.pendingComment.findMany({
+      where: { userId: authReq.user.id, status },
+      include: { post: { select: { id: true, title: true, ghostUrl: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+    });
+
+    res.json(comments);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch held comments', 'moderation/list');
+  }
+});
+
+/**
+ * POST /api/moderation/comments/:id/approve
+ * Send a held or rejected reply on to Ghost
+ */
+router.post('/comments/:id/approve', async (req: Request, res: Response) => {
+  try {
+    const pending = await findOwnPendingComment(req);
+
+    if (pending.status === 'approved') {
+      throw ApiError.conflict('Comment is already approved');
+    }
+
+    await publishPendingComment(pending, await shimClientFor(pending.userId));
+    res.json({ ...pending, status: 'approved' });
+  } catch (error) {
+    handleError(res, error, 'Failed to approve comment', 'moderation/approve');
+  }
+});
+
+/**
+ * POST /api/moderation/comments/:id/reject
+ * Keep a held reply out of Ghost
+ */
+router.post('/comments/:id/reject', async (req: Request, res: Response) => {
+  try {
+    const pending = await findOwnPendingComment(req);
+
+    if (pending.status === 'approved') {
+      throw ApiError.conflict('Comment is already published; delete it in Ghost instead');
+    }
+
+    const updated = await prisma.pendingComment.update({
+      where: { id: pending.id },
+      data: { status: 'rejected', reviewedAt: new Date() },
+    });
+    res.json(updated);
+  } catch (error) {
+    handleError(res, error, 'Failed to reject comment', 'moderation/reject');
+  }
+});
+
+/**
+ * POST /api/moderation/comments/:id/trust
+ * Trust the author from now on and publish everything of theirs still waiting
+ */
+router.post('/comments/:id/trust', async (req: Request, res: Response) => {
+  try {
+    const pending = await findOwnPendingComment(req);
+    const userId = pending.userId;
+
+    await prisma.moderationRule.upsert({
+      where: { userId_type_value: { userId, type: 'trust', value: pending.authorDid } },
+      update: {},
+      create: { userId, type: 'trust', value: pending.authorDid },
+    });
+
+    const shimClient = await shimClientFor(userId);
+    const waiting = await prisma.pendingComment.findMany({
+      where: {
+        userId,
+        authorDid: pending.authorDid,
+        OR: [{ status: 'pending' }, { id: pending.id, status: 'rejected' }],
+      },
+      orderBy: { replyCreatedAt: 'asc' },
+    });
+
+    const errors: string[] = [];
+    let approved = 0;
+    for (const comment of waiting) {
+      try {
+        await publishPendingComment(comment, shimClient);
+        approved++;
+      } catch (error) {
+        errors.push(`${comment.bskyReplyUri}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    res.json({ trusted: pending.authorDid, approved, errors });
+  } catch (error) {
+    handleError(res, error, 'Failed to trust author', 'moderation/trust');
+  }
+});
+
+// =============================================================================
+// Settings and rules
+// =============================================================================
+
+/**
+ * GET /api/moderation/settings
+ */
+router.get('/settings', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthRequest;
+    res.json(await getModerationSettings(authReq.user.id));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch moderation settings', 'moderation/settings');
+  }
+});
+
+/**
+ * PUT /api/moderation/settings
+ * Body: { mode: 'off' | 'filter' | 'review' }
+ */
+router.put('/settings', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthRequest;
+    const { mode } = req.body;
+
+    if (!MODERATION_MODES.includes(mode)) {
+      throw ApiError.validation(`mode must be one of: ${MODERATION_MODES.join(', ')}`);
+    }
+
+    await prisma.user.update({
+      where: { id: authReq.user.id },
+      data: { moderationMode: mode as ModerationMode },
+    });
+    res.json(await getModerationSettings(authReq.user.id));
+  } catch (error) {
+    handleError(res, error, 'Failed to update moderation settings', 'moderation/settings');
+  }
+});
+
+/**
+ * POST /api/moderation/rules
+ * Body: { type: 'keyword' | 'regex' | 'block' | 'trust', value: string }
+ */
+router.post('/rules', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthRequest;
+    const { type, value } = req.body;
+
+    if (!MODERATION_RULE_TYPES.includes(type)) {
+      throw ApiError.validation(`type must be one of: ${MODERATION_RULE_TYPES.join(', ')}`);
+    }
+    if (typeof value !== 'string') {
+      throw ApiError.validation('value must be a string');
+    }
+
+    let normalized: string;
+    try {
+      normalized = normalizeRuleValue(type as ModerationRuleType, value);
+    } catch (error) {
+      throw ApiError.validation((error as Error).message);
+    }
+
+    const rule = await prisma.moderationRule.upsert({
+      where: { userId_type_value: { userId: authReq.user.id, type, value: normalized } },
+      update: {},
+      create: { userId: authReq.user.id, type, value: normalized },
+    });
+    res.status(201).json(rule);
+  } catch (error) {
+    handleError(res, error, 'Failed to add moderation rule', 'moderation/rules');
+  }
+});
+
+/**
+ * DELETE /api/moderation/rules/:id
+ */
+router.delete('/rules/:id', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthRequest;
+    const rule = await prisma.moderationRule.findUnique({ where: { id: req.params.id } });
+
+    if (!rule || rule.userId !== authReq.user.id) {
+      throw ApiError.notFound('Rule');
+    }
+
+    await prisma.moderationRule.delete({ where: { id: rule.id } });
+    res.json({ success: true });
+  } catch (error) {
+    handleError(res, error, 'Failed to delete moderation rule', 'moderation/rules');
+  }
+});
+
+export default router;
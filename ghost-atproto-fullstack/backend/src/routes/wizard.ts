@@ -4,6 +4,8 @@ import { BskyAgent } from '@atproto/api';
 import jwt from 'jsonwebtoken';
 import axios from 'axios';
 import { authenticateToken } from '../middleware/auth';
+import { ghostWebhookUrl } from '../lib/ghost-webhook';
+import { ensureWebhookCredentials, registerGhostWebhook } from '../services/ghost-webhooks';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -247,8 +249,9 @@ router.post('/complete', authenticateToken, async (req, res) => {
       }
     });
 
-    // Generate webhook URL for Ghost
-    const webhookUrl = `${process.env.BACKEND_URL}/api/ghost/webhook`;
+    // Each user gets their own webhook URL and signing secret
+    const webhookCredentials = await ensureWebhookCredentials(userId);
+    const webhookUrl = ghostWebhookUrl(webhookCredentials.token);
 
     // Validate Ghost connection and register webhook
     let webhookRegistrationResult = {
@@ -259,7 +262,7 @@ router.post('/complete', authenticateToken, async (req, res) => {
 
     try {
       // Import the validation and registration functions
-      const { validateGhostConnection, registerGhostWebhook } = await import('../server');
+      const { validateGhostConnection } = await import('../server');
       
       // Validate Ghost connection
       const isValidConnection = await validateGhostConnection(ghostUrl, ghostApiKey);
@@ -357,9 +360,9 @@ router.post('/complete', authenticateToken, async (req, res) => {
               '2. Navigate to Settings → Integrations → Custom Integrations',
               '3. Create a new custom integration named "Bluesky Publisher"',
               '4. Add a webhook with the following URL:',
-              `   ${webhookUrl}`,
+              `   ${webhookUrl}?event=post.published`,
               '5. Select "Post published" as the event',
-              `6. Add a custom header: X-User-ID = ${userId}`,
+              `6. Set the webhook secret to: ${webhookCredentials.secret}`,
               '7. Save the webhook',
               '8. ✅ Initial sync has been triggered - your existing posts are being synced.',
               isBlueskySkipped 
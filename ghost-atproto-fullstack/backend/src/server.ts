@@ -2,7 +2,7 @@ import express from 'express';
 import cors from 'cors';
 import morgan from 'morgan'
 import dotenv from 'dotenv';
-import { PrismaClient } from '@prisma/client';
+import { Job, Prisma, PrismaClient, User } from '@prisma/client';
 import crypto from 'crypto';
 import { NodeOAuthClient } from '@atproto/oauth-client-node';
 import { BskyAgent, RichText } from '@atproto/api';
@@ -21,6 +21,8 @@ import usersRoutes from './routes/users';
 import civicActionsRoutes from './routes/civic-actions';
 import wellKnownRoutes from './routes/well-known';
 import standardSiteRoutes from './routes/standard-site';
+import jobsRoutes from './routes/jobs';
+import moderationRoutes from './routes/moderation';
 import axios from 'axios';
 import { setupGoogleOAuth } from './lib/google-oauth';
 import { setupBlueskyOAuth } from './lib/bluesky-oauth';
@@ -28,6 +30,22 @@ import { validateOAuthConfig } from './lib/oauth-config';
 import { syncMobilizeEvents } from './jobs/sync-mobilize';
 import { startScheduler } from './jobs/scheduler';
 import { handleError, ApiError } from './lib/errors';
+import {
+  buildThreadPosts,
+  postThread,
+  PostRef,
+  ThreadLinkPosition,
+  ThreadProgress,
+  unfinishedThread,
+} from './lib/bluesky-thread';
+import { buildExternalEmbed } from './lib/link-card';
+import { DEFAULT_POST_TEMPLATE, ghostPostTemplateFields, renderPostTemplate, templateVariablesFromPost } from './lib/post-template';
+import { resolveGhostPostAction, verifyGhostSignature } from './lib/ghost-webhook';
+import { removeBridgedPost, syncEditedPost } from './services/post-sync';
+import { enqueueJob, JOB_TYPES } from './lib/job-queue';
+import { registerJobHandler, startJobWorker } from './jobs/job-worker';
+import { backfillPostCommentsJob, syncPostCommentsJob, syncReplyUpdateJob, syncStreamedReplyJob } from './jobs/sync-comments';
+import { startReplySubscriber } from './jobs/reply-subscriber';
 import { authenticateToken as authMiddleware, requireAdmin, AuthRequest } from './middleware/auth';
 
 // Load environment variables
@@ -101,72 +119,6 @@ function authenticateToken(req: any, res: any, next: any) {
   }
 }
 
-// Helper: Register webhook with Ghost
-export async function registerGhostWebhook(ghostUrl: string, ghostApiKey: string, userId: string): Promise<string | null> {
-  try {
-    const [keyId, keySecret] = ghostApiKey.split(':');
-    if (!keyId || !keySecret) {
-      throw new Error('Invalid Ghost API key format');
-    }
-
-    // Create JWT token for Ghost Admin API
-    const token = jwt.sign({}, Buffer.from(keySecret, 'hex'), {
-      keyid: keyId,
-      algorithm: 'HS256',
-      expiresIn: '5m',
-      audience: `/admin/`
-    });
-
-    const webhookUrl = `${process.env.BACKEND_URL}/api/ghost/webhook`;
-    
-    // Check if webhook already exists
-    const existingWebhooks = await axios.get(`${ghostUrl}/ghost/api/admin/webhooks/`, {
-      headers: {
-        'Authorization': `Ghost ${token}`,
-        'Accept-Version': 'v6.4'
-      }
-    });
-
-    // Look for existing webhook with our URL
-    const existingWebhook = existingWebhooks.data.webhooks?.find((webhook: any) => 
-      webhook.target_url === webhookUrl && 
-      webhook.event === 'post.published'
-    );
-
-    if (existingWebhook) {
-      console.log(`✅ Webhook already exists: ${existingWebhook.id}`);
-      return existingWebhook.id;
-    }
-
-    // Create new webhook
-    const webhookData = {
-      webhook: {
-        event: 'post.published',
-        target_url: webhookUrl,
-        name: 'Bluesky Publisher',
-        secret: process.env.GHOST_WEBHOOK_SECRET || '',
-        integration_id: null
-      }
-    };
-
-    const response = await axios.post(`${ghostUrl}/ghost/api/admin/webhooks/`, webhookData, {
-      headers: {
-        'Authorization': `Ghost ${token}`,
-        'Accept-Version': 'v6.4',
-        'Content-Type': 'application/json'
-      }
-    });
-
-    const webhookId = response.data.webhooks?.[0]?.id;
-    console.log(`✅ Webhook registered: ${webhookId}`);
-    return webhookId;
-
-  } catch (error) {
-    console.error('Failed to register Ghost webhook:', error);
-    return null;
-  }
-}
-
 // Helper: Validate Ghost connection
 export async function validateGhostConnection(ghostUrl: string, ghostApiKey: string): Promise<boolean> {
   try {
@@ -242,24 +194,61 @@ async function getAgentForUser(userId: string): Promise<BskyAgent | null> {
 }
 
 // Helper: Post to Bluesky with clickable links and better content formatting
-async function postToBluesky(agent: BskyAgent, title: string, content?: string, url?: string) {
-  // Strip HTML tags and get clean text from content
-  const cleanContent = content 
-    ? content.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim()
-    : '';
-  
-  // Create a better formatted post with maximum content
-  // Bluesky limit is 300 chars, so we maximize the content
-  const urlText = url ? `\n\n🔗 ${url}` : '';
-  const titleText = `${title}\n\n`;
-  const maxContentLength = 300 - titleText.length - urlText.length;
-  
-  let contentToPost = cleanContent;
-  if (contentToPost.length > maxContentLength) {
-    contentToPost = contentToPost.substring(0, maxContentLength - 3) + '...';
+async function postToBluesky(
+  agent: BskyAgent,
+  title: string,
+  content?: string,
+  url?: string,
+  options: {
+    thread?: boolean;
+    linkPosition?: ThreadLinkPosition;
+    card?: { description?: string | null; imageUrl?: string | null };
+    template?: string | null;
+    tags?: string | null;
+    author?: string | null;
+    // Thread posts a previous attempt published, and a hook to save each new one
+    resumeThread?: PostRef[];
+    onThreadProgress?: (progress: ThreadProgress) => Promise<void>;
+  } = {}
+) {
+  // Link preview card (attached to the root post)
+  const buildEmbed = async () => url
+    ? buildExternalEmbed(agent, {
+        uri: url,
+        title,
+        description: options.card?.description,
+        imageUrl: options.card?.imageUrl,
+      })
+    : undefined;
+
+  // Thread mode: publish the full content as a chain of replies
+  if (options.thread) {
+    const parts = buildThreadPosts({
+      title,
+      content: content || '',
+      url,
+      linkPosition: options.linkPosition,
+    });
+
+    // The root post is what we track for comment sync
+    return postThread(agent, parts, {
+      embed: buildEmbed,
+      resume: options.resumeThread,
+      onProgress: options.onThreadProgress,
+    });
   }
-  
-  const postText = `${titleText}${contentToPost}${urlText}`;
+
+  // Lay the post out with the user's template, shortened to fit Bluesky's limit
+  const postText = renderPostTemplate(
+    options.template || DEFAULT_POST_TEMPLATE,
+    templateVariablesFromPost({
+      title,
+      content: content || '',
+      ghostUrl: url,
+      tags: options.tags,
+      authorName: options.author,
+    })
+  );
 
   // Use RichText to detect and create link facets
   const rt = new RichText({ text: postText });
@@ -268,6 +257,7 @@ async function postToBluesky(agent: BskyAgent, title: string, content?: string,
   return await agent.post({
     text: rt.text,
     facets: rt.facets,
+    embed: await buildEmbed(),
     createdAt: new Date().toISOString(),
   });
 }
@@ -308,7 +298,8 @@ async function syncGhostPostsLocally(
         filter: 'status:published',
         order: 'published_at DESC',
         fields: 'id,title,slug,excerpt,custom_excerpt,html,plaintext,mobiledoc,lexical,feature_image,url,published_at',
-        formats: 'html,plaintext,mobiledoc'
+        formats: 'html,plaintext,mobiledoc',
+        include: 'tags,authors'
       }
     });
 
@@ -329,6 +320,7 @@ async function syncGhostPostsLocally(
         const slug = post.slug || `ghost-${ghostId}`;
         const ghostSlug = post.slug || null;
         const ghostUrl = post.url || null;
+        const { tags, authorName } = ghostPostTemplateFields(post);
         const publishedAt = post.published_at ? new Date(post.published_at) : new Date();
 
         // Check if post already exists (unless force is true)
@@ -357,6 +349,8 @@ async function syncGhostPostsLocally(
             publishedAt,
             ghostSlug: ghostSlug || undefined,
             ghostUrl: ghostUrl || undefined,
+            tags,
+            authorName,
           },
           create: {
             title,
@@ -369,6 +363,8 @@ async function syncGhostPostsLocally(
             ghostId,
             ghostSlug: ghostSlug || undefined,
             ghostUrl: ghostUrl || undefined,
+            tags,
+            authorName,
             userId: userId,
           }
         });
@@ -446,6 +442,12 @@ async function syncGhostToBluesky(
     
     console.log(`🦋 Authenticated as ${blueskyHandle}`);
 
+    const owner = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { blueskyPostTemplate: true }
+    });
+    const postTemplate = owner?.blueskyPostTemplate || DEFAULT_POST_TEMPLATE;
+
     // 2. Fetch Ghost posts using Admin API
     const [keyId, keySecret] = ghostApiKey.split(':');
     if (!keyId || !keySecret) {
@@ -471,7 +473,8 @@ async function syncGhostToBluesky(
         filter: 'status:published',
         order: 'published_at DESC',
         fields: 'id,title,slug,excerpt,custom_excerpt,html,plaintext,mobiledoc,lexical,feature_image,url,published_at',
-        formats: 'html,plaintext,mobiledoc'  // Explicitly request all content formats
+        formats: 'html,plaintext,mobiledoc',  // Explicitly request all content formats
+        include: 'tags,authors'
       }
     });
 
@@ -509,27 +512,26 @@ async function syncGhostToBluesky(
       // Log content status for debugging
       console.log(`📝 Processing "${post.title}": Content length = ${fullContent.length} chars`);
       
-      // Strip HTML tags and get clean text
-      const cleanText = fullContent.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim();
-      
-      // Create a better formatted post with more content
-      // Bluesky limit is 300 chars, so we maximize the content
-      const urlText = `\n\n🔗 ${post.url}`;
-      const titleText = `${post.title}\n\n`;
-      const maxContentLength = 300 - titleText.length - urlText.length;
-      
-      let contentToPost = excerpt || cleanText;
-      if (contentToPost.length > maxContentLength) {
-        contentToPost = contentToPost.substring(0, maxContentLength - 3) + '...';
-      }
-      
-      const blueskyText = `${titleText}${contentToPost}${urlText}`;
+      const { tags, authorName } = ghostPostTemplateFields(post);
 
       try {
         let blueskyResult;
         
         // Only post to Bluesky if not already posted
         if (!existing || !existing.atprotoUri) {
+          // Lay the post out with the user's template
+          const blueskyText = renderPostTemplate(
+            postTemplate,
+            templateVariablesFromPost({
+              title: post.title,
+              content: fullContent,
+              excerpt,
+              ghostUrl: post.url,
+              tags,
+              authorName,
+            })
+          );
+
           // Use RichText to detect and create link facets for clickable links
           const rt = new RichText({ text: blueskyText });
           await rt.detectFacets(agent);
@@ -551,6 +553,8 @@ async function syncGhostToBluesky(
             content: fullContent,
             excerpt: excerpt,
             featureImage: post.feature_image,
+            tags,
+            authorName,
             atprotoUri: blueskyResult.uri,
             atprotoCid: blueskyResult.cid,
             status: 'published',
@@ -566,6 +570,8 @@ async function syncGhostToBluesky(
             ghostId: post.id,
             ghostSlug: post.slug,
             ghostUrl: post.url,
+            tags,
+            authorName,
             atprotoUri: blueskyResult.uri,
             atprotoCid: blueskyResult.cid,
             publishedAt: new Date(post.published_at),
@@ -624,207 +630,304 @@ async function syncGhostToBluesky(
   }
 }
 
-// Ghost webhook - must come BEFORE express.json()
+/**
+ * Parse a verified Ghost delivery and queue the work for the user it belongs to
+ */
+async function queueGhostWebhook(req: express.Request, res: express.Response, user: User, rawBody: Buffer) {
+  let payload: any = {};
+  try {
+    const text = rawBody.toString('utf8');
+    payload = text ? JSON.parse(text) : {};
+  } catch (e) {
+    console.warn('Ghost webhook JSON parse error');
+    return res.status(400).json({ ok: false });
+  }
+
+  const userId = user.id;
+  const eventParam = typeof req.query.event === 'string' ? req.query.event : null;
+  const evt = String(eventParam || payload?.post?.current?.event || payload?.event || 'unknown');
+  const postAction = resolveGhostPostAction(evt, payload);
+  // Deleted posts arrive with an empty `current` and the old post in `previous`
+  const ghostEntityId =
+    payload?.post?.current?.id || payload?.post?.previous?.id || payload?.post?.id || null;
+  console.log('✅ Ghost webhook received', { event: evt, action: postAction, id: ghostEntityId, userId });
+
+  // Check if auto-sync is enabled for this user
+  if (!user.autoSync) {
+    console.log(`Auto-sync disabled for user ${userId}, skipping webhook processing`);
+    return res.status(200).json({ ok: true });
+  }
+
+  // Check if user has valid Ghost configuration
+  if (!user.ghostUrl || !user.ghostApiKey || 
+      user.ghostUrl === 'SKIPPED' || user.ghostApiKey === 'SKIPPED' ||
+      user.ghostUrl.trim() === '' || user.ghostApiKey.trim() === '') {
+    console.log(`User ${userId} has no valid Ghost configuration, skipping webhook processing`);
+    return res.status(200).json({ ok: true });
+  }
+
+  const postPayload = payload?.post?.current || payload?.post;
+  if (!postPayload || !ghostEntityId || !postAction) {
+    return res.status(200).json({ ok: true });
+  }
+
+  // Persist the work before acknowledging - the worker picks it up and retries on failure
+  const job = await enqueueJob(
+    postAction === 'published' ? JOB_TYPES.PUBLISH : JOB_TYPES.POST_UPDATE,
+    { action: postAction, ghostId: String(ghostEntityId), post: postPayload },
+    { userId }
+  );
+  console.log(`📥 Queued ${job.type} job ${job.id}`);
+
+  return res.status(200).json({ ok: true, jobId: job.id });
+}
+
+const rawWebhookBody = (req: express.Request) =>
+  Buffer.isBuffer(req.body) ? req.body : Buffer.from(req.body || '');
+
+// Ghost webhooks - must come BEFORE express.json()
+// Each user registers their own URL; the token identifies the user and the
+// delivery must be signed with that user's secret
+app.post(
+  '/api/ghost/webhook/:token',
+  express.raw({ type: 'application/json' }),
+  async (req, res) => {
+    try {
+      const user = await prisma.user.findUnique({ where: { ghostWebhookToken: req.params.token } });
+      if (!user || !user.ghostWebhookSecret) {
+        console.warn('Ghost webhook received for unknown token');
+        return res.status(404).json({ ok: false });
+      }
+
+      const rawBody = rawWebhookBody(req);
+      if (!verifyGhostSignature(rawBody, req.header('X-Ghost-Signature'), user.ghostWebhookSecret)) {
+        console.warn(`Ghost webhook signature verification failed for user ${user.id}`);
+        return res.status(401).json({ ok: false });
+      }
+
+      return await queueGhostWebhook(req, res, user, rawBody);
+    } catch (error) {
+      // Not acknowledged, so Ghost can deliver it again
+      console.error('Webhook handler error:', error);
+      return res.status(500).json({ ok: false });
+    }
+  }
+);
+
+// Shared webhook URL from before per-user URLs. Only usable on single-user installs
+// with DEFAULT_USER_ID set; everyone else re-registers from settings.
 app.post(
   '/api/ghost/webhook',
   express.raw({ type: 'application/json' }),
   async (req, res) => {
     try {
       const secret = process.env.GHOST_WEBHOOK_SECRET;
-      const signatureHeader = req.header('X-Ghost-Signature') || '';
-      const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.from(req.body || '');
-      const userIdHeader = req.header('X-User-ID'); // Custom header to identify which user this webhook is for
-
-      // Optional signature verification
-      if (secret) {
-        const hmac = crypto.createHmac('sha256', secret);
-        hmac.update(rawBody);
-        const expected = `sha256=${hmac.digest('hex')}`;
-        const provided = signatureHeader.trim();
-
-        const expectedBuf = Buffer.from(expected, 'utf8');
-        const providedBuf = Buffer.from(provided, 'utf8');
-        const valid =
-          expectedBuf.length === providedBuf.length &&
-          crypto.timingSafeEqual(expectedBuf, providedBuf);
-
-        if (!valid) {
-          console.warn('Ghost webhook signature verification failed');
-          return res.status(401).json({ ok: false });
-        }
+      const rawBody = rawWebhookBody(req);
+
+      if (secret && !verifyGhostSignature(rawBody, req.header('X-Ghost-Signature'), secret)) {
+        console.warn('Ghost webhook signature verification failed');
+        return res.status(401).json({ ok: false });
       }
 
-      // Parse JSON
-      let payload: any = {};
-      try {
-        const text = rawBody.toString('utf8');
-        payload = text ? JSON.parse(text) : {};
-      } catch (e) {
-        console.warn('Ghost webhook JSON parse error');
-        return res.status(400).json({ ok: false });
+      const userId = process.env.DEFAULT_USER_ID;
+      const user = userId ? await prisma.user.findUnique({ where: { id: userId } }) : null;
+      if (!user) {
+        console.warn('Ghost webhook received on the shared URL; re-register webhooks from settings');
+        return res.status(410).json({
+          ok: false,
+          error: 'This webhook URL is no longer used. Re-register your Ghost webhooks from settings.'
+        });
       }
 
-      const evt = String(payload?.post?.current?.event || payload?.event || 'unknown');
-      const ghostEntityId = payload?.post?.current?.id || payload?.post?.id || null;
-      console.log('✅ Ghost webhook received', { event: evt, id: ghostEntityId, userId: userIdHeader });
+      return await queueGhostWebhook(req, res, user, rawBody);
+    } catch (error) {
+      // Not acknowledged, so Ghost can deliver it again
+      console.error('Webhook handler error:', error);
+      return res.status(500).json({ ok: false });
+    }
+  }
+);
 
-      // Process webhook asynchronously
-      (async () => {
-        try {
-          // Find user by header or use default
-          let userId = userIdHeader || process.env.DEFAULT_USER_ID || null;
+/**
+ * Job handler: publish a Ghost post (post.published) to Bluesky
+ */
+async function handlePublishJob(job: Job) {
+  const { ghostId: ghostEntityId, post: postPayload } = job.payload as { ghostId: string; post: any };
+  const userId = job.userId;
+  const retryCount = job.attempts - 1;
+
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new Error(`User ${userId} not found`);
+  }
 
-          if (!userId) {
-            const firstUser = await prisma.user.findFirst();
-            if (!firstUser) {
-              throw new Error('No user found to process webhook');
-            }
-            userId = firstUser.id;
-          }
+  const title = postPayload.title || 'Untitled';
+  const content = postPayload.html || postPayload.plaintext || '';
+  const excerpt = postPayload.excerpt || postPayload.custom_excerpt || '';
+  const featureImage = postPayload.feature_image || null;
+  const slug = postPayload.slug || undefined;
+  const ghostSlug = postPayload.slug || null;
+  const ghostUrl = postPayload.url || null;
+  const { tags, authorName } = ghostPostTemplateFields(postPayload);
+
+  // Upsert post in database
+  const post = await prisma.post.upsert({
+    where: { ghostId: String(ghostEntityId) },
+    update: {
+      title,
+      content,
+      excerpt,
+      featureImage,
+      slug: slug || (ghostSlug ? `${ghostSlug}` : undefined) || `ghost-${ghostEntityId}`,
+      status: 'published',
+      publishedAt: new Date(),
+      ghostSlug: ghostSlug || undefined,
+      ghostUrl: ghostUrl || undefined,
+      tags,
+      authorName,
+    },
+    create: {
+      title,
+      content,
+      excerpt,
+      featureImage,
+      slug: slug || (ghostSlug ? `${ghostSlug}` : `ghost-${ghostEntityId}`),
+      status: 'published',
+      publishedAt: new Date(),
+      ghostId: String(ghostEntityId),
+      ghostSlug: ghostSlug || undefined,
+      ghostUrl: ghostUrl || undefined,
+      tags,
+      authorName,
+      userId: userId,
+    }
+  });
 
-          // Verify user exists
-          const user = await prisma.user.findUnique({ where: { id: userId } });
-          if (!user) {
-            throw new Error(`User ${userId} not found`);
-          }
+  // A retry after a partial failure must not post twice. A thread that stopped part way
+  // through is finished from where it stopped.
+  const resumeThread = unfinishedThread(post.atprotoThread as unknown as ThreadProgress | null);
+  if (post.atprotoUri && !resumeThread) {
+    console.log(`⏭️  Post ${post.id} already on Bluesky: ${post.atprotoUri}`);
+    return;
+  }
 
-          // Check if auto-sync is enabled for this user
-          if (!user.autoSync) {
-            console.log(`Auto-sync disabled for user ${userId}, skipping webhook processing`);
-            return;
-          }
+  // Post to Bluesky (optional - only if user has connected their account)
+  const agent = await getAgentForUser(userId);
+  if (!agent && user.blueskyHandle && user.blueskyPassword) {
+    // Credentials are configured, so a failed login is worth retrying
+    throw new Error('Bluesky login failed');
+  }
 
-          // Check if user has valid Ghost configuration
-          if (!user.ghostUrl || !user.ghostApiKey || 
-              user.ghostUrl === 'SKIPPED' || user.ghostApiKey === 'SKIPPED' ||
-              user.ghostUrl.trim() === '' || user.ghostApiKey.trim() === '') {
-            console.log(`User ${userId} has no valid Ghost configuration, skipping webhook processing`);
-            return;
-          }
+  if (agent) {
+    try {
+      // Threads carry the full content; single posts prefer the excerpt
+      const asThread = user.blueskyThreadMode || !!resumeThread;
+      const contentToSend = asThread ? content : (excerpt || content);
+      const result = await postToBluesky(agent, title, contentToSend, ghostUrl || undefined, {
+        thread: asThread,
+        linkPosition: user.blueskyThreadLinkPosition as ThreadLinkPosition,
+        card: { description: excerpt, imageUrl: featureImage },
+        template: user.blueskyPostTemplate,
+        tags,
+        author: authorName,
+        resumeThread,
+        // Saved as each part goes out, so a retry knows which parts already exist
+        onThreadProgress: async (progress) => {
+          await prisma.post.update({
+            where: { id: post.id },
+            data: {
+              atprotoUri: progress.parts[0].uri,
+              atprotoCid: progress.parts[0].cid,
+              atprotoThread: progress as unknown as Prisma.InputJsonValue,
+            },
+          });
+        },
+      });
 
-          // Note: Bluesky configuration is optional for webhook processing
-          // Posts will be stored locally regardless of Bluesky connection
-
-          // Handle post events
-          const postPayload = payload?.post?.current || payload?.post;
-          if (postPayload && ghostEntityId) {
-            const action = evt.toLowerCase();
-            const isPublished = action.includes('published');
-
-            if (isPublished) {
-              const title = postPayload.title || 'Untitled';
-              const content = postPayload.html || postPayload.plaintext || '';
-              const excerpt = postPayload.excerpt || postPayload.custom_excerpt || '';
-              const featureImage = postPayload.feature_image || null;
-              const slug = postPayload.slug || undefined;
-              const ghostSlug = postPayload.slug || null;
-              const ghostUrl = postPayload.url || null;
-
-              // Upsert post in database
-              const post = await prisma.post.upsert({
-                where: { ghostId: String(ghostEntityId) },
-                update: {
-                  title,
-                  content,
-                  excerpt,
-                  featureImage,
-                  slug: slug || (ghostSlug ? `${ghostSlug}` : undefined) || `ghost-${ghostEntityId}`,
-                  status: 'published',
-                  publishedAt: new Date(),
-                  ghostSlug: ghostSlug || undefined,
-                  ghostUrl: ghostUrl || undefined,
-                },
-                create: {
-                  title,
-                  content,
-                  excerpt,
-                  featureImage,
-                  slug: slug || (ghostSlug ? `${ghostSlug}` : `ghost-${ghostEntityId}`),
-                  status: 'published',
-                  publishedAt: new Date(),
-                  ghostId: String(ghostEntityId),
-                  ghostSlug: ghostSlug || undefined,
-                  ghostUrl: ghostUrl || undefined,
-                  userId: userId,
-                }
-              });
-
-              // Post to Bluesky (optional - only if user has connected their account)
-              const agent = await getAgentForUser(userId);
-              if (agent) {
-                try {
-                  // Use excerpt if available, otherwise use content
-                  const contentToSend = excerpt || content;
-                  const result = await postToBluesky(agent, title, contentToSend, ghostUrl || undefined);
-
-                  // Update post with ATProto data
-                  await prisma.post.update({
-                    where: { id: post.id },
-                    data: {
-                      atprotoUri: result.uri,
-                      atprotoCid: result.cid,
-                    }
-                  });
-
-                  await prisma.syncLog.create({
-                    data: {
-                      action: 'publish',
-                      status: 'success',
-                      source: 'ghost',
-                      target: 'atproto',
-                      ghostId: ghostEntityId,
-                      atprotoUri: result.uri,
-                      postId: post.id,
-                      userId: userId
-                    }
-                  });
-
-                  console.log('✅ Posted to Bluesky:', result.uri);
-                } catch (error) {
-                  console.error('Failed to post to Bluesky:', error);
-                  await prisma.syncLog.create({
-                    data: {
-                      action: 'publish',
-                      status: 'error',
-                      source: 'ghost',
-                      target: 'atproto',
-                      ghostId: ghostEntityId,
-                      postId: post.id,
-                      error: error instanceof Error ? error.message : 'Unknown error',
-                      userId: userId
-                    }
-                  });
-                }
-              } else {
-                console.log('📝 Post stored locally (Bluesky not connected)');
-                
-                // Create a sync log for local storage
-                await prisma.syncLog.create({
-                  data: {
-                    action: 'store',
-                    status: 'success',
-                    source: 'ghost',
-                    target: 'local',
-                    ghostId: ghostEntityId,
-                    postId: post.id,
-                    userId: userId
-                  }
-                });
-              }
-            }
-          }
-        } catch (err) {
-          console.error('Webhook processing error:', err);
+      // Update post with ATProto data
+      await prisma.post.update({
+        where: { id: post.id },
+        data: {
+          atprotoUri: result.uri,
+          atprotoCid: result.cid,
+        }
+      });
+
+      await prisma.syncLog.create({
+        data: {
+          action: 'publish',
+          status: 'success',
+          source: 'ghost',
+          target: 'atproto',
+          ghostId: ghostEntityId,
+          atprotoUri: result.uri,
+          postId: post.id,
+          retryCount,
+          userId: userId
         }
-      })();
+      });
 
-      return res.status(200).json({ ok: true });
+      console.log('✅ Posted to Bluesky:', result.uri);
     } catch (error) {
-      console.error('Webhook handler error:', error);
-      return res.status(200).json({ ok: true });
+      console.error('Failed to post to Bluesky:', error);
+      await prisma.syncLog.create({
+        data: {
+          action: 'publish',
+          status: 'error',
+          source: 'ghost',
+          target: 'atproto',
+          ghostId: ghostEntityId,
+          postId: post.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          retryCount,
+          userId: userId
+        }
+      });
+      throw error;
     }
+  } else {
+    console.log('📝 Post stored locally (Bluesky not connected)');
+    
+    // Create a sync log for local storage
+    await prisma.syncLog.create({
+      data: {
+        action: 'store',
+        status: 'success',
+        source: 'ghost',
+        target: 'local',
+        ghostId: ghostEntityId,
+        postId: post.id,
+        userId: userId
+      }
+    });
   }
-);
+}
+
+/**
+ * Job handler: apply a Ghost edit, unpublish or delete to standard.site and Bluesky
+ */
+async function handlePostUpdateJob(job: Job) {
+  const { action, ghostId, post } = job.payload as {
+    action: 'edited' | 'unpublished' | 'deleted';
+    ghostId: string;
+    post: any;
+  };
+  const retryCount = job.attempts - 1;
+
+  const agent = await getAgentForUser(job.userId);
+  if (!agent) {
+    const user = await prisma.user.findUnique({ where: { id: job.userId } });
+    if (user?.blueskyHandle && user?.blueskyPassword) {
+      throw new Error('Bluesky login failed');
+    }
+  }
+
+  if (action === 'edited') {
+    await syncEditedPost(job.userId, ghostId, post, agent, retryCount);
+  } else {
+    await removeBridgedPost(job.userId, ghostId, action, agent, retryCount);
+  }
+}
 
 // Generic JSON body parser with increased limit for image uploads
 app.use(express.json({ limit: '10mb' }));
@@ -839,6 +942,8 @@ app.use('/api/users', usersRoutes); // User admin routes
 app.use('/api', civicActionsRoutes); // Civic actions (/public/civic-actions, /civic-actions)
 app.use('/api/ghost', ghostRoutes);
 app.use('/api/standard-site', standardSiteRoutes); // Standard.site routes
+app.use('/api/jobs', jobsRoutes); // Publish/sync job queue
+app.use('/api/moderation', moderationRoutes); // Comment moderation inbox and filters
 app.use('/.well-known', wellKnownRoutes); // standard.site verification endpoint
 
 
@@ -1534,8 +1639,20 @@ finalApp.listen(port, () => {
   console.log(`📝 Available at both:`);
   console.log(`   - http://localhost:${port}/api/health`);
   console.log(`   - http://localhost:${port}/bridge/api/health`);
-  console.log(`🔐 Configure Ghost webhook with X-User-ID header`);
+  console.log(`🔐 Ghost webhooks are per user: /api/ghost/webhook/:token`);
 
   // Start scheduled jobs
   startScheduler();
+
+  // Start the queue worker for webhook and sync jobs
+  registerJobHandler(JOB_TYPES.PUBLISH, handlePublishJob);
+  registerJobHandler(JOB_TYPES.POST_UPDATE, handlePostUpdateJob);
+  registerJobHandler(JOB_TYPES.COMMENT_SYNC, syncPostCommentsJob);
+  registerJobHandler(JOB_TYPES.REPLY_SYNC, syncStreamedReplyJob);
+  registerJobHandler(JOB_TYPES.REPLY_UPDATE, syncReplyUpdateJob);
+  registerJobHandler(JOB_TYPES.COMMENT_BACKFILL, backfillPostCommentsJob);
+  startJobWorker();
+
+  // Follow Jetstream for replies to bridged posts
+  startReplySubscriber();
 });
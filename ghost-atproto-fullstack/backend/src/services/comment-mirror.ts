@@ -0,0 +1,160 @@
+import { AtpAgent } from '@atproto/api';
+import { PrismaClient } from '@prisma/client';
+import { buildRichText, loginToBluesky } from '../lib/atproto';
+import { BLUESKY_MAX_GRAPHEMES, graphemeLength, htmlToParagraphs, truncateWithEllipsis } from '../lib/bluesky-thread';
+import { ShimClient, ShimComment } from '../lib/shim-client';
+
+const prisma = new PrismaClient();
+
+const MIRROR_PAGE_SIZE = 100;
+const MIRROR_MAX_PAGES = 20;
+
+type MirrorablePost = { id: string; atprotoUri: string; atprotoCid: string };
+
+export interface CommentMirrorResult {
+  checked: number;
+  posted: number;
+  errors: string[];
+}
+
+/**
+ * Text of the Bluesky reply for a Ghost comment: who wrote it, then as much of the
+ * comment as fits in one post
+ */
+export function mirroredReplyText(comment: Pick<ShimComment, 'member_name' | 'html'>): string {
+  const attribution = `${comment.member_name || 'A reader'} commented on the blog:\n\n`;
+  const body = htmlToParagraphs(comment.html).join('\n\n');
+  return attribution + truncateWithEllipsis(body, BLUESKY_MAX_GRAPHEMES - graphemeLength(attribution));
+}
+
+/**
+ * Post one Ghost comment as a reply under the post's Bluesky thread and record the
+ * reverse mapping. Returns false when the comment has already been bridged either way.
+ */
+async function mirrorComment(comment: ShimComment, post: MirrorablePost, agent: AtpAgent): Promise<boolean> {
+  const existing = await prisma.commentMapping.findFirst({
+    where: { ghostCommentId: comment.id },
+  });
+  if (existing) {
+    return false;
+  }
+
+  // Ghost replies hang off a top-level comment; answer that comment on Bluesky when it's bridged
+  const root = { uri: post.atprotoUri, cid: post.atprotoCid };
+  let parent = root;
+  if (comment.parent_id) {
+    const parentMapping = await prisma.commentMapping.findFirst({
+      where: { ghostCommentId: comment.parent_id, state: { not: 'deleted' } },
+    });
+    if (parentMapping?.bskyReplyCid) {
+      parent = { uri: parentMapping.bskyReplyUri, cid: parentMapping.bskyReplyCid };
+    }
+  }
+
+  const rt = await buildRichText(mirroredReplyText(comment), agent);
+  const response = await agent.post({
+    text: rt.text,
+    facets: rt.facets,
+    reply: { root, parent },
+    createdAt: new Date().toISOString(),
+  });
+
+  await prisma.commentMapping.create({
+    data: {
+      bskyReplyUri: response.uri,
+      ghostCommentId: comment.id,
+      postId: post.id,
+      bskyAuthorDid: agent.session?.did || null,
+      bskyAuthorHandle: agent.session?.handle || null,
+      bskyReplyCid: response.cid,
+      direction: 'ghost_to_bsky',
+      lastVerifiedAt: new Date(),
+    },
+  });
+
+  console.log(`↩️  Mirrored Ghost comment ${comment.id} to Bluesky (${response.uri})`);
+  return true;
+}
+
+/**
+ * Post comments written on the Ghost site since the last run as replies under the
+ * publication's Bluesky posts. Stops at the first failure so the cursor never moves
+ * past a comment that wasn't mirrored.
+ */
+export async function mirrorGhostComments(
+  userId: string,
+  options: { agent?: AtpAgent; shimClient?: ShimClient } = {}
+): Promise<CommentMirrorResult> {
+  const result: CommentMirrorResult = { checked: 0, posted: 0, errors: [] };
+
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user?.reverseCommentSync) {
+    return result;
+  }
+  if (!user.shimUrl || !user.shimSecret) {
+    throw new Error('Comment shim is not configured');
+  }
+  if (!user.blueskyHandle || !user.blueskyPassword) {
+    throw new Error('Bluesky credentials not configured');
+  }
+
+  const posts = await prisma.post.findMany({
+    where: { userId, ghostId: { not: null }, atprotoUri: { not: null }, atprotoCid: { not: null } },
+    select: { id: true, ghostId: true, atprotoUri: true, atprotoCid: true },
+  });
+  const postsByGhostId = new Map(
+    posts.map((post) => [post.ghostId!, { id: post.id, atprotoUri: post.atprotoUri!, atprotoCid: post.atprotoCid! }])
+  );
+
+  const shimClient = options.shimClient || new ShimClient({ shimUrl: user.shimUrl, sharedSecret: user.shimSecret });
+  const credentials = { handle: user.blueskyHandle, password: user.blueskyPassword };
+
+  // Only log in once there is something to post
+  let agent = options.agent;
+  const getAgent = async () => {
+    if (!agent) {
+      agent = await loginToBluesky(credentials);
+    }
+    return agent;
+  };
+
+  // The last comment handled; Ghost timestamps only go to the second, so its ID is kept too
+  let since: string = (user.reverseCommentSyncedAt || new Date()).toISOString();
+  let afterId: string | null = user.reverseCommentSyncedAt ? user.reverseCommentSyncedId : null;
+  let failed = false;
+
+  for (let page = 0; page < MIRROR_MAX_PAGES && !failed; page++) {
+    const response = await shimClient.listComments(since, MIRROR_PAGE_SIZE, afterId);
+
+    for (const comment of response.comments) {
+      result.checked++;
+      const post = postsByGhostId.get(comment.post_id);
+
+      if (post) {
+        try {
+          if (await mirrorComment(comment, post, await getAgent())) {
+            result.posted++;
+          }
+        } catch (error) {
+          const errorMsg = `Failed to mirror Ghost comment ${comment.id}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          console.error(errorMsg);
+          result.errors.push(errorMsg);
+          failed = true;
+          break;
+        }
+      }
+
+      since = comment.created_at;
+      afterId = comment.id;
+    }
+
+    if (!response.has_more) break;
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { reverseCommentSyncedAt: new Date(since), reverseCommentSyncedId: afterId },
+  });
+
+  return result;
+}
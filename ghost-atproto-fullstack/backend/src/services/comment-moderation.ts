@@ -0,0 +1,212 @@
+import { AtpAgent } from '@atproto/api';
+import { ModerationRule, Prisma, PrismaClient } from '@prisma/client';
+import { PostReply } from '../lib/atproto';
+
+const prisma = new PrismaClient();
+
+/**
+ * off:    every reply goes straight to Ghost
+ * filter: replies go to Ghost unless a filter holds them for review
+ * review: every reply waits for approval, except from trusted authors
+ */
+export const MODERATION_MODES = ['off', 'filter', 'review'] as const;
+export type ModerationMode = (typeof MODERATION_MODES)[number];
+
+export const MODERATION_RULE_TYPES = ['keyword', 'regex', 'block', 'trust'] as const;
+export type ModerationRuleType = (typeof MODERATION_RULE_TYPES)[number];
+
+export interface ModerationDecision {
+  action: 'approve' | 'hold' | 'reject';
+  reason?: string;
+}
+
+// Mute lists need a logged-in session, so keep them around rather than logging in per reply
+const MUTE_LIST_TTL_MS = 30 * 60 * 1000;
+const MUTE_LIST_MAX_PAGES = 10;
+const muteListCache = new Map<string, { dids: Set<string>; fetchedAt: number }>();
+
+const normalizeHandle = (value: string) => value.trim().replace(/^@/, '').toLowerCase();
+
+/**
+ * Check a rule value before it's stored. Returns the value to store, or throws with
+ * a message for the user.
+ */
+export function normalizeRuleValue(type: ModerationRuleType, value: string): string {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    throw new Error('value is required');
+  }
+  if (trimmed.length > 191) {
+    throw new Error('value must be at most 191 characters');
+  }
+
+  switch (type) {
+    case 'keyword':
+      return trimmed.toLowerCase();
+    case 'regex':
+      try {
+        new RegExp(trimmed, 'i');
+      } catch {
+        throw new Error('value is not a valid regular expression');
+      }
+      return trimmed;
+    case 'block':
+      return trimmed.startsWith('did:') ? trimmed : normalizeHandle(trimmed);
+    case 'trust':
+      if (!trimmed.startsWith('did:')) {
+        throw new Error('trusted authors are stored by DID');
+      }
+      return trimmed;
+  }
+}
+
+/**
+ * Decide what happens to a reply under the user's mode and rules. Trusted authors always
+ * pass; blocked and muted authors are rejected outright; filter matches wait for review.
+ */
+export function evaluateReply(
+  reply: PostReply,
+  mode: ModerationMode,
+  rules: Pick<ModerationRule, 'type' | 'value'>[],
+  mutedDids: Set<string> = new Set()
+): ModerationDecision {
+  if (mode === 'off') {
+    return { action: 'approve' };
+  }
+
+  const valuesOf = (type: ModerationRuleType) => rules.filter((rule) => rule.type === type).map((rule) => rule.value);
+  const handle = normalizeHandle(reply.author.handle);
+
+  if (valuesOf('trust').includes(reply.author.did)) {
+    return { action: 'approve' };
+  }
+
+  if (valuesOf('block').some((value) => value === reply.author.did || value === handle)) {
+    return { action: 'reject', reason: 'Author is on the blocklist' };
+  }
+
+  if (mutedDids.has(reply.author.did)) {
+    return { action: 'reject', reason: 'Author is muted on Bluesky' };
+  }
+
+  const text = reply.record.text.toLowerCase();
+  const keyword = valuesOf('keyword').find((value) => text.includes(value));
+  if (keyword) {
+    return { action: 'hold', reason: `Matched keyword "${keyword}"` };
+  }
+
+  const pattern = valuesOf('regex').find((value) => {
+    try {
+      return new RegExp(value, 'i').test(reply.record.text);
+    } catch {
+      return false;
+    }
+  });
+  if (pattern) {
+    return { action: 'hold', reason: `Matched pattern /${pattern}/` };
+  }
+
+  if (mode === 'review') {
+    return { action: 'hold', reason: 'Awaiting review' };
+  }
+
+  return { action: 'approve' };
+}
+
+/**
+ * DIDs the user has muted on Bluesky. Cached for half an hour; a failed fetch is cached
+ * as an empty list so a bad password doesn't mean a login attempt per reply.
+ */
+async function getMutedDids(userId: string): Promise<Set<string>> {
+  const cached = muteListCache.get(userId);
+  if (cached && Date.now() - cached.fetchedAt < MUTE_LIST_TTL_MS) {
+    return cached.dids;
+  }
+
+  const dids = new Set<string>();
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { blueskyHandle: true, blueskyPassword: true },
+  });
+
+  if (user?.blueskyHandle && user.blueskyPassword) {
+    try {
+      const agent = new AtpAgent({
+        service: process.env.BLUESKY_SERVICE_URL || 'https://bsky.social'
+      });
+      await agent.login({ identifier: user.blueskyHandle, password: user.blueskyPassword });
+
+      let cursor: string | undefined;
+      for (let page = 0; page < MUTE_LIST_MAX_PAGES; page++) {
+        const response = await agent.app.bsky.graph.getMutes({ limit: 100, cursor });
+        response.data.mutes.forEach((profile) => dids.add(profile.did));
+        cursor = response.data.cursor;
+        if (!cursor) break;
+      }
+    } catch (error) {
+      console.warn(`⚠️ Could not load Bluesky mute list for user ${userId}:`, error);
+    }
+  }
+
+  muteListCache.set(userId, { dids, fetchedAt: Date.now() });
+  return dids;
+}
+
+/**
+ * Run a reply through the post owner's moderation settings. A reply to a comment that
+ * hasn't been approved is held as well, so it isn't published without its parent.
+ */
+export async function moderateReply(
+  post: { id: string; userId: string },
+  reply: PostReply
+): Promise<ModerationDecision> {
+  const user = await prisma.user.findUnique({
+    where: { id: post.userId },
+    select: { moderationMode: true },
+  });
+  const mode = (user?.moderationMode || 'off') as ModerationMode;
+  if (mode === 'off') {
+    return { action: 'approve' };
+  }
+
+  const rules = await prisma.moderationRule.findMany({ where: { userId: post.userId } });
+  const decision = evaluateReply(reply, mode, rules, await getMutedDids(post.userId));
+
+  if (decision.action === 'approve' && reply.parent) {
+    const parent = await prisma.pendingComment.findUnique({ where: { bskyReplyUri: reply.parent.uri } });
+    if (parent && parent.status !== 'approved') {
+      return { action: 'hold', reason: `Parent reply is ${parent.status === 'pending' ? 'awaiting review' : 'rejected'}` };
+    }
+  }
+
+  return decision;
+}
+
+/**
+ * Record a held or rejected reply so it shows up in the moderation inbox
+ */
+export async function queueForModeration(
+  post: { id: string; userId: string },
+  reply: PostReply,
+  decision: ModerationDecision
+): Promise<void> {
+  await prisma.pendingComment.create({
+    data: {
+      bskyReplyUri: reply.uri,
+      bskyReplyCid: reply.cid || null,
+      parentUri: reply.parent?.uri || null,
+      authorDid: reply.author.did,
+      authorHandle: reply.author.handle,
+      authorDisplayName: reply.author.displayName || null,
+      authorAvatar: reply.author.avatar || null,
+      text: reply.record.text,
+      facets: reply.record.facets ? (reply.record.facets as unknown as Prisma.InputJsonValue) : Prisma.JsonNull,
+      replyCreatedAt: new Date(reply.record.createdAt),
+      status: decision.action === 'reject' ? 'rejected' : 'pending',
+      reason: decision.reason || null,
+      postId: post.id,
+      userId: post.userId,
+    },
+  });
+  console.log(`🛡️  Reply ${reply.uri} ${decision.action === 'reject' ? 'rejected' : 'held for review'}: ${decision.reason}`);
+}
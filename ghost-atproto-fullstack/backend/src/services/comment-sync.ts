@@ -1,9 +1,67 @@
-import { PrismaClient } from '@prisma/client';
-import { getNotificationReplies, PostReply } from '../lib/atproto';
-import { ShimClient } from '../lib/shim-client';
+import { AppBskyRichtextFacet, AtpAgent } from '@atproto/api';
+import { CommentMapping, PendingComment, PrismaClient } from '@prisma/client';
+import {
+  createPublicAgent,
+  embedFromView,
+  fetchReply,
+  fetchReplyEmbed,
+  getNotificationReplies,
+  getThreadReplies,
+  PostReply,
+} from '../lib/atproto';
+import {
+  BatchCommentItem,
+  BatchCreateCommentsResponse,
+  CommentEmbed,
+  CreateCommentRequest,
+  ShimClient,
+  ShimOutboxItem,
+} from '../lib/shim-client';
+import { ensureCommenterMember } from './commenter-members';
+import { moderateReply, queueForModeration } from './comment-moderation';
 
 const prisma = new PrismaClient();
 
+type SyncablePost = { id: string; userId: string; ghostId: string | null; atprotoUri: string | null };
+
+export type CommentMappingState = 'published' | 'edited' | 'hidden' | 'deleted';
+
+/**
+ * Something that happened to a bridged reply on Bluesky
+ */
+export type ReplyChange =
+  | { action: 'deleted' }
+  | { action: 'hidden' }
+  | { action: 'edited'; text: string; cid: string | null; facets?: AppBskyRichtextFacet.Main[]; embed?: CommentEmbed };
+
+export interface CommentVerifyResult {
+  checked: number;
+  deleted: number;
+  hidden: number;
+  edited: number;
+  errors: string[];
+}
+
+// Labels that mean the AppView has hidden the reply from everyone
+const HIDING_LABELS = ['!hide', '!takedown'];
+
+// getPosts accepts at most 25 URIs per call
+const GET_POSTS_BATCH = 25;
+
+// The shim's POST /comments/batch takes at most 100 comments
+const SHIM_BATCH_SIZE = 100;
+
+/**
+ * Bluesky profile and post URLs shown in the Ghost comment
+ */
+function bskyReplyUrls(handle: string, replyUri: string) {
+  const replyPostId = replyUri.split('/').pop() || '';
+  return {
+    bskyProfileUrl: `https://bsky.app/profile/${handle}`,
+    bskyPostUrl: `https://bsky.app/profile/${handle}/post/${replyPostId}`,
+  };
+}
+
 export interface CommentSyncResult {
   postId: string;
   newComments: number;
@@ -11,13 +69,425 @@ export interface CommentSyncResult {
 }
 
 /**
- * Sync comments for a specific post from Bluesky to Ghost
+ * A reply that has passed the checks and is ready to go to the shim
+ */
+interface PreparedReply {
+  reply: PostReply;
+  request: CreateCommentRequest;
+  // Parent reply that has no Ghost comment yet; it may be earlier in the same batch
+  pendingParentUri: string | null;
+}
+
+/**
+ * Split prepared replies into shim batches of at most SHIM_BATCH_SIZE without cutting a
+ * thread in two: replies are grouped under the top-level reply they hang from, and whole
+ * threads are packed into each batch. A single thread longer than a batch is split in
+ * order; its later batches nest under the comments the earlier ones created, and are
+ * never sent if an earlier one fails.
+ */
+function batchByThread(prepared: PreparedReply[]): PreparedReply[][] {
+  const threads: PreparedReply[][] = [];
+  const threadOf = new Map<string, PreparedReply[]>();
+  for (const item of prepared) {
+    let thread = item.pendingParentUri ? threadOf.get(item.pendingParentUri) : undefined;
+    if (!thread) {
+      thread = [];
+      threads.push(thread);
+    }
+    thread.push(item);
+    threadOf.set(item.reply.uri, thread);
+  }
+
+  const batches: PreparedReply[][] = [];
+  let batch: PreparedReply[] = [];
+  for (const thread of threads) {
+    if (batch.length > 0 && batch.length + thread.length > SHIM_BATCH_SIZE) {
+      batches.push(batch);
+      batch = [];
+    }
+    for (const item of thread) {
+      if (batch.length === SHIM_BATCH_SIZE) {
+        batches.push(batch);
+        batch = [];
+      }
+      batch.push(item);
+    }
+  }
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+  return batches;
+}
+
+/**
+ * Everything short of creating the comment: skip replies already synced or in the
+ * moderation inbox, run moderation, and work out the parent, member and embed.
+ * Returns null when the reply shouldn't be created now.
+ */
+async function prepareReply(
+  post: SyncablePost,
+  reply: PostReply,
+  options: { skipModeration?: boolean } = {}
+): Promise<PreparedReply | null> {
+  if (!post.ghostId) {
+    throw new Error(`Post has no ghostId: ${post.id}`);
+  }
+
+  const existing = await prisma.commentMapping.findUnique({
+    where: { bskyReplyUri: reply.uri },
+  });
+  if (existing) {
+    return null;
+  }
+
+  if (!options.skipModeration) {
+    // Already in the moderation inbox
+    const pending = await prisma.pendingComment.findUnique({
+      where: { bskyReplyUri: reply.uri },
+    });
+    if (pending) {
+      return null;
+    }
+
+    const decision = await moderateReply(post, reply);
+    if (decision.action !== 'approve') {
+      await queueForModeration(post, reply, decision);
+      return null;
+    }
+  }
+
+  // Determine parent comment ID (if this is a reply to another comment)
+  let parentCommentId: string | null = null;
+  let pendingParentUri: string | null = null;
+  if (reply.parent && reply.parent.uri !== post.atprotoUri) {
+    const parentMapping = await prisma.commentMapping.findUnique({
+      where: { bskyReplyUri: reply.parent.uri },
+    });
+    parentCommentId = parentMapping?.ghostCommentId || null;
+    pendingParentUri = parentMapping ? null : reply.parent.uri;
+  }
+
+  const { bskyProfileUrl, bskyPostUrl } = bskyReplyUrls(reply.author.handle, reply.uri);
+
+  // Each commenter gets their own Ghost member; if that fails the shim's shared member is used
+  let memberId: string | null = null;
+  try {
+    memberId = await ensureCommenterMember(post.userId, reply.author);
+  } catch (error) {
+    console.warn(`⚠️ Could not get a Ghost member for ${reply.author.handle}, using the shared member:`, error);
+  }
+
+  // Images and quotes; the comment still goes through without them if the lookup fails
+  let embed = reply.embed;
+  if (!embed && reply.record.embed) {
+    try {
+      embed = await fetchReplyEmbed(reply.uri);
+    } catch (error) {
+      console.warn(`⚠️ Could not load the embed of ${reply.uri}, syncing text only:`, error);
+    }
+  }
+
+  return {
+    reply,
+    pendingParentUri,
+    request: {
+      post_id: post.ghostId,
+      bsky_handle: reply.author.handle,
+      bsky_profile_url: bskyProfileUrl,
+      bsky_post_url: bskyPostUrl,
+      comment_text: reply.record.text,
+      parent_comment_id: parentCommentId,
+      created_at: reply.record.createdAt,
+      member_id: memberId,
+      bsky_reply_uri: reply.uri,
+      facets: reply.record.facets,
+      embed,
+    },
+  };
+}
+
+/**
+ * Store the mapping between a reply and the Ghost comment created for it
+ */
+async function recordMapping(
+  postId: string,
+  reply: PostReply,
+  ghostCommentId: string,
+  queued: boolean
+): Promise<void> {
+  await prisma.commentMapping.create({
+    data: {
+      bskyReplyUri: reply.uri,
+      ghostCommentId,
+      postId,
+      bskyAuthorDid: reply.author.did,
+      bskyAuthorHandle: reply.author.handle,
+      bskyReplyCid: reply.cid || null,
+      lastVerifiedAt: new Date(),
+      // Checked on later runs by checkQueuedComments
+      outboxStatus: queued ? 'queued' : null,
+    },
+  });
+}
+
+/**
+ * Create the Ghost comment for a single Bluesky reply and store the mapping.
+ * Returns false when the reply was already synced, or was held back or rejected by
+ * moderation. `skipModeration` is for replies that have just been approved.
+ */
+export async function syncReply(
+  post: SyncablePost,
+  reply: PostReply,
+  shimClient: ShimClient,
+  options: { skipModeration?: boolean } = {}
+): Promise<boolean> {
+  const prepared = await prepareReply(post, reply, options);
+  if (!prepared) {
+    return false;
+  }
+
+  const result = await shimClient.createComment(prepared.request);
+  // A 202 from the shim: anything short of delivered isn't in Ghost yet
+  await recordMapping(post.id, reply, result.comment_id, !!result.status && result.status !== 'delivered');
+  return true;
+}
+
+/**
+ * Publish a reply approved in the moderation inbox and mark it approved
+ */
+export async function publishPendingComment(
+  pending: PendingComment,
+  shimClient: ShimClient
+): Promise<void> {
+  const post = await prisma.post.findUnique({ where: { id: pending.postId } });
+  if (!post) {
+    throw new Error(`Post not found: ${pending.postId}`);
+  }
+
+  // Held replies don't keep their embed, so look it up again
+  let embed: CommentEmbed | undefined;
+  try {
+    embed = await fetchReplyEmbed(pending.bskyReplyUri);
+  } catch (error) {
+    console.warn(`⚠️ Could not load the embed of ${pending.bskyReplyUri}, publishing text only:`, error);
+  }
+
+  await syncReply(post, {
+    uri: pending.bskyReplyUri,
+    cid: pending.bskyReplyCid || '',
+    author: {
+      did: pending.authorDid,
+      handle: pending.authorHandle,
+      displayName: pending.authorDisplayName || undefined,
+      avatar: pending.authorAvatar || undefined,
+    },
+    record: {
+      text: pending.text,
+      createdAt: pending.replyCreatedAt.toISOString(),
+      facets: (pending.facets as unknown as AppBskyRichtextFacet.Main[] | null) || undefined,
+    },
+    embed,
+    parent: pending.parentUri ? { uri: pending.parentUri } : undefined,
+  }, shimClient, { skipModeration: true });
+
+  await prisma.pendingComment.update({
+    where: { id: pending.id },
+    data: { status: 'approved', reviewedAt: new Date() },
+  });
+}
+
+/**
+ * Carry a deletion, moderation hide or edit of a Bluesky reply over to its Ghost comment
+ * and record the new state on the mapping
+ */
+export async function applyReplyChange(
+  mapping: CommentMapping,
+  change: ReplyChange,
+  shimClient: ShimClient
+): Promise<void> {
+  if (mapping.state === 'deleted') {
+    return;
+  }
+
+  let state: CommentMappingState;
+  let cid = mapping.bskyReplyCid;
+
+  if (change.action === 'deleted') {
+    await shimClient.deleteComment(mapping.ghostCommentId);
+    state = 'deleted';
+  } else if (change.action === 'hidden') {
+    await shimClient.updateComment(mapping.ghostCommentId, { status: 'hidden' });
+    state = 'hidden';
+  } else {
+    const handle = mapping.bskyAuthorHandle || mapping.bskyAuthorDid || 'unknown';
+    const { bskyProfileUrl, bskyPostUrl } = bskyReplyUrls(handle, mapping.bskyReplyUri);
+    await shimClient.updateComment(mapping.ghostCommentId, {
+      comment_text: change.text,
+      facets: change.facets,
+      embed: change.embed,
+      bsky_handle: handle,
+      bsky_profile_url: bskyProfileUrl,
+      bsky_post_url: bskyPostUrl,
+    });
+    state = 'edited';
+    cid = change.cid;
+  }
+
+  await prisma.commentMapping.update({
+    where: { id: mapping.id },
+    data: { state, bskyReplyCid: cid, lastVerifiedAt: new Date() },
+  });
+  console.log(`🔄 Ghost comment ${mapping.ghostCommentId} marked ${state} (${mapping.bskyReplyUri})`);
+}
+
+/**
+ * Re-check the least recently verified mappings against Bluesky with getPosts.
+ * Replies that are gone are deleted in Ghost, replies hidden by moderation are hidden,
+ * and replies whose record changed get their text rewritten.
+ */
+export async function verifyCommentMappings(options: { limit?: number } = {}): Promise<CommentVerifyResult> {
+  const result: CommentVerifyResult = { checked: 0, deleted: 0, hidden: 0, edited: 0, errors: [] };
+
+  const mappings = await prisma.commentMapping.findMany({
+    // Mirrored Ghost comments are our own posts; their Ghost side is the original. Comments
+    // still in the shim's outbox aren't in Ghost yet.
+    where: { state: { not: 'deleted' }, direction: 'bsky_to_ghost', outboxStatus: null },
+    orderBy: { lastVerifiedAt: 'asc' },
+    take: options.limit ?? 200,
+    include: { post: { include: { user: true } } },
+  });
+
+  const agent = createPublicAgent();
+
+  for (let i = 0; i < mappings.length; i += GET_POSTS_BATCH) {
+    const batch = mappings.slice(i, i + GET_POSTS_BATCH);
+
+    let views: Map<string, any>;
+    try {
+      const response = await agent.getPosts({ uris: batch.map((m) => m.bskyReplyUri) });
+      views = new Map(response.data.posts.map((view) => [view.uri, view]));
+    } catch (error) {
+      result.errors.push(`getPosts failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      continue;
+    }
+
+    for (const mapping of batch) {
+      result.checked++;
+      const user = mapping.post.user;
+
+      try {
+        const view = views.get(mapping.bskyReplyUri);
+        let change: ReplyChange | null = null;
+
+        if (!view) {
+          change = { action: 'deleted' };
+        } else if (mapping.state !== 'hidden' && view.labels?.some((label: any) => HIDING_LABELS.includes(label.val))) {
+          change = { action: 'hidden' };
+        } else if (mapping.bskyReplyCid && view.cid !== mapping.bskyReplyCid) {
+          change = {
+            action: 'edited',
+            text: String(view.record?.text || ''),
+            cid: view.cid,
+            facets: view.record?.facets,
+            embed: embedFromView(view.embed),
+          };
+        }
+
+        if (change && user.shimUrl && user.shimSecret) {
+          const shimClient = new ShimClient({ shimUrl: user.shimUrl, sharedSecret: user.shimSecret });
+          await applyReplyChange(mapping, change, shimClient);
+          result[change.action]++;
+        } else {
+          // Older mappings were stored without a CID; take the current one as the baseline
+          await prisma.commentMapping.update({
+            where: { id: mapping.id },
+            data: { lastVerifiedAt: new Date(), bskyReplyCid: mapping.bskyReplyCid || view?.cid || null },
+          });
+        }
+      } catch (error) {
+        const errorMsg = `Failed to verify reply ${mapping.bskyReplyUri}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        console.error(errorMsg);
+        result.errors.push(errorMsg);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Follow up on a user's comments that the shim queued in its outbox while Ghost was
+ * unreachable. Delivered ones are marked done. A failed one is looked up on Bluesky and
+ * sent again straight away, since a reply that came in over Jetstream or a backfill may
+ * never turn up in a poll; if that doesn't work its post is polled again.
+ */
+export async function checkQueuedComments(
+  userId: string,
+  shimClient: ShimClient
+): Promise<{ checked: number; delivered: number; failed: number; resent: number; errors: string[] }> {
+  const result = { checked: 0, delivered: 0, failed: 0, resent: 0, errors: [] as string[] };
+
+  const mappings = await prisma.commentMapping.findMany({
+    where: { outboxStatus: 'queued', post: { userId } },
+    // Parents before their replies, so a resent reply can nest under its resent parent
+    orderBy: { createdAt: 'asc' },
+    include: { post: true },
+  });
+
+  for (const mapping of mappings) {
+    result.checked++;
+
+    let item: ShimOutboxItem;
+    try {
+      item = await shimClient.getOutboxItem(mapping.ghostCommentId);
+    } catch (error) {
+      const errorMsg = `Failed to check queued comment ${mapping.ghostCommentId}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error(errorMsg);
+      result.errors.push(errorMsg);
+      continue;
+    }
+
+    if (item.status === 'delivered') {
+      await prisma.commentMapping.update({ where: { id: mapping.id }, data: { outboxStatus: null } });
+      result.delivered++;
+      continue;
+    }
+    if (item.status !== 'failed') {
+      continue;
+    }
+
+    result.failed++;
+    console.warn(`⚠️ Queued comment for ${mapping.bskyReplyUri} failed in the shim (${item.last_error}); sending it again`);
+    await prisma.commentMapping.delete({ where: { id: mapping.id } });
+
+    try {
+      // Already approved when it was first sent
+      const reply = await fetchReply(mapping.bskyReplyUri);
+      if (reply && await syncReply(mapping.post, reply, shimClient, { skipModeration: true })) {
+        result.resent++;
+      }
+    } catch (error) {
+      await prisma.post.update({ where: { id: mapping.postId }, data: { commentsCheckedAt: null } });
+      const errorMsg = `Failed to resend reply ${mapping.bskyReplyUri}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error(errorMsg);
+      result.errors.push(errorMsg);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Sync comments for a specific post from Bluesky to Ghost. New replies go to the shim
+ * as one batch, so a thread lands in Ghost completely or not at all.
+ * Pass a logged-in `agent` when syncing several posts for the same user.
  */
 export async function syncCommentsForPost(
   postId: string,
   shimClient: ShimClient,
   blueskyHandle: string,
-  blueskyPassword: string
+  blueskyPassword: string,
+  agent?: AtpAgent
 ): Promise<CommentSyncResult> {
   const errors: string[] = [];
   let newComments = 0;
@@ -44,7 +514,8 @@ export async function syncCommentsForPost(
     // Fetch replies from notifications API (much more efficient!)
     const replies = await getNotificationReplies(
       { handle: blueskyHandle, password: blueskyPassword },
-      [post.atprotoUri]
+      [post.atprotoUri],
+      agent
     );
 
     // Create a map of existing synced comments
@@ -58,52 +529,140 @@ export async function syncCommentsForPost(
       return new Date(a.record.createdAt).getTime() - new Date(b.record.createdAt).getTime();
     });
 
-    // Process each reply (sorted oldest first so parents come before children)
+    // Prepare each reply (sorted oldest first so parents come before children). A reply
+    // under one that failed or was held for moderation waits for a later run instead of
+    // landing at the top.
+    const prepared: PreparedReply[] = [];
+    const heldBack = new Set<string>();
     for (const reply of sortedReplies) {
+      // Skip if already synced
+      if (existingMappings.has(reply.uri)) {
+        continue;
+      }
+      if (reply.parent && heldBack.has(reply.parent.uri)) {
+        heldBack.add(reply.uri);
+        continue;
+      }
+
       try {
-        // Skip if already synced
-        if (existingMappings.has(reply.uri)) {
-          continue;
+        const item = await prepareReply(post, reply);
+        if (item) {
+          prepared.push(item);
+        } else {
+          heldBack.add(reply.uri);
         }
+      } catch (error) {
+        const errorMsg = `Failed to sync reply ${reply.uri}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        console.error(errorMsg);
+        errors.push(errorMsg);
+        heldBack.add(reply.uri);
+      }
+    }
 
-        // Determine parent comment ID (if this is a reply to another comment)
-        let parentCommentId: string | null = null;
-        if (reply.parent && reply.parent.uri !== post.atprotoUri) {
-          const parentMapping = await prisma.commentMapping.findUnique({
-            where: { bskyReplyUri: reply.parent.uri },
-          });
-          parentCommentId = parentMapping?.ghostCommentId || null;
+    // Send the replies in batches, each created in one transaction by the shim
+    const ghostIds = new Map<string, string>();
+    for (const chunk of batchByThread(prepared)) {
+      const earlier = new Set<string>();
+
+      const items: BatchCommentItem[] = chunk.map(({ reply, request, pendingParentUri }) => {
+        const item: BatchCommentItem = { ...request, temp_id: reply.uri };
+        if (pendingParentUri && ghostIds.has(pendingParentUri)) {
+          item.parent_comment_id = ghostIds.get(pendingParentUri)!;
+        } else if (pendingParentUri && earlier.has(pendingParentUri)) {
+          item.parent_temp_id = pendingParentUri;
         }
+        earlier.add(reply.uri);
+        return item;
+      });
 
-        // Build Bluesky URLs
-        const bskyProfileUrl = `https://bsky.app/profile/${reply.author.handle}`;
-        const replyPostId = reply.uri.split('/').pop() || '';
-        const bskyPostUrl = `https://bsky.app/profile/${reply.author.handle}/post/${replyPostId}`;
-
-        // Call shim to create the comment
-        const result = await shimClient.createComment({
-          post_id: post.ghostId,
-          bsky_handle: reply.author.handle,
-          bsky_profile_url: bskyProfileUrl,
-          bsky_post_url: bskyPostUrl,
-          comment_text: reply.record.text,
-          parent_comment_id: parentCommentId,
-          created_at: reply.record.createdAt,
-        });
-
-        // Store the mapping
-        await prisma.commentMapping.create({
-          data: {
-            bskyReplyUri: reply.uri,
-            ghostCommentId: result.comment_id,
-            postId: post.id,
-            bskyAuthorDid: reply.author.did,
-            bskyAuthorHandle: reply.author.handle,
-          },
-        });
+      let response: BatchCreateCommentsResponse;
+      try {
+        response = await shimClient.createComments(items);
+      } catch (error) {
+        const errorMsg = `Failed to sync ${chunk.length} replies: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        console.error(errorMsg);
+        errors.push(errorMsg);
+        break;
+      }
 
+      for (const [index, result] of response.comments.entries()) {
+        const queued = result.status ? result.status !== 'delivered' : !!result.queued;
+        await recordMapping(post.id, chunk[index].reply, result.comment_id, queued);
+        ghostIds.set(result.temp_id, result.comment_id);
         newComments++;
+      }
+    }
+
+    return {
+      postId,
+      newComments,
+      errors,
+    };
+  } catch (error) {
+    const errorMsg = `Failed to sync comments for post ${postId}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    console.error(errorMsg);
+    errors.push(errorMsg);
+
+    return {
+      postId,
+      newComments,
+      errors,
+    };
+  }
+}
+
+/**
+ * Backfill the whole reply tree of a post from getPostThread, down to `depth` levels.
+ * Replies arrive parent-before-child; when a parent fails, its replies are held back
+ * rather than attached to the post, so a later run can nest them correctly.
+ */
+export async function backfillCommentsForPost(
+  postId: string,
+  shimClient: ShimClient,
+  options: { depth?: number } = {}
+): Promise<CommentSyncResult> {
+  const errors: string[] = [];
+  let newComments = 0;
+
+  try {
+    const post = await prisma.post.findUnique({
+      where: { id: postId },
+      include: { commentMappings: true },
+    });
+
+    if (!post) {
+      throw new Error(`Post not found: ${postId}`);
+    }
+
+    if (!post.atprotoUri) {
+      throw new Error(`Post has no atprotoUri: ${postId}`);
+    }
+
+    if (!post.ghostId) {
+      throw new Error(`Post has no ghostId: ${postId}`);
+    }
+
+    const replies = await getThreadReplies(post.atprotoUri, { depth: options.depth });
+    const existingMappings = new Set(post.commentMappings.map((m) => m.bskyReplyUri));
+    const failed = new Set<string>();
+
+    for (const reply of replies) {
+      if (existingMappings.has(reply.uri)) {
+        continue;
+      }
+
+      if (reply.parent && failed.has(reply.parent.uri)) {
+        failed.add(reply.uri);
+        errors.push(`Skipped reply ${reply.uri}: parent ${reply.parent.uri} was not synced`);
+        continue;
+      }
+
+      try {
+        if (await syncReply(post, reply, shimClient)) {
+          newComments++;
+        }
       } catch (error) {
+        failed.add(reply.uri);
         const errorMsg = `Failed to sync reply ${reply.uri}: ${error instanceof Error ? error.message : 'Unknown error'}`;
         console.error(errorMsg);
         errors.push(errorMsg);
@@ -116,7 +675,7 @@ export async function syncCommentsForPost(
       errors,
     };
   } catch (error) {
-    const errorMsg = `Failed to sync comments for post ${postId}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    const errorMsg = `Failed to backfill comments for post ${postId}: ${error instanceof Error ? error.message : 'Unknown error'}`;
     console.error(errorMsg);
     errors.push(errorMsg);
 
@@ -0,0 +1,128 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  createGhostMember,
+  getGhostMemberByEmail,
+  GhostMember,
+  GhostMemberData,
+  updateGhostMember,
+} from '../lib/ghost-admin';
+
+const prisma = new PrismaClient();
+
+/**
+ * The Bluesky account behind a reply
+ */
+export interface CommenterProfile {
+  did: string;
+  handle: string;
+  displayName?: string;
+  avatar?: string;
+}
+
+/**
+ * Placeholder email for a commenter's Ghost member. Ghost requires an address;
+ * the .invalid TLD means nothing can ever be delivered to it.
+ */
+export function commenterEmail(did: string): string {
+  return `${did.toLowerCase().replace(/[^a-z0-9.-]+/g, '-')}@bsky.atproto.invalid`;
+}
+
+/**
+ * Name and note for the member. Ghost has no writable avatar field (it uses Gravatar),
+ * so the Bluesky avatar is kept in the note.
+ */
+function memberProfileData(profile: CommenterProfile): Pick<GhostMemberData, 'name' | 'note'> {
+  const note = [`Bluesky: @${profile.handle} (${profile.did})`];
+  if (profile.avatar) {
+    note.push(`Avatar: ${profile.avatar}`);
+  }
+  return {
+    name: profile.displayName || profile.handle,
+    note: note.join('\n'),
+  };
+}
+
+async function findOrCreateGhostMember(
+  ghostUrl: string,
+  ghostApiKey: string,
+  profile: CommenterProfile
+): Promise<GhostMember> {
+  const email = commenterEmail(profile.did);
+
+  // The member may already exist in Ghost if our mapping row was lost
+  const existing = await getGhostMemberByEmail(ghostUrl, ghostApiKey, email);
+  if (existing) {
+    return existing;
+  }
+
+  try {
+    return await createGhostMember(ghostUrl, ghostApiKey, {
+      email,
+      ...memberProfileData(profile),
+      subscribed: false,
+      labels: [{ name: 'bluesky-bridge' }],
+    });
+  } catch (error) {
+    // Another sync may have created it in the meantime
+    const created = await getGhostMemberByEmail(ghostUrl, ghostApiKey, email);
+    if (created) {
+      return created;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get the Ghost member ID for a Bluesky commenter on this user's site, creating the
+ * member the first time the DID comments. A changed handle, display name or avatar is
+ * pushed to Ghost on the next comment. Returns null when the user has no Ghost Admin
+ * API key, in which case the shim's shared member is used.
+ */
+export async function ensureCommenterMember(userId: string, profile: CommenterProfile): Promise<string | null> {
+  const existing = await prisma.commenterMember.findUnique({
+    where: { userId_did: { userId, did: profile.did } },
+  });
+
+  const unchanged = existing &&
+    existing.handle === profile.handle &&
+    (existing.displayName || null) === (profile.displayName || null) &&
+    (existing.avatarUrl || null) === (profile.avatar || null);
+  if (existing && unchanged) {
+    return existing.ghostMemberId;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { ghostUrl: true, ghostApiKey: true },
+  });
+  if (!user?.ghostUrl || !user.ghostApiKey) {
+    return existing?.ghostMemberId || null;
+  }
+
+  const profileData = {
+    handle: profile.handle,
+    displayName: profile.displayName || null,
+    avatarUrl: profile.avatar || null,
+  };
+
+  if (existing) {
+    try {
+      await updateGhostMember(user.ghostUrl, user.ghostApiKey, existing.ghostMemberId, memberProfileData(profile));
+    } catch (error) {
+      console.warn(`⚠️ Could not update Ghost member for ${profile.handle}:`, error);
+      return existing.ghostMemberId;
+    }
+    await prisma.commenterMember.update({ where: { id: existing.id }, data: profileData });
+    return existing.ghostMemberId;
+  }
+
+  const member = await findOrCreateGhostMember(user.ghostUrl, user.ghostApiKey, profile);
+  await prisma.commenterMember.upsert({
+    where: { userId_did: { userId, did: profile.did } },
+    update: { ghostMemberId: member.id, ...profileData },
+    create: { userId, did: profile.did, ghostMemberId: member.id, ...profileData },
+  });
+  console.log(`👤 Ghost member ${member.id} for Bluesky commenter ${profile.handle}`);
+
+  return member.id;
+}
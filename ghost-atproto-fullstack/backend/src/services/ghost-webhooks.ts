@@ -0,0 +1,150 @@
+import axios from 'axios';
+import { PrismaClient } from '@prisma/client';
+import { createGhostAdminToken } from '../lib/ghost-admin';
+import { generateWebhookCredentials, GHOST_WEBHOOK_EVENTS, ghostWebhookUrl } from '../lib/ghost-webhook';
+
+const prisma = new PrismaClient();
+
+/**
+ * Make sure the user has a webhook token and signing secret, creating them on first use
+ */
+export async function ensureWebhookCredentials(userId: string): Promise<{ token: string; secret: string }> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { ghostWebhookToken: true, ghostWebhookSecret: true },
+  });
+  if (!user) {
+    throw new Error(`User ${userId} not found`);
+  }
+
+  if (user.ghostWebhookToken && user.ghostWebhookSecret) {
+    return { token: user.ghostWebhookToken, secret: user.ghostWebhookSecret };
+  }
+
+  const generated = generateWebhookCredentials();
+  const credentials = {
+    token: user.ghostWebhookToken || generated.token,
+    secret: user.ghostWebhookSecret || generated.secret,
+  };
+  await prisma.user.update({
+    where: { id: userId },
+    data: { ghostWebhookToken: credentials.token, ghostWebhookSecret: credentials.secret },
+  });
+  return credentials;
+}
+
+/**
+ * Register the user's webhooks with Ghost: one per event, on the user's own URL and
+ * signed with the user's secret. Webhooks on the old shared URL are removed so
+ * deliveries can't land on the wrong account.
+ *
+ * With `replace`, existing webhooks on the user's URL are recreated (needed after the
+ * secret changes, since Ghost keeps the secret it was given at creation).
+ *
+ * Returns the post.published webhook ID, or null if registration failed.
+ */
+export async function registerGhostWebhook(
+  ghostUrl: string,
+  ghostApiKey: string,
+  userId: string,
+  options: { replace?: boolean } = {}
+): Promise<string | null> {
+  try {
+    const { token: urlToken, secret } = await ensureWebhookCredentials(userId);
+    const token = createGhostAdminToken(ghostApiKey);
+    const headers = {
+      'Authorization': `Ghost ${token}`,
+      'Accept-Version': 'v6.4'
+    };
+
+    const webhookUrl = ghostWebhookUrl(urlToken);
+    const legacyUrl = `${process.env.BACKEND_URL}/api/ghost/webhook`;
+
+    const existingWebhooks = await axios.get(`${ghostUrl}/ghost/api/admin/webhooks/`, { headers });
+    const webhooks: any[] = existingWebhooks.data.webhooks || [];
+
+    const targetBase = (webhook: any) =>
+      typeof webhook.target_url === 'string' ? webhook.target_url.split('?')[0] : '';
+
+    const kept: any[] = [];
+    for (const webhook of webhooks) {
+      const base = targetBase(webhook);
+      const stale = base === legacyUrl || (options.replace && base === webhookUrl);
+      if (!stale) {
+        kept.push(webhook);
+        continue;
+      }
+      await axios.delete(`${ghostUrl}/ghost/api/admin/webhooks/${webhook.id}/`, { headers });
+      console.log(`🗑️  Removed webhook ${webhook.id} (${webhook.event} → ${base})`);
+    }
+
+    // One webhook per event; the event name rides along as a query parameter
+    // because Ghost doesn't include it in the payload
+    const webhookIds: Record<string, string> = {};
+    for (const event of GHOST_WEBHOOK_EVENTS) {
+      const existingWebhook = kept.find((webhook) => targetBase(webhook) === webhookUrl && webhook.event === event);
+
+      if (existingWebhook) {
+        console.log(`✅ Webhook already exists for ${event}: ${existingWebhook.id}`);
+        webhookIds[event] = existingWebhook.id;
+        continue;
+      }
+
+      const webhookData = {
+        webhook: {
+          event,
+          target_url: `${webhookUrl}?event=${encodeURIComponent(event)}`,
+          name: `Bluesky Publisher (${event})`,
+          secret,
+          integration_id: null
+        }
+      };
+
+      const response = await axios.post(`${ghostUrl}/ghost/api/admin/webhooks/`, webhookData, {
+        headers: { ...headers, 'Content-Type': 'application/json' }
+      });
+
+      webhookIds[event] = response.data.webhooks?.[0]?.id;
+      console.log(`✅ Webhook registered for ${event}: ${webhookIds[event]}`);
+    }
+
+    // The publish webhook is the one we track on the user
+    return webhookIds['post.published'] || null;
+
+  } catch (error) {
+    console.error('Failed to register Ghost webhook:', error);
+    return null;
+  }
+}
+
+/**
+ * Give the user a new signing secret and re-register their Ghost webhooks with it.
+ * The URL token stays the same. Returns the new secret so it can be shown once for
+ * manual setup, and the publish webhook ID (null if Ghost isn't configured or
+ * registration failed).
+ */
+export async function rotateGhostWebhookSecret(
+  userId: string
+): Promise<{ webhookUrl: string; secret: string; webhookId: string | null }> {
+  const { token } = await ensureWebhookCredentials(userId);
+  const { secret } = generateWebhookCredentials();
+
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: { ghostWebhookSecret: secret },
+  });
+
+  let webhookId: string | null = null;
+  const ghostConfigured =
+    user.ghostUrl && user.ghostApiKey && user.ghostUrl !== 'SKIPPED' && user.ghostApiKey !== 'SKIPPED';
+
+  if (ghostConfigured) {
+    webhookId = await registerGhostWebhook(user.ghostUrl!, user.ghostApiKey!, userId, { replace: true });
+    if (webhookId) {
+      await prisma.user.update({ where: { id: userId }, data: { ghostWebhookId: webhookId } });
+    }
+  }
+
+  console.log(`🔑 Rotated webhook secret for user ${userId}`);
+  return { webhookUrl: ghostWebhookUrl(token), secret, webhookId };
+}
@@ -0,0 +1,262 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AppBskyFeedDefs, AtpAgent } from '@atproto/api';
+import { deleteDocument, updateDocument } from '../lib/standard-site';
+import { ghostPostTemplateFields } from '../lib/post-template';
+
+const prisma = new PrismaClient();
+
+// Matches the " n/N" marker on posts created in thread mode
+const THREAD_MARKER = /\s\d+\/\d+$/;
+
+/**
+ * Find the follow-up posts of a bridged thread (our own replies carrying an "n/N" marker),
+ * deepest first so they can be deleted before their parents
+ */
+async function collectThreadContinuation(agent: AtpAgent, rootUri: string): Promise<string[]> {
+  const ownDid = agent.session?.did;
+  const response = await agent.getPostThread({ uri: rootUri, depth: 20, parentHeight: 0 });
+  const uris: string[] = [];
+
+  const walk = (node: AppBskyFeedDefs.ThreadViewPost) => {
+    for (const reply of node.replies || []) {
+      if (!AppBskyFeedDefs.isThreadViewPost(reply)) continue;
+      const text = String((reply.post.record as { text?: string }).text || '');
+      if (reply.post.author.did === ownDid && THREAD_MARKER.test(text)) {
+        walk(reply);
+        uris.push(reply.post.uri);
+      }
+    }
+  };
+
+  if (AppBskyFeedDefs.isThreadViewPost(response.data.thread)) {
+    walk(response.data.thread);
+  }
+  return uris;
+}
+
+/**
+ * Delete a bridged Bluesky post, including the rest of the thread when it was posted as one
+ */
+async function deleteBlueskyPost(agent: AtpAgent, uri: string): Promise<void> {
+  let continuation: string[] = [];
+  try {
+    continuation = await collectThreadContinuation(agent, uri);
+  } catch (error) {
+    // Root may already be gone - nothing to walk
+    console.warn('Could not load thread for deletion:', error instanceof Error ? error.message : error);
+  }
+
+  for (const replyUri of continuation) {
+    await agent.deletePost(replyUri);
+  }
+  await agent.deletePost(uri);
+}
+
+/**
+ * Apply a Ghost edit to the local post and rewrite its standard.site document
+ */
+export async function syncEditedPost(
+  userId: string,
+  ghostId: string,
+  postPayload: any,
+  agent: AtpAgent | null,
+  retryCount: number = 0
+): Promise<void> {
+  const post = await prisma.post.findUnique({ where: { ghostId } });
+  if (!post || post.userId !== userId) {
+    console.log(`Edited Ghost post ${ghostId} was never bridged, skipping`);
+    return;
+  }
+
+  if (postPayload?.status && postPayload.status !== 'published') {
+    // Draft edits stay in Ghost until the post is published
+    return;
+  }
+
+  // Webhook payloads can leave tags and authors out; keep what we have rather than clearing it
+  const templateFields = ghostPostTemplateFields(postPayload);
+
+  const updated = await prisma.post.update({
+    where: { id: post.id },
+    data: {
+      title: postPayload.title || post.title,
+      content: postPayload.html ?? post.content,
+      excerpt: postPayload.excerpt ?? postPayload.custom_excerpt ?? post.excerpt,
+      featureImage: postPayload.feature_image ?? post.featureImage,
+      slug: postPayload.slug || post.slug,
+      ghostSlug: postPayload.slug || post.ghostSlug,
+      ghostUrl: postPayload.url || post.ghostUrl,
+      ...('tags' in postPayload && { tags: templateFields.tags }),
+      ...(('primary_author' in postPayload || 'authors' in postPayload) && { authorName: templateFields.authorName }),
+    },
+  });
+
+  if (!updated.standardSiteDocumentUri) {
+    return;
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!agent || !user?.standardSitePublicationUri) {
+    console.log(`📝 Post ${post.id} updated locally (standard.site not reachable)`);
+    return;
+  }
+
+  try {
+    await updateDocument(agent, updated.standardSiteDocumentUri, user.standardSitePublicationUri, {
+      title: updated.title,
+      content: updated.content,
+      slug: updated.slug,
+      publishedAt: updated.publishedAt || new Date(),
+      excerpt: updated.excerpt || undefined,
+    });
+
+    await prisma.syncLog.create({
+      data: {
+        action: 'update_standard_site',
+        status: 'success',
+        source: 'ghost',
+        target: 'atproto',
+        ghostId,
+        postId: post.id,
+        atprotoUri: updated.standardSiteDocumentUri,
+        retryCount,
+        userId,
+      },
+    });
+    console.log('✅ Updated standard.site document:', updated.standardSiteDocumentUri);
+  } catch (error) {
+    console.error('Failed to update standard.site document:', error);
+    await prisma.syncLog.create({
+      data: {
+        action: 'update_standard_site',
+        status: 'error',
+        source: 'ghost',
+        target: 'atproto',
+        ghostId,
+        postId: post.id,
+        atprotoUri: updated.standardSiteDocumentUri,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        retryCount,
+        userId,
+      },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Remove the Bluesky post and standard.site document for a post that was
+ * unpublished or deleted in Ghost
+ */
+export async function removeBridgedPost(
+  userId: string,
+  ghostId: string,
+  reason: 'unpublished' | 'deleted',
+  agent: AtpAgent | null,
+  retryCount: number = 0
+): Promise<void> {
+  const post = await prisma.post.findUnique({ where: { ghostId } });
+  if (!post || post.userId !== userId) {
+    console.log(`Removed Ghost post ${ghostId} was never bridged, skipping`);
+    return;
+  }
+
+  const status = reason === 'deleted' ? 'deleted' : 'draft';
+  const failures: string[] = [];
+  const cleared: Prisma.PostUpdateInput = {};
+
+  if (agent && post.atprotoUri) {
+    try {
+      await deleteBlueskyPost(agent, post.atprotoUri);
+      cleared.atprotoUri = null;
+      cleared.atprotoCid = null;
+      // Otherwise a republish would finish the old thread under the posts just deleted
+      cleared.atprotoThread = Prisma.DbNull;
+
+      await prisma.syncLog.create({
+        data: {
+          action: 'delete_from_atproto',
+          status: 'success',
+          source: 'ghost',
+          target: 'atproto',
+          ghostId,
+          postId: post.id,
+          atprotoUri: post.atprotoUri,
+          retryCount,
+          userId,
+        },
+      });
+      console.log(`🗑️ Deleted Bluesky post (${reason} in Ghost):`, post.atprotoUri);
+    } catch (error) {
+      console.error('Failed to delete Bluesky post:', error);
+      failures.push(`Bluesky post: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      await prisma.syncLog.create({
+        data: {
+          action: 'delete_from_atproto',
+          status: 'error',
+          source: 'ghost',
+          target: 'atproto',
+          ghostId,
+          postId: post.id,
+          atprotoUri: post.atprotoUri,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          retryCount,
+          userId,
+        },
+      });
+    }
+  }
+
+  if (agent && post.standardSiteDocumentUri) {
+    try {
+      await deleteDocument(agent, post.standardSiteDocumentUri);
+      cleared.standardSiteDocumentUri = null;
+
+      await prisma.syncLog.create({
+        data: {
+          action: 'delete_from_standard_site',
+          status: 'success',
+          source: 'ghost',
+          target: 'atproto',
+          ghostId,
+          postId: post.id,
+          atprotoUri: post.standardSiteDocumentUri,
+          retryCount,
+          userId,
+        },
+      });
+      console.log(`🗑️ Deleted standard.site document (${reason} in Ghost):`, post.standardSiteDocumentUri);
+    } catch (error) {
+      console.error('Failed to delete standard.site document:', error);
+      failures.push(`standard.site document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      await prisma.syncLog.create({
+        data: {
+          action: 'delete_from_standard_site',
+          status: 'error',
+          source: 'ghost',
+          target: 'atproto',
+          ghostId,
+          postId: post.id,
+          atprotoUri: post.standardSiteDocumentUri,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          retryCount,
+          userId,
+        },
+      });
+    }
+  }
+
+  if (!agent && (post.atprotoUri || post.standardSiteDocumentUri)) {
+    console.log(`📝 Post ${post.id} marked ${status} locally (Bluesky not connected)`);
+  }
+
+  // Anything we failed to delete keeps its URI so a retry can clean it up
+  await prisma.post.update({
+    where: { id: post.id },
+    data: { status, ...cleared },
+  });
+
+  if (failures.length > 0) {
+    throw new Error(`Failed to remove ${failures.join('; ')}`);
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Tests for Bluesky thread splitting
+ *
+ * File: backend/tests/bluesky-thread.mock.test.ts
+ */
+
+import { AtpAgent, RichText } from '@atproto/api';
+import { buildThreadPosts, htmlToParagraphs, postThread, ThreadProgress } from '../src/lib/bluesky-thread';
+
+const graphemes = (text: string) => new RichText({ text }).graphemeLength;
+
+const sentence = (n: number) =>
+  `This is sentence number ${n} of a fairly long Ghost article about civic engagement.`;
+
+const longHtml = Array.from({ length: 6 }, (_, p) =>
+  `<p>${Array.from({ length: 4 }, (_, s) => sentence(p * 4 + s)).join(' ')}</p>`
+).join('');
+
+describe('htmlToParagraphs', () => {
+  it('keeps paragraph boundaries and strips tags', () => {
+    const paragraphs = htmlToParagraphs('<h2>Intro</h2><p>First &amp; <em>best</em>.</p><p>Second<br>line.</p>');
+
+    expect(paragraphs).toEqual(['Intro', 'First & best.', 'Second line.']);
+  });
+});
+
+describe('buildThreadPosts', () => {
+  it('returns a single post without a marker when everything fits', () => {
+    const posts = buildThreadPosts({
+      title: 'Short post',
+      content: '<p>Just one sentence.</p>',
+      url: 'https://blog.example.com/short',
+    });
+
+    expect(posts).toEqual(['Short post\n\n🔗 https://blog.example.com/short\n\nJust one sentence.']);
+  });
+
+  it('splits long content into numbered posts within the limit', () => {
+    const posts = buildThreadPosts({
+      title: 'Long post',
+      content: longHtml,
+      url: 'https://blog.example.com/long',
+    });
+
+    expect(posts.length).toBeGreaterThan(1);
+    posts.forEach((post, index) => {
+      expect(graphemes(post)).toBeLessThanOrEqual(300);
+      expect(post.endsWith(` ${index + 1}/${posts.length}`)).toBe(true);
+    });
+    expect(posts[0]).toContain('🔗 https://blog.example.com/long');
+  });
+
+  it('splits on sentence boundaries', () => {
+    const posts = buildThreadPosts({ title: 'Long post', content: longHtml });
+
+    posts.slice(1).forEach((post) => {
+      const body = post.replace(/ \d+\/\d+$/, '');
+      expect(body).toMatch(/\.$/);
+    });
+  });
+
+  it('puts the link in the last post when requested', () => {
+    const posts = buildThreadPosts({
+      title: 'Long post',
+      content: longHtml,
+      url: 'https://blog.example.com/long',
+      linkPosition: 'last',
+    });
+
+    expect(posts[0]).not.toContain('🔗');
+    expect(posts[posts.length - 1]).toContain('🔗 https://blog.example.com/long');
+  });
+
+  it('caps the thread at maxPosts', () => {
+    const posts = buildThreadPosts({
+      title: 'Long post',
+      content: longHtml,
+      url: 'https://blog.example.com/long',
+      linkPosition: 'last',
+      maxPosts: 2,
+    });
+
+    expect(posts).toHaveLength(2);
+    expect(posts[1]).toContain('🔗 https://blog.example.com/long');
+    expect(posts[1].endsWith(' 2/2')).toBe(true);
+    expect(graphemes(posts[1])).toBeLessThanOrEqual(300);
+  });
+
+  it('hard-splits text without any spaces', () => {
+    const posts = buildThreadPosts({ title: 'Wall', content: `<p>${'x'.repeat(700)}</p>` });
+
+    expect(posts.length).toBeGreaterThan(2);
+    posts.forEach((post) => expect(graphemes(post)).toBeLessThanOrEqual(300));
+  });
+});
+
+describe('postThread', () => {
+  const parts = ['Title 1/3', 'Middle 2/3', 'End 3/3'];
+  const ref = (n: number) => ({ uri: `at://did:plc:me/app.bsky.feed.post/${n}`, cid: `cid-${n}` });
+
+  const mockAgent = () => {
+    let next = 0;
+    return {
+      post: jest.fn(async () => ref(++next + 10)),
+    } as unknown as AtpAgent & { post: jest.Mock };
+  };
+
+  it('chains the parts as replies and reports each one as it is posted', async () => {
+    const agent = mockAgent();
+    const embed = { $type: 'app.bsky.embed.external', external: { uri: 'https://blog.example.com/p', title: 'T', description: '' } };
+    const progress: ThreadProgress[] = [];
+
+    const root = await postThread(agent, parts, {
+      embed: async () => embed as any,
+      onProgress: async (p) => { progress.push({ parts: [...p.parts], total: p.total }); },
+    });
+
+    expect(root).toEqual(ref(11));
+    const records = agent.post.mock.calls.map(([record]: any[]) => record);
+    expect(records[0].embed).toEqual(embed);
+    expect(records[0].reply).toBeUndefined();
+    expect(records[1].reply).toEqual({ root: ref(11), parent: ref(11) });
+    expect(records[2].reply).toEqual({ root: ref(11), parent: ref(12) });
+    expect(progress.map((p) => p.parts.length)).toEqual([1, 2, 3]);
+    expect(progress.every((p) => p.total === 3)).toBe(true);
+  });
+
+  it('continues from the last posted part instead of starting over', async () => {
+    const agent = mockAgent();
+    const embed = jest.fn();
+    const onProgress = jest.fn();
+
+    const root = await postThread(agent, parts, { embed, resume: [ref(1), ref(2)], onProgress });
+
+    expect(root).toEqual(ref(1));
+    expect(agent.post).toHaveBeenCalledTimes(1);
+    const [record] = agent.post.mock.calls[0];
+    expect(record.text).toBe('End 3/3');
+    expect(record.reply).toEqual({ root: ref(1), parent: ref(2) });
+    expect(embed).not.toHaveBeenCalled();
+    expect(onProgress).toHaveBeenCalledWith({ parts: [ref(1), ref(2), ref(11)], total: 3 });
+  });
+
+  it('posts nothing when every part already exists', async () => {
+    const agent = mockAgent();
+
+    await expect(postThread(agent, parts, { resume: [ref(1), ref(2), ref(3)] })).resolves.toEqual(ref(1));
+    expect(agent.post).not.toHaveBeenCalled();
+  });
+
+  it('keeps what was posted when a later part fails', async () => {
+    const agent = mockAgent();
+    agent.post.mockResolvedValueOnce(ref(1)).mockRejectedValueOnce(new Error('rate limited'));
+    const saved: ThreadProgress[] = [];
+
+    await expect(postThread(agent, parts, {
+      onProgress: async (p) => { saved.push({ parts: [...p.parts], total: p.total }); },
+    })).rejects.toThrow('rate limited');
+
+    expect(saved).toEqual([{ parts: [ref(1)], total: 3 }]);
+  });
+});
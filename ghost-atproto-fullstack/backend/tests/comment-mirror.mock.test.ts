@@ -0,0 +1,180 @@
+/**
+ * Tests for mirroring Ghost comments back to Bluesky
+ *
+ * File: backend/tests/comment-mirror.mock.test.ts
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { mirrorGhostComments, mirroredReplyText } from '../src/services/comment-mirror';
+
+// Mock Prisma
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    post: {
+      findMany: jest.fn(),
+    },
+    commentMapping: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+  };
+
+  return {
+    PrismaClient: jest.fn(() => mockPrismaClient),
+  };
+});
+
+const ROOT = { uri: 'at://did:plc:owner/app.bsky.feed.post/root', cid: 'bafyroot' };
+
+const owner = {
+  reverseCommentSync: true,
+  reverseCommentSyncedAt: new Date('2026-10-19T11:00:00.000Z'),
+  reverseCommentSyncedId: null,
+  shimUrl: 'http://shim.test',
+  shimSecret: 'secret',
+  blueskyHandle: 'owner.bsky.social',
+  blueskyPassword: 'app-password',
+};
+
+const comment = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  post_id: 'ghost-post-1',
+  parent_id: null,
+  member_name: 'Jamie',
+  html: '<p>Thanks for writing this!</p>',
+  created_at: '2026-10-19T12:00:00.000Z',
+  ...overrides,
+});
+
+describe('Comment mirror (Mocked)', () => {
+  let mockPrisma: any;
+  let agent: any;
+  let shimClient: any;
+
+  beforeEach(() => {
+    mockPrisma = new PrismaClient();
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockPrisma.user.findUnique.mockResolvedValue(owner);
+    mockPrisma.post.findMany.mockResolvedValue([
+      { id: 'post-1', ghostId: 'ghost-post-1', atprotoUri: ROOT.uri, atprotoCid: ROOT.cid },
+    ]);
+    mockPrisma.commentMapping.findFirst.mockResolvedValue(null);
+
+    agent = {
+      session: { did: 'did:plc:owner', handle: 'owner.bsky.social' },
+      post: jest.fn().mockResolvedValue({ uri: 'at://did:plc:owner/app.bsky.feed.post/mirror1', cid: 'bafymirror' }),
+    };
+    shimClient = { listComments: jest.fn() };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('attributes the comment and keeps the reply within one post', () => {
+    expect(mirroredReplyText(comment('c1'))).toBe('Jamie commented on the blog:\n\nThanks for writing this!');
+
+    const long = mirroredReplyText({ member_name: null, html: `<p>${'word '.repeat(100)}</p>` });
+    expect(long.startsWith('A reader commented on the blog:')).toBe(true);
+    expect(long.length).toBeLessThanOrEqual(300);
+    expect(long.endsWith('…')).toBe(true);
+  });
+
+  it('posts new comments as replies and records a reverse mapping', async () => {
+    shimClient.listComments.mockResolvedValue({
+      comments: [
+        comment('c1'),
+        // Not on a bridged post
+        comment('c2', { post_id: 'ghost-post-other', created_at: '2026-10-19T12:05:00.000Z' }),
+      ],
+      has_more: false,
+    });
+
+    const result = await mirrorGhostComments('user-1', { agent, shimClient });
+
+    expect(result).toEqual({ checked: 2, posted: 1, errors: [] });
+    expect(shimClient.listComments).toHaveBeenCalledWith('2026-10-19T11:00:00.000Z', 100, null);
+    expect(agent.post.mock.calls[0][0].reply).toEqual({ root: ROOT, parent: ROOT });
+    expect(mockPrisma.commentMapping.create.mock.calls[0][0].data).toMatchObject({
+      bskyReplyUri: 'at://did:plc:owner/app.bsky.feed.post/mirror1',
+      ghostCommentId: 'c1',
+      direction: 'ghost_to_bsky',
+    });
+    expect(mockPrisma.user.update.mock.calls[0][0].data).toEqual({
+      reverseCommentSyncedAt: new Date('2026-10-19T12:05:00.000Z'),
+      reverseCommentSyncedId: 'c2',
+    });
+  });
+
+  it('pages on from the last comment seen, even within one second', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue({
+      ...owner,
+      reverseCommentSyncedAt: new Date('2026-10-19T12:00:00.000Z'),
+      reverseCommentSyncedId: 'c1',
+    });
+    // A full page of comments written in the same second, none on bridged posts
+    const sameSecond = Array.from({ length: 100 }, (_, i) =>
+      comment(`c1-${String(i).padStart(3, '0')}`, { post_id: 'ghost-post-other' })
+    );
+    shimClient.listComments
+      .mockResolvedValueOnce({ comments: sameSecond, has_more: true })
+      .mockResolvedValueOnce({ comments: [comment('c2', { created_at: '2026-10-19T12:00:01.000Z' })], has_more: false });
+
+    const result = await mirrorGhostComments('user-1', { agent, shimClient });
+
+    expect(result.checked).toBe(101);
+    expect(shimClient.listComments.mock.calls).toEqual([
+      ['2026-10-19T12:00:00.000Z', 100, 'c1'],
+      ['2026-10-19T12:00:00.000Z', 100, 'c1-099'],
+    ]);
+    expect(mockPrisma.user.update.mock.calls[0][0].data).toEqual({
+      reverseCommentSyncedAt: new Date('2026-10-19T12:00:01.000Z'),
+      reverseCommentSyncedId: 'c2',
+    });
+  });
+
+  it('threads Ghost replies under the bridged parent and never echoes bridged comments', async () => {
+    shimClient.listComments.mockResolvedValue({
+      comments: [comment('c3', { parent_id: 'c-parent' }), comment('c4')],
+      has_more: false,
+    });
+    mockPrisma.commentMapping.findFirst.mockImplementation(({ where }: any) => {
+      if (where.ghostCommentId === 'c-parent') {
+        return Promise.resolve({ bskyReplyUri: 'at://did:plc:reader/app.bsky.feed.post/r1', bskyReplyCid: 'bafyr1' });
+      }
+      // c4 came from Bluesky in the first place
+      if (where.ghostCommentId === 'c4') return Promise.resolve({ id: 'mapping-4' });
+      return Promise.resolve(null);
+    });
+
+    const result = await mirrorGhostComments('user-1', { agent, shimClient });
+
+    expect(result.posted).toBe(1);
+    expect(agent.post).toHaveBeenCalledTimes(1);
+    expect(agent.post.mock.calls[0][0].reply.parent).toEqual({
+      uri: 'at://did:plc:reader/app.bsky.feed.post/r1',
+      cid: 'bafyr1',
+    });
+  });
+
+  it('does not move the cursor past a comment that failed to post', async () => {
+    shimClient.listComments.mockResolvedValue({
+      comments: [comment('c5', { created_at: '2026-10-19T11:30:00.000Z' }), comment('c6')],
+      has_more: false,
+    });
+    agent.post.mockRejectedValueOnce(new Error('Rate limited'));
+
+    const result = await mirrorGhostComments('user-1', { agent, shimClient });
+
+    expect(result.errors[0]).toContain('Rate limited');
+    expect(agent.post).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.user.update.mock.calls[0][0].data.reverseCommentSyncedAt).toEqual(new Date('2026-10-19T11:00:00.000Z'));
+  });
+});
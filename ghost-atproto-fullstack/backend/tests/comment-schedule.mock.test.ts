@@ -0,0 +1,135 @@
+/**
+ * Tests for scheduled comment sync: intervals, post ageing and run summaries
+ *
+ * File: backend/tests/comment-schedule.mock.test.ts
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { isPostDue, postPollInterval, runCommentSync } from '../src/jobs/sync-comments';
+import { loginToBluesky } from '../src/lib/atproto';
+import { syncCommentsForPost } from '../src/services/comment-sync';
+
+// Mock Prisma
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    user: {
+      findMany: jest.fn(),
+    },
+    post: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    commentSyncRun: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+
+  return {
+    PrismaClient: jest.fn(() => mockPrismaClient),
+  };
+});
+
+jest.mock('../src/lib/atproto', () => ({
+  ...jest.requireActual('../src/lib/atproto'),
+  loginToBluesky: jest.fn(),
+}));
+
+jest.mock('../src/services/comment-sync', () => ({
+  checkQueuedComments: jest.fn().mockResolvedValue({ checked: 0, delivered: 0, failed: 0, resent: 0, errors: [] }),
+  syncCommentsForPost: jest.fn(),
+}));
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+const hoursAgo = (hours: number) => new Date(NOW.getTime() - hours * 60 * 60 * 1000);
+
+const user = (id: string, commentSyncInterval = 15) => ({
+  id,
+  email: `${id}@example.com`,
+  shimUrl: 'http://shim.test',
+  shimSecret: 'secret',
+  blueskyHandle: `${id}.bsky.social`,
+  blueskyPassword: 'app-password',
+  commentSyncInterval,
+});
+
+describe('Scheduled comment sync (Mocked)', () => {
+  let mockPrisma: any;
+
+  beforeEach(() => {
+    mockPrisma = new PrismaClient();
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, json: async () => ({ status: 'ok' }) }) as any;
+    (loginToBluesky as jest.Mock).mockResolvedValue({ session: { did: 'did:plc:owner' } });
+    (syncCommentsForPost as jest.Mock).mockResolvedValue({ newComments: 1, errors: [] });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('polls older posts less often', () => {
+    expect(postPollInterval(hoursAgo(24), 15, NOW)).toBe(15);
+    expect(postPollInterval(hoursAgo(24 * 10), 15, NOW)).toBe(60);
+    expect(postPollInterval(hoursAgo(24 * 90), 15, NOW)).toBe(360);
+
+    const oldPost = { publishedAt: hoursAgo(24 * 10), createdAt: hoursAgo(24 * 10) };
+    expect(isPostDue({ ...oldPost, commentsCheckedAt: null }, 15, NOW)).toBe(true);
+    expect(isPostDue({ ...oldPost, commentsCheckedAt: hoursAgo(0.5) }, 15, NOW)).toBe(false);
+    expect(isPostDue({ ...oldPost, commentsCheckedAt: hoursAgo(2) }, 15, NOW)).toBe(true);
+  });
+
+  it('skips users whose interval has not come round and records a run for the rest', async () => {
+    mockPrisma.user.findMany.mockResolvedValue([user('due'), user('recent')]);
+    mockPrisma.commentSyncRun.findFirst.mockImplementation(({ where }: any) =>
+      Promise.resolve(where.userId === 'recent' ? { startedAt: new Date(Date.now() - 60 * 1000) } : null)
+    );
+    mockPrisma.post.findMany.mockResolvedValue([
+      { id: 'post-new', publishedAt: new Date(), createdAt: new Date(), commentsCheckedAt: null },
+      { id: 'post-old', publishedAt: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000), createdAt: new Date(0), commentsCheckedAt: new Date() },
+    ]);
+
+    const summary = await runCommentSync();
+
+    expect(mockPrisma.user.findMany.mock.calls[0][0].where.commentSyncInterval).toEqual({ gt: 0 });
+    expect(summary).toMatchObject({ success: true, usersProcessed: 1, postsProcessed: 1, totalNewComments: 1 });
+    expect(loginToBluesky).toHaveBeenCalledTimes(1);
+    expect((syncCommentsForPost as jest.Mock).mock.calls[0][0]).toBe('post-new');
+    expect(mockPrisma.commentSyncRun.create.mock.calls[0][0].data).toMatchObject({
+      userId: 'due',
+      trigger: 'schedule',
+      status: 'success',
+      postsChecked: 1,
+      newComments: 1,
+    });
+  });
+
+  it('logs in once per user and records partial runs', async () => {
+    mockPrisma.user.findMany.mockResolvedValue([user('one')]);
+    mockPrisma.commentSyncRun.findFirst.mockResolvedValue(null);
+    mockPrisma.post.findMany.mockResolvedValue([
+      { id: 'post-1', publishedAt: new Date(), createdAt: new Date(), commentsCheckedAt: null },
+      { id: 'post-2', publishedAt: new Date(), createdAt: new Date(), commentsCheckedAt: null },
+    ]);
+    (syncCommentsForPost as jest.Mock)
+      .mockResolvedValueOnce({ newComments: 0, errors: [] })
+      .mockResolvedValueOnce({ newComments: 0, errors: ['Failed to sync reply'] });
+
+    await runCommentSync({ force: true, trigger: 'manual' });
+
+    expect(loginToBluesky).toHaveBeenCalledTimes(1);
+    const agent = await (loginToBluesky as jest.Mock).mock.results[0].value;
+    expect((syncCommentsForPost as jest.Mock).mock.calls[1][4]).toBe(agent);
+    // Only the post that synced cleanly is marked as checked
+    expect(mockPrisma.post.update).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.commentSyncRun.create.mock.calls[0][0].data).toMatchObject({
+      trigger: 'manual',
+      status: 'partial',
+      errorCount: 1,
+    });
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * Tests for syncing a post's Bluesky replies to Ghost in one batch
+ *
+ * File: backend/tests/comment-sync.mock.test.ts
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { checkQueuedComments, syncCommentsForPost, syncReply } from '../src/services/comment-sync';
+import { fetchReply, getNotificationReplies, PostReply } from '../src/lib/atproto';
+import { moderateReply, queueForModeration } from '../src/services/comment-moderation';
+
+// Mock Prisma
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    post: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    commentMapping: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    pendingComment: {
+      findUnique: jest.fn(),
+    },
+  };
+
+  return {
+    PrismaClient: jest.fn(() => mockPrismaClient),
+  };
+});
+
+jest.mock('../src/lib/atproto', () => ({
+  createPublicAgent: jest.fn(),
+  embedFromView: jest.fn(),
+  fetchReply: jest.fn(),
+  fetchReplyEmbed: jest.fn(),
+  getNotificationReplies: jest.fn(),
+  getThreadReplies: jest.fn(),
+}));
+
+jest.mock('../src/services/commenter-members', () => ({
+  ensureCommenterMember: jest.fn().mockResolvedValue(null),
+}));
+
+jest.mock('../src/services/comment-moderation', () => ({
+  moderateReply: jest.fn().mockResolvedValue({ action: 'approve' }),
+  queueForModeration: jest.fn(),
+}));
+
+const ROOT_URI = 'at://did:plc:owner/app.bsky.feed.post/root';
+
+const reply = (id: string, parentUri: string, createdAt: string): PostReply => ({
+  uri: `at://did:plc:reader/app.bsky.feed.post/${id}`,
+  cid: `bafy${id}`,
+  author: { did: 'did:plc:reader', handle: 'reader.bsky.social' },
+  record: { text: `Reply ${id}`, createdAt },
+  parent: { uri: parentUri },
+});
+
+// A chain of replies, each answering the one before, starting under `parentUri`
+const chain = (prefix: string, length: number, parentUri: string, start: number): PostReply[] => {
+  const replies: PostReply[] = [];
+  for (let i = 0; i < length; i++) {
+    const createdAt = new Date(start + i * 1000).toISOString();
+    replies.push(reply(`${prefix}${i}`, i === 0 ? parentUri : replies[i - 1].uri, createdAt));
+  }
+  return replies;
+};
+
+// Answer a batch the way the shim does, one comment per item
+const createdBatch = async (items: any[]) => ({
+  comments: items.map((item) => ({ temp_id: item.temp_id, comment_id: `ghost-${item.temp_id.split('/').pop()}`, created: true })),
+});
+
+describe('Comment sync (Mocked)', () => {
+  let mockPrisma: any;
+  let shimClient: any;
+
+  beforeEach(() => {
+    mockPrisma = new PrismaClient();
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockPrisma.post.findUnique.mockResolvedValue({
+      id: 'post-1',
+      userId: 'user-1',
+      ghostId: 'ghost-post-1',
+      atprotoUri: ROOT_URI,
+      commentMappings: [],
+    });
+    mockPrisma.commentMapping.findUnique.mockResolvedValue(null);
+    mockPrisma.pendingComment.findUnique.mockResolvedValue(null);
+    (moderateReply as jest.Mock).mockResolvedValue({ action: 'approve' });
+
+    shimClient = { createComments: jest.fn(), createComment: jest.fn(), getOutboxItem: jest.fn() };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sends the whole thread in one batch, nesting replies by temp ID', async () => {
+    const parent = reply('a', ROOT_URI, '2026-10-19T12:00:00.000Z');
+    const child = reply('b', parent.uri, '2026-10-19T12:05:00.000Z');
+    (getNotificationReplies as jest.Mock).mockResolvedValue([child, parent]);
+    shimClient.createComments.mockResolvedValue({
+      comments: [
+        { temp_id: parent.uri, comment_id: 'ghost-a', created: true },
+        { temp_id: child.uri, comment_id: 'ghost-b', created: true },
+      ],
+    });
+
+    const result = await syncCommentsForPost('post-1', shimClient, 'owner.bsky.social', 'app-password');
+
+    expect(result).toEqual({ postId: 'post-1', newComments: 2, errors: [] });
+    expect(shimClient.createComment).not.toHaveBeenCalled();
+    expect(shimClient.createComments).toHaveBeenCalledTimes(1);
+
+    const [items] = shimClient.createComments.mock.calls[0];
+    expect(items.map((item: any) => item.temp_id)).toEqual([parent.uri, child.uri]);
+    expect(items[0].parent_temp_id).toBeUndefined();
+    expect(items[1]).toMatchObject({ parent_temp_id: parent.uri, parent_comment_id: null, bsky_reply_uri: child.uri });
+
+    expect(mockPrisma.commentMapping.create).toHaveBeenCalledTimes(2);
+    expect(mockPrisma.commentMapping.create.mock.calls[1][0].data).toMatchObject({
+      bskyReplyUri: child.uri,
+      ghostCommentId: 'ghost-b',
+    });
+  });
+
+  it('records no mappings when the batch fails', async () => {
+    (getNotificationReplies as jest.Mock).mockResolvedValue([reply('a', ROOT_URI, '2026-10-19T12:00:00.000Z')]);
+    shimClient.createComments.mockRejectedValue(new Error('Shim API error (500): Disk full'));
+
+    const result = await syncCommentsForPost('post-1', shimClient, 'owner.bsky.social', 'app-password');
+
+    expect(result.newComments).toBe(0);
+    expect(result.errors).toEqual(['Failed to sync 1 replies: Shim API error (500): Disk full']);
+    expect(mockPrisma.commentMapping.create).not.toHaveBeenCalled();
+  });
+
+  it('holds back replies under a reply held for moderation', async () => {
+    const held = reply('a', ROOT_URI, '2026-10-19T12:00:00.000Z');
+    const child = reply('b', held.uri, '2026-10-19T12:05:00.000Z');
+    const other = reply('c', ROOT_URI, '2026-10-19T12:10:00.000Z');
+    (getNotificationReplies as jest.Mock).mockResolvedValue([held, child, other]);
+    (moderateReply as jest.Mock).mockImplementation(async (_post: any, r: PostReply) =>
+      r.uri === held.uri ? { action: 'hold', reason: 'Matched rule' } : { action: 'approve' }
+    );
+    shimClient.createComments.mockImplementation(createdBatch);
+
+    const result = await syncCommentsForPost('post-1', shimClient, 'owner.bsky.social', 'app-password');
+
+    expect(result).toEqual({ postId: 'post-1', newComments: 1, errors: [] });
+    expect(queueForModeration).toHaveBeenCalledTimes(1);
+    const [items] = shimClient.createComments.mock.calls[0];
+    expect(items.map((item: any) => item.temp_id)).toEqual([other.uri]);
+  });
+
+  it('splits batches between threads rather than inside one', async () => {
+    const start = Date.parse('2026-10-19T12:00:00.000Z');
+    const first = chain('a', 60, ROOT_URI, start);
+    const second = chain('b', 60, ROOT_URI, start + 500);
+    (getNotificationReplies as jest.Mock).mockResolvedValue([...first, ...second]);
+    shimClient.createComments.mockImplementation(createdBatch);
+
+    const result = await syncCommentsForPost('post-1', shimClient, 'owner.bsky.social', 'app-password');
+
+    expect(result.newComments).toBe(120);
+    expect(shimClient.createComments).toHaveBeenCalledTimes(2);
+    const [[batch1], [batch2]] = shimClient.createComments.mock.calls;
+    expect(batch1.map((item: any) => item.temp_id)).toEqual(first.map((r) => r.uri));
+    expect(batch2.map((item: any) => item.temp_id)).toEqual(second.map((r) => r.uri));
+    expect(batch2[0].parent_temp_id).toBeUndefined();
+    expect(batch2[0].parent_comment_id).toBeNull();
+  });
+
+  it('splits a thread longer than a batch, nesting the rest under created comments', async () => {
+    const thread = chain('a', 150, ROOT_URI, Date.parse('2026-10-19T12:00:00.000Z'));
+    (getNotificationReplies as jest.Mock).mockResolvedValue(thread);
+    shimClient.createComments.mockImplementation(createdBatch);
+
+    const result = await syncCommentsForPost('post-1', shimClient, 'owner.bsky.social', 'app-password');
+
+    expect(result.newComments).toBe(150);
+    const [[batch1], [batch2]] = shimClient.createComments.mock.calls;
+    expect(batch1).toHaveLength(100);
+    expect(batch2).toHaveLength(50);
+    expect(batch2[0]).toMatchObject({ temp_id: thread[100].uri, parent_comment_id: 'ghost-a99' });
+    expect(batch2[0].parent_temp_id).toBeUndefined();
+    expect(batch2[1].parent_temp_id).toBe(thread[100].uri);
+  });
+
+  it('does not send the rest of a long thread when its first batch fails', async () => {
+    const thread = chain('a', 150, ROOT_URI, Date.parse('2026-10-19T12:00:00.000Z'));
+    (getNotificationReplies as jest.Mock).mockResolvedValue(thread);
+    shimClient.createComments.mockRejectedValue(new Error('Shim API error (503): Ghost database unavailable'));
+
+    const result = await syncCommentsForPost('post-1', shimClient, 'owner.bsky.social', 'app-password');
+
+    expect(result.newComments).toBe(0);
+    expect(shimClient.createComments).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.commentMapping.create).not.toHaveBeenCalled();
+  });
+
+  it('marks comments the shim queued in its outbox', async () => {
+    const queued = reply('a', ROOT_URI, '2026-10-19T12:00:00.000Z');
+    (getNotificationReplies as jest.Mock).mockResolvedValue([queued]);
+    shimClient.createComments.mockResolvedValue({
+      comments: [{ temp_id: queued.uri, comment_id: 'ghost-a', created: true, queued: true }],
+    });
+
+    await syncCommentsForPost('post-1', shimClient, 'owner.bsky.social', 'app-password');
+
+    expect(mockPrisma.commentMapping.create.mock.calls[0][0].data).toMatchObject({
+      ghostCommentId: 'ghost-a',
+      outboxStatus: 'queued',
+    });
+  });
+
+  it('treats any outbox status short of delivered as queued', async () => {
+    const first = reply('a', ROOT_URI, '2026-10-19T12:00:00.000Z');
+    const second = reply('b', ROOT_URI, '2026-10-19T12:05:00.000Z');
+    (getNotificationReplies as jest.Mock).mockResolvedValue([first, second]);
+    shimClient.createComments.mockResolvedValue({
+      comments: [
+        { temp_id: first.uri, comment_id: 'ghost-a', created: false, queued: true, status: 'failed' },
+        { temp_id: second.uri, comment_id: 'ghost-b', created: false, queued: false, status: 'delivered' },
+      ],
+    });
+
+    await syncCommentsForPost('post-1', shimClient, 'owner.bsky.social', 'app-password');
+
+    const stored = mockPrisma.commentMapping.create.mock.calls.map((call: any) => call[0].data.outboxStatus);
+    expect(stored).toEqual(['queued', null]);
+  });
+
+  it('records a single comment the shim answered 202 for as queued', async () => {
+    shimClient.createComment.mockResolvedValue({ comment_id: 'ghost-a', status: 'failed' });
+    const post = { id: 'post-1', userId: 'user-1', ghostId: 'ghost-post-1', atprotoUri: ROOT_URI };
+
+    expect(await syncReply(post, reply('a', ROOT_URI, '2026-10-19T12:00:00.000Z'), shimClient)).toBe(true);
+
+    expect(mockPrisma.commentMapping.create.mock.calls[0][0].data.outboxStatus).toBe('queued');
+  });
+
+  describe('checkQueuedComments', () => {
+    const post = { id: 'post-1', userId: 'user-1', ghostId: 'ghost-post-1', atprotoUri: ROOT_URI };
+    const mapping = (id: string) => ({
+      id: `mapping-${id}`,
+      postId: 'post-1',
+      ghostCommentId: `ghost-${id}`,
+      bskyReplyUri: `at://did:plc:reader/app.bsky.feed.post/${id}`,
+      outboxStatus: 'queued',
+      post,
+    });
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockPrisma.commentMapping.findMany.mockResolvedValue([mapping('a'), mapping('b'), mapping('c')]);
+      shimClient.getOutboxItem.mockImplementation(async (commentId: string) => ({
+        comment_id: commentId,
+        status: { 'ghost-a': 'delivered', 'ghost-b': 'failed', 'ghost-c': 'queued' }[commentId],
+        attempts: 1,
+        last_error: commentId === 'ghost-b' ? 'Lock wait timeout exceeded' : null,
+        queued_at: '2026-10-19T12:00:00.000Z',
+        delivered_at: null,
+      }));
+      (fetchReply as jest.Mock).mockImplementation(async (uri: string) =>
+        reply(uri.split('/').pop()!, ROOT_URI, '2026-10-19T12:00:00.000Z')
+      );
+      shimClient.createComment.mockResolvedValue({ comment_id: 'ghost-b' });
+    });
+
+    it('clears delivered comments and sends failed ones again', async () => {
+      const result = await checkQueuedComments('user-1', shimClient);
+
+      expect(result).toEqual({ checked: 3, delivered: 1, failed: 1, resent: 1, errors: [] });
+      expect(mockPrisma.commentMapping.findMany.mock.calls[0][0].where).toEqual({
+        outboxStatus: 'queued',
+        post: { userId: 'user-1' },
+      });
+      expect(mockPrisma.commentMapping.update).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.commentMapping.update).toHaveBeenCalledWith({
+        where: { id: 'mapping-a' },
+        data: { outboxStatus: null },
+      });
+      expect(mockPrisma.commentMapping.delete).toHaveBeenCalledWith({ where: { id: 'mapping-b' } });
+
+      // Sent straight from Bluesky, without waiting for the thread to be polled
+      expect(fetchReply).toHaveBeenCalledWith('at://did:plc:reader/app.bsky.feed.post/b');
+      expect(moderateReply).not.toHaveBeenCalled();
+      expect(shimClient.createComment).toHaveBeenCalledTimes(1);
+      expect(shimClient.createComment.mock.calls[0][0].bsky_reply_uri).toBe('at://did:plc:reader/app.bsky.feed.post/b');
+      expect(mockPrisma.commentMapping.create.mock.calls[0][0].data).toMatchObject({
+        ghostCommentId: 'ghost-b',
+        outboxStatus: null,
+      });
+      expect(mockPrisma.post.update).not.toHaveBeenCalled();
+    });
+
+    it('polls the post again when the failed reply cannot be resent', async () => {
+      mockPrisma.commentMapping.findMany.mockResolvedValue([mapping('b')]);
+      shimClient.createComment.mockRejectedValue(new Error('Failed to create comment via shim: fetch failed'));
+
+      const result = await checkQueuedComments('user-1', shimClient);
+
+      expect(result.resent).toBe(0);
+      expect(result.errors).toEqual([
+        'Failed to resend reply at://did:plc:reader/app.bsky.feed.post/b: Failed to create comment via shim: fetch failed',
+      ]);
+      expect(mockPrisma.post.update).toHaveBeenCalledWith({
+        where: { id: 'post-1' },
+        data: { commentsCheckedAt: null },
+      });
+    });
+
+    it('keeps the mapping when the shim cannot be asked', async () => {
+      mockPrisma.commentMapping.findMany.mockResolvedValue([mapping('a')]);
+      shimClient.getOutboxItem.mockRejectedValue(new Error('Failed to look up outbox item via shim: fetch failed'));
+
+      const result = await checkQueuedComments('user-1', shimClient);
+
+      expect(result.errors).toEqual([
+        'Failed to check queued comment ghost-a: Failed to look up outbox item via shim: fetch failed',
+      ]);
+      expect(mockPrisma.commentMapping.update).not.toHaveBeenCalled();
+      expect(mockPrisma.commentMapping.delete).not.toHaveBeenCalled();
+    });
+  });
+});
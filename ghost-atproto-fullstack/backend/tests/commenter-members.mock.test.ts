@@ -0,0 +1,119 @@
+/**
+ * Tests for per-commenter Ghost members
+ *
+ * File: backend/tests/commenter-members.mock.test.ts
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { commenterEmail, ensureCommenterMember } from '../src/services/commenter-members';
+
+// Mock Prisma
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    commenterMember: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      upsert: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
+  };
+
+  return {
+    PrismaClient: jest.fn(() => mockPrismaClient),
+  };
+});
+
+const API_KEY = `abc123:${'0'.repeat(64)}`;
+
+const alice = {
+  did: 'did:plc:alice123',
+  handle: 'alice.bsky.social',
+  displayName: 'Alice',
+  avatar: 'https://cdn.bsky.app/img/avatar/alice.jpg',
+};
+
+const stored = {
+  id: 'cm-1',
+  userId: 'user-1',
+  did: alice.did,
+  ghostMemberId: 'member-alice',
+  handle: alice.handle,
+  displayName: alice.displayName,
+  avatarUrl: alice.avatar,
+};
+
+const jsonResponse = (body: unknown) => ({ ok: true, json: async () => body, text: async () => '' });
+
+describe('Commenter members (Mocked)', () => {
+  let mockPrisma: any;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    mockPrisma = new PrismaClient();
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as any;
+    mockPrisma.user.findUnique.mockResolvedValue({ ghostUrl: 'https://blog.example.com', ghostApiKey: API_KEY });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('builds a placeholder email from the DID', () => {
+    expect(commenterEmail('did:plc:alice123')).toBe('did-plc-alice123@bsky.atproto.invalid');
+    expect(commenterEmail('did:web:Example.com')).toBe('did-web-example.com@bsky.atproto.invalid');
+  });
+
+  it('reuses the stored member without calling Ghost', async () => {
+    mockPrisma.commenterMember.findUnique.mockResolvedValue(stored);
+
+    await expect(ensureCommenterMember('user-1', alice)).resolves.toBe('member-alice');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('creates a Ghost member the first time a DID comments', async () => {
+    mockPrisma.commenterMember.findUnique.mockResolvedValue(null);
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ members: [] }))
+      .mockResolvedValueOnce(jsonResponse({ members: [{ id: 'member-new' }] }));
+
+    await expect(ensureCommenterMember('user-1', alice)).resolves.toBe('member-new');
+
+    const [url, init] = fetchMock.mock.calls[1];
+    expect(url).toBe('https://blog.example.com/ghost/api/admin/members/');
+    const member = JSON.parse(init.body).members[0];
+    expect(member.email).toBe('did-plc-alice123@bsky.atproto.invalid');
+    expect(member.name).toBe('Alice');
+    expect(member.note).toContain(alice.avatar);
+    expect(mockPrisma.commenterMember.upsert.mock.calls[0][0].create).toMatchObject({
+      userId: 'user-1',
+      did: alice.did,
+      ghostMemberId: 'member-new',
+    });
+  });
+
+  it('pushes a changed display name to Ghost', async () => {
+    mockPrisma.commenterMember.findUnique.mockResolvedValue(stored);
+    fetchMock.mockResolvedValueOnce(jsonResponse({ members: [{ id: 'member-alice' }] }));
+
+    await ensureCommenterMember('user-1', { ...alice, displayName: 'Alice B.' });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://blog.example.com/ghost/api/admin/members/member-alice/');
+    expect(init.method).toBe('PUT');
+    expect(mockPrisma.commenterMember.update.mock.calls[0][0].data.displayName).toBe('Alice B.');
+  });
+
+  it('returns null without a Ghost Admin API key', async () => {
+    mockPrisma.commenterMember.findUnique.mockResolvedValue(null);
+    mockPrisma.user.findUnique.mockResolvedValue({ ghostUrl: null, ghostApiKey: null });
+
+    await expect(ensureCommenterMember('user-1', alice)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Tests for Ghost webhook event resolution and signature checks
+ *
+ * File: backend/tests/ghost-webhook.mock.test.ts
+ */
+
+import crypto from 'crypto';
+import { resolveGhostPostAction, verifyGhostSignature } from '../src/lib/ghost-webhook';
+
+describe('resolveGhostPostAction', () => {
+  it('uses the event name when one is given', () => {
+    expect(resolveGhostPostAction('post.published', {})).toBe('published');
+    expect(resolveGhostPostAction('post.edited', {})).toBe('edited');
+    expect(resolveGhostPostAction('post.published.edited', {})).toBe('edited');
+    expect(resolveGhostPostAction('post.unpublished', {})).toBe('unpublished');
+    expect(resolveGhostPostAction('post.deleted', {})).toBe('deleted');
+  });
+
+  it('does not treat unpublished as published', () => {
+    const payload = {
+      post: { current: { id: 'abc', status: 'draft' }, previous: { status: 'published' } },
+    };
+
+    expect(resolveGhostPostAction('post.unpublished', payload)).toBe('unpublished');
+    expect(resolveGhostPostAction('unknown', payload)).toBe('unpublished');
+  });
+
+  it('infers the action from the post snapshots', () => {
+    expect(resolveGhostPostAction(null, {
+      post: { current: { id: 'abc', status: 'published' }, previous: { status: 'draft' } },
+    })).toBe('published');
+
+    expect(resolveGhostPostAction(null, {
+      post: { current: { id: 'abc', status: 'published' }, previous: { title: 'Old title' } },
+    })).toBe('edited');
+
+    expect(resolveGhostPostAction(null, {
+      post: { current: {}, previous: { id: 'abc', status: 'published' } },
+    })).toBe('deleted');
+  });
+
+  it('ignores payloads without a post', () => {
+    expect(resolveGhostPostAction('unknown', {})).toBeNull();
+  });
+});
+
+describe('verifyGhostSignature', () => {
+  const secret = 'user-secret';
+  const body = Buffer.from(JSON.stringify({ post: { current: { id: 'abc' } } }));
+  const sign = (data: Buffer | string, key = secret) =>
+    crypto.createHmac('sha256', key).update(data).digest('hex');
+
+  it('accepts Ghost signatures that include a timestamp', () => {
+    const t = '1760000000000';
+    const header = `sha256=${sign(Buffer.concat([body, Buffer.from(t)]))}, t=${t}`;
+    expect(verifyGhostSignature(body, header, secret)).toBe(true);
+  });
+
+  it('accepts a bare body signature', () => {
+    expect(verifyGhostSignature(body, `sha256=${sign(body)}`, secret)).toBe(true);
+  });
+
+  it("rejects deliveries signed with another user's secret", () => {
+    const t = '1760000000000';
+    const header = `sha256=${sign(Buffer.concat([body, Buffer.from(t)]), 'other-secret')}, t=${t}`;
+    expect(verifyGhostSignature(body, header, secret)).toBe(false);
+  });
+
+  it('rejects missing or malformed headers', () => {
+    expect(verifyGhostSignature(body, undefined, secret)).toBe(false);
+    expect(verifyGhostSignature(body, 't=123', secret)).toBe(false);
+    expect(verifyGhostSignature(body, `sha256=${sign(body)}`, '')).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Tests for the publish/sync job queue
+ *
+ * File: backend/tests/job-queue.mock.test.ts
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { backoffDelay, failJob, JOB_TYPES } from '../src/lib/job-queue';
+import { processNextJob, registerJobHandler } from '../src/jobs/job-worker';
+
+// Mock Prisma
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    job: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  return {
+    PrismaClient: jest.fn(() => mockPrismaClient),
+  };
+});
+
+const makeJob = (overrides: Record<string, unknown> = {}) => ({
+  id: 'job-1',
+  type: JOB_TYPES.PUBLISH,
+  payload: { ghostId: 'ghost-1' },
+  status: 'running',
+  attempts: 1,
+  maxAttempts: 3,
+  runAt: new Date('2026-01-01T00:00:00Z'),
+  lockedAt: new Date(),
+  lockedBy: 'test',
+  lastError: null,
+  postId: null,
+  userId: 'user-1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('Job queue (Mocked)', () => {
+  let mockPrisma: any;
+
+  beforeEach(() => {
+    mockPrisma = new PrismaClient();
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('backoffDelay', () => {
+    it('doubles each attempt and caps at one hour', () => {
+      expect(backoffDelay(1)).toBe(30_000);
+      expect(backoffDelay(2)).toBe(60_000);
+      expect(backoffDelay(3)).toBe(120_000);
+      expect(backoffDelay(20)).toBe(60 * 60 * 1000);
+    });
+  });
+
+  describe('failJob', () => {
+    it('reschedules with backoff while attempts remain', async () => {
+      const before = Date.now();
+      const status = await failJob(makeJob({ attempts: 2 }) as any, new Error('PDS timeout'));
+
+      expect(status).toBe('pending');
+      const { data } = mockPrisma.job.update.mock.calls[0][0];
+      expect(data.status).toBe('pending');
+      expect(data.lastError).toBe('PDS timeout');
+      expect(data.runAt.getTime()).toBeGreaterThanOrEqual(before + 60_000);
+    });
+
+    it('dead-letters the job on its last attempt', async () => {
+      const status = await failJob(makeJob({ attempts: 3 }) as any, new Error('still failing'));
+
+      expect(status).toBe('dead');
+      expect(mockPrisma.job.update.mock.calls[0][0].data.status).toBe('dead');
+    });
+  });
+
+  describe('processNextJob', () => {
+    const claim = (job: ReturnType<typeof makeJob>) => {
+      mockPrisma.job.updateMany.mockResolvedValueOnce({ count: 0 }).mockResolvedValueOnce({ count: 1 });
+      mockPrisma.job.findFirst.mockResolvedValueOnce({ ...job, status: 'pending' });
+      mockPrisma.job.findUnique.mockResolvedValueOnce(job);
+    };
+
+    it('returns false when nothing is due', async () => {
+      mockPrisma.job.updateMany.mockResolvedValueOnce({ count: 0 });
+      mockPrisma.job.findFirst.mockResolvedValueOnce(null);
+
+      await expect(processNextJob()).resolves.toBe(false);
+    });
+
+    it('marks the job succeeded when the handler resolves', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      registerJobHandler(JOB_TYPES.PUBLISH, handler);
+      claim(makeJob());
+
+      await expect(processNextJob()).resolves.toBe(true);
+
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id: 'job-1' }));
+      expect(mockPrisma.job.update.mock.calls[0][0].data.status).toBe('succeeded');
+    });
+
+    it('schedules a retry when the handler throws', async () => {
+      registerJobHandler(JOB_TYPES.PUBLISH, jest.fn().mockRejectedValue(new Error('Bluesky login failed')));
+      claim(makeJob());
+
+      await processNextJob();
+
+      const { data } = mockPrisma.job.update.mock.calls[0][0];
+      expect(data.status).toBe('pending');
+      expect(data.lastError).toBe('Bluesky login failed');
+    });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Tests for Bluesky link-card embeds
+ *
+ * File: backend/tests/link-card.mock.test.ts
+ */
+
+import dns from 'dns';
+import { EventEmitter } from 'events';
+import http from 'http';
+import https from 'https';
+import { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import sharp from 'sharp';
+import { AtpAgent } from '@atproto/api';
+import {
+  buildExternalEmbed,
+  fetchThumbnail,
+  isPrivateAddress,
+  MAX_SOURCE_BYTES,
+  MAX_THUMB_BYTES,
+  publicLookup,
+} from '../src/lib/link-card';
+
+// Random noise compresses badly, so this stays large after JPEG encoding
+const noisyImage = () => {
+  const size = 1600;
+  const pixels = Buffer.alloc(size * size * 3);
+  for (let i = 0; i < pixels.length; i++) pixels[i] = Math.floor(Math.random() * 256);
+  return sharp(pixels, { raw: { width: size, height: size, channels: 3 } }).png().toBuffer();
+};
+
+interface FakeResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: Buffer | Readable;
+}
+
+// Answer http(s).get with the given responses, in order
+const mockGet = (...responses: FakeResponse[]) => {
+  const get = jest.fn((_url: URL, _options: unknown, callback: (response: http.IncomingMessage) => void) => {
+    const { status, headers = {}, body } = responses.shift()!;
+    const stream = body instanceof Readable ? body : Readable.from(body ? [body] : []);
+    const response = Object.assign(stream, { statusCode: status, headers });
+    process.nextTick(() => callback(response as unknown as http.IncomingMessage));
+    return new EventEmitter();
+  });
+  jest.spyOn(http, 'get').mockImplementation(get as any);
+  jest.spyOn(https, 'get').mockImplementation(get as any);
+  return get;
+};
+
+// A body that never ends; counts the chunks handed out
+const endlessBody = (chunk: Buffer) => {
+  const counter = { sent: 0 };
+  const body = new Readable({
+    read() {
+      counter.sent++;
+      this.push(chunk);
+    },
+  });
+  return { body, counter };
+};
+
+// Resolve every hostname to the given address instead of asking DNS
+const mockLookup = (address: string) => {
+  jest.spyOn(dns, 'lookup').mockImplementation(((_hostname: string, _options: unknown, callback: any) => {
+    callback(null, [{ address, family: address.includes(':') ? 6 : 4 }]);
+  }) as any);
+};
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('fetchThumbnail', () => {
+  it('resizes large images into a JPEG under the blob limit', async () => {
+    mockGet({ status: 200, body: await noisyImage() });
+
+    const thumbnail = await fetchThumbnail('https://blog.example.com/feature.png');
+
+    expect(thumbnail).not.toBeNull();
+    expect(thumbnail!.length).toBeLessThanOrEqual(MAX_THUMB_BYTES);
+    const metadata = await sharp(thumbnail!).metadata();
+    expect(metadata.format).toBe('jpeg');
+    expect(Math.max(metadata.width!, metadata.height!)).toBeLessThanOrEqual(1200);
+  }, 30000);
+
+  it('returns null when the image cannot be fetched', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockGet({ status: 404 });
+
+    await expect(fetchThumbnail('https://blog.example.com/missing.png')).resolves.toBeNull();
+  });
+
+  it('refuses images that declare a length over the download cap', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    // Reading this body at all would hang the test
+    const { body, counter } = endlessBody(Buffer.alloc(1024));
+    mockGet({ status: 200, headers: { 'content-length': String(MAX_SOURCE_BYTES + 1) }, body });
+
+    await expect(fetchThumbnail('https://blog.example.com/huge.png')).resolves.toBeNull();
+    expect(counter.sent).toBeLessThanOrEqual(1);
+  });
+
+  it('stops reading a body that grows past the download cap', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const chunk = Buffer.alloc(1024 * 1024);
+    const { body, counter } = endlessBody(chunk);
+    mockGet({ status: 200, body });
+
+    await expect(fetchThumbnail('https://blog.example.com/endless.png')).resolves.toBeNull();
+    // Readable buffers a little ahead of what is consumed
+    expect(counter.sent).toBeLessThanOrEqual(MAX_SOURCE_BYTES / chunk.length + 20);
+  });
+
+  it('only fetches http(s) URLs, and never from private IP addresses', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const get = mockGet();
+
+    await expect(fetchThumbnail('file:///etc/passwd')).resolves.toBeNull();
+    await expect(fetchThumbnail('http://127.0.0.1:2368/content/images/a.png')).resolves.toBeNull();
+    await expect(fetchThumbnail('http://[::1]/a.png')).resolves.toBeNull();
+
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it('checks every redirect hop', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const get = mockGet({ status: 302, headers: { location: 'http://169.254.169.254/latest/meta-data' } });
+
+    await expect(fetchThumbnail('https://blog.example.com/feature.png')).resolves.toBeNull();
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  it('connects to the address it checked, so a rebinding host cannot reach the local network', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const requests: string[] = [];
+    const server = http.createServer((req, res) => {
+      requests.push(req.url || '');
+      res.end('not an image');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      // The host looks public until the connection asks for its address
+      mockLookup('127.0.0.1');
+      await expect(fetchThumbnail(`http://rebind.example.com:${port}/a.png`)).resolves.toBeNull();
+      expect(requests).toEqual([]);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
+
+describe('publicLookup', () => {
+  const lookup = (hostname: string, options: dns.LookupOptions) =>
+    new Promise<{ error: Error | null; address: unknown; family?: number }>((resolve) => {
+      publicLookup(hostname, options, (error, address, family) => resolve({ error, address, family }));
+    });
+
+  it('passes public addresses through in the shape the caller asked for', async () => {
+    mockLookup('93.184.216.34');
+
+    expect(await lookup('blog.example.com', {})).toEqual({ error: null, address: '93.184.216.34', family: 4 });
+    expect((await lookup('blog.example.com', { all: true })).address).toEqual([{ address: '93.184.216.34', family: 4 }]);
+  });
+
+  it('refuses hosts that resolve to a private address', async () => {
+    mockLookup('10.0.0.5');
+
+    const { error } = await lookup('intranet.example.com', {});
+    expect(error?.message).toBe('Thumbnail host is not a public address: intranet.example.com');
+  });
+});
+
+describe('isPrivateAddress', () => {
+  it('recognises loopback, private and link-local ranges', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:192.168.0.1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    for (const address of ['93.184.216.34', '172.32.0.1', '2606:4700::1111', '::ffff:8.8.8.8']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+});
+
+describe('buildExternalEmbed', () => {
+  it('builds a card without a thumbnail when the image is unavailable', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockGet({ status: 404 });
+    const agent = { uploadBlob: jest.fn() } as unknown as AtpAgent;
+
+    const embed = await buildExternalEmbed(agent, {
+      uri: 'https://blog.example.com/post',
+      title: 'A Ghost post',
+      description: 'The excerpt',
+      imageUrl: 'https://blog.example.com/feature.png',
+    });
+
+    expect(embed).toEqual({
+      $type: 'app.bsky.embed.external',
+      external: {
+        uri: 'https://blog.example.com/post',
+        title: 'A Ghost post',
+        description: 'The excerpt',
+      },
+    });
+    expect(agent.uploadBlob).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Tests for carrying Ghost post edits over to the bridged copy
+ *
+ * File: backend/tests/post-sync.mock.test.ts
+ */
+
+import { AtpAgent } from '@atproto/api';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { postThread, ThreadProgress, unfinishedThread } from '../src/lib/bluesky-thread';
+import { removeBridgedPost, syncEditedPost } from '../src/services/post-sync';
+
+// Mock Prisma
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    post: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
+    syncLog: {
+      create: jest.fn(),
+    },
+  };
+
+  return {
+    Prisma: jest.requireActual('@prisma/client').Prisma,
+    PrismaClient: jest.fn(() => mockPrismaClient),
+  };
+});
+
+const stored = {
+  id: 'post-1',
+  userId: 'user-1',
+  ghostId: 'ghost-1',
+  title: 'Original title',
+  content: '<p>Original</p>',
+  excerpt: 'Original excerpt',
+  featureImage: null,
+  slug: 'original',
+  ghostSlug: 'original',
+  ghostUrl: 'https://blog.example.com/original/',
+  tags: 'news,bluesky',
+  authorName: 'Jane Writer',
+  standardSiteDocumentUri: null,
+};
+
+describe('syncEditedPost (Mocked)', () => {
+  let mockPrisma: any;
+
+  beforeEach(() => {
+    mockPrisma = new PrismaClient();
+    jest.clearAllMocks();
+    mockPrisma.post.findUnique.mockResolvedValue(stored);
+    mockPrisma.post.update.mockImplementation(async ({ data }: any) => ({ ...stored, ...data }));
+  });
+
+  it('keeps tags and author when the payload leaves them out', async () => {
+    await syncEditedPost('user-1', 'ghost-1', { title: 'New title', status: 'published' }, null);
+
+    const { data } = mockPrisma.post.update.mock.calls[0][0];
+    expect(data.title).toBe('New title');
+    expect(data).not.toHaveProperty('tags');
+    expect(data).not.toHaveProperty('authorName');
+  });
+
+  it('updates tags and author when the payload has them', async () => {
+    await syncEditedPost('user-1', 'ghost-1', {
+      status: 'published',
+      tags: [{ name: 'Politics' }],
+      primary_author: { name: 'Sam Editor' },
+    }, null);
+
+    const { data } = mockPrisma.post.update.mock.calls[0][0];
+    expect(data.tags).toBe('Politics');
+    expect(data.authorName).toBe('Sam Editor');
+  });
+
+  it('clears tags when the payload sends an empty list', async () => {
+    await syncEditedPost('user-1', 'ghost-1', { status: 'published', tags: [] }, null);
+
+    const { data } = mockPrisma.post.update.mock.calls[0][0];
+    expect(data.tags).toBeNull();
+    expect(data).not.toHaveProperty('authorName');
+  });
+});
+
+describe('removeBridgedPost (Mocked)', () => {
+  let mockPrisma: any;
+
+  beforeEach(() => {
+    mockPrisma = new PrismaClient();
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('starts a fresh thread when a post with a half-published thread is unpublished and republished', async () => {
+    // One row, updated the way the database would be
+    let row: any = { ...stored, atprotoUri: null, atprotoCid: null, atprotoThread: null, status: 'published' };
+    mockPrisma.post.findUnique.mockImplementation(async () => row);
+    mockPrisma.post.update.mockImplementation(async ({ data }: any) => {
+      const changes = Object.fromEntries(
+        Object.entries(data).map(([key, value]) => [key, value === Prisma.DbNull ? null : value])
+      );
+      row = { ...row, ...changes };
+      return row;
+    });
+
+    let next = 0;
+    let rateLimited = true;
+    const agent = {
+      session: { did: 'did:plc:me' },
+      post: jest.fn(async () => {
+        // The first publish stops after two of three parts
+        if (next === 2 && rateLimited) {
+          rateLimited = false;
+          throw new Error('Rate limited');
+        }
+        next++;
+        return { uri: `at://did:plc:me/app.bsky.feed.post/${next}`, cid: `cid-${next}` };
+      }),
+      deletePost: jest.fn(),
+      getPostThread: jest.fn().mockRejectedValue(new Error('Post not found')),
+    } as unknown as AtpAgent & { post: jest.Mock; deletePost: jest.Mock };
+    const parts = ['Title 1/3', 'Middle 2/3', 'End 3/3'];
+    const saveProgress = async (progress: ThreadProgress) => {
+      await mockPrisma.post.update({
+        where: { id: row.id },
+        data: {
+          atprotoUri: progress.parts[0].uri,
+          atprotoCid: progress.parts[0].cid,
+          atprotoThread: { parts: [...progress.parts], total: progress.total },
+        },
+      });
+    };
+
+    await expect(postThread(agent, parts, { onProgress: saveProgress })).rejects.toThrow('Rate limited');
+    expect(unfinishedThread(row.atprotoThread)).toHaveLength(2);
+
+    await removeBridgedPost('user-1', 'ghost-1', 'unpublished', agent);
+
+    expect(agent.deletePost).toHaveBeenCalledWith('at://did:plc:me/app.bsky.feed.post/1');
+    expect(row).toMatchObject({ status: 'draft', atprotoUri: null, atprotoCid: null, atprotoThread: null });
+
+    // Republishing has nothing to resume, so the new thread doesn't hang off the deleted one
+    agent.post.mockClear();
+    const root = await postThread(agent, parts, { resume: unfinishedThread(row.atprotoThread), onProgress: saveProgress });
+
+    expect(agent.post).toHaveBeenCalledTimes(3);
+    expect(agent.post.mock.calls[0][0].reply).toBeUndefined();
+    expect(agent.post.mock.calls[1][0].reply).toEqual({ root, parent: root });
+    expect(row.atprotoThread).toEqual({ parts: expect.any(Array), total: 3 });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for Bluesky post templates
+ *
+ * File: backend/tests/post-template.mock.test.ts
+ */
+
+import { RichText } from '@atproto/api';
+import {
+  DEFAULT_POST_TEMPLATE,
+  formatHashtags,
+  renderPostTemplate,
+  TemplateVariables,
+  validateTemplate,
+} from '../src/lib/post-template';
+
+const graphemes = (text: string) => new RichText({ text }).graphemeLength;
+
+const vars = (overrides: Partial<TemplateVariables> = {}): TemplateVariables => ({
+  title: 'Town hall recap',
+  excerpt: 'What we heard from neighbours.',
+  url: 'https://blog.example.com/town-hall',
+  tags: '#Civic #Local',
+  author: 'Sam',
+  ...overrides,
+});
+
+describe('renderPostTemplate', () => {
+  it('renders the default layout', () => {
+    expect(renderPostTemplate(DEFAULT_POST_TEMPLATE, vars())).toBe(
+      'Town hall recap\n\nWhat we heard from neighbours.\n\n🔗 https://blog.example.com/town-hall'
+    );
+  });
+
+  it('renders conditional sections', () => {
+    const template = '{{title}}{{#author}} by {{author}}{{/author}}{{^url}} (members only){{/url}}';
+
+    expect(renderPostTemplate(template, vars())).toBe('Town hall recap by Sam');
+    expect(renderPostTemplate(template, vars({ author: '', url: '' }))).toBe('Town hall recap (members only)');
+  });
+
+  it('shortens only the variable parts to fit', () => {
+    const excerpt = '🏛️ Long excerpt sentence about the meeting. '.repeat(20);
+    const text = renderPostTemplate(DEFAULT_POST_TEMPLATE, vars({ excerpt }));
+
+    expect(graphemes(text)).toBeLessThanOrEqual(300);
+    expect(text.startsWith('Town hall recap\n\n')).toBe(true);
+    expect(text.endsWith('…\n\n🔗 https://blog.example.com/town-hall')).toBe(true);
+  });
+
+  it('drops whole tags rather than cutting them', () => {
+    const template = '{{title}} {{tags}}';
+    const tags = Array.from({ length: 40 }, (_, i) => `#tag${i}`).join(' ');
+    const text = renderPostTemplate(template, vars({ tags }));
+
+    expect(graphemes(text)).toBeLessThanOrEqual(300);
+    expect(text).toMatch(/#tag\d+$/);
+  });
+});
+
+describe('validateTemplate', () => {
+  it('accepts the default template', () => {
+    expect(validateTemplate(DEFAULT_POST_TEMPLATE)).toBeNull();
+  });
+
+  it('rejects unknown placeholders and broken sections', () => {
+    expect(validateTemplate('{{subtitle}}')).toMatch(/Unknown placeholder/);
+    expect(validateTemplate('{{#url}}link')).toMatch(/never closed/);
+    expect(validateTemplate('{{#url}}x{{/title}}')).toMatch(/closed by/);
+    expect(validateTemplate('{{#url}}{{#tags}}x{{/tags}}{{/url}}')).toMatch(/nested/);
+  });
+
+  it('rejects templates whose own text is too long', () => {
+    expect(validateTemplate(`${'x'.repeat(301)}{{title}}`)).toMatch(/longer than 300/);
+  });
+});
+
+describe('formatHashtags', () => {
+  it('skips internal tags and strips spaces', () => {
+    expect(formatHashtags(['Civic Tech', '#internal', 'Local'])).toBe('#CivicTech #Local');
+  });
+});
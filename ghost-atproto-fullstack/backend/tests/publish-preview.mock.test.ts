@@ -0,0 +1,232 @@
+/**
+ * Tests for the dry-run publish preview
+ *
+ * File: backend/tests/publish-preview.mock.test.ts
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import atprotoRouter from '../src/routes/atproto';
+
+// Mock Prisma
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    user: {
+      findUnique: jest.fn(),
+    },
+    post: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    syncLog: {
+      create: jest.fn(),
+    },
+  };
+
+  return {
+    PrismaClient: jest.fn(() => mockPrismaClient),
+  };
+});
+
+jest.mock('../src/middleware/auth', () => ({
+  authenticateToken: (req: any, _res: any, next: () => void) => {
+    req.userId = 'user-1';
+    next();
+  },
+}));
+
+const user = {
+  id: 'user-1',
+  blueskyHandle: 'writer.bsky.social',
+  blueskyPassword: 'app-password',
+  blueskyPostTemplate: null,
+  useStandardSite: false,
+  standardSiteDualPost: false,
+  standardSitePublicationUri: null,
+};
+
+const post = {
+  id: 'post-1',
+  userId: 'user-1',
+  title: 'Café notes',
+  content: '<p>Body</p>',
+  excerpt: 'Crème brûlée for everyone',
+  featureImage: 'https://blog.example.com/content/images/feature.jpg',
+  slug: 'cafe-notes',
+  ghostUrl: 'https://blog.example.com/cafe-notes/',
+  status: 'published',
+  atprotoUri: null,
+  publishedAt: new Date('2026-01-01T00:00:00.000Z'),
+  tags: null,
+  authorName: null,
+};
+
+const requestUrl = (input: any) => (typeof input === 'string' || input instanceof URL ? String(input) : input.url);
+
+const byteOffset = (text: string, part: string) => Buffer.byteLength(text.slice(0, text.indexOf(part)), 'utf8');
+
+describe('POST /api/atproto/preview (Mocked)', () => {
+  let mockPrisma: any;
+  let app: express.Application;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    mockPrisma = new PrismaClient();
+    jest.clearAllMocks();
+    mockPrisma.user.findUnique.mockResolvedValue(user);
+    mockPrisma.post.findUnique.mockResolvedValue(post);
+
+    // Every call the agent makes goes through fetch. Only handle lookups are answered:
+    // logins, uploads and record writes would all show up here.
+    fetchMock = jest.fn(async (input: any) => {
+      if (new URL(requestUrl(input)).pathname.endsWith('/com.atproto.identity.resolveHandle')) {
+        return new Response(JSON.stringify({ did: 'did:plc:friend' }), {
+          status: 200,
+          headers: { 'content-type': 'application/json' },
+        });
+      }
+      return new Response('unexpected request', { status: 500 });
+    });
+    global.fetch = fetchMock as any;
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/atproto', atprotoRouter);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('renders the post template and link card without touching the PDS', async () => {
+    const response = await request(app).post('/api/atproto/preview').send({ postId: 'post-1' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.format).toBe('bluesky');
+    expect(response.body.socialPost.text).toBe(
+      'Café notes\n\nCrème brûlée for everyone\n\n🔗 https://blog.example.com/cafe-notes/'
+    );
+    expect(response.body.socialPost.embed).toEqual({
+      $type: 'app.bsky.embed.external',
+      external: {
+        uri: 'https://blog.example.com/cafe-notes/',
+        title: 'Café notes',
+        description: 'Crème brûlée for everyone',
+        thumb: { imageUrl: post.featureImage, maxBytes: expect.any(Number) },
+      },
+    });
+    expect(response.body.warnings).toEqual([]);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(mockPrisma.post.update).not.toHaveBeenCalled();
+    expect(mockPrisma.syncLog.create).not.toHaveBeenCalled();
+  });
+
+  it('counts graphemes rather than UTF-16 units or bytes', async () => {
+    const customText = 'Family 👨‍👩‍👧‍👦 trip to Zürich 🇨🇭';
+
+    const response = await request(app).post('/api/atproto/preview').send({ postId: 'post-1', customText });
+
+    expect(response.status).toBe(200);
+    expect(response.body.socialPost.text).toBe(customText);
+    // "Family " + family emoji + " trip to Zürich " + flag
+    expect(response.body.socialPost.graphemes).toBe(7 + 1 + 16 + 1);
+    expect(response.body.socialPost.graphemes).toBeLessThan(customText.length);
+    expect(response.body.socialPost.withinLimit).toBe(true);
+  });
+
+  it('reports facet byte ranges for non-ASCII text', async () => {
+    const customText = 'Grüße an @friend.bsky.social zum Café #Kaffee https://example.com/über';
+
+    const response = await request(app).post('/api/atproto/preview').send({ postId: 'post-1', customText });
+
+    expect(response.status).toBe(200);
+    const facets = response.body.socialPost.facets;
+    const byText = (text: string) => facets.find((facet: any) => facet.text === text);
+
+    const mention = byText('@friend.bsky.social');
+    expect(mention.byteStart).toBe(byteOffset(customText, '@friend'));
+    expect(mention.byteEnd).toBe(mention.byteStart + Buffer.byteLength('@friend.bsky.social'));
+    expect(mention.features[0].did).toBe('did:plc:friend');
+
+    const tag = byText('#Kaffee');
+    expect(tag.byteStart).toBe(byteOffset(customText, '#Kaffee'));
+
+    const link = byText('https://example.com/über');
+    expect(link.byteStart).toBe(byteOffset(customText, 'https://'));
+    expect(link.byteEnd).toBe(Buffer.byteLength(customText));
+
+    // Resolving the mention is the only request made, and it's a read
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [input, init] = fetchMock.mock.calls[0];
+    expect(requestUrl(input)).toContain('/xrpc/com.atproto.identity.resolveHandle?handle=friend.bsky.social');
+    expect((init?.method || input.method || 'GET').toUpperCase()).toBe('GET');
+  });
+
+  it('drops mentions that do not resolve', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ error: 'InvalidRequest' }), { status: 400 }));
+
+    const response = await request(app)
+      .post('/api/atproto/preview')
+      .send({ postId: 'post-1', customText: 'Hi @nobody.bsky.social' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.socialPost.facets).toEqual([]);
+  });
+
+  it('warns about what publish would reject instead of failing', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue({ ...user, blueskyPassword: null });
+    mockPrisma.post.findUnique.mockResolvedValue({ ...post, atprotoUri: 'at://did:plc:me/app.bsky.feed.post/1' });
+
+    const response = await request(app)
+      .post('/api/atproto/preview')
+      .send({ postId: 'post-1', customText: 'x'.repeat(301) });
+
+    expect(response.status).toBe(200);
+    expect(response.body.socialPost.withinLimit).toBe(false);
+    expect(response.body.warnings).toEqual([
+      'Bluesky credentials not configured',
+      'Post has already been published to Bluesky',
+      "Content exceeds Bluesky's 300 character limit",
+    ]);
+  });
+
+  it('leaves the card out when the post has no Ghost URL', async () => {
+    mockPrisma.post.findUnique.mockResolvedValue({ ...post, ghostUrl: null });
+
+    const response = await request(app).post('/api/atproto/preview').send({ postId: 'post-1' });
+
+    expect(response.body.socialPost.embed).toBeNull();
+    expect(response.body.socialPost.text).toBe('Café notes\n\nCrème brûlée for everyone');
+  });
+
+  it('returns 400 when the template cannot be rendered', async () => {
+    // Fixed text alone is over the limit, so nothing can be shortened to fit
+    mockPrisma.user.findUnique.mockResolvedValue({ ...user, blueskyPostTemplate: `${'x'.repeat(301)} {{title}}` });
+
+    const response = await request(app).post('/api/atproto/preview').send({ postId: 'post-1' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('only shows a dual-posted social post when custom text is given', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue({ ...user, useStandardSite: true, standardSiteDualPost: true });
+
+    const withoutText = await request(app).post('/api/atproto/preview').send({ postId: 'post-1' });
+    expect(withoutText.body.format).toBe('standard.site');
+    expect(withoutText.body.socialPost).toBeNull();
+    expect(withoutText.body.document).not.toBeNull();
+
+    const withText = await request(app).post('/api/atproto/preview').send({ postId: 'post-1', customText: 'New post' });
+    expect(withText.body.socialPost.text).toBe('New post');
+  });
+
+  it('only previews the user\'s own posts', async () => {
+    mockPrisma.post.findUnique.mockResolvedValue({ ...post, userId: 'someone-else' });
+
+    const response = await request(app).post('/api/atproto/preview').send({ postId: 'post-1' });
+
+    expect(response.status).toBe(403);
+  });
+});
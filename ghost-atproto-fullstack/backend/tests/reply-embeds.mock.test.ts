@@ -0,0 +1,48 @@
+/**
+ * Tests for carrying Bluesky reply embeds over to Ghost comments
+ *
+ * File: backend/tests/reply-embeds.mock.test.ts
+ */
+
+import { embedFromView } from '../src/lib/atproto';
+
+const uri = (did: string, rkey: string) => `at://${did}/app.bsky.feed.post/${rkey}`;
+
+describe('embedFromView', () => {
+  const images = {
+    $type: 'app.bsky.embed.images#view',
+    images: [{ thumb: 'https://cdn.bsky.app/thumb.jpg', fullsize: 'https://cdn.bsky.app/full.jpg', alt: '' }],
+  };
+  const quote = {
+    $type: 'app.bsky.embed.record#view',
+    record: {
+      $type: 'app.bsky.embed.record#viewRecord',
+      uri: uri('did:plc:q', 'quoted'),
+      cid: 'cid-quoted',
+      author: { did: 'did:plc:q', handle: 'q.bsky.social', displayName: 'Q' },
+      value: { text: 'the quoted post' },
+      indexedAt: '2026-01-01T00:00:00.000Z',
+    },
+  };
+
+  it('carries over images and quoted posts', () => {
+    expect(embedFromView(images as any)).toEqual({ images: images.images });
+    expect(embedFromView({ $type: 'app.bsky.embed.recordWithMedia#view', media: images, record: quote } as any)).toEqual({
+      images: images.images,
+      quote: {
+        url: 'https://bsky.app/profile/q.bsky.social/post/quoted',
+        author_handle: 'q.bsky.social',
+        author_name: 'Q',
+        text: 'the quoted post',
+      },
+    });
+  });
+
+  it('ignores link cards and quotes that are no longer visible', () => {
+    expect(embedFromView({ $type: 'app.bsky.embed.external#view', external: {} } as any)).toBeUndefined();
+    expect(embedFromView({
+      $type: 'app.bsky.embed.record#view',
+      record: { $type: 'app.bsky.embed.record#viewNotFound', uri: uri('did:plc:q', 'gone'), notFound: true },
+    } as any)).toBeUndefined();
+  });
+});
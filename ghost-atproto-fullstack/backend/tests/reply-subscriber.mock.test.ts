@@ -0,0 +1,279 @@
+/**
+ * Tests for the Jetstream reply subscriber, driven by the in-memory event source
+ *
+ * File: backend/tests/reply-subscriber.mock.test.ts
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { FakeJetstreamSource, JetstreamEvent } from '../src/lib/jetstream';
+import { postChangeFromEvent, ReplySubscriber, replyFromEvent, startReplySubscriber } from '../src/jobs/reply-subscriber';
+import { JOB_TYPES } from '../src/lib/job-queue';
+
+// Mock Prisma
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    post: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+    },
+    commentMapping: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    settings: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+    job: {
+      create: jest.fn(),
+    },
+  };
+
+  return {
+    PrismaClient: jest.fn(() => mockPrismaClient),
+  };
+});
+
+const OWNER_DID = 'did:plc:owner';
+const ROOT_URI = `at://${OWNER_DID}/app.bsky.feed.post/root1`;
+
+const replyEvent = (overrides: {
+  did?: string;
+  rkey?: string;
+  time_us?: number;
+  root?: string;
+  parent?: string;
+  operation?: 'create' | 'update' | 'delete';
+} = {}): JetstreamEvent => ({
+  did: overrides.did || 'did:plc:reader',
+  time_us: overrides.time_us || 1_760_000_000_000_000,
+  kind: 'commit',
+  commit: {
+    rev: 'rev1',
+    operation: overrides.operation || 'create',
+    collection: 'app.bsky.feed.post',
+    rkey: overrides.rkey || 'reply1',
+    cid: 'bafyreply',
+    record: {
+      text: 'Great post!',
+      createdAt: '2026-10-19T12:00:00.000Z',
+      reply: {
+        root: { uri: overrides.root || ROOT_URI, cid: 'bafyroot' },
+        parent: { uri: overrides.parent || overrides.root || ROOT_URI, cid: 'bafyparent' },
+      },
+    },
+  },
+});
+
+describe('Jetstream reply subscriber (Mocked)', () => {
+  let mockPrisma: any;
+  let source: FakeJetstreamSource;
+  let subscriber: ReplySubscriber;
+
+  beforeEach(() => {
+    mockPrisma = new PrismaClient();
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    mockPrisma.post.findMany.mockResolvedValue([
+      { id: 'post-1', userId: 'user-1', atprotoUri: ROOT_URI },
+    ]);
+    mockPrisma.post.findFirst.mockResolvedValue(null);
+    mockPrisma.commentMapping.findMany.mockResolvedValue([]);
+    mockPrisma.settings.findUnique.mockResolvedValue(null);
+    mockPrisma.job.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'job-1', ...data }));
+
+    source = new FakeJetstreamSource();
+    subscriber = new ReplySubscriber(source, { reconnectDelayMs: 1 });
+  });
+
+  afterEach(async () => {
+    await subscriber.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('only extracts newly created replies', () => {
+    const withLink = replyEvent();
+    const facets = [{ index: { byteStart: 0, byteEnd: 5 }, features: [{ $type: 'app.bsky.richtext.facet#link', uri: 'https://example.com' }] }];
+    withLink.commit!.record.facets = facets;
+    expect(replyFromEvent(withLink)?.facets).toEqual(facets);
+
+    expect(replyFromEvent(replyEvent())).toMatchObject({
+      uri: 'at://did:plc:reader/app.bsky.feed.post/reply1',
+      rootUri: ROOT_URI,
+      parentUri: ROOT_URI,
+      text: 'Great post!',
+    });
+    expect(replyFromEvent(replyEvent({ operation: 'delete' }))).toBeNull();
+
+    const topLevel = replyEvent();
+    delete topLevel.commit!.record.reply;
+    expect(replyFromEvent(topLevel)).toBeNull();
+  });
+
+  it('queues replies at any depth under a tracked post', async () => {
+    await subscriber.start();
+
+    source.emit(replyEvent());
+    source.emit(replyEvent({
+      did: 'did:plc:other',
+      rkey: 'reply2',
+      parent: 'at://did:plc:reader/app.bsky.feed.post/reply1',
+    }));
+    await subscriber.idle();
+
+    expect(mockPrisma.job.create).toHaveBeenCalledTimes(2);
+    const { data } = mockPrisma.job.create.mock.calls[1][0];
+    expect(data.type).toBe(JOB_TYPES.REPLY_SYNC);
+    expect(data.postId).toBe('post-1');
+    expect(data.payload.reply).toMatchObject({
+      uri: 'at://did:plc:other/app.bsky.feed.post/reply2',
+      parentUri: 'at://did:plc:reader/app.bsky.feed.post/reply1',
+    });
+  });
+
+  it('ignores untracked threads and the author\'s own replies', async () => {
+    await subscriber.start();
+
+    source.emit(replyEvent({ root: 'at://did:plc:stranger/app.bsky.feed.post/xyz' }));
+    source.emit(replyEvent({ did: OWNER_DID, rkey: 'continuation' }));
+    await subscriber.idle();
+
+    expect(mockPrisma.job.create).not.toHaveBeenCalled();
+    // Strangers' threads never hit the database
+    expect(mockPrisma.post.findFirst).not.toHaveBeenCalled();
+  });
+
+  it('looks up new posts from tracked accounts that are not cached yet', async () => {
+    const newRoot = `at://${OWNER_DID}/app.bsky.feed.post/fresh`;
+    mockPrisma.post.findFirst.mockResolvedValueOnce({ id: 'post-2', userId: 'user-1' });
+    await subscriber.start();
+
+    source.emit(replyEvent({ root: newRoot }));
+    await subscriber.idle();
+
+    expect(mockPrisma.job.create.mock.calls[0][0].data.postId).toBe('post-2');
+  });
+
+  it('queues deletes and edits of bridged replies', async () => {
+    const bridged = 'at://did:plc:reader/app.bsky.feed.post/reply1';
+    mockPrisma.commentMapping.findMany.mockResolvedValue([{ bskyReplyUri: bridged }]);
+    mockPrisma.commentMapping.findUnique.mockResolvedValue({ direction: 'bsky_to_ghost', post: { userId: 'user-1' } });
+    await subscriber.start();
+
+    const edit = replyEvent({ operation: 'update' });
+    edit.commit!.record.text = 'Great post! (edited)';
+    source.emit(edit);
+    source.emit(replyEvent({ operation: 'delete' }));
+    // Deletes of posts we never bridged are ignored
+    source.emit(replyEvent({ operation: 'delete', rkey: 'unrelated' }));
+    await subscriber.idle();
+
+    expect(postChangeFromEvent(edit)).toMatchObject({ uri: bridged, action: 'edited' });
+    expect(mockPrisma.job.create).toHaveBeenCalledTimes(2);
+    const [updated, deleted] = mockPrisma.job.create.mock.calls.map((call: any) => call[0].data);
+    expect(updated.type).toBe(JOB_TYPES.REPLY_UPDATE);
+    expect(updated.payload).toEqual({ uri: bridged, action: 'edited', text: 'Great post! (edited)', cid: 'bafyreply' });
+    expect(deleted.payload).toEqual({ uri: bridged, action: 'deleted' });
+    expect(deleted.userId).toBe('user-1');
+  });
+
+  it('resumes from the persisted cursor and saves the latest position', async () => {
+    mockPrisma.settings.findUnique.mockResolvedValue({ key: 'jetstream_reply_cursor', value: '1760000000000000' });
+    await subscriber.start();
+
+    // Rewinds a little so nothing in flight at shutdown is lost
+    expect(source.subscriptions[0].cursor).toBe(1_760_000_000_000_000 - 5_000_000);
+    expect(source.subscriptions[0].collections).toEqual(['app.bsky.feed.post']);
+
+    source.emit(replyEvent({ time_us: 1_760_000_000_500_000 }));
+    await subscriber.stop();
+
+    expect(mockPrisma.settings.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { key: 'jetstream_reply_cursor' },
+      update: { value: '1760000000500000' },
+    }));
+  });
+
+  it('reconnects from the latest cursor after the stream drops', async () => {
+    await subscriber.start();
+    source.emit(replyEvent({ time_us: 1_760_000_001_000_000 }));
+    await subscriber.idle();
+
+    source.disconnect();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(source.subscriptions).toHaveLength(2);
+    expect(source.subscriptions[1].cursor).toBe(1_760_000_001_000_000 - 5_000_000);
+  });
+
+  it('does not move the cursor past an event that failed', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await subscriber.start();
+    source.emit(replyEvent({ rkey: 'first', time_us: 1_760_000_001_000_000 }));
+    await subscriber.idle();
+
+    mockPrisma.job.create.mockRejectedValueOnce(new Error('Database unavailable'));
+    source.emit(replyEvent({ rkey: 'second', time_us: 1_760_000_002_000_000 }));
+    // Arrives before the reconnect; must not be handled or it would move the cursor on
+    source.emit(replyEvent({ rkey: 'third', time_us: 1_760_000_003_000_000 }));
+    await subscriber.idle();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(mockPrisma.job.create).toHaveBeenCalledTimes(2);
+    expect(source.subscriptions).toHaveLength(2);
+    expect(source.subscriptions[1].cursor).toBe(1_760_000_001_000_000 - 5_000_000);
+
+    // The new connection replays the failed reply
+    source.emit(replyEvent({ rkey: 'second', time_us: 1_760_000_002_000_000 }));
+    source.emit(replyEvent({ rkey: 'third', time_us: 1_760_000_003_000_000 }));
+    await subscriber.stop();
+
+    const queued = mockPrisma.job.create.mock.calls.map((call: any) => call[0].data.payload.reply.uri.split('/').pop());
+    expect(queued).toEqual(['first', 'second', 'second', 'third']);
+    expect(mockPrisma.settings.upsert).toHaveBeenLastCalledWith(expect.objectContaining({
+      update: { value: '1760000003000000' },
+    }));
+  });
+
+  it('never saves a cursor past a failed event', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    subscriber = new ReplySubscriber(source, { reconnectDelayMs: 60_000 });
+    await subscriber.start();
+    source.emit(replyEvent({ rkey: 'first', time_us: 1_760_000_001_000_000 }));
+    await subscriber.idle();
+    mockPrisma.job.create.mockRejectedValueOnce(new Error('Database unavailable'));
+    source.emit(replyEvent({ rkey: 'second', time_us: 1_760_000_002_000_000 }));
+    source.emit(replyEvent({ rkey: 'third', time_us: 1_760_000_003_000_000 }));
+    await subscriber.stop();
+
+    expect(mockPrisma.settings.upsert).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.settings.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      update: { value: '1760000001000000' },
+    }));
+  });
+});
+
+describe('startReplySubscriber', () => {
+  const original = process.env.JETSTREAM_ENABLED;
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.JETSTREAM_ENABLED;
+    else process.env.JETSTREAM_ENABLED = original;
+    jest.restoreAllMocks();
+  });
+
+  it('stays off unless JETSTREAM_ENABLED=true', () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const source = new FakeJetstreamSource();
+    const subscribe = jest.spyOn(source, 'subscribe');
+
+    delete process.env.JETSTREAM_ENABLED;
+    expect(startReplySubscriber(source)).toBeNull();
+    process.env.JETSTREAM_ENABLED = 'false';
+    expect(startReplySubscriber(source)).toBeNull();
+
+    expect(subscribe).not.toHaveBeenCalled();
+  });
+});
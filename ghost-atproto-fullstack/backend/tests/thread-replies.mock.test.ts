@@ -0,0 +1,94 @@
+/**
+ * Tests for walking a Bluesky reply tree with getPostThread
+ *
+ * File: backend/tests/thread-replies.mock.test.ts
+ */
+
+import { getThreadReplies } from '../src/lib/atproto';
+
+const OWNER = 'did:plc:owner';
+const ROOT = `at://${OWNER}/app.bsky.feed.post/root`;
+
+let clock = 0;
+
+// A thread view node; `replies` left undefined means "cut off at this depth"
+const node = (uri: string, did: string, replies?: any[], replyCount = replies?.length ?? 0) => ({
+  $type: 'app.bsky.feed.defs#threadViewPost',
+  post: {
+    uri,
+    cid: `cid-${uri.split('/').pop()}`,
+    author: { did, handle: `${did.split(':').pop()}.bsky.social` },
+    record: { text: `text of ${uri.split('/').pop()}`, createdAt: new Date(Date.UTC(2026, 0, 1, 0, 0, clock++)).toISOString() },
+    indexedAt: '2026-01-01T00:00:00.000Z',
+    replyCount,
+  },
+  replies,
+});
+
+const uri = (did: string, rkey: string) => `at://${did}/app.bsky.feed.post/${rkey}`;
+
+describe('getThreadReplies', () => {
+  beforeEach(() => {
+    clock = 0;
+  });
+
+  it('returns nested replies parent-before-child, oldest sibling first', async () => {
+    const a = node(uri('did:plc:a', 'a'), 'did:plc:a', []);
+    const b = node(uri('did:plc:b', 'b'), 'did:plc:b', [
+      node(uri('did:plc:c', 'c'), 'did:plc:c', []),
+    ]);
+    const root = node(ROOT, OWNER, [b, a]);
+    // b was created after a even though the API listed it first
+    b.post.record.createdAt = '2026-06-01T00:00:00.000Z';
+
+    const agent = { getPostThread: jest.fn().mockResolvedValue({ data: { thread: root } }) };
+    const replies = await getThreadReplies(ROOT, { agent: agent as any });
+
+    expect(replies.map((r) => r.uri)).toEqual([a.post.uri, b.post.uri, uri('did:plc:c', 'c')]);
+    expect(replies[2].parent?.uri).toBe(b.post.uri);
+    expect(replies[0].author.handle).toBe('a.bsky.social');
+  });
+
+  it('fetches branches again where the response was cut off', async () => {
+    const deep = node(uri('did:plc:d', 'deep'), 'did:plc:d', []);
+    const cutOff = node(uri('did:plc:a', 'a'), 'did:plc:a', undefined, 1);
+    const root = node(ROOT, OWNER, [cutOff]);
+    const continued = node(cutOff.post.uri, 'did:plc:a', [deep]);
+
+    const agent = {
+      getPostThread: jest.fn()
+        .mockResolvedValueOnce({ data: { thread: root } })
+        .mockResolvedValueOnce({ data: { thread: continued } }),
+    };
+    const replies = await getThreadReplies(ROOT, { agent: agent as any });
+
+    expect(agent.getPostThread).toHaveBeenCalledTimes(2);
+    expect(agent.getPostThread.mock.calls[1][0].uri).toBe(cutOff.post.uri);
+    expect(replies.map((r) => r.uri)).toEqual([cutOff.post.uri, deep.post.uri]);
+  });
+
+  it('stops at the requested depth', async () => {
+    const root = node(ROOT, OWNER, [
+      node(uri('did:plc:a', 'a'), 'did:plc:a', [
+        node(uri('did:plc:b', 'b'), 'did:plc:b', []),
+      ]),
+    ]);
+    const agent = { getPostThread: jest.fn().mockResolvedValue({ data: { thread: root } }) };
+
+    const replies = await getThreadReplies(ROOT, { agent: agent as any, depth: 1 });
+
+    expect(replies.map((r) => r.uri)).toEqual([uri('did:plc:a', 'a')]);
+  });
+
+  it("walks through the author's own posts without returning them", async () => {
+    const reader = node(uri('did:plc:r', 'r'), 'did:plc:r', []);
+    const continuation = node(uri(OWNER, 'part2'), OWNER, [reader]);
+    const root = node(ROOT, OWNER, [continuation]);
+    const agent = { getPostThread: jest.fn().mockResolvedValue({ data: { thread: root } }) };
+
+    const replies = await getThreadReplies(ROOT, { agent: agent as any });
+
+    expect(replies.map((r) => r.uri)).toEqual([reader.post.uri]);
+    expect(replies[0].parent?.uri).toBe(continuation.post.uri);
+  });
+});
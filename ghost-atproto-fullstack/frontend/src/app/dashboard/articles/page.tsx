@@ -27,8 +27,9 @@ import CloudIcon from '@mui/icons-material/Cloud';
 import OpenInNewIcon from '@mui/icons-material/OpenInNew';
 import SyncIcon from '@mui/icons-material/Sync';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { PublishPreview } from '@/components/PublishPreview';
 import { api, ApiError } from '@/lib/api';
-import { Post } from '@/lib/types';
+import { CommentSyncRun, Post, PublishPreview as PublishPreviewData } from '@/lib/types';
 
 export default function ArticlesPage() {
   const router = useRouter();
@@ -38,10 +39,12 @@ export default function ArticlesPage() {
 
   // Sync state
   const [syncing, setSyncing] = useState(false);
+  const [backfilling, setBackfilling] = useState(false);
   const [syncMessage, setSyncMessage] = useState('');
   const [syncingCommentsFor, setSyncingCommentsFor] = useState<string | null>(null);
   const [commentSyncMessage, setCommentSyncMessage] = useState<{postId: string, message: string, errors?: string[]} | null>(null);
   const [showErrorDetails, setShowErrorDetails] = useState<string | null>(null);
+  const [lastCommentSync, setLastCommentSync] = useState<CommentSyncRun | null>(null);
 
   // Bluesky publish dialog state
   const [publishDialogOpen, setPublishDialogOpen] = useState(false);
@@ -50,6 +53,9 @@ export default function ArticlesPage() {
   const [publishing, setPublishing] = useState(false);
   const [publishError, setPublishError] = useState('');
   const [publishSuccess, setPublishSuccess] = useState('');
+  const [preview, setPreview] = useState<PublishPreviewData | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [previewError, setPreviewError] = useState('');
 
   const loadData = async () => {
     setLoading(true);
@@ -57,6 +63,10 @@ export default function ArticlesPage() {
     try {
       const postsData = await api.getPosts();
       setPosts(postsData);
+      // Not having a shim set up shouldn't stop the article list from loading
+      api.getCommentSyncStatus()
+        .then((status) => setLastCommentSync(status.lastRun))
+        .catch(() => setLastCommentSync(null));
     } catch (err) {
       if (err instanceof ApiError && err.isUnauthorized()) {
         router.push('/login');
@@ -92,11 +102,14 @@ export default function ArticlesPage() {
     }
   };
 
-  const handleSyncComments = async (postId: string) => {
+  // Backfill walks the whole reply tree instead of only recent notifications
+  const handleSyncComments = async (postId: string, backfill = false) => {
     setSyncingCommentsFor(postId);
     setCommentSyncMessage(null);
     try {
-      const result = await api.syncCommentsForPost(postId);
+      const result = backfill
+        ? await api.backfillCommentsForPost(postId)
+        : await api.syncCommentsForPost(postId);
       if (result.newComments > 0) {
         setCommentSyncMessage({
           postId,
@@ -132,29 +145,25 @@ export default function ArticlesPage() {
     }
   };
 
-  // Open publish dialog with pre-filled content
+  const handleBackfillAllComments = async () => {
+    setBackfilling(true);
+    setSyncMessage('');
+    try {
+      const result = await api.backfillAllComments();
+      setSyncMessage(`✓ Queued comment backfill for ${result.postsQueued} post${result.postsQueued === 1 ? '' : 's'}`);
+    } catch (err) {
+      setSyncMessage(`✗ ${err instanceof ApiError ? err.message : 'Failed to queue comment backfill'}`);
+    } finally {
+      setBackfilling(false);
+    }
+  };
+
+  // Open publish dialog - an empty text uses the post template from Settings
   const handleOpenPublishDialog = (post: Post) => {
     setSelectedPost(post);
     setPublishError('');
     setPublishSuccess('');
-
-    // Pre-fill with title and link
-    // Replace HTML tags with a space to preserve word boundaries
-    const textContent = post.content
-      ? post.content.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim().substring(0, 150)
-      : '';
-    let defaultContent = post.title;
-    if (textContent) {
-      defaultContent += '\n\n' + textContent + '...';
-    }
-    if (post.ghostUrl) {
-      defaultContent += '\n\n' + post.ghostUrl;
-    }
-    // Trim to 300 chars if needed
-    if (defaultContent.length > 300) {
-      defaultContent = defaultContent.substring(0, 297) + '...';
-    }
-    setPostContent(defaultContent);
+    setPostContent('');
     setPublishDialogOpen(true);
   };
 
@@ -163,17 +172,47 @@ export default function ArticlesPage() {
     setSelectedPost(null);
     setPostContent('');
     setPublishError('');
+    setPreview(null);
+    setPreviewError('');
   };
 
+  // Refresh the dry-run preview shortly after the user stops typing
+  useEffect(() => {
+    if (!publishDialogOpen || !selectedPost) return;
+
+    let cancelled = false;
+    setPreviewLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const result = await api.previewPublish(selectedPost.id, postContent.trim() || undefined);
+        if (!cancelled) {
+          setPreview(result);
+          setPreviewError('');
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setPreviewError(err instanceof Error ? err.message : 'Failed to load preview');
+        }
+      } finally {
+        if (!cancelled) setPreviewLoading(false);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [publishDialogOpen, selectedPost, postContent]);
+
   const handlePublishToBluesky = async () => {
-    if (!selectedPost || !postContent.trim()) return;
+    if (!selectedPost) return;
 
     setPublishing(true);
     setPublishError('');
     setPublishSuccess('');
 
     try {
-      const result = await api.publishToBluesky(selectedPost.id, postContent);
+      const result = await api.publishToBluesky(selectedPost.id, postContent.trim() || undefined);
       setPublishSuccess(`Posted to Bluesky! View at: ${result.atprotoUri}`);
 
       // Update the post in the list to show it's synced
@@ -207,18 +246,41 @@ export default function ArticlesPage() {
   return (
     <DashboardLayout>
       <Box sx={{ mb: 4, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-        <Typography variant="h4" sx={{ fontWeight: 600 }}>
-          Articles
-        </Typography>
-        <Button
-          variant="contained"
-          onClick={handleSyncFromGhost}
-          disabled={syncing}
-          startIcon={syncing ? <CircularProgress size={16} color="inherit" /> : <CloudIcon />}
-          sx={{ textTransform: 'none' }}
-        >
-          {syncing ? 'Syncing...' : 'Sync from Ghost'}
-        </Button>
+        <Box>
+          <Typography variant="h4" sx={{ fontWeight: 600 }}>
+            Articles
+          </Typography>
+          {lastCommentSync && (
+            <Typography variant="body2" color="text.secondary">
+              Last comment sync: {formatDateForDisplay(lastCommentSync.finishedAt)}
+              {' — '}
+              {lastCommentSync.status === 'failed'
+                ? `failed${lastCommentSync.errors ? ` (${lastCommentSync.errors.split('\n')[0]})` : ''}`
+                : `${lastCommentSync.newComments} new comment${lastCommentSync.newComments === 1 ? '' : 's'} from ${lastCommentSync.postsChecked} article${lastCommentSync.postsChecked === 1 ? '' : 's'}`}
+              {lastCommentSync.status === 'partial' && `, ${lastCommentSync.errorCount} error${lastCommentSync.errorCount === 1 ? '' : 's'}`}
+            </Typography>
+          )}
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button
+            variant="outlined"
+            onClick={handleBackfillAllComments}
+            disabled={backfilling}
+            startIcon={backfilling ? <CircularProgress size={16} /> : <SyncIcon />}
+            sx={{ textTransform: 'none' }}
+          >
+            {backfilling ? 'Queueing...' : 'Backfill All Comments'}
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleSyncFromGhost}
+            disabled={syncing}
+            startIcon={syncing ? <CircularProgress size={16} color="inherit" /> : <CloudIcon />}
+            sx={{ textTransform: 'none' }}
+          >
+            {syncing ? 'Syncing...' : 'Sync from Ghost'}
+          </Button>
+        </Box>
       </Box>
 
       {/* Show sync message */}
@@ -493,6 +555,18 @@ export default function ArticlesPage() {
                             >
                               {syncingCommentsFor === post.id ? 'Syncing...' : 'Sync Comments'}
                             </Button>
+                            <Button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleSyncComments(post.id, true);
+                              }}
+                              fullWidth
+                              size="small"
+                              disabled={syncingCommentsFor === post.id}
+                              sx={{ textTransform: 'none', mt: 0.5 }}
+                            >
+                              Backfill full reply thread
+                            </Button>
                             {commentSyncMessage && commentSyncMessage.postId === post.id && (
                               <Alert
                                 severity={commentSyncMessage.message.startsWith('✓') ? 'success' : 'error'}
@@ -590,7 +664,8 @@ export default function ArticlesPage() {
           )}
 
           <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-            Edit the content below before posting to Bluesky. Maximum 300 characters.
+            Leave the text empty to use your post template from Settings, or write a custom post
+            for this article. Maximum 300 characters.
           </Typography>
 
           {selectedPost && (
@@ -605,11 +680,13 @@ export default function ArticlesPage() {
             rows={6}
             value={postContent}
             onChange={(e) => setPostContent(e.target.value)}
-            placeholder="Write your Bluesky post..."
+            placeholder="Using your post template"
             error={postContent.length > 300}
             helperText={`${postContent.length}/300 characters${postContent.length > 300 ? ' (exceeds limit)' : ''}`}
             sx={{ mt: 1 }}
           />
+
+          <PublishPreview preview={preview} loading={previewLoading} error={previewError} />
         </DialogContent>
         <DialogActions sx={{ px: 3, pb: 2 }}>
           <Button onClick={handleClosePublishDialog} disabled={publishing}>
@@ -618,7 +695,7 @@ export default function ArticlesPage() {
           <Button
             onClick={handlePublishToBluesky}
             variant="contained"
-            disabled={publishing || postContent.length === 0 || postContent.length > 300}
+            disabled={publishing || postContent.length > 300}
             startIcon={publishing ? <CircularProgress size={16} color="inherit" /> : <CloudIcon />}
             sx={{
               bgcolor: '#0085ff',
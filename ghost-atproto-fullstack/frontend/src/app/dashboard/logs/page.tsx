@@ -22,12 +22,16 @@ import RefreshIcon from '@mui/icons-material/Refresh';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import ErrorIcon from '@mui/icons-material/Error';
 import PendingIcon from '@mui/icons-material/Pending';
+import ReplayIcon from '@mui/icons-material/Replay';
+import BlockIcon from '@mui/icons-material/Block';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { api } from '@/lib/api';
-import { SyncLog } from '@/lib/types';
+import { QueueJob, SyncLog } from '@/lib/types';
 
 export default function LogsPage() {
   const [logs, setLogs] = useState<SyncLog[]>([]);
+  const [jobs, setJobs] = useState<QueueJob[]>([]);
+  const [jobActionId, setJobActionId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [page, setPage] = useState(0);
@@ -37,8 +41,10 @@ export default function LogsPage() {
     try {
       setLoading(true);
       setError(null);
-      const logsData = await api.getLogs();
+      const [logsData, jobsData] = await Promise.all([api.getLogs(), api.getJobs()]);
       setLogs(logsData);
+      // Finished and discarded jobs live on in the sync logs; only show work still in flight
+      setJobs(jobsData.filter((job) => job.status === 'pending' || job.status === 'running' || job.status === 'dead'));
     } catch (err) {
       setError('Failed to load sync logs');
       console.error('Failed to load logs:', err);
@@ -51,6 +57,36 @@ export default function LogsPage() {
     loadLogs();
   }, []);
 
+  const handleJobAction = async (job: QueueJob, action: 'retry' | 'discard') => {
+    try {
+      setJobActionId(job.id);
+      setError(null);
+      if (action === 'retry') {
+        await api.retryJob(job.id);
+      } else {
+        await api.discardJob(job.id);
+      }
+      await loadLogs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} job`);
+    } finally {
+      setJobActionId(null);
+    }
+  };
+
+  const getJobStatusColor = (status: QueueJob['status']): "error" | "warning" | "info" | "default" => {
+    switch (status) {
+      case 'dead':
+        return 'error';
+      case 'pending':
+        return 'warning';
+      case 'running':
+        return 'info';
+      default:
+        return 'default';
+    }
+  };
+
   const handleChangePage = (event: unknown, newPage: number) => {
     setPage(newPage);
   };
@@ -121,6 +157,93 @@ export default function LogsPage() {
         </Alert>
       )}
 
+      {jobs.length > 0 && (
+        <Paper sx={{ mb: 3 }}>
+          <Typography variant="h6" sx={{ px: 2, pt: 2 }}>
+            Job Queue
+          </Typography>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Type</TableCell>
+                  <TableCell>Attempts</TableCell>
+                  <TableCell>Next Run</TableCell>
+                  <TableCell>Last Error</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {jobs.map((job) => (
+                  <TableRow key={job.id} hover>
+                    <TableCell>
+                      <Chip label={job.status} color={getJobStatusColor(job.status)} size="small" />
+                    </TableCell>
+                    <TableCell>
+                      <Chip label={job.type} variant="outlined" size="small" />
+                    </TableCell>
+                    <TableCell>
+                      {job.attempts}/{job.maxAttempts}
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2">
+                        {job.status === 'pending' ? formatDate(job.runAt) : '-'}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      {job.lastError ? (
+                        <Tooltip title={job.lastError}>
+                          <Typography
+                            variant="body2"
+                            color="error"
+                            sx={{
+                              maxWidth: 240,
+                              overflow: 'hidden',
+                              textOverflow: 'ellipsis',
+                              whiteSpace: 'nowrap',
+                              cursor: 'help',
+                            }}
+                          >
+                            {job.lastError}
+                          </Typography>
+                        </Tooltip>
+                      ) : (
+                        '-'
+                      )}
+                    </TableCell>
+                    <TableCell align="right">
+                      <Tooltip title="Retry now">
+                        <span>
+                          <IconButton
+                            size="small"
+                            onClick={() => handleJobAction(job, 'retry')}
+                            disabled={job.status === 'running' || jobActionId === job.id}
+                          >
+                            <ReplayIcon fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                      <Tooltip title="Discard">
+                        <span>
+                          <IconButton
+                            size="small"
+                            onClick={() => handleJobAction(job, 'discard')}
+                            disabled={job.status === 'running' || jobActionId === job.id}
+                          >
+                            <BlockIcon fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Paper>
+      )}
+
       <Paper>
         <TableContainer>
           <Table>
@@ -0,0 +1,316 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Paper,
+  Typography,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Alert,
+  IconButton,
+  Tooltip,
+  Tabs,
+  Tab,
+  TextField,
+  MenuItem,
+  Avatar,
+  Link,
+  Divider,
+} from '@mui/material';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import CheckIcon from '@mui/icons-material/Check';
+import CloseIcon from '@mui/icons-material/Close';
+import VerifiedUserIcon from '@mui/icons-material/VerifiedUser';
+import DeleteIcon from '@mui/icons-material/Delete';
+import AddIcon from '@mui/icons-material/Add';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { api } from '@/lib/api';
+import { ModerationMode, ModerationRule, ModerationSettings, PendingComment } from '@/lib/types';
+
+const MODE_DESCRIPTIONS: Record<ModerationMode, string> = {
+  off: 'Every Bluesky reply is published to Ghost straight away.',
+  filter: 'Replies are published unless they match a filter; blocked and muted authors are turned away.',
+  review: 'Every reply waits here for approval, except from trusted authors.',
+};
+
+const RULE_LABELS: Record<ModerationRule['type'], string> = {
+  keyword: 'Keyword',
+  regex: 'Regex',
+  block: 'Blocked',
+  trust: 'Trusted',
+};
+
+const bskyPostUrl = (comment: PendingComment) =>
+  `https://bsky.app/profile/${comment.authorHandle}/post/${comment.bskyReplyUri.split('/').pop()}`;
+
+export default function ModerationPage() {
+  const [comments, setComments] = useState<PendingComment[]>([]);
+  const [settings, setSettings] = useState<ModerationSettings | null>(null);
+  const [status, setStatus] = useState<PendingComment['status']>('pending');
+  const [actionId, setActionId] = useState<string | null>(null);
+  const [newRule, setNewRule] = useState<{ type: ModerationRule['type']; value: string }>({ type: 'keyword', value: '' });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadInbox = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [commentsData, settingsData] = await Promise.all([
+        api.getPendingComments(status),
+        api.getModerationSettings(),
+      ]);
+      setComments(commentsData);
+      setSettings(settingsData);
+    } catch (err) {
+      setError('Failed to load moderation inbox');
+      console.error('Failed to load moderation inbox:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadInbox();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status]);
+
+  const handleAction = async (comment: PendingComment, action: 'approve' | 'reject' | 'trust') => {
+    try {
+      setActionId(comment.id);
+      setError(null);
+      setSuccess(null);
+      if (action === 'approve') {
+        await api.approveComment(comment.id);
+        setSuccess(`Published reply from @${comment.authorHandle}`);
+      } else if (action === 'reject') {
+        await api.rejectComment(comment.id);
+      } else {
+        const result = await api.trustCommentAuthor(comment.id);
+        setSuccess(`@${comment.authorHandle} is now trusted; published ${result.approved} held ${result.approved === 1 ? 'reply' : 'replies'}`);
+        if (result.errors.length > 0) {
+          setError(result.errors.join('; '));
+        }
+      }
+      await loadInbox();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} comment`);
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const handleModeChange = async (mode: ModerationMode) => {
+    try {
+      setError(null);
+      setSettings(await api.updateModerationMode(mode));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update moderation mode');
+    }
+  };
+
+  const handleAddRule = async () => {
+    try {
+      setError(null);
+      await api.addModerationRule(newRule.type, newRule.value);
+      setNewRule({ ...newRule, value: '' });
+      setSettings(await api.getModerationSettings());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add rule');
+    }
+  };
+
+  const handleDeleteRule = async (rule: ModerationRule) => {
+    try {
+      setError(null);
+      await api.deleteModerationRule(rule.id);
+      setSettings(await api.getModerationSettings());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete rule');
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString();
+  };
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">
+          Comment Moderation
+        </Typography>
+        <Tooltip title="Refresh">
+          <IconButton onClick={loadInbox} disabled={loading}>
+            <RefreshIcon />
+          </IconButton>
+        </Tooltip>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 3 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      {settings && (
+        <Paper sx={{ p: 3, mb: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            Filters
+          </Typography>
+          <TextField
+            select
+            label="Moderation mode"
+            size="small"
+            value={settings.mode}
+            onChange={(e) => handleModeChange(e.target.value as ModerationMode)}
+            helperText={MODE_DESCRIPTIONS[settings.mode]}
+            sx={{ minWidth: 240, mb: 2 }}
+          >
+            <MenuItem value="off">Off</MenuItem>
+            <MenuItem value="filter">Filter</MenuItem>
+            <MenuItem value="review">Review everything</MenuItem>
+          </TextField>
+
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+            {settings.rules.length === 0 && (
+              <Typography variant="body2" color="text.secondary">
+                No filters yet. Your Bluesky mute list is always applied.
+              </Typography>
+            )}
+            {settings.rules.map((rule) => (
+              <Chip
+                key={rule.id}
+                label={`${RULE_LABELS[rule.type]}: ${rule.value}`}
+                color={rule.type === 'trust' ? 'success' : rule.type === 'block' ? 'error' : 'default'}
+                onDelete={() => handleDeleteRule(rule)}
+                deleteIcon={<DeleteIcon />}
+                size="small"
+              />
+            ))}
+          </Box>
+
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+            <TextField
+              select
+              size="small"
+              value={newRule.type}
+              onChange={(e) => setNewRule({ ...newRule, type: e.target.value as ModerationRule['type'] })}
+              sx={{ minWidth: 140 }}
+            >
+              <MenuItem value="keyword">Keyword</MenuItem>
+              <MenuItem value="regex">Regex</MenuItem>
+              <MenuItem value="block">Block handle/DID</MenuItem>
+              <MenuItem value="trust">Trust DID</MenuItem>
+            </TextField>
+            <TextField
+              size="small"
+              placeholder={newRule.type === 'regex' ? 'buy\\s+now' : newRule.type === 'keyword' ? 'spam' : 'did:plc:... or handle'}
+              value={newRule.value}
+              onChange={(e) => setNewRule({ ...newRule, value: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && newRule.value.trim()) handleAddRule();
+              }}
+              sx={{ flexGrow: 1 }}
+            />
+            <Button variant="outlined" startIcon={<AddIcon />} onClick={handleAddRule} disabled={!newRule.value.trim()}>
+              Add
+            </Button>
+          </Box>
+        </Paper>
+      )}
+
+      <Paper>
+        <Tabs value={status} onChange={(_, value) => setStatus(value)} sx={{ px: 2 }}>
+          <Tab label="Waiting" value="pending" />
+          <Tab label="Rejected" value="rejected" />
+          <Tab label="Approved" value="approved" />
+        </Tabs>
+        <Divider />
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : comments.length === 0 ? (
+          <Typography variant="body2" color="textSecondary" align="center" sx={{ py: 4 }}>
+            {status === 'pending' ? 'Nothing waiting for review' : `No ${status} replies`}
+          </Typography>
+        ) : (
+          comments.map((comment) => (
+            <Box key={comment.id} sx={{ p: 2, borderBottom: 1, borderColor: 'divider' }}>
+              <Box sx={{ display: 'flex', gap: 2 }}>
+                <Avatar src={comment.authorAvatar || undefined} alt={comment.authorHandle}>
+                  {comment.authorHandle[0]?.toUpperCase()}
+                </Avatar>
+                <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                    <Typography variant="subtitle2">
+                      {comment.authorDisplayName || comment.authorHandle}
+                    </Typography>
+                    <Link href={bskyPostUrl(comment)} target="_blank" rel="noopener noreferrer" variant="body2">
+                      @{comment.authorHandle}
+                    </Link>
+                    <Typography variant="caption" color="text.secondary">
+                      {formatDate(comment.replyCreatedAt)} on &ldquo;{comment.post.title}&rdquo;
+                    </Typography>
+                    {comment.reason && <Chip label={comment.reason} size="small" color="warning" variant="outlined" />}
+                  </Box>
+                  <Typography variant="body2" sx={{ mt: 1, whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                    {comment.text}
+                  </Typography>
+                </Box>
+                {comment.status !== 'approved' && (
+                  <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 0.5 }}>
+                    <Tooltip title="Approve and publish">
+                      <span>
+                        <IconButton
+                          color="success"
+                          onClick={() => handleAction(comment, 'approve')}
+                          disabled={actionId === comment.id}
+                        >
+                          <CheckIcon />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    {comment.status === 'pending' && (
+                      <Tooltip title="Reject">
+                        <span>
+                          <IconButton
+                            color="error"
+                            onClick={() => handleAction(comment, 'reject')}
+                            disabled={actionId === comment.id}
+                          >
+                            <CloseIcon />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    )}
+                    <Tooltip title="Always trust this author">
+                      <span>
+                        <IconButton
+                          onClick={() => handleAction(comment, 'trust')}
+                          disabled={actionId === comment.id}
+                        >
+                          <VerifiedUserIcon />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  </Box>
+                )}
+              </Box>
+            </Box>
+          ))
+        )}
+      </Paper>
+    </DashboardLayout>
+  );
+}
@@ -16,6 +16,9 @@ import {
   IconButton,
   Tooltip,
   Link,
+  FormControlLabel,
+  Switch,
+  MenuItem,
 } from '@mui/material';
 import SaveIcon from '@mui/icons-material/Save';
 import SettingsIcon from '@mui/icons-material/Settings';
@@ -24,10 +27,11 @@ import WebhookIcon from '@mui/icons-material/Webhook';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import ErrorIcon from '@mui/icons-material/Error';
 import SyncIcon from '@mui/icons-material/Sync';
+import KeyIcon from '@mui/icons-material/Key';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { PageState } from '@/components/PageState';
 import { api, ApiError } from '@/lib/api';
-import { User } from '@/lib/types';
+import { User, WebhookSecretRotation } from '@/lib/types';
 import { useRouter } from 'next/navigation';
 
 export default function SettingsPage() {
@@ -50,6 +54,17 @@ export default function SettingsPage() {
     shimSecret: '',
   });
 
+  const [threadSettings, setThreadSettings] = useState<{
+    blueskyThreadMode: boolean;
+    blueskyThreadLinkPosition: 'first' | 'last';
+  }>({ blueskyThreadMode: false, blueskyThreadLinkPosition: 'first' });
+
+  const [postTemplate, setPostTemplate] = useState('');
+  const [reverseCommentSync, setReverseCommentSync] = useState(false);
+  const [commentSyncInterval, setCommentSyncInterval] = useState(15);
+  const [rotatingSecret, setRotatingSecret] = useState(false);
+  const [rotatedWebhook, setRotatedWebhook] = useState<WebhookSecretRotation | null>(null);
+
   const [shimStatus, setShimStatus] = useState<{
     configured: boolean;
     healthy: boolean;
@@ -72,6 +87,13 @@ export default function SettingsPage() {
         shimUrl: userData.shimUrl || '',
         shimSecret: userData.shimSecret || '',
       });
+      setThreadSettings({
+        blueskyThreadMode: userData.blueskyThreadMode ?? false,
+        blueskyThreadLinkPosition: userData.blueskyThreadLinkPosition ?? 'first',
+      });
+      setPostTemplate(userData.blueskyPostTemplate || '');
+      setReverseCommentSync(userData.reverseCommentSync ?? false);
+      setCommentSyncInterval(userData.commentSyncInterval ?? 15);
 
       if (userData.shimUrl && userData.shimSecret) {
         checkShimStatus();
@@ -132,6 +154,43 @@ export default function SettingsPage() {
     }
   };
 
+  const handleMirrorComments = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const result = await api.mirrorComments();
+      if (result.errors.length > 0) {
+        setError(result.errors.join('; '));
+      }
+      setSuccess(`Posted ${result.posted} Ghost ${result.posted === 1 ? 'comment' : 'comments'} to Bluesky`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to mirror comments');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRotateWebhookSecret = async () => {
+    if (!confirm('Generate a new webhook secret? Deliveries signed with the old secret will be rejected.')) {
+      return;
+    }
+
+    setRotatingSecret(true);
+    setError('');
+    try {
+      const result = await api.rotateWebhookSecret();
+      setRotatedWebhook(result);
+      setUser((prev) => (prev ? { ...prev, ghostWebhookUrl: result.ghostWebhookUrl, ghostWebhookSecret: '••••••••' } : prev));
+      setSuccess(result.registered
+        ? 'Webhook secret rotated and Ghost webhooks re-registered!'
+        : 'Webhook secret rotated. Update the secret on your Ghost webhooks manually.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rotate webhook secret');
+    } finally {
+      setRotatingSecret(false);
+    }
+  };
+
   const handleSave = async () => {
     setSaving(true);
     setError('');
@@ -145,11 +204,20 @@ export default function SettingsPage() {
         ghostContentApiKey?: string;
         blueskyHandle: string;
         blueskyPassword?: string;
+        blueskyThreadMode: boolean;
+        blueskyThreadLinkPosition: 'first' | 'last';
+        blueskyPostTemplate: string;
+        reverseCommentSync: boolean;
+        commentSyncInterval: number;
       } = {
         name: formData.name,
         ghostUrl: formData.ghostUrl,
         ghostApiKey: formData.ghostApiKey,
         blueskyHandle: formData.blueskyHandle,
+        ...threadSettings,
+        blueskyPostTemplate: postTemplate,
+        reverseCommentSync,
+        commentSyncInterval,
       };
 
       if (formData.ghostContentApiKey) {
@@ -162,6 +230,7 @@ export default function SettingsPage() {
 
       const updatedUser = await api.updateMe(updateData);
       setUser(updatedUser);
+      setPostTemplate(updatedUser.blueskyPostTemplate || '');
       setSuccess('Settings saved successfully!');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save settings');
@@ -263,9 +332,68 @@ export default function SettingsPage() {
               helperText="Generate app password in Bluesky Settings → App Passwords"
             />
           </Grid>
+          <Grid size={{ xs: 12 }}>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={threadSettings.blueskyThreadMode}
+                  onChange={(e) =>
+                    setThreadSettings((prev) => ({ ...prev, blueskyThreadMode: e.target.checked }))
+                  }
+                />
+              }
+              label="Publish long posts as threads"
+            />
+            <Typography variant="body2" color="text.secondary">
+              Splits the full article into a numbered thread instead of a single truncated post.
+            </Typography>
+          </Grid>
+          {threadSettings.blueskyThreadMode && (
+            <Grid size={{ xs: 12 }}>
+              <TextField
+                select
+                fullWidth
+                label="Article Link Placement"
+                value={threadSettings.blueskyThreadLinkPosition}
+                onChange={(e) =>
+                  setThreadSettings((prev) => ({
+                    ...prev,
+                    blueskyThreadLinkPosition: e.target.value as 'first' | 'last',
+                  }))
+                }
+                helperText="Which post in the thread carries the link back to Ghost"
+              >
+                <MenuItem value="first">First post</MenuItem>
+                <MenuItem value="last">Last post</MenuItem>
+              </TextField>
+            </Grid>
+          )}
         </Grid>
       </Paper>
 
+      <Paper sx={{ p: 3, mt: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Post Template
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Layout for single Bluesky posts. Available placeholders: {'{{title}}'}, {'{{excerpt}}'},{' '}
+          {'{{url}}'}, {'{{tags}}'} and {'{{author}}'}. Wrap text in {'{{#author}}...{{/author}}'} to show it
+          only when a value is present, or {'{{^author}}...{{/author}}'} when it is missing. Long values are
+          shortened to fit 300 characters; links are never cut.
+        </Typography>
+        <TextField
+          fullWidth
+          multiline
+          minRows={4}
+          label="Template"
+          value={postTemplate}
+          onChange={(e) => setPostTemplate(e.target.value)}
+          placeholder={'{{title}}\n\n{{excerpt}}{{#url}}\n\n🔗 {{url}}{{/url}}'}
+          helperText="Leave empty to use the default layout"
+          slotProps={{ input: { sx: { fontFamily: 'monospace' } } }}
+        />
+      </Paper>
+
       <Paper sx={{ p: 3, mt: 3 }}>
         <Typography variant="h6" gutterBottom>
           Ghost Configuration
@@ -304,10 +432,8 @@ export default function SettingsPage() {
         </Grid>
       </Paper>
 
-      {/* Webhook Information - Show when Ghost is configured but Bluesky is skipped */}
-      {formData.ghostUrl && formData.ghostApiKey && 
-       (formData.blueskyHandle === 'SKIPPED' || formData.blueskyPassword === 'SKIPPED' || 
-        (!formData.blueskyHandle && !formData.blueskyPassword)) && (
+      {/* Webhook Information - Show when Ghost is configured */}
+      {formData.ghostUrl && formData.ghostApiKey && (
         <Paper sx={{ p: 3, mt: 3, backgroundColor: '#f8f9fa' }}>
           <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
             <WebhookIcon sx={{ mr: 1, color: 'primary.main' }} />
@@ -324,46 +450,82 @@ export default function SettingsPage() {
           </Box>
           
           <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-            Your Ghost posts are automatically synced to this platform. To enable webhook notifications, 
-            add the following webhook URL to your Ghost admin panel:
+            Ghost notifies this platform through a webhook URL that belongs to your account. 
+            Deliveries must be signed with your webhook secret.
           </Typography>
 
           <Card sx={{ mb: 2 }}>
             <CardContent sx={{ py: 2 }}>
-              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
-                <Typography 
-                  variant="body1" 
-                  sx={{ 
-                    fontFamily: 'monospace', 
-                    backgroundColor: '#f5f5f5', 
-                    p: 1, 
-                    borderRadius: 1,
-                    flex: 1,
-                    mr: 1
-                  }}
-                >
-                  http://204.236.176.29/api/ghost/webhook
-                </Typography>
-                <Tooltip title="Copy webhook URL">
-                  <IconButton 
-                    onClick={() => {
-                      navigator.clipboard.writeText('http://204.236.176.29/api/ghost/webhook');
-                      setSuccess('Webhook URL copied to clipboard!');
+              {user?.ghostWebhookUrl ? (
+                <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                  <Typography 
+                    variant="body1" 
+                    sx={{ 
+                      fontFamily: 'monospace', 
+                      backgroundColor: '#f5f5f5', 
+                      p: 1, 
+                      borderRadius: 1,
+                      flex: 1,
+                      mr: 1,
+                      wordBreak: 'break-all'
                     }}
-                    size="small"
                   >
-                    <ContentCopyIcon />
-                  </IconButton>
-                </Tooltip>
+                    {user.ghostWebhookUrl}
+                  </Typography>
+                  <Tooltip title="Copy webhook URL">
+                    <IconButton 
+                      onClick={() => {
+                        navigator.clipboard.writeText(user.ghostWebhookUrl || '');
+                        setSuccess('Webhook URL copied to clipboard!');
+                      }}
+                      size="small"
+                    >
+                      <ContentCopyIcon />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              ) : (
+                <Typography variant="body2" color="text.secondary">
+                  No webhook URL yet. Generate a secret below to create one and register it with Ghost.
+                </Typography>
+              )}
+
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 2 }}>
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={rotatingSecret ? <CircularProgress size={16} /> : <KeyIcon />}
+                  onClick={handleRotateWebhookSecret}
+                  disabled={rotatingSecret}
+                >
+                  {user?.ghostWebhookSecret ? 'Rotate Secret' : 'Generate Secret'}
+                </Button>
+                <Typography variant="caption" color="text.secondary">
+                  {user?.ghostWebhookSecret ? 'Secret configured' : 'No secret configured'}
+                </Typography>
               </Box>
+
+              {rotatedWebhook && (
+                <Alert severity={rotatedWebhook.registered ? 'success' : 'warning'} sx={{ mt: 2 }}>
+                  <Typography variant="body2" sx={{ mb: 1 }}>
+                    {rotatedWebhook.registered
+                      ? 'Your Ghost webhooks now use this secret. It will not be shown again:'
+                      : 'Ghost could not be updated automatically. Set this secret on each webhook. It will not be shown again:'}
+                  </Typography>
+                  <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                    {rotatedWebhook.ghostWebhookSecret}
+                  </Typography>
+                </Alert>
+              )}
             </CardContent>
           </Card>
 
           <Alert severity="info" sx={{ mb: 2 }}>
             <Typography variant="body2" sx={{ fontWeight: 'bold', mb: 1 }}>
-              Setup Instructions:
+              Manual Setup Instructions:
             </Typography>
             <Typography variant="body2" component="div">
+              Webhooks are registered automatically when you finish setup or rotate the secret. To add them by hand:<br/>
               1. Go to your Ghost Admin panel<br/>
               2. Navigate to <strong>Settings → Integrations</strong><br/>
               3. Click <strong>&quot;Add custom integration&quot;</strong><br/>
@@ -371,8 +533,8 @@ export default function SettingsPage() {
               5. Click <strong>&quot;Add webhook&quot;</strong><br/>
               6. Configure the webhook:<br/>
               &nbsp;&nbsp;• <strong>Event:</strong> Post published<br/>
-              &nbsp;&nbsp;• <strong>URL:</strong> http://204.236.176.29/api/ghost/webhook<br/>
-              &nbsp;&nbsp;• <strong>Header:</strong> X-User-ID = {user?.id}<br/>
+              &nbsp;&nbsp;• <strong>URL:</strong> your webhook URL followed by <code>?event=post.published</code><br/>
+              &nbsp;&nbsp;• <strong>Secret:</strong> your webhook secret<br/>
               7. Save the webhook
             </Typography>
           </Alert>
@@ -437,6 +599,40 @@ export default function SettingsPage() {
               helperText="Must match BRIDGE_SHARED_SECRET in your shim's .env file"
             />
           </Grid>
+          <Grid size={{ xs: 12 }}>
+            <TextField
+              select
+              fullWidth
+              label="Check Bluesky for new replies"
+              value={commentSyncInterval}
+              onChange={(e) => setCommentSyncInterval(Number(e.target.value))}
+              helperText="Replies to older articles are checked less often"
+            >
+              <MenuItem value={0}>Off</MenuItem>
+              <MenuItem value={5}>Every 5 minutes</MenuItem>
+              <MenuItem value={15}>Every 15 minutes</MenuItem>
+              <MenuItem value={30}>Every 30 minutes</MenuItem>
+              <MenuItem value={60}>Every hour</MenuItem>
+              <MenuItem value={180}>Every 3 hours</MenuItem>
+              <MenuItem value={360}>Every 6 hours</MenuItem>
+              <MenuItem value={1440}>Once a day</MenuItem>
+            </TextField>
+          </Grid>
+          <Grid size={{ xs: 12 }}>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={reverseCommentSync}
+                  onChange={(e) => setReverseCommentSync(e.target.checked)}
+                />
+              }
+              label="Two-way comments"
+            />
+            <Typography variant="body2" color="text.secondary">
+              Post new comments from your Ghost site as replies under the Bluesky post, naming the
+              commenter. Checked every 10 minutes once saved.
+            </Typography>
+          </Grid>
           <Grid size={{ xs: 12 }}>
             <Box sx={{ display: 'flex', gap: 2 }}>
               <Button
@@ -456,6 +652,11 @@ export default function SettingsPage() {
                   Test Connection
                 </Button>
               )}
+              {user?.reverseCommentSync && (
+                <Button variant="text" onClick={handleMirrorComments} disabled={saving}>
+                  Mirror Ghost Comments Now
+                </Button>
+              )}
             </Box>
           </Grid>
         </Grid>
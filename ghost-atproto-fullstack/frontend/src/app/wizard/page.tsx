@@ -864,8 +864,8 @@ export default function WizardPage() {
                   5. Click <strong>&quot;Add webhook&quot;</strong><br/>
                   6. Configure the webhook:<br/>
                   &nbsp;&nbsp;• <strong>Event:</strong> Post published<br/>
-                  &nbsp;&nbsp;• <strong>URL:</strong> {webhookUrl}<br/>
-                  &nbsp;&nbsp;• <strong>Header:</strong> X-User-ID = [Your User ID]<br/>
+                  &nbsp;&nbsp;• <strong>URL:</strong> {webhookUrl}?event=post.published<br/>
+                  &nbsp;&nbsp;• <strong>Secret:</strong> generate one under Settings → Ghost Webhook Configuration<br/>
                   7. Save the webhook
                 </Typography>
               </Alert>
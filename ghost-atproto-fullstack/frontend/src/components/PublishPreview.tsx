@@ -0,0 +1,156 @@
+/**
+ * PublishPreview - Shows what /api/atproto/publish would send
+ *
+ * Usage:
+ *   <PublishPreview preview={preview} loading={loading} error={error} />
+ */
+
+'use client';
+
+import React from 'react';
+import { Box, Paper, Typography, Chip, Alert, CircularProgress, Link } from '@mui/material';
+import { PublishPreview as PublishPreviewData, PublishPreviewFacet } from '@/lib/types';
+
+interface PublishPreviewProps {
+  preview: PublishPreviewData | null;
+  loading?: boolean;
+  error?: string;
+}
+
+interface TextSegment {
+  text: string;
+  facet?: PublishPreviewFacet;
+}
+
+// Facet ranges are UTF-8 byte offsets, so slice the encoded text rather than the string
+function splitByFacets(text: string, facets: PublishPreviewFacet[]): TextSegment[] {
+  const bytes = new TextEncoder().encode(text);
+  const decoder = new TextDecoder();
+  const segments: TextSegment[] = [];
+  let cursor = 0;
+
+  for (const facet of facets) {
+    if (facet.byteStart < cursor) continue;
+    if (facet.byteStart > cursor) {
+      segments.push({ text: decoder.decode(bytes.slice(cursor, facet.byteStart)) });
+    }
+    segments.push({ text: decoder.decode(bytes.slice(facet.byteStart, facet.byteEnd)), facet });
+    cursor = facet.byteEnd;
+  }
+  if (cursor < bytes.length) {
+    segments.push({ text: decoder.decode(bytes.slice(cursor)) });
+  }
+
+  return segments;
+}
+
+function facetKind(facet: PublishPreviewFacet): string {
+  const type = facet.features[0]?.$type || '';
+  if (type.endsWith('#link')) return 'link';
+  if (type.endsWith('#mention')) return 'mention';
+  if (type.endsWith('#tag')) return 'tag';
+  return 'facet';
+}
+
+export function PublishPreview({ preview, loading = false, error }: PublishPreviewProps) {
+  if (error) {
+    return <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>;
+  }
+
+  if (!preview) {
+    return loading ? (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+        <CircularProgress size={20} />
+      </Box>
+    ) : null;
+  }
+
+  const { socialPost, document, warnings } = preview;
+  const embed = socialPost?.embed?.external;
+
+  return (
+    <Box sx={{ mt: 2, opacity: loading ? 0.6 : 1 }}>
+      <Typography variant="subtitle2" sx={{ mb: 1, fontWeight: 600 }}>
+        Preview
+      </Typography>
+
+      {warnings.map((warning) => (
+        <Alert key={warning} severity="warning" sx={{ mb: 1 }}>
+          {warning}
+        </Alert>
+      ))}
+
+      {socialPost && (
+        <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+          <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+            {splitByFacets(socialPost.text, socialPost.facets).map((segment, index) =>
+              segment.facet ? (
+                <Box component="span" key={index} sx={{ color: '#0085ff' }}>
+                  {segment.text}
+                </Box>
+              ) : (
+                <React.Fragment key={index}>{segment.text}</React.Fragment>
+              )
+            )}
+          </Typography>
+
+          {embed && (
+            <Paper variant="outlined" sx={{ mt: 1.5, overflow: 'hidden' }}>
+              {embed.thumb && (
+                <Box
+                  component="img"
+                  src={embed.thumb.imageUrl}
+                  alt=""
+                  sx={{ width: '100%', maxHeight: 180, objectFit: 'cover', display: 'block' }}
+                />
+              )}
+              <Box sx={{ p: 1.5 }}>
+                <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                  {embed.title}
+                </Typography>
+                {embed.description && (
+                  <Typography variant="caption" color="text.secondary" component="p">
+                    {embed.description}
+                  </Typography>
+                )}
+                <Link href={embed.uri} target="_blank" rel="noopener noreferrer" variant="caption">
+                  {embed.uri}
+                </Link>
+              </Box>
+            </Paper>
+          )}
+
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 1.5 }}>
+            <Chip
+              size="small"
+              color={socialPost.withinLimit ? 'default' : 'error'}
+              label={`${socialPost.graphemes}/${socialPost.maxGraphemes} characters`}
+            />
+            {socialPost.facets.map((facet) => (
+              <Chip
+                key={`${facet.byteStart}-${facet.byteEnd}`}
+                size="small"
+                variant="outlined"
+                label={`${facetKind(facet)} · bytes ${facet.byteStart}–${facet.byteEnd}`}
+              />
+            ))}
+          </Box>
+        </Paper>
+      )}
+
+      {document && (
+        <Paper variant="outlined" sx={{ p: 2 }}>
+          <Typography variant="caption" color="text.secondary">
+            site.standard.document record
+          </Typography>
+          <Box
+            component="pre"
+            sx={{ m: 0, mt: 1, maxHeight: 200, overflow: 'auto', fontSize: 12, whiteSpace: 'pre-wrap' }}
+          >
+            {JSON.stringify(document, null, 2)}
+          </Box>
+        </Paper>
+      )}
+    </Box>
+  );
+}
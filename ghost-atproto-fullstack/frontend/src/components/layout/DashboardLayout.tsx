@@ -21,6 +21,7 @@ import {
 import CloudIcon from '@mui/icons-material/Cloud';
 import CampaignIcon from '@mui/icons-material/Campaign';
 import ArticleIcon from '@mui/icons-material/Article';
+import RateReviewIcon from '@mui/icons-material/RateReview';
 import BarChartIcon from '@mui/icons-material/BarChart';
 import LoginIcon from '@mui/icons-material/Login';
 import PersonAddIcon from '@mui/icons-material/PersonAdd';
@@ -46,6 +47,8 @@ export function DashboardLayout({ children }: { readonly children: React.ReactNo
       setCurrentTab('/dashboard');
     } else if (cleanPath === '/dashboard/articles' || cleanPath.startsWith('/dashboard/articles/')) {
       setCurrentTab('/dashboard/articles');
+    } else if (cleanPath === '/dashboard/moderation') {
+      setCurrentTab('/dashboard/moderation');
     } else if (cleanPath === '/dashboard/civic-actions' || cleanPath.startsWith('/dashboard/civic-actions/')) {
       setCurrentTab('/dashboard/civic-actions');
     } else if (cleanPath === '/dashboard/settings' || cleanPath.startsWith('/dashboard/settings/')) {
@@ -230,6 +233,15 @@ export function DashboardLayout({ children }: { readonly children: React.ReactNo
                 iconPosition="start"
                 label="Articles"
                 value="/dashboard/articles"
+              />,
+              <Tab
+                key="moderation"
+                component={NextLink}
+                href="/dashboard/moderation"
+                icon={<RateReviewIcon />}
+                iconPosition="start"
+                label="Moderation"
+                value="/dashboard/moderation"
               />
             ]}
             <Tab
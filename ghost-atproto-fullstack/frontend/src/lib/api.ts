@@ -9,7 +9,20 @@
  */
 
 import { isClient } from './hydration-utils';
-import { User, Post, SyncLog, LoginResponse } from './types';
+import {
+  User,
+  Post,
+  SyncLog,
+  LoginResponse,
+  PublishPreview,
+  QueueJob,
+  WebhookSecretRotation,
+  ModerationMode,
+  ModerationRule,
+  ModerationSettings,
+  PendingComment,
+  CommentSyncRun,
+} from './types';
 
 // =============================================================================
 // Types
@@ -358,6 +371,12 @@ class ApiClient {
     });
   }
 
+  async rotateWebhookSecret(): Promise<WebhookSecretRotation> {
+    return this.request<WebhookSecretRotation>('/api/auth/me/webhook-secret', {
+      method: 'POST',
+    });
+  }
+
   // ---------------------------------------------------------------------------
   // Posts
   // ---------------------------------------------------------------------------
@@ -382,6 +401,65 @@ class ApiClient {
     return this.request<SyncLog[]>('/api/auth/logs');
   }
 
+  // ---------------------------------------------------------------------------
+  // Job Queue
+  // ---------------------------------------------------------------------------
+
+  async getJobs(status?: QueueJob['status']): Promise<QueueJob[]> {
+    const query = status ? `?status=${status}` : '';
+    return this.request<QueueJob[]>(`/api/jobs${query}`);
+  }
+
+  async retryJob(id: string): Promise<QueueJob> {
+    return this.request<QueueJob>(`/api/jobs/${id}/retry`, { method: 'POST' });
+  }
+
+  async discardJob(id: string): Promise<QueueJob> {
+    return this.request<QueueJob>(`/api/jobs/${id}/discard`, { method: 'POST' });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Comment Moderation
+  // ---------------------------------------------------------------------------
+
+  async getPendingComments(status: PendingComment['status'] = 'pending'): Promise<PendingComment[]> {
+    return this.request<PendingComment[]>(`/api/moderation/comments?status=${status}`);
+  }
+
+  async approveComment(id: string): Promise<PendingComment> {
+    return this.request<PendingComment>(`/api/moderation/comments/${id}/approve`, { method: 'POST' });
+  }
+
+  async rejectComment(id: string): Promise<PendingComment> {
+    return this.request<PendingComment>(`/api/moderation/comments/${id}/reject`, { method: 'POST' });
+  }
+
+  async trustCommentAuthor(id: string): Promise<{ trusted: string; approved: number; errors: string[] }> {
+    return this.request(`/api/moderation/comments/${id}/trust`, { method: 'POST' });
+  }
+
+  async getModerationSettings(): Promise<ModerationSettings> {
+    return this.request<ModerationSettings>('/api/moderation/settings');
+  }
+
+  async updateModerationMode(mode: ModerationMode): Promise<ModerationSettings> {
+    return this.request<ModerationSettings>('/api/moderation/settings', {
+      method: 'PUT',
+      body: JSON.stringify({ mode }),
+    });
+  }
+
+  async addModerationRule(type: ModerationRule['type'], value: string): Promise<ModerationRule> {
+    return this.request<ModerationRule>('/api/moderation/rules', {
+      method: 'POST',
+      body: JSON.stringify({ type, value }),
+    });
+  }
+
+  async deleteModerationRule(id: string): Promise<{ success: boolean }> {
+    return this.request(`/api/moderation/rules/${id}`, { method: 'DELETE' });
+  }
+
   async getProfileStats(): Promise<{
     totalPosts: number;
     successfulSyncs: number;
@@ -434,6 +512,13 @@ class ApiClient {
     });
   }
 
+  async getCommentSyncStatus(): Promise<{
+    interval: number;
+    lastRun: CommentSyncRun | null;
+  }> {
+    return this.request('/api/ghost/comment-sync/status');
+  }
+
   async getShimStatus(): Promise<{
     configured: boolean;
     healthy: boolean;
@@ -602,7 +687,7 @@ class ApiClient {
 
   async publishToBluesky(
     postId: string,
-    customText: string
+    customText?: string
   ): Promise<{
     success: boolean;
     message: string;
@@ -617,6 +702,13 @@ class ApiClient {
     });
   }
 
+  async previewPublish(postId: string, customText?: string): Promise<PublishPreview> {
+    return this.request('/api/atproto/preview', {
+      method: 'POST',
+      body: JSON.stringify({ postId, customText }),
+    });
+  }
+
   async syncPostsFromGhost(): Promise<{
     success: boolean;
     message: string;
@@ -640,6 +732,41 @@ class ApiClient {
     });
   }
 
+  async backfillCommentsForPost(postId: string, depth?: number): Promise<{
+    success: boolean;
+    postId: string;
+    postTitle: string;
+    newComments: number;
+    errors: string[];
+  }> {
+    return this.request(`/api/ghost/backfill-comments/${postId}`, {
+      method: 'POST',
+      body: JSON.stringify({ depth }),
+    });
+  }
+
+  async backfillAllComments(depth?: number): Promise<{
+    success: boolean;
+    postsQueued: number;
+    jobIds: string[];
+  }> {
+    return this.request('/api/ghost/backfill-comments', {
+      method: 'POST',
+      body: JSON.stringify({ depth }),
+    });
+  }
+
+  async mirrorComments(): Promise<{
+    success: boolean;
+    checked: number;
+    posted: number;
+    errors: string[];
+  }> {
+    return this.request('/api/ghost/mirror-comments', {
+      method: 'POST',
+    });
+  }
+
   // ---------------------------------------------------------------------------
   // Civic Events (Mobilize API)
   // ---------------------------------------------------------------------------
@@ -10,6 +10,13 @@ export interface User {
   ghostContentApiKey: string | null;
   shimUrl: string | null;
   shimSecret: string | null;
+  blueskyThreadMode?: boolean;
+  blueskyThreadLinkPosition?: 'first' | 'last';
+  blueskyPostTemplate?: string;
+  reverseCommentSync?: boolean;
+  commentSyncInterval?: number;
+  ghostWebhookUrl?: string | null;
+  ghostWebhookSecret?: string | null;
   createdAt: string;
 }
 
@@ -54,6 +61,107 @@ export interface SyncLog {
   userId: string;
 }
 
+export interface PublishPreviewFacet {
+  byteStart: number;
+  byteEnd: number;
+  text: string;
+  features: Array<{ $type?: string; uri?: string; did?: string; tag?: string }>;
+}
+
+export interface PublishPreview {
+  postId: string;
+  format: 'bluesky' | 'standard.site';
+  socialPost: {
+    text: string;
+    graphemes: number;
+    maxGraphemes: number;
+    withinLimit: boolean;
+    facets: PublishPreviewFacet[];
+    embed: {
+      $type: 'app.bsky.embed.external';
+      external: {
+        uri: string;
+        title: string;
+        description: string;
+        thumb?: { imageUrl: string; maxBytes: number };
+      };
+    } | null;
+  } | null;
+  document: Record<string, unknown> | null;
+  warnings: string[];
+}
+
+export interface QueueJob {
+  id: string;
+  type: 'publish' | 'post_update' | 'comment_sync';
+  payload: Record<string, unknown>;
+  status: 'pending' | 'running' | 'succeeded' | 'dead' | 'discarded';
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lastError: string | null;
+  postId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  userId: string;
+}
+
+export type ModerationMode = 'off' | 'filter' | 'review';
+
+export interface ModerationRule {
+  id: string;
+  type: 'keyword' | 'regex' | 'block' | 'trust';
+  value: string;
+  createdAt: string;
+  userId: string;
+}
+
+export interface ModerationSettings {
+  mode: ModerationMode;
+  rules: ModerationRule[];
+}
+
+export interface PendingComment {
+  id: string;
+  bskyReplyUri: string;
+  parentUri: string | null;
+  authorDid: string;
+  authorHandle: string;
+  authorDisplayName: string | null;
+  authorAvatar: string | null;
+  text: string;
+  replyCreatedAt: string;
+  status: 'pending' | 'approved' | 'rejected';
+  reason: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  postId: string;
+  userId: string;
+  post: {
+    id: string;
+    title: string;
+    ghostUrl: string | null;
+  };
+}
+
+export interface CommentSyncRun {
+  id: string;
+  trigger: 'schedule' | 'manual';
+  status: 'success' | 'partial' | 'failed';
+  postsChecked: number;
+  newComments: number;
+  errorCount: number;
+  errors: string | null;
+  startedAt: string;
+  finishedAt: string;
+}
+
+export interface WebhookSecretRotation {
+  ghostWebhookUrl: string;
+  ghostWebhookSecret: string;
+  registered: boolean;
+}
+
 export interface LoginResponse {
   user: User;
   token: string;
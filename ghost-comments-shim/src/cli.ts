@@ -0,0 +1,139 @@
+#!/usr/bin/env node
+import dotenv from 'dotenv';
+import { parseArgs } from 'util';
+import { Config, loadConfig, loadSitesConfig } from './config';
+import { createDbConnection, DbConnection } from './db';
+import { runDoctor } from './commands/doctor';
+import { runInit } from './commands/init';
+import { runInjectTestComment } from './commands/inject-test-comment';
+import { runListBridged } from './commands/list-bridged';
+import { startServer } from './index';
+
+const USAGE = `Usage: ghost-comments-shim [command] [options]
+
+Commands:
+  serve                  Start the shim (the default)
+  init                   Write a .env from Ghost's config.production.json
+      --ghost-config <path>  Ghost config file (default: look in . and /var/www)
+      --env-file <path>      Where to write (default: .env)
+      --port <port>          Port for the shim (default: 3001)
+      --force                Replace an existing env file
+  doctor                 Run the /test checks without starting the shim
+      --json                 Print the raw results
+  inject-test-comment    Insert a [TEST] comment as the Bluesky member
+      --post <id|slug>       Post to comment on (default: the latest published post)
+      --text <text>          Comment text
+      --remove               Delete the comment again once it's been read back
+  list-bridged           List comments the shim has inserted, newest first
+      --post <id>            Only this post's comments
+      --limit <n>            How many (default: 20)
+      --json                 Print JSON
+
+Options for doctor, inject-test-comment and list-bridged:
+  --env <path>           Read settings from this env file instead of ./.env
+  --site <id>            With SHIM_SITES_FILE, the site to use (doctor checks every site by default)
+`;
+
+/**
+ * The sites a command works on: the one from the environment, or those in SHIM_SITES_FILE
+ */
+function loadSites(siteId: string | undefined, envFile: string | undefined): { label: string; config: Config }[] {
+  if (envFile) {
+    dotenv.config({ path: envFile, override: true });
+  }
+
+  const sitesFile = process.env.SHIM_SITES_FILE;
+  if (!sitesFile) {
+    return [{ label: 'default', config: loadConfig() }];
+  }
+
+  const sites = loadSitesConfig(sitesFile).sites.filter((site) => !siteId || site.siteId === siteId);
+  if (sites.length === 0) {
+    throw new Error(`Unknown site: ${siteId}`);
+  }
+  return sites.map((config) => ({ label: config.siteId, config }));
+}
+
+/**
+ * Run a command against one site's database
+ */
+async function withSite(
+  sites: { label: string; config: Config }[],
+  run: (config: Config, db: DbConnection) => Promise<number>
+): Promise<number> {
+  if (sites.length > 1) {
+    throw new Error('Pick a site with --site');
+  }
+  const db = createDbConnection(sites[0].config);
+  try {
+    return await run(sites[0].config, db);
+  } finally {
+    await db.close();
+  }
+}
+
+async function run(argv: string[]): Promise<number> {
+  const command = argv[0] && !argv[0].startsWith('-') ? argv[0] : 'serve';
+  const { values } = parseArgs({
+    args: command === argv[0] ? argv.slice(1) : argv,
+    options: {
+      'ghost-config': { type: 'string' },
+      'env-file': { type: 'string', default: '.env' },
+      port: { type: 'string', default: '3001' },
+      force: { type: 'boolean', default: false },
+      json: { type: 'boolean', default: false },
+      post: { type: 'string' },
+      text: { type: 'string', default: 'Test comment from ghost-comments-shim' },
+      remove: { type: 'boolean', default: false },
+      limit: { type: 'string', default: '20' },
+      env: { type: 'string' },
+      site: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help || command === 'help') {
+    console.log(USAGE);
+    return 0;
+  }
+
+  switch (command) {
+    case 'serve':
+      await startServer();
+      return 0;
+    case 'init':
+      return runInit({
+        ghostConfig: values['ghost-config'],
+        envFile: values['env-file']!,
+        port: parseInt(values.port!, 10),
+        force: values.force!,
+      });
+    case 'doctor':
+      return runDoctor(loadSites(values.site, values.env), values.json!);
+    case 'inject-test-comment':
+      return withSite(loadSites(values.site, values.env), (config, db) =>
+        runInjectTestComment(config, db, { post: values.post, text: values.text!, remove: values.remove! }));
+    case 'list-bridged': {
+      const limit = parseInt(values.limit!, 10);
+      if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+        throw new Error('--limit must be between 1 and 500');
+      }
+      return withSite(loadSites(values.site, values.env), (config, db) =>
+        runListBridged(config, db, { post: values.post, limit, json: values.json! }));
+    }
+    default:
+      console.error(`Unknown command: ${command}\n`);
+      console.error(USAGE);
+      return 1;
+  }
+}
+
+run(process.argv.slice(2))
+  .then((code) => {
+    // serve keeps running until it's stopped
+    if (code !== 0) process.exit(code);
+  })
+  .catch((err) => {
+    console.error(`✗ ${(err as Error).message}`);
+    process.exit(1);
+  });
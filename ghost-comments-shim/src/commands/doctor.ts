@@ -0,0 +1,78 @@
+import { Config } from '../config';
+import { createDbConnection } from '../db';
+import { ConnectivityResults, runConnectivityTests } from '../routes/test';
+
+/**
+ * Lines describing one site's results, and whether anything would stop the shim working
+ */
+export function describeResults(results: ConnectivityResults): { lines: string[]; healthy: boolean } {
+  const lines: string[] = [];
+  let healthy = true;
+  const fail = (line: string) => {
+    lines.push(`✗ ${line}`);
+    healthy = false;
+  };
+
+  if (results.database.status !== 'ok') {
+    fail(`Database unreachable: ${results.database.message}`);
+    return { lines, healthy };
+  }
+  lines.push('✓ Database reachable');
+
+  if (results.posts.status === 'ok') {
+    lines.push(`✓ Posts table: ${results.posts.count} recent post(s)`);
+  } else {
+    fail(`Posts table: ${results.posts.message}`);
+  }
+
+  if (results.members.status === 'ok' && results.members.blueskyMemberExists) {
+    lines.push(`✓ ${results.members.message}`);
+  } else {
+    fail(results.members.message || 'Bluesky member not found');
+  }
+
+  const compatibility = results.compatibility;
+  if (!compatibility || 'error' in compatibility) {
+    fail(`Schema check failed: ${compatibility?.error || 'not run'}`);
+  } else {
+    if (compatibility.compatible) {
+      lines.push(`✓ Schema compatible (Ghost ${compatibility.ghostVersion || 'version unknown'})`);
+    }
+    compatibility.warnings.forEach((warning) => lines.push(`⚠ ${warning}`));
+    compatibility.problems.forEach((problem) => fail(problem));
+  }
+
+  return { lines, healthy };
+}
+
+/**
+ * The same checks as GET /test, without a running shim. Exits non-zero when any site has
+ * a problem.
+ */
+export async function runDoctor(sites: { label: string; config: Config }[], json: boolean): Promise<number> {
+  const report: Record<string, ConnectivityResults> = {};
+  let healthy = true;
+
+  for (const { label, config } of sites) {
+    const db = createDbConnection(config);
+    try {
+      report[label] = await runConnectivityTests(config, db);
+    } finally {
+      await db.close();
+    }
+
+    const described = describeResults(report[label]);
+    healthy = healthy && described.healthy;
+    if (!json) {
+      if (sites.length > 1) console.log(`\n${label}:`);
+      described.lines.forEach((line) => console.log(line));
+    }
+  }
+
+  if (json) {
+    console.log(JSON.stringify(sites.length > 1 ? { sites: report } : Object.values(report)[0], null, 2));
+  } else {
+    console.log(healthy ? '\nAll checks passed.' : '\nSome checks failed - see above.');
+  }
+  return healthy ? 0 : 1;
+}
@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { createDbConnection, DbConnection, findMemberByEmail, insertMember } from '../db';
+import { generateGhostId } from '../utils/ghost-id';
+import { findGhostConfig, readGhostDatabase } from '../utils/ghost-config';
+
+// The member README step 2 asks for; init creates it when Ghost Admin hasn't
+export const BLUESKY_MEMBER_EMAIL = 'comments@bsky.atproto.invalid';
+
+export interface InitOptions {
+  ghostConfig?: string;
+  envFile: string;
+  port: number;
+  force: boolean;
+}
+
+/**
+ * Find the shared Bluesky member, creating it when it doesn't exist yet
+ */
+export async function ensureBlueskyMember(db: DbConnection): Promise<{ id: string; created: boolean }> {
+  const existing = await findMemberByEmail(db, BLUESKY_MEMBER_EMAIL);
+  if (existing) {
+    return { id: existing, created: false };
+  }
+
+  const id = generateGhostId();
+  await insertMember(db, {
+    id,
+    email: BLUESKY_MEMBER_EMAIL,
+    name: 'Bluesky',
+    note: 'Bridged comments from Bluesky/ATProto',
+  });
+  return { id, created: true };
+}
+
+/**
+ * A 64-character hex secret, well over the 32 characters the shim requires
+ */
+export function generateSharedSecret(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Write a .env for this Ghost install: database settings from its config file, a new shared
+ * secret and the Bluesky member
+ */
+export async function runInit(options: InitOptions): Promise<number> {
+  const configPath = findGhostConfig(options.ghostConfig);
+  if (!configPath) {
+    console.error(options.ghostConfig
+      ? `✗ ${options.ghostConfig} not found`
+      : '✗ Could not find Ghost\'s config.production.json - pass --ghost-config /path/to/config.production.json');
+    return 1;
+  }
+  console.log(`✓ Ghost config: ${configPath}`);
+
+  if (fs.existsSync(options.envFile) && !options.force) {
+    console.error(`✗ ${options.envFile} already exists - pass --force to replace it`);
+    return 1;
+  }
+
+  const database = readGhostDatabase(configPath);
+  console.log(`✓ Database: ${database.ghostDbType}`);
+
+  const db = createDbConnection(database);
+  let member: { id: string; created: boolean };
+  try {
+    member = await ensureBlueskyMember(db);
+  } catch (err) {
+    console.error(`✗ Could not find or create the Bluesky member: ${(err as Error).message}`);
+    return 1;
+  } finally {
+    await db.close();
+  }
+  console.log(`✓ Bluesky member: ${member.id}${member.created ? ' (created)' : ''}`);
+
+  const secret = generateSharedSecret();
+  const env = [
+    '# Written by ghost-comments-shim init',
+    `GHOST_DB_TYPE=${database.ghostDbType}`,
+    `GHOST_DB_CONNECTION=${database.ghostDbConnection}`,
+    `BRIDGE_SHARED_SECRET=${secret}`,
+    `BLUESKY_MEMBER_ID=${member.id}`,
+    `PORT=${options.port}`,
+    '',
+  ].join('\n');
+  // Holds the database password and the secret
+  fs.writeFileSync(options.envFile, env, { mode: 0o600 });
+  fs.chmodSync(options.envFile, 0o600);
+  console.log(`✓ Wrote ${options.envFile}`);
+
+  console.log('\nGive the bridge admin this shared secret (SHIM_SHARED_SECRET):');
+  console.log(`  ${secret}`);
+  console.log('\nNext: run `ghost-comments-shim doctor`, then start the shim.');
+  return 0;
+}
@@ -0,0 +1,60 @@
+import { Config } from '../config';
+import { DbConnection, getComment, insertComment } from '../db';
+import { generateGhostId, isValidGhostId } from '../utils/ghost-id';
+import { escapeHtml } from '../utils/sanitize';
+
+export interface InjectOptions {
+  // Post ID or slug; the latest published post when left out
+  post?: string;
+  text: string;
+  remove: boolean;
+}
+
+async function findPost(db: DbConnection, post?: string): Promise<{ id: string; slug: string; title: string } | null> {
+  const rows = !post
+    ? await db.query(
+      "SELECT id, slug, title FROM posts WHERE type = 'post' AND status = 'published' ORDER BY published_at DESC LIMIT 1",
+      []
+    )
+    : isValidGhostId(post)
+      ? await db.query('SELECT id, slug, title FROM posts WHERE id = ?', [post])
+      : await db.query('SELECT id, slug, title FROM posts WHERE slug = ?', [post]);
+  return rows[0] || null;
+}
+
+/**
+ * Insert a comment as the Bluesky member and read it back, to see the whole path work
+ * (and what a bridged comment looks like on the site). With `remove` it is deleted again.
+ */
+export async function runInjectTestComment(config: Config, db: DbConnection, options: InjectOptions): Promise<number> {
+  const post = await findPost(db, options.post);
+  if (!post) {
+    console.error(options.post ? `✗ Post not found: ${options.post}` : '✗ No published posts found');
+    return 1;
+  }
+
+  const commentId = generateGhostId();
+  await insertComment(db, {
+    id: commentId,
+    postId: post.id,
+    memberId: config.blueskyMemberId,
+    parentId: null,
+    html: `<p><strong>[TEST]</strong> ${escapeHtml(options.text)}</p>`,
+    createdAt: new Date().toISOString().slice(0, 19).replace('T', ' '),
+  });
+
+  const stored = await getComment(db, commentId);
+  if (!stored) {
+    console.error(`✗ Comment ${commentId} was inserted but could not be read back`);
+    return 1;
+  }
+  console.log(`✓ Inserted comment ${commentId} on "${post.title}" (/${post.slug}/), status ${stored.status}`);
+
+  if (options.remove) {
+    await db.execute('DELETE FROM comments WHERE id = ?', [commentId]);
+    console.log('✓ Removed it again');
+  } else {
+    console.log('  Delete it in Ghost Admin, or with --remove next time to clean up straight away.');
+  }
+  return 0;
+}
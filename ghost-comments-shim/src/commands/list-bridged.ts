@@ -0,0 +1,52 @@
+import { Config } from '../config';
+import { BridgedComment, DbConnection, listBridgedComments } from '../db';
+
+export interface ListBridgedOptions {
+  post?: string;
+  limit: number;
+  json: boolean;
+}
+
+const SNIPPET_LENGTH = 60;
+
+/**
+ * The comment's text without markup, cut to fit on one line
+ */
+export function commentSnippet(html: string): string {
+  const text = html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#039;/g, "'").replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH - 1)}…` : text;
+}
+
+function formatRow(comment: BridgedComment): string {
+  return [
+    comment.created_at.slice(0, 16).replace('T', ' '),
+    comment.status.padEnd(9),
+    comment.id,
+    (comment.post_slug || comment.post_id).slice(0, 30).padEnd(30),
+    commentSnippet(comment.html),
+  ].join('  ');
+}
+
+/**
+ * Comments the shim put into Ghost, newest first
+ */
+export async function runListBridged(config: Config, db: DbConnection, options: ListBridgedOptions): Promise<number> {
+  const comments = await listBridgedComments(db, {
+    blueskyMemberId: config.blueskyMemberId,
+    postId: options.post,
+    limit: options.limit,
+  });
+
+  if (options.json) {
+    console.log(JSON.stringify(comments, null, 2));
+  } else if (comments.length === 0) {
+    console.log('No bridged comments found.');
+  } else {
+    comments.forEach((comment) => console.log(formatRow(comment)));
+  }
+  return 0;
+}
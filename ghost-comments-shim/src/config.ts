@@ -1,14 +1,36 @@
 import dotenv from 'dotenv';
+import fs from 'fs';
+import { parse as parseYaml } from 'yaml';
 
 dotenv.config();
 
+export const SHIM_VERSION = '0.1.0';
+
 export type DbType = 'mysql' | 'sqlite';
 
+/**
+ * signed:     only HMAC-signed requests are accepted (the default)
+ * transition: signed requests or the shared secret as a bearer token, while older bridges upgrade
+ */
+export type AuthMode = 'signed' | 'transition';
+
+/**
+ * What to do when the Ghost schema doesn't look like what the shim writes to:
+ * refuse to start, or serve reads and turn writes away
+ */
+export type SchemaMismatchMode = 'refuse' | 'read-only';
+
 export interface Config {
   ghostDbType: DbType;
   ghostDbConnection: string;
   bridgeSharedSecret: string;
+  authMode: AuthMode;
+  clockSkewSeconds: number;
   blueskyMemberId: string;
+  imageHostAllowlist: string[];
+  onSchemaMismatch: SchemaMismatchMode;
+  // Local SQLite file that holds comments while Ghost's database is unreachable (off when null)
+  outboxPath: string | null;
   port: number;
 }
 
@@ -20,35 +42,185 @@ function validateEnv(name: string): string {
   return value;
 }
 
-function validateDbType(type: string): DbType {
+function validateDbType(type: string, name = 'GHOST_DB_TYPE'): DbType {
   if (type !== 'mysql' && type !== 'sqlite') {
-    throw new Error(`Invalid GHOST_DB_TYPE: ${type}. Must be 'mysql' or 'sqlite'`);
+    throw new Error(`Invalid ${name}: ${type}. Must be 'mysql' or 'sqlite'`);
   }
   return type;
 }
 
+function validateAuthMode(mode: string, name = 'BRIDGE_AUTH_MODE'): AuthMode {
+  if (mode !== 'signed' && mode !== 'transition') {
+    throw new Error(`Invalid ${name}: ${mode}. Must be 'signed' or 'transition'`);
+  }
+  return mode;
+}
+
+function validateSchemaMismatchMode(mode: string, name = 'ON_SCHEMA_MISMATCH'): SchemaMismatchMode {
+  if (mode !== 'refuse' && mode !== 'read-only') {
+    throw new Error(`Invalid ${name}: ${mode}. Must be 'refuse' or 'read-only'`);
+  }
+  return mode;
+}
+
+function validateSecret(secret: string, name = 'BRIDGE_SHARED_SECRET'): string {
+  if (secret.length < 32) {
+    throw new Error(`${name} must be at least 32 characters`);
+  }
+  return secret;
+}
+
+function validateClockSkew(seconds: number, name = 'BRIDGE_CLOCK_SKEW_SECONDS'): number {
+  if (!Number.isInteger(seconds) || seconds <= 0) {
+    throw new Error(`${name} must be a positive number of seconds`);
+  }
+  return seconds;
+}
+
+function validateMemberId(id: string, name = 'BLUESKY_MEMBER_ID'): string {
+  // Ghost IDs are 24-char hex
+  if (!/^[a-f0-9]{24}$/i.test(id)) {
+    throw new Error(`${name} must be a 24-character hex string`);
+  }
+  return id;
+}
+
+function normalizeHosts(hosts: string[]): string[] {
+  return hosts.map((host) => host.trim().toLowerCase()).filter(Boolean);
+}
+
 export function loadConfig(): Config {
   const ghostDbType = validateDbType(validateEnv('GHOST_DB_TYPE'));
   const ghostDbConnection = validateEnv('GHOST_DB_CONNECTION');
   const bridgeSharedSecret = validateEnv('BRIDGE_SHARED_SECRET');
   const blueskyMemberId = validateEnv('BLUESKY_MEMBER_ID');
   const port = parseInt(process.env.PORT || '3001', 10);
+  const authMode = validateAuthMode(process.env.BRIDGE_AUTH_MODE || 'signed');
+  const clockSkewSeconds = parseInt(process.env.BRIDGE_CLOCK_SKEW_SECONDS || '300', 10);
 
-  // Validate secret strength
-  if (bridgeSharedSecret.length < 32) {
-    throw new Error('BRIDGE_SHARED_SECRET must be at least 32 characters');
-  }
-
-  // Validate member ID format (24-char hex)
-  if (!/^[a-f0-9]{24}$/i.test(blueskyMemberId)) {
-    throw new Error('BLUESKY_MEMBER_ID must be a 24-character hex string');
-  }
+  // Hosts that comment images may be loaded from (comma-separated)
+  const imageHostAllowlist = normalizeHosts((process.env.IMAGE_HOST_ALLOWLIST || 'cdn.bsky.app').split(','));
 
   return {
     ghostDbType,
     ghostDbConnection,
-    bridgeSharedSecret,
-    blueskyMemberId,
+    bridgeSharedSecret: validateSecret(bridgeSharedSecret),
+    authMode,
+    clockSkewSeconds: validateClockSkew(clockSkewSeconds),
+    blueskyMemberId: validateMemberId(blueskyMemberId),
+    imageHostAllowlist,
+    onSchemaMismatch: validateSchemaMismatchMode(process.env.ON_SCHEMA_MISMATCH || 'refuse'),
+    outboxPath: process.env.OUTBOX_PATH || null,
     port,
   };
 }
+
+/**
+ * One Ghost site in a multi-site shim, reached at /sites/{siteId}/... or with the
+ * X-Ghost-Site header
+ */
+export interface SiteConfig extends Config {
+  siteId: string;
+}
+
+export interface SitesConfig {
+  port: number;
+  sites: SiteConfig[];
+}
+
+const SITE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+
+function requireHostList(value: unknown, name: string): string[] {
+  if (!Array.isArray(value) || value.some((host) => typeof host !== 'string')) {
+    throw new Error(`${name} must be a list of host names`);
+  }
+  return normalizeHosts(value);
+}
+
+function requireString(value: unknown, name: string): string {
+  if (typeof value !== 'string' || !value) {
+    throw new Error(`${name} is required and must be a string`);
+  }
+  return value;
+}
+
+/**
+ * Load the sites file (YAML, or JSON since YAML is a superset of it) for serving several
+ * Ghost sites from one process. Top-level auth_mode, clock_skew_seconds,
+ * image_host_allowlist and on_schema_mismatch are defaults each site can override.
+ */
+export function loadSitesConfig(path: string): SitesConfig {
+  let file: any;
+  try {
+    file = parseYaml(fs.readFileSync(path, 'utf8'));
+  } catch (err) {
+    throw new Error(`Could not read sites file ${path}: ${(err as Error).message}`);
+  }
+
+  if (!file || !Array.isArray(file.sites) || file.sites.length === 0) {
+    throw new Error(`Sites file ${path} must list at least one site under "sites"`);
+  }
+
+  const port = Number(file.port ?? process.env.PORT ?? 3001);
+  const defaults = {
+    authMode: validateAuthMode(file.auth_mode ?? 'signed', 'auth_mode'),
+    clockSkewSeconds: validateClockSkew(file.clock_skew_seconds ?? 300, 'clock_skew_seconds'),
+    imageHostAllowlist: requireHostList(file.image_host_allowlist ?? ['cdn.bsky.app'], 'image_host_allowlist'),
+    onSchemaMismatch: validateSchemaMismatchMode(file.on_schema_mismatch ?? 'refuse', 'on_schema_mismatch'),
+  };
+
+  const ids = new Set<string>();
+  const secrets = new Set<string>();
+  const outboxPaths = new Set<string>();
+
+  const sites = file.sites.map((site: any, index: number): SiteConfig => {
+    const siteId = requireString(site?.id, `sites[${index}].id`);
+    if (!SITE_ID_PATTERN.test(siteId)) {
+      throw new Error(`sites[${index}].id must be lowercase letters, digits and dashes`);
+    }
+    if (ids.has(siteId)) {
+      throw new Error(`Site id "${siteId}" is used more than once`);
+    }
+    ids.add(siteId);
+
+    const name = (key: string) => `site "${siteId}": ${key}`;
+    const bridgeSharedSecret = validateSecret(requireString(site.shared_secret, name('shared_secret')), name('shared_secret'));
+
+    // A request signed for one site must not be accepted by another
+    if (secrets.has(bridgeSharedSecret)) {
+      throw new Error(`${name('shared_secret')} must differ from every other site's`);
+    }
+    secrets.add(bridgeSharedSecret);
+
+    // Comments queued for one site must never be flushed into another site's database
+    const outboxPath = site.outbox_path !== undefined ? requireString(site.outbox_path, name('outbox_path')) : null;
+    if (outboxPath && outboxPaths.has(outboxPath)) {
+      throw new Error(`${name('outbox_path')} must differ from every other site's`);
+    }
+    if (outboxPath) outboxPaths.add(outboxPath);
+
+    return {
+      siteId,
+      ghostDbType: validateDbType(requireString(site.db_type, name('db_type')), name('db_type')),
+      ghostDbConnection: requireString(site.db_connection, name('db_connection')),
+      bridgeSharedSecret,
+      authMode: site.auth_mode !== undefined
+        ? validateAuthMode(site.auth_mode, name('auth_mode'))
+        : defaults.authMode,
+      clockSkewSeconds: site.clock_skew_seconds !== undefined
+        ? validateClockSkew(site.clock_skew_seconds, name('clock_skew_seconds'))
+        : defaults.clockSkewSeconds,
+      blueskyMemberId: validateMemberId(requireString(site.bluesky_member_id, name('bluesky_member_id')), name('bluesky_member_id')),
+      imageHostAllowlist: site.image_host_allowlist !== undefined
+        ? requireHostList(site.image_host_allowlist, name('image_host_allowlist'))
+        : defaults.imageHostAllowlist,
+      onSchemaMismatch: site.on_schema_mismatch !== undefined
+        ? validateSchemaMismatchMode(site.on_schema_mismatch, name('on_schema_mismatch'))
+        : defaults.onSchemaMismatch,
+      outboxPath,
+      port,
+    };
+  });
+
+  return { port, sites };
+}
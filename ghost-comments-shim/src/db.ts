@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import mysql from 'mysql2/promise';
 import Database from 'better-sqlite3';
 import { Config } from './config';
@@ -5,9 +6,37 @@ import { Config } from './config';
 export interface DbConnection {
   execute(query: string, params: any[]): Promise<void>;
   query(query: string, params?: any[]): Promise<any[]>;
+  /**
+   * Run `fn` in a transaction: committed when it resolves, rolled back when it throws
+   */
+  transaction<T>(fn: (tx: DbConnection) => Promise<T>): Promise<T>;
   close(): Promise<void>;
 }
 
+/**
+ * One pooled MySQL connection, held for the length of a transaction
+ */
+class MySqlTransaction implements DbConnection {
+  constructor(private connection: mysql.PoolConnection) {}
+
+  async execute(query: string, params: any[]): Promise<void> {
+    await this.connection.execute(query, params);
+  }
+
+  async query(query: string, params: any[] = []): Promise<any[]> {
+    const [rows] = await this.connection.execute(query, params);
+    return rows as any[];
+  }
+
+  async transaction<T>(fn: (tx: DbConnection) => Promise<T>): Promise<T> {
+    return fn(this);
+  }
+
+  async close(): Promise<void> {
+    this.connection.release();
+  }
+}
+
 class MySqlConnection implements DbConnection {
   private pool: mysql.Pool;
 
@@ -24,6 +53,23 @@ class MySqlConnection implements DbConnection {
     return rows as any[];
   }
 
+  async transaction<T>(fn: (tx: DbConnection) => Promise<T>): Promise<T> {
+    const connection = await this.pool.getConnection();
+    const tx = new MySqlTransaction(connection);
+
+    try {
+      await connection.beginTransaction();
+      const result = await fn(tx);
+      await connection.commit();
+      return result;
+    } catch (err) {
+      await connection.rollback();
+      throw err;
+    } finally {
+      await tx.close();
+    }
+  }
+
   async close(): Promise<void> {
     await this.pool.end();
   }
@@ -45,12 +91,27 @@ class SqliteConnection implements DbConnection {
     return this.db.prepare(query).all(...params);
   }
 
+  async transaction<T>(fn: (tx: DbConnection) => Promise<T>): Promise<T> {
+    // better-sqlite3's own transaction() can't wrap an async function. Our statements
+    // run synchronously, so nothing else gets onto the connection between BEGIN and COMMIT
+    // as long as `fn` only awaits the database.
+    this.db.exec('BEGIN');
+    try {
+      const result = await fn(this);
+      this.db.exec('COMMIT');
+      return result;
+    } catch (err) {
+      this.db.exec('ROLLBACK');
+      throw err;
+    }
+  }
+
   async close(): Promise<void> {
     this.db.close();
   }
 }
 
-export function createDbConnection(config: Config): DbConnection {
+export function createDbConnection(config: Pick<Config, 'ghostDbType' | 'ghostDbConnection'>): DbConnection {
   if (config.ghostDbType === 'mysql') {
     return new MySqlConnection(config.ghostDbConnection);
   } else {
@@ -61,17 +122,16 @@ export function createDbConnection(config: Config): DbConnection {
 /**
  * Insert a comment into the Ghost database
  */
-export async function insertComment(
-  db: DbConnection,
-  params: {
-    id: string;
-    postId: string;
-    memberId: string;
-    parentId: string | null;
-    html: string;
-    createdAt: string;
-  }
-): Promise<void> {
+export interface NewComment {
+  id: string;
+  postId: string;
+  memberId: string;
+  parentId: string | null;
+  html: string;
+  createdAt: string;
+}
+
+export async function insertComment(db: DbConnection, params: NewComment): Promise<void> {
   const now = new Date().toISOString().slice(0, 19).replace('T', ' ');
 
   await db.execute(
@@ -88,3 +148,249 @@ export async function insertComment(
     ]
   );
 }
+
+/**
+ * Whether an insert failed because the primary key is already taken
+ */
+export function isDuplicateKeyError(err: unknown): boolean {
+  const code = (err as { code?: string })?.code;
+  return code === 'ER_DUP_ENTRY' || code === 'SQLITE_CONSTRAINT_PRIMARYKEY';
+}
+
+// Errors that mean the database can't be reached or is busy right now, rather than that
+// the write itself is wrong
+const UNAVAILABLE_ERROR_CODES = [
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'EHOSTUNREACH',
+  'PROTOCOL_CONNECTION_LOST',
+  'ER_CON_COUNT_ERROR',
+  'ER_LOCK_WAIT_TIMEOUT',
+  'ER_LOCK_DEADLOCK',
+  'SQLITE_BUSY',
+  'SQLITE_LOCKED',
+];
+
+/**
+ * Whether a write failed because the database is down or locked, so it's worth retrying
+ */
+export function isUnavailableError(err: unknown): boolean {
+  const code = (err as { code?: string })?.code;
+  return !!code && UNAVAILABLE_ERROR_CODES.includes(code);
+}
+
+export type CommentStatus = 'published' | 'hidden' | 'deleted';
+
+export const COMMENT_STATUSES: CommentStatus[] = ['published', 'hidden', 'deleted'];
+
+export interface StoredComment {
+  id: string;
+  post_id: string;
+  member_id: string | null;
+  parent_id: string | null;
+  status: string;
+  html: string;
+  created_at: string;
+  updated_at: string | null;
+}
+
+/**
+ * Turn a comments timestamp into ISO 8601. MySQL hands back Dates, SQLite the stored
+ * 'YYYY-MM-DD HH:MM:SS' (UTC) string.
+ */
+function toIsoTimestamp(value: unknown): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return new Date(`${String(value).replace(' ', 'T')}Z`).toISOString();
+}
+
+/**
+ * Look up a comment by ID. Returns null if it doesn't exist.
+ */
+export async function findComment(
+  db: DbConnection,
+  id: string
+): Promise<{ id: string; post_id: string; status: string } | null> {
+  const rows = await db.query('SELECT id, post_id, status FROM comments WHERE id = ?', [id]);
+  return rows[0] || null;
+}
+
+/**
+ * Load a comment with everything the bridge may want to check. Returns null if it doesn't exist.
+ */
+export async function getComment(db: DbConnection, id: string): Promise<StoredComment | null> {
+  const rows = await db.query(
+    'SELECT id, post_id, member_id, parent_id, status, html, created_at, updated_at FROM comments WHERE id = ?',
+    [id]
+  );
+  const row = rows[0];
+  if (!row) {
+    return null;
+  }
+
+  return {
+    id: row.id,
+    post_id: row.post_id,
+    member_id: row.member_id || null,
+    parent_id: row.parent_id || null,
+    status: row.status,
+    html: row.html || '',
+    created_at: toIsoTimestamp(row.created_at),
+    updated_at: row.updated_at ? toIsoTimestamp(row.updated_at) : null,
+  };
+}
+
+/**
+ * Change a comment's html and/or status
+ */
+export async function updateComment(
+  db: DbConnection,
+  id: string,
+  changes: { html?: string; status?: CommentStatus }
+): Promise<void> {
+  const now = new Date().toISOString().slice(0, 19).replace('T', ' ');
+  const sets: string[] = [];
+  const params: any[] = [];
+
+  if (changes.html !== undefined) {
+    sets.push('html = ?');
+    params.push(changes.html);
+  }
+  if (changes.status !== undefined) {
+    sets.push('status = ?');
+    params.push(changes.status);
+  }
+  sets.push('updated_at = ?');
+  params.push(now, id);
+
+  await db.execute(`UPDATE comments SET ${sets.join(', ')} WHERE id = ?`, params);
+}
+
+// Placeholder email domain the bridge gives per-commenter Bluesky members
+export const BRIDGED_MEMBER_EMAIL_SUFFIX = '@bsky.atproto.invalid';
+
+export interface NativeComment {
+  id: string;
+  post_id: string;
+  parent_id: string | null;
+  member_name: string | null;
+  html: string;
+  created_at: string;
+}
+
+/**
+ * Published comments written on the Ghost site after the cursor, oldest first. The cursor
+ * is the `created_at` and ID of the last comment seen (timestamps only go to the second);
+ * without an ID, everything from `since` on is returned. Comments posted as the shared
+ * Bluesky member or a per-commenter Bluesky member are left out, so the bridge never sees
+ * its own comments.
+ */
+export async function listNativeComments(
+  db: DbConnection,
+  params: { since: string; afterId: string | null; blueskyMemberId: string; limit: number }
+): Promise<NativeComment[]> {
+  // mysql2 won't take LIMIT as a placeholder in prepared statements; the route caps it
+  const rows = await db.query(
+    `SELECT c.id, c.post_id, c.parent_id, c.html, c.created_at, m.name AS member_name
+     FROM comments c
+     LEFT JOIN members m ON m.id = c.member_id
+     WHERE c.status = 'published'
+       AND (c.created_at > ? OR (c.created_at = ? AND c.id > ?))
+       AND (c.member_id IS NULL OR c.member_id <> ?)
+       AND (m.email IS NULL OR m.email NOT LIKE ?)
+     ORDER BY c.created_at ASC, c.id ASC
+     LIMIT ${params.limit}`,
+    [
+      params.since,
+      params.since,
+      // Every ID sorts after the empty string
+      params.afterId || '',
+      params.blueskyMemberId,
+      `%${BRIDGED_MEMBER_EMAIL_SUFFIX}`,
+    ]
+  );
+
+  return rows.map((row) => ({
+    id: row.id,
+    post_id: row.post_id,
+    parent_id: row.parent_id || null,
+    member_name: row.member_name || null,
+    html: row.html || '',
+    created_at: toIsoTimestamp(row.created_at),
+  }));
+}
+
+export interface BridgedComment {
+  id: string;
+  post_id: string;
+  post_slug: string | null;
+  parent_id: string | null;
+  member_name: string | null;
+  status: CommentStatus;
+  html: string;
+  created_at: string;
+}
+
+/**
+ * Comments the shim inserted (posted as the shared Bluesky member or a per-commenter
+ * Bluesky member), newest first, whatever their status
+ */
+export async function listBridgedComments(
+  db: DbConnection,
+  params: { blueskyMemberId: string; postId?: string; limit: number }
+): Promise<BridgedComment[]> {
+  const conditions = ['(c.member_id = ? OR m.email LIKE ?)'];
+  const values: any[] = [params.blueskyMemberId, `%${BRIDGED_MEMBER_EMAIL_SUFFIX}`];
+  if (params.postId) {
+    conditions.push('c.post_id = ?');
+    values.push(params.postId);
+  }
+
+  const rows = await db.query(
+    `SELECT c.id, c.post_id, c.parent_id, c.status, c.html, c.created_at, p.slug AS post_slug, m.name AS member_name
+     FROM comments c
+     LEFT JOIN members m ON m.id = c.member_id
+     LEFT JOIN posts p ON p.id = c.post_id
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY c.created_at DESC, c.id DESC
+     LIMIT ${params.limit}`,
+    values
+  );
+
+  return rows.map((row) => ({
+    id: row.id,
+    post_id: row.post_id,
+    post_slug: row.post_slug || null,
+    parent_id: row.parent_id || null,
+    member_name: row.member_name || null,
+    status: row.status,
+    html: row.html || '',
+    created_at: toIsoTimestamp(row.created_at),
+  }));
+}
+
+/**
+ * The ID of the member with this email, or null
+ */
+export async function findMemberByEmail(db: DbConnection, email: string): Promise<string | null> {
+  const rows = await db.query('SELECT id FROM members WHERE email = ?', [email]);
+  return rows[0]?.id || null;
+}
+
+/**
+ * Insert a free member that never gets emails, the way Ghost Admin's "New member" does
+ */
+export async function insertMember(
+  db: DbConnection,
+  params: { id: string; email: string; name: string; note: string }
+): Promise<void> {
+  const now = new Date().toISOString().slice(0, 19).replace('T', ' ');
+
+  await db.execute(
+    `INSERT INTO members (id, uuid, transient_id, email, status, name, note, email_disabled, created_at, updated_at)
+     VALUES (?, ?, ?, ?, 'free', ?, ?, 1, ?, ?)`,
+    [params.id, crypto.randomUUID(), crypto.randomUUID(), params.email, params.name, params.note, now, now]
+  );
+}
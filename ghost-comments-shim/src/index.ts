@@ -1,69 +1,212 @@
 #!/usr/bin/env node
-import express from 'express';
-import { loadConfig } from './config';
-import { createDbConnection } from './db';
+import express, { Express } from 'express';
+import { Config, loadConfig, loadSitesConfig, SHIM_VERSION } from './config';
+import { createDbConnection, DbConnection } from './db';
+import { Outbox, startOutboxFlusher } from './outbox';
 import { createCommentsRouter } from './routes/comments';
+import { instrumentConnection, registry, siteLabel } from './metrics';
+import { createSitesRouter, Site } from './routes/sites';
 import { createTestRouter } from './routes/test';
+import { checkSchema, CompatibilityReport, readOnlyConnection } from './schema';
+import { captureRawBody } from './utils/auth';
+import { requestLogging, setLogFormat } from './utils/logger';
 
-async function main() {
-  console.log('Ghost Comments Shim v0.1.0');
+/**
+ * Connect to a site's database and check its schema before serving it. An incompatible
+ * schema stops the shim, or leaves the site read-only with ON_SCHEMA_MISMATCH=read-only.
+ */
+async function connectChecked(config: Config, label = ''): Promise<DbConnection> {
+  const db = instrumentConnection(createDbConnection(config), siteLabel(config));
+
+  let report: CompatibilityReport;
+  try {
+    report = await checkSchema(config, db);
+  } catch (err) {
+    await db.close();
+    throw new Error(`${label}Could not inspect the Ghost database: ${(err as Error).message}`);
+  }
+
+  console.log(`✓ ${label}Ghost version: ${report.ghostVersion || 'unknown'}`);
+  report.warnings.forEach((warning) => console.warn(`⚠ ${label}${warning}`));
+  if (report.compatible) {
+    console.log(`✓ ${label}Schema compatible`);
+    return db;
+  }
+
+  report.problems.forEach((problem) => console.error(`✗ ${label}${problem}`));
+  if (config.onSchemaMismatch === 'read-only') {
+    console.warn(`⚠ ${label}Running read-only: writes will be refused until the problems above are fixed`);
+    return readOnlyConnection(db, report.problems.join('; '));
+  }
+
+  await db.close();
+  throw new Error(`${label}Ghost schema is not compatible (set ON_SCHEMA_MISMATCH=read-only to start anyway)`);
+}
+
+/**
+ * Open the site's outbox, if it has one, and start flushing it into Ghost
+ */
+function openOutbox(config: Config, db: DbConnection, site?: string): { outbox: Outbox; close: () => void } | null {
+  if (!config.outboxPath) {
+    return null;
+  }
+
+  const outbox = new Outbox(config.outboxPath);
+  const stop = startOutboxFlusher(outbox, db, site);
+  console.log(`✓ ${site ? `${site}: ` : ''}Outbox: ${config.outboxPath}${outbox.hasQueued() ? ' (comments waiting from an earlier run)' : ''}`);
+
+  return {
+    outbox,
+    close: () => {
+      stop();
+      outbox.close();
+    },
+  };
+}
+
+interface Started {
+  port: number;
+  close: () => Promise<void>;
+}
+
+/**
+ * Serve several Ghost sites described in SHIM_SITES_FILE
+ */
+async function startMultiSite(app: Express, sitesFile: string): Promise<Started> {
+  console.log(`Loading sites from ${sitesFile}...`);
+  const { port, sites } = loadSitesConfig(sitesFile);
+
+  const connected: Site[] = [];
+  const outboxes: { close: () => void }[] = [];
+  for (const config of sites) {
+    console.log(`\n${config.siteId}: ${config.ghostDbType}, member ${config.blueskyMemberId}, auth ${config.authMode}`);
+    if (config.authMode === 'transition') {
+      console.warn(`⚠ ${config.siteId}: bearer tokens are accepted; set auth_mode: signed once the bridge signs requests`);
+    }
+    // Each site gets its own connection (a pool for MySQL)
+    const db = await connectChecked(config, `${config.siteId}: `);
+    const outbox = openOutbox(config, db, config.siteId);
+    if (outbox) outboxes.push(outbox);
+    connected.push({ config, db, outbox: outbox?.outbox });
+  }
+
+  app.use(createSitesRouter(connected));
+  return {
+    port,
+    close: async () => {
+      outboxes.forEach((outbox) => outbox.close());
+      await Promise.all(connected.map((site) => site.db.close()));
+    },
+  };
+}
+
+/**
+ * Serve the one Ghost site configured through environment variables
+ */
+async function startSingleSite(app: Express): Promise<Started> {
+  // Load and validate configuration
+  console.log('Loading configuration...');
+  const config = loadConfig();
+  console.log(`✓ Database type: ${config.ghostDbType}`);
+  console.log(`✓ Bluesky member ID: ${config.blueskyMemberId}`);
+  console.log(`✓ Auth mode: ${config.authMode}`);
+  if (config.authMode === 'transition') {
+    console.warn('⚠ Bearer tokens are accepted; set BRIDGE_AUTH_MODE=signed once the bridge signs requests');
+  }
+  console.log(`✓ Image hosts: ${config.imageHostAllowlist.join(', ') || '(none)'}`);
+  console.log(`✓ Port: ${config.port}`);
+
+  // Create database connection and check the schema
+  console.log('\nConnecting to database...');
+  const db = await connectChecked(config);
+  console.log(`✓ Database connection established`);
+  const outbox = openOutbox(config, db);
+
+  // Health check endpoint
+  app.get('/health', (req, res) => {
+    res.json({ status: 'ok', version: SHIM_VERSION });
+  });
+
+  // Comments endpoint
+  app.use('/comments', createCommentsRouter(config, db, outbox?.outbox));
+
+  // Test endpoint
+  app.use('/test', createTestRouter(config, db));
+
+  return {
+    port: config.port,
+    close: async () => {
+      outbox?.close();
+      await db.close();
+    },
+  };
+}
+
+/**
+ * Start the shim: one site from the environment, or every site in SHIM_SITES_FILE
+ */
+export async function startServer(): Promise<void> {
+  console.log(`Ghost Comments Shim v${SHIM_VERSION}`);
   console.log('==========================\n');
 
   try {
-    // Load and validate configuration
-    console.log('Loading configuration...');
-    const config = loadConfig();
-    console.log(`✓ Database type: ${config.ghostDbType}`);
-    console.log(`✓ Bluesky member ID: ${config.blueskyMemberId}`);
-    console.log(`✓ Port: ${config.port}`);
-
-    // Create database connection
-    console.log('\nConnecting to database...');
-    const db = createDbConnection(config);
-    console.log(`✓ Database connection established`);
+    setLogFormat(process.env.LOG_FORMAT || 'text');
 
     // Create Express app
     const app = express();
 
-    // Middleware
-    app.use(express.json());
-
-    // Health check endpoint
-    app.get('/health', (req, res) => {
-      res.json({ status: 'ok', version: '0.1.0' });
+    // Prometheus metrics for every site, registered first so scrapes stay out of the logs
+    app.get('/metrics', async (req, res) => {
+      res.set('Content-Type', registry.contentType);
+      res.send(await registry.metrics());
     });
 
-    // Comments endpoint
-    app.use('/comments', createCommentsRouter(config, db));
+    // Middleware (batches of comments can run past express's 100kb default)
+    app.use(requestLogging);
+    app.use(express.json({ limit: '1mb', verify: captureRawBody }));
 
-    // Test endpoint
-    app.use('/test', createTestRouter(config, db));
+    const sitesFile = process.env.SHIM_SITES_FILE;
+    const { port, close } = sitesFile ? await startMultiSite(app, sitesFile) : await startSingleSite(app);
+    const prefix = sitesFile ? '/sites/:id' : '';
 
     // Start server
-    const server = app.listen(config.port, () => {
-      console.log(`\n✓ Ghost Comments Shim listening on port ${config.port}`);
+    const server = app.listen(port, () => {
+      console.log(`\n✓ Ghost Comments Shim listening on port ${port}`);
       console.log(`\nEndpoints:`);
-      console.log(`  GET  /health      - Health check`);
-      console.log(`  POST /comments    - Create comment from Bluesky`);
-      console.log(`  GET  /test        - Test database connectivity`);
-      console.log(`  POST /test/write  - Test comment write (requires auth)\n`);
+      console.log(`  GET    ${prefix}/health        - Health check`);
+      console.log(`  GET    ${prefix}/comments      - List comments written on the Ghost site`);
+      console.log(`  POST   ${prefix}/comments      - Create comment from Bluesky`);
+      console.log(`  POST   ${prefix}/comments/batch - Create a thread of comments in one transaction`);
+      console.log(`  GET    ${prefix}/comments/:id  - Look up a comment`);
+      console.log(`  GET    ${prefix}/comments/outbox/:id - Status of a comment queued while Ghost was down`);
+      console.log(`  PATCH  ${prefix}/comments/:id  - Update comment status or text`);
+      console.log(`  DELETE ${prefix}/comments/:id  - Soft-delete comment`);
+      console.log(`  GET    ${prefix}/test          - Test database connectivity`);
+      console.log(`  POST   ${prefix}/test/write    - Test comment write (requires auth)`);
+      console.log(`  GET    /metrics        - Prometheus metrics`);
+      if (sitesFile) {
+        console.log(`  (or the same paths without /sites/:id and an X-Ghost-Site header;`);
+        console.log(`   /health and /test without a site report on every site)`);
+      }
+      console.log('');
     });
 
-    // Graceful shutdown
-    process.on('SIGTERM', async () => {
-      console.log('SIGTERM received, shutting down gracefully...');
+    const shutdown = () => {
       server.close(async () => {
-        await db.close();
+        await close();
         process.exit(0);
       });
+    };
+
+    // Graceful shutdown
+    process.on('SIGTERM', () => {
+      console.log('SIGTERM received, shutting down gracefully...');
+      shutdown();
     });
 
-    process.on('SIGINT', async () => {
+    process.on('SIGINT', () => {
       console.log('SIGINT received, shutting down gracefully...');
-      server.close(async () => {
-        await db.close();
-        process.exit(0);
-      });
+      shutdown();
     });
   } catch (err) {
     console.error('Failed to start server:', err);
@@ -71,4 +214,7 @@ async function main() {
   }
 }
 
-main();
+// Also started by `ghost-comments-shim serve` (see cli.ts)
+if (require.main === module) {
+  startServer();
+}
@@ -0,0 +1,91 @@
+import { collectDefaultMetrics, Counter, Histogram, Registry } from 'prom-client';
+import { Config, SiteConfig } from './config';
+import { DbConnection } from './db';
+
+/**
+ * Everything served at GET /metrics. Each metric is labelled with the site
+ * ("default" for a single-site shim).
+ */
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry, prefix: 'ghost_shim_' });
+
+export const commentInserts = new Counter({
+  name: 'ghost_shim_comment_inserts_total',
+  help: 'Comments received from the bridge, by result: created, existing (already in Ghost) or queued (outbox)',
+  labelNames: ['site', 'result'],
+  registers: [registry],
+});
+
+export const commentFailures = new Counter({
+  name: 'ghost_shim_comment_failures_total',
+  help: 'Comment requests that failed with a database error, by operation and error code',
+  labelNames: ['site', 'operation', 'code'],
+  registers: [registry],
+});
+
+export const dbDuration = new Histogram({
+  name: 'ghost_shim_db_duration_seconds',
+  help: 'Time spent on Ghost database calls, by kind: query, execute or transaction',
+  labelNames: ['site', 'operation'],
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [registry],
+});
+
+export const authFailures = new Counter({
+  name: 'ghost_shim_auth_failures_total',
+  help: 'Requests turned away with a 401, by reason',
+  labelNames: ['site', 'reason'],
+  registers: [registry],
+});
+
+// Error codes worth their own label; anything else is counted as "other"
+const TRACKED_ERROR_CODES = [
+  'SHIM_READ_ONLY',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'PROTOCOL_CONNECTION_LOST',
+  'ER_ACCESS_DENIED_ERROR',
+  'ER_NO_SUCH_TABLE',
+  'ER_NO_REFERENCED_ROW',
+  'ER_NO_REFERENCED_ROW_2',
+  'ER_DUP_ENTRY',
+  'ER_LOCK_WAIT_TIMEOUT',
+  'ER_LOCK_DEADLOCK',
+  'SQLITE_BUSY',
+  'SQLITE_CONSTRAINT_FOREIGNKEY',
+];
+
+/**
+ * The error's code when it's one we track, so the label can't grow without bound
+ */
+export function errorCodeLabel(err: unknown): string {
+  const code = (err as { code?: string })?.code;
+  return code && TRACKED_ERROR_CODES.includes(code) ? code : 'other';
+}
+
+export function siteLabel(config: Config): string {
+  return (config as Partial<SiteConfig>).siteId || 'default';
+}
+
+async function timed<T>(site: string, operation: string, fn: () => Promise<T>): Promise<T> {
+  const end = dbDuration.startTimer({ site, operation });
+  try {
+    return await fn();
+  } finally {
+    end();
+  }
+}
+
+/**
+ * Wrap a connection so every call is timed in ghost_shim_db_duration_seconds. Statements
+ * inside a transaction are timed too, as well as the transaction as a whole.
+ */
+export function instrumentConnection(db: DbConnection, site: string): DbConnection {
+  return {
+    execute: (query, params) => timed(site, 'execute', () => db.execute(query, params)),
+    query: (query, params) => timed(site, 'query', () => db.query(query, params)),
+    transaction: (fn) => timed(site, 'transaction', () => db.transaction((tx) => fn(instrumentConnection(tx, site)))),
+    close: () => db.close(),
+  };
+}
@@ -0,0 +1,165 @@
+import crypto from 'crypto';
+import Database from 'better-sqlite3';
+import { DbConnection, findComment, insertComment, isUnavailableError, NewComment } from './db';
+import { logger } from './utils/logger';
+
+export type OutboxStatus = 'queued' | 'delivered' | 'failed';
+
+export interface OutboxItem {
+  comment_id: string;
+  status: OutboxStatus;
+  attempts: number;
+  last_error: string | null;
+  queued_at: string;
+  delivered_at: string | null;
+}
+
+export const OUTBOX_FLUSH_INTERVAL_MS = 10 * 1000;
+const DELIVERED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Comments accepted while the Ghost database was unreachable, kept in a local SQLite file
+ * and written to Ghost in the order they arrived. A comment keeps the ID it was given when
+ * queued, so the bridge can map it straight away.
+ */
+export class Outbox {
+  private db: Database.Database;
+  private flushing = false;
+
+  constructor(path: string) {
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS outbox (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        comment_id TEXT NOT NULL UNIQUE,
+        job TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'queued',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        queued_at TEXT NOT NULL,
+        delivered_at TEXT
+      )
+    `);
+  }
+
+  /**
+   * Whether anything is waiting. New comments queue behind it, so a reply can't reach
+   * Ghost before the comment it answers.
+   */
+  hasQueued(): boolean {
+    return !!this.db.prepare("SELECT 1 FROM outbox WHERE status = 'queued' LIMIT 1").get();
+  }
+
+  /**
+   * Queue comments that have to land together (a batch, or a single comment). Comments
+   * already queued or delivered are left as they are; failed ones are queued again with
+   * this job, from scratch.
+   */
+  enqueue(comments: NewComment[]): void {
+    const job = crypto.randomUUID();
+    const now = new Date().toISOString();
+    const dropFailed = this.db.prepare("DELETE FROM outbox WHERE comment_id = ? AND status = 'failed'");
+    const insert = this.db.prepare(
+      'INSERT OR IGNORE INTO outbox (comment_id, job, payload, queued_at) VALUES (?, ?, ?, ?)'
+    );
+
+    this.db.transaction(() => {
+      for (const comment of comments) {
+        // A fresh row goes to the back of the queue, next to the rest of its job
+        dropFailed.run(comment.id);
+        insert.run(comment.id, job, JSON.stringify(comment), now);
+      }
+    })();
+  }
+
+  get(commentId: string): OutboxItem | null {
+    const row = this.db.prepare(
+      'SELECT comment_id, status, attempts, last_error, queued_at, delivered_at FROM outbox WHERE comment_id = ?'
+    ).get(commentId) as OutboxItem | undefined;
+    return row || null;
+  }
+
+  /**
+   * Write queued comments to Ghost, oldest first, one job per transaction. Stops at the
+   * first job that fails because Ghost is still unreachable; a job that fails for any
+   * other reason is marked failed and skipped.
+   */
+  async flush(ghost: DbConnection): Promise<{ delivered: number; failed: number }> {
+    const result = { delivered: 0, failed: 0 };
+    if (this.flushing) {
+      return result;
+    }
+    this.flushing = true;
+
+    try {
+      const rows = this.db.prepare(
+        "SELECT comment_id, job, payload FROM outbox WHERE status = 'queued' ORDER BY seq"
+      ).all() as { comment_id: string; job: string; payload: string }[];
+
+      // Rows of a job were inserted together, so they sit next to each other
+      const jobs: { job: string; comments: NewComment[] }[] = [];
+      for (const row of rows) {
+        if (jobs.length === 0 || jobs[jobs.length - 1].job !== row.job) {
+          jobs.push({ job: row.job, comments: [] });
+        }
+        jobs[jobs.length - 1].comments.push(JSON.parse(row.payload));
+      }
+
+      for (const { job, comments } of jobs) {
+        try {
+          await ghost.transaction(async (tx) => {
+            for (const comment of comments) {
+              // The original insert may have gone through before the connection dropped
+              if (!await findComment(tx, comment.id)) {
+                await insertComment(tx, comment);
+              }
+            }
+          });
+          this.db.prepare(
+            "UPDATE outbox SET status = 'delivered', attempts = attempts + 1, last_error = NULL, delivered_at = ? WHERE job = ?"
+          ).run(new Date().toISOString(), job);
+          result.delivered += comments.length;
+        } catch (err) {
+          const unavailable = isUnavailableError(err);
+          this.db.prepare(
+            'UPDATE outbox SET status = ?, attempts = attempts + 1, last_error = ? WHERE job = ?'
+          ).run(unavailable ? 'queued' : 'failed', (err as Error).message, job);
+          if (unavailable) {
+            break;
+          }
+          result.failed += comments.length;
+        }
+      }
+
+      const cutoff = new Date(Date.now() - DELIVERED_RETENTION_MS).toISOString();
+      this.db.prepare("DELETE FROM outbox WHERE status = 'delivered' AND delivered_at < ?").run(cutoff);
+    } finally {
+      this.flushing = false;
+    }
+
+    return result;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Flush the outbox every few seconds. Returns a function that stops it.
+ */
+export function startOutboxFlusher(outbox: Outbox, ghost: DbConnection, site?: string): () => void {
+  const timer = setInterval(() => {
+    outbox.flush(ghost)
+      .then(({ delivered, failed }) => {
+        if (delivered > 0) logger.info(`Delivered ${delivered} queued comment(s) to Ghost`, { site });
+        if (failed > 0) logger.error(`${failed} queued comment(s) could not be written to Ghost`, { site });
+      })
+      .catch((err) => logger.error(`Outbox flush failed: ${(err as Error).message}`, { site }));
+  }, OUTBOX_FLUSH_INTERVAL_MS);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
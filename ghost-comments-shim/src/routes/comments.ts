@@ -1,8 +1,24 @@
 import { Request, Response, Router } from 'express';
 import { Config } from '../config';
-import { DbConnection, insertComment } from '../db';
-import { generateGhostId, isValidGhostId } from '../utils/ghost-id';
-import { buildCommentHtml } from '../utils/sanitize';
+import {
+  COMMENT_STATUSES,
+  CommentStatus,
+  DbConnection,
+  findComment,
+  getComment,
+  insertComment,
+  isDuplicateKeyError,
+  isUnavailableError,
+  listNativeComments,
+  NewComment,
+  updateComment,
+} from '../db';
+import { commentFailures, commentInserts, errorCodeLabel, siteLabel } from '../metrics';
+import { Outbox } from '../outbox';
+import { checkAuthorization } from '../utils/auth';
+import { generateGhostId, ghostIdFromKey, isValidGhostId } from '../utils/ghost-id';
+import { logger } from '../utils/logger';
+import { buildCommentHtml, CommentEmbed, Facet, validateEmbed, validateFacets } from '../utils/sanitize';
 
 export interface CreateCommentRequest {
   post_id: string;
@@ -12,6 +28,41 @@ export interface CreateCommentRequest {
   comment_text: string;
   parent_comment_id: string | null;
   created_at: string;
+  member_id: string | null;
+  // Idempotency key: the same reply URI always maps to the same comment
+  bsky_reply_uri: string | null;
+  facets: Facet[];
+  embed?: CommentEmbed;
+}
+
+/**
+ * Read the optional rich text facets, collecting a validation error if they're malformed
+ */
+function parseFacets(value: unknown, errors: string[]): Facet[] {
+  if (value === null || value === undefined) {
+    return [];
+  }
+  try {
+    return validateFacets(value);
+  } catch (err) {
+    errors.push((err as Error).message);
+    return [];
+  }
+}
+
+/**
+ * Read the optional images/quote embed, collecting a validation error if it's malformed
+ */
+function parseEmbed(value: unknown, errors: string[]): CommentEmbed | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  try {
+    return validateEmbed(value);
+  } catch (err) {
+    errors.push((err as Error).message);
+    return undefined;
+  }
 }
 
 function validateCreateCommentRequest(body: any): CreateCommentRequest {
@@ -51,6 +102,25 @@ function validateCreateCommentRequest(body: any): CreateCommentRequest {
     errors.push('created_at is required and must be a string');
   }
 
+  const facets = parseFacets(body.facets, errors);
+  const embed = parseEmbed(body.embed, errors);
+
+  if (body.member_id !== null && body.member_id !== undefined) {
+    if (typeof body.member_id !== 'string') {
+      errors.push('member_id must be a string or null');
+    } else if (!isValidGhostId(body.member_id)) {
+      errors.push('member_id must be a valid Ghost ID (24-char hex)');
+    }
+  }
+
+  if (body.bsky_reply_uri !== null && body.bsky_reply_uri !== undefined) {
+    if (typeof body.bsky_reply_uri !== 'string' || !body.bsky_reply_uri.startsWith('at://')) {
+      errors.push('bsky_reply_uri must be an at:// URI');
+    } else if (body.bsky_reply_uri.length > 512) {
+      errors.push('bsky_reply_uri must be at most 512 characters');
+    }
+  }
+
   if (errors.length > 0) {
     throw new Error(errors.join(', '));
   }
@@ -63,24 +133,260 @@ function validateCreateCommentRequest(body: any): CreateCommentRequest {
     comment_text: body.comment_text,
     parent_comment_id: body.parent_comment_id || null,
     created_at: body.created_at,
+    member_id: body.member_id || null,
+    bsky_reply_uri: body.bsky_reply_uri || null,
+    facets,
+    embed,
+  };
+}
+
+/**
+ * The row to insert for a validated comment: sanitized html, the commenter's member and
+ * created_at in the database's format
+ */
+function toNewComment(
+  data: CreateCommentRequest,
+  config: Config,
+  id: string,
+  parentId: string | null
+): NewComment {
+  return {
+    id,
+    postId: data.post_id,
+    // The commenter's own member when the bridge sends one, otherwise the shared Bluesky member
+    memberId: data.member_id || config.blueskyMemberId,
+    parentId,
+    html: buildCommentHtml({
+      bskyHandle: data.bsky_handle,
+      bskyProfileUrl: data.bsky_profile_url,
+      commentText: data.comment_text,
+      bskyPostUrl: data.bsky_post_url,
+      facets: data.facets,
+      embed: data.embed,
+      imageHosts: config.imageHostAllowlist,
+    }),
+    createdAt: new Date(data.created_at).toISOString().slice(0, 19).replace('T', ' '),
+  };
+}
+
+/**
+ * A reply bridged before gets the same ID, so a retry finds the first insert
+ */
+function commentIdFor(data: CreateCommentRequest): string {
+  return data.bsky_reply_uri ? ghostIdFromKey(data.bsky_reply_uri) : generateGhostId();
+}
+
+export const MAX_BATCH_SIZE = 100;
+
+/**
+ * One comment of a batch. `temp_id` is the bridge's own name for it, so later items can
+ * use it as `parent_temp_id` before the comment has a Ghost ID.
+ */
+export interface BatchCommentItem extends CreateCommentRequest {
+  temp_id: string;
+  parent_temp_id: string | null;
+}
+
+function validateBatchRequest(body: any): BatchCommentItem[] {
+  if (!body || !Array.isArray(body.comments) || body.comments.length === 0) {
+    throw new Error('comments is required and must be a non-empty array');
+  }
+  if (body.comments.length > MAX_BATCH_SIZE) {
+    throw new Error(`comments must hold at most ${MAX_BATCH_SIZE} items`);
+  }
+
+  const errors: string[] = [];
+  const tempIds = new Set<string>();
+
+  const items = body.comments.map((item: any, index: number) => {
+    const itemErrors: string[] = [];
+    let data: CreateCommentRequest | null = null;
+
+    try {
+      data = validateCreateCommentRequest(item || {});
+    } catch (err) {
+      itemErrors.push((err as Error).message);
+    }
+
+    if (!item?.temp_id || typeof item.temp_id !== 'string') {
+      itemErrors.push('temp_id is required and must be a string');
+    } else if (tempIds.has(item.temp_id)) {
+      itemErrors.push('temp_id must be unique within the batch');
+    }
+
+    if (item?.parent_temp_id !== null && item?.parent_temp_id !== undefined) {
+      if (typeof item.parent_temp_id !== 'string' || !tempIds.has(item.parent_temp_id)) {
+        itemErrors.push('parent_temp_id must be the temp_id of an earlier comment');
+      } else if (item.parent_comment_id) {
+        itemErrors.push('parent_temp_id and parent_comment_id cannot both be set');
+      }
+    }
+
+    if (typeof item?.temp_id === 'string') {
+      tempIds.add(item.temp_id);
+    }
+    itemErrors.forEach((error) => errors.push(`comments[${index}]: ${error}`));
+
+    return { ...data, temp_id: item?.temp_id, parent_temp_id: item?.parent_temp_id || null };
+  });
+
+  if (errors.length > 0) {
+    throw new Error(errors.join(', '));
+  }
+
+  return items;
+}
+
+export interface UpdateCommentRequest {
+  status?: CommentStatus;
+  content?: {
+    bsky_handle: string;
+    bsky_profile_url: string;
+    bsky_post_url: string;
+    comment_text: string;
+    facets: Facet[];
+    embed?: CommentEmbed;
+  };
+}
+
+function validateUpdateCommentRequest(body: any): UpdateCommentRequest {
+  const errors: string[] = [];
+  const request: UpdateCommentRequest = {};
+
+  if (body.status !== undefined) {
+    if (!COMMENT_STATUSES.includes(body.status)) {
+      errors.push(`status must be one of: ${COMMENT_STATUSES.join(', ')}`);
+    } else {
+      request.status = body.status;
+    }
+  }
+
+  // Rewriting the html needs everything the original comment was built from
+  if (body.comment_text !== undefined) {
+    for (const field of ['comment_text', 'bsky_handle', 'bsky_profile_url', 'bsky_post_url']) {
+      if (!body[field] || typeof body[field] !== 'string') {
+        errors.push(`${field} is required and must be a string when comment_text is given`);
+      }
+    }
+    const facets = parseFacets(body.facets, errors);
+    const embed = parseEmbed(body.embed, errors);
+    request.content = {
+      bsky_handle: body.bsky_handle,
+      bsky_profile_url: body.bsky_profile_url,
+      bsky_post_url: body.bsky_post_url,
+      comment_text: body.comment_text,
+      facets,
+      embed,
+    };
+  }
+
+  if (!request.status && body.comment_text === undefined && errors.length === 0) {
+    errors.push('Nothing to update: provide status and/or comment_text');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(errors.join(', '));
+  }
+
+  return request;
+}
+
+const DEFAULT_LIST_LIMIT = 100;
+const MAX_LIST_LIMIT = 500;
+
+function validateListCommentsQuery(query: any): { since: string; afterId: string | null; limit: number } {
+  const errors: string[] = [];
+
+  const since = typeof query.since === 'string' ? new Date(query.since) : null;
+  if (!since || Number.isNaN(since.getTime())) {
+    errors.push('since is required and must be an ISO 8601 timestamp');
+  }
+
+  const afterId = query.after_id === undefined ? null : query.after_id;
+  if (afterId !== null && (typeof afterId !== 'string' || !isValidGhostId(afterId))) {
+    errors.push('after_id must be a valid Ghost ID (24-char hex)');
+  }
+
+  let limit = DEFAULT_LIST_LIMIT;
+  if (query.limit !== undefined) {
+    limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+      errors.push(`limit must be an integer between 1 and ${MAX_LIST_LIMIT}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(errors.join(', '));
+  }
+
+  return {
+    since: since!.toISOString().slice(0, 19).replace('T', ' '),
+    afterId,
+    limit,
   };
 }
 
-export function createCommentsRouter(config: Config, db: DbConnection): Router {
+/**
+ * Log a database error and send the most useful message we can
+ */
+function sendDbError(res: Response, err: unknown, context: string, site: string): void {
+  const error = err as Error & { code?: string; errno?: number; sqlMessage?: string };
+
+  // Log full error
+  logger.error(`Error ${context}: ${error.message}`, {
+    request_id: res.locals.requestId,
+    site: res.locals.site,
+    code: error.code,
+    sql: error.sqlMessage,
+  });
+  commentFailures.inc({ site, operation: context, code: errorCodeLabel(err) });
+
+  // Return useful error to client
+  let errorMessage = 'Internal server error';
+
+  if (error.code === 'SHIM_READ_ONLY') {
+    res.status(503).json({ error: error.message });
+    return;
+  }
+
+  if (error.code === 'ECONNREFUSED') {
+    errorMessage = 'Database connection refused - check GHOST_DB_CONNECTION';
+  } else if (error.code === 'ER_ACCESS_DENIED_ERROR') {
+    errorMessage = 'Database access denied - check credentials';
+  } else if (error.code === 'ER_NO_SUCH_TABLE') {
+    errorMessage = 'Comments table not found - is this a Ghost database?';
+  } else if (error.code === 'ER_NO_REFERENCED_ROW' || error.code === 'ER_NO_REFERENCED_ROW_2') {
+    errorMessage = 'Post or member ID not found in Ghost database';
+  } else if (error.sqlMessage) {
+    errorMessage = `Database error: ${error.sqlMessage}`;
+  } else if (error.message) {
+    errorMessage = error.message;
+  }
+
+  res.status(500).json({ error: errorMessage });
+}
+
+/**
+ * Queue a comment in the outbox and answer 202 with the ID it will have in Ghost
+ */
+function sendQueued(res: Response, outbox: Outbox, comment: NewComment): void {
+  outbox.enqueue([comment]);
+  // A retry of a comment queued earlier reports how far that one has got
+  const item = outbox.get(comment.id);
+  res.status(202).json({ comment_id: comment.id, status: item?.status || 'queued' });
+}
+
+/**
+ * With an outbox, comments that can't reach Ghost are queued and written once it's back
+ */
+export function createCommentsRouter(config: Config, db: DbConnection, outbox?: Outbox): Router {
   const router = Router();
+  const site = siteLabel(config);
 
   router.post('/', async (req: Request, res: Response) => {
     try {
       // Validate authorization
-      const authHeader = req.headers.authorization;
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        res.status(401).json({ error: 'Missing or invalid authorization header' });
-        return;
-      }
-
-      const token = authHeader.substring(7);
-      if (token !== config.bridgeSharedSecret) {
-        res.status(401).json({ error: 'Invalid authorization token' });
+      if (!checkAuthorization(req, res, config)) {
         return;
       }
 
@@ -93,61 +399,273 @@ export function createCommentsRouter(config: Config, db: DbConnection): Router {
         return;
       }
 
-      // Build comment HTML with sanitization
-      const html = buildCommentHtml({
-        bskyHandle: requestData.bsky_handle,
-        bskyProfileUrl: requestData.bsky_profile_url,
-        commentText: requestData.comment_text,
-        bskyPostUrl: requestData.bsky_post_url,
-      });
+      const commentId = commentIdFor(requestData);
+      const comment = toNewComment(requestData, config, commentId, requestData.parent_comment_id);
 
-      // Generate comment ID
-      const commentId = generateGhostId();
-
-      // Format created_at for database
-      const createdAt = new Date(requestData.created_at)
-        .toISOString()
-        .slice(0, 19)
-        .replace('T', ' ');
-
-      // Insert into database
-      await insertComment(db, {
-        id: commentId,
-        postId: requestData.post_id,
-        memberId: config.blueskyMemberId,
-        parentId: requestData.parent_comment_id,
-        html,
-        createdAt,
-      });
+      // Anything already queued goes to Ghost first, so this waits its turn
+      if (outbox?.hasQueued()) {
+        commentInserts.inc({ site, result: 'queued' });
+        sendQueued(res, outbox, comment);
+        return;
+      }
+
+      try {
+        if (requestData.bsky_reply_uri && await findComment(db, commentId)) {
+          commentInserts.inc({ site, result: 'existing' });
+          res.status(200).json({ comment_id: commentId });
+          return;
+        }
+
+        // Insert into database
+        await insertComment(db, comment);
+      } catch (err) {
+        // Lost a race with a concurrent retry of the same reply
+        if (requestData.bsky_reply_uri && isDuplicateKeyError(err)) {
+          commentInserts.inc({ site, result: 'existing' });
+          res.status(200).json({ comment_id: commentId });
+          return;
+        }
+        if (outbox && isUnavailableError(err)) {
+          commentInserts.inc({ site, result: 'queued' });
+          sendQueued(res, outbox, comment);
+          return;
+        }
+        throw err;
+      }
 
       // Return success
+      commentInserts.inc({ site, result: 'created' });
       res.status(201).json({ comment_id: commentId });
     } catch (err) {
-      const error = err as Error & { code?: string; errno?: number; sqlMessage?: string };
-
-      // Log full error
-      console.error('Error creating comment:', error.message);
-      if (error.code) console.error('  Code:', error.code);
-      if (error.sqlMessage) console.error('  SQL:', error.sqlMessage);
-
-      // Return useful error to client
-      let errorMessage = 'Internal server error';
-
-      if (error.code === 'ECONNREFUSED') {
-        errorMessage = 'Database connection refused - check GHOST_DB_CONNECTION';
-      } else if (error.code === 'ER_ACCESS_DENIED_ERROR') {
-        errorMessage = 'Database access denied - check credentials';
-      } else if (error.code === 'ER_NO_SUCH_TABLE') {
-        errorMessage = 'Comments table not found - is this a Ghost database?';
-      } else if (error.code === 'ER_NO_REFERENCED_ROW' || error.code === 'ER_NO_REFERENCED_ROW_2') {
-        errorMessage = 'Post ID not found in Ghost database';
-      } else if (error.sqlMessage) {
-        errorMessage = `Database error: ${error.sqlMessage}`;
-      } else if (error.message) {
-        errorMessage = error.message;
-      }
-
-      res.status(500).json({ error: errorMessage });
+      sendDbError(res, err, 'creating comment', site);
+    }
+  });
+
+  // POST /comments/batch - Insert a thread of comments in one transaction, all or nothing
+  router.post('/batch', async (req: Request, res: Response) => {
+    try {
+      if (!checkAuthorization(req, res, config)) {
+        return;
+      }
+
+      let items: BatchCommentItem[];
+      try {
+        items = validateBatchRequest(req.body);
+      } catch (err) {
+        res.status(400).json({ error: (err as Error).message });
+        return;
+      }
+
+      // Work out every ID up front, so the rows can be queued as they are if Ghost is down
+      const idsByTempId = new Map<string, string>();
+      const rows = items.map((item) => {
+        const commentId = commentIdFor(item);
+        idsByTempId.set(item.temp_id, commentId);
+        const parentId = item.parent_temp_id ? idsByTempId.get(item.parent_temp_id)! : item.parent_comment_id;
+        return { item, comment: toNewComment(item, config, commentId, parentId) };
+      });
+      const sendBatchQueued = (queue: Outbox) => {
+        queue.enqueue(rows.map(({ comment }) => comment));
+        commentInserts.inc({ site, result: 'queued' }, rows.length);
+        res.status(202).json({
+          comments: rows.map(({ item, comment }) => {
+            // A retry of a comment queued earlier reports how far that one has got
+            const status = queue.get(comment.id)?.status || 'queued';
+            return {
+              temp_id: item.temp_id,
+              comment_id: comment.id,
+              created: false,
+              queued: status !== 'delivered',
+              status,
+            };
+          }),
+        });
+      };
+
+      if (outbox?.hasQueued()) {
+        sendBatchQueued(outbox);
+        return;
+      }
+
+      let results: { temp_id: string; comment_id: string; created: boolean }[];
+      try {
+        results = await db.transaction(async (tx) => {
+          const created: { temp_id: string; comment_id: string; created: boolean }[] = [];
+
+          for (const { item, comment } of rows) {
+            if (item.bsky_reply_uri && await findComment(tx, comment.id)) {
+              created.push({ temp_id: item.temp_id, comment_id: comment.id, created: false });
+              continue;
+            }
+
+            await insertComment(tx, comment);
+            created.push({ temp_id: item.temp_id, comment_id: comment.id, created: true });
+          }
+
+          return created;
+        });
+      } catch (err) {
+        if (outbox && isUnavailableError(err)) {
+          sendBatchQueued(outbox);
+          return;
+        }
+        throw err;
+      }
+
+      const createdCount = results.filter((result) => result.created).length;
+      commentInserts.inc({ site, result: 'created' }, createdCount);
+      commentInserts.inc({ site, result: 'existing' }, results.length - createdCount);
+      res.status(createdCount > 0 ? 201 : 200).json({ comments: results });
+    } catch (err) {
+      sendDbError(res, err, 'creating comments', site);
+    }
+  });
+
+  // GET /comments/outbox/:id - Where a queued comment has got to
+  router.get('/outbox/:id', (req: Request, res: Response) => {
+    try {
+      if (!checkAuthorization(req, res, config)) {
+        return;
+      }
+
+      const item = outbox?.get(req.params.id);
+      if (!item) {
+        res.status(404).json({ error: 'Comment not found in the outbox' });
+        return;
+      }
+
+      res.json(item);
+    } catch (err) {
+      sendDbError(res, err, 'looking up outbox item', site);
+    }
+  });
+
+  // GET /comments?since=&after_id= - Comments written on the Ghost site, for mirroring back to Bluesky
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      if (!checkAuthorization(req, res, config)) {
+        return;
+      }
+
+      let query: { since: string; afterId: string | null; limit: number };
+      try {
+        query = validateListCommentsQuery(req.query);
+      } catch (err) {
+        res.status(400).json({ error: (err as Error).message });
+        return;
+      }
+
+      // Fetch one extra row to tell the bridge whether to ask again
+      const comments = await listNativeComments(db, {
+        since: query.since,
+        afterId: query.afterId,
+        blueskyMemberId: config.blueskyMemberId,
+        limit: query.limit + 1,
+      });
+
+      res.json({
+        comments: comments.slice(0, query.limit),
+        has_more: comments.length > query.limit,
+      });
+    } catch (err) {
+      sendDbError(res, err, 'listing comments', site);
+    }
+  });
+
+  // GET /comments/:id - Look up one comment, so the bridge can check what Ghost holds
+  router.get('/:id', async (req: Request, res: Response) => {
+    try {
+      if (!checkAuthorization(req, res, config)) {
+        return;
+      }
+
+      if (!isValidGhostId(req.params.id)) {
+        res.status(400).json({ error: 'Comment ID must be a valid Ghost ID (24-char hex)' });
+        return;
+      }
+
+      const comment = await getComment(db, req.params.id);
+      if (!comment) {
+        res.status(404).json({ error: 'Comment not found' });
+        return;
+      }
+
+      const { id, ...rest } = comment;
+      res.json({ comment_id: id, ...rest });
+    } catch (err) {
+      sendDbError(res, err, 'looking up comment', site);
+    }
+  });
+
+  // PATCH /comments/:id - Change a comment's status and/or rewrite its html
+  router.patch('/:id', async (req: Request, res: Response) => {
+    try {
+      if (!checkAuthorization(req, res, config)) {
+        return;
+      }
+
+      if (!isValidGhostId(req.params.id)) {
+        res.status(400).json({ error: 'Comment ID must be a valid Ghost ID (24-char hex)' });
+        return;
+      }
+
+      let requestData: UpdateCommentRequest;
+      let html: string | undefined;
+      try {
+        requestData = validateUpdateCommentRequest(req.body);
+        if (requestData.content) {
+          html = buildCommentHtml({
+            bskyHandle: requestData.content.bsky_handle,
+            bskyProfileUrl: requestData.content.bsky_profile_url,
+            commentText: requestData.content.comment_text,
+            bskyPostUrl: requestData.content.bsky_post_url,
+            facets: requestData.content.facets,
+            embed: requestData.content.embed,
+            imageHosts: config.imageHostAllowlist,
+          });
+        }
+      } catch (err) {
+        res.status(400).json({ error: (err as Error).message });
+        return;
+      }
+
+      const existing = await findComment(db, req.params.id);
+      if (!existing) {
+        res.status(404).json({ error: 'Comment not found' });
+        return;
+      }
+
+      await updateComment(db, req.params.id, { html, status: requestData.status });
+
+      res.json({ comment_id: req.params.id, status: requestData.status || existing.status });
+    } catch (err) {
+      sendDbError(res, err, 'updating comment', site);
+    }
+  });
+
+  // DELETE /comments/:id - Soft delete, the way Ghost does it (status = 'deleted')
+  router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+      if (!checkAuthorization(req, res, config)) {
+        return;
+      }
+
+      if (!isValidGhostId(req.params.id)) {
+        res.status(400).json({ error: 'Comment ID must be a valid Ghost ID (24-char hex)' });
+        return;
+      }
+
+      const existing = await findComment(db, req.params.id);
+      if (!existing) {
+        res.status(404).json({ error: 'Comment not found' });
+        return;
+      }
+
+      await updateComment(db, req.params.id, { status: 'deleted' });
+
+      res.json({ comment_id: req.params.id, status: 'deleted' });
+    } catch (err) {
+      sendDbError(res, err, 'deleting comment', site);
     }
   });
 
@@ -0,0 +1,112 @@
+import { NextFunction, Request, Response, Router } from 'express';
+import { SHIM_VERSION, SiteConfig } from '../config';
+import { DbConnection } from '../db';
+import { Outbox } from '../outbox';
+import { createCommentsRouter } from './comments';
+import { ConnectivityResults, createTestRouter, runConnectivityTests } from './test';
+
+export const SITE_HEADER = 'x-ghost-site';
+
+export interface Site {
+  config: SiteConfig;
+  db: DbConnection;
+  outbox?: Outbox;
+}
+
+/**
+ * Quick check that a site's database answers, for /health
+ */
+async function siteHealth(site: Site): Promise<{ status: 'ok' | 'error'; message?: string }> {
+  try {
+    await site.db.query('SELECT 1 as test');
+    return { status: 'ok' };
+  } catch (err) {
+    return { status: 'error', message: (err as Error).message };
+  }
+}
+
+/**
+ * The routes of one site: what a single-site shim serves at the root
+ */
+function createSiteRouter(site: Site): Router {
+  const router = Router();
+
+  // For logs
+  router.use((req: Request, res: Response, next: NextFunction) => {
+    res.locals.site = site.config.siteId;
+    next();
+  });
+
+  router.get('/health', async (req: Request, res: Response) => {
+    const health = await siteHealth(site);
+    res.status(health.status === 'ok' ? 200 : 503).json({ ...health, site: site.config.siteId, version: SHIM_VERSION });
+  });
+  router.use('/comments', createCommentsRouter(site.config, site.db, site.outbox));
+  router.use('/test', createTestRouter(site.config, site.db));
+
+  return router;
+}
+
+/**
+ * Serve several Ghost sites from one process. A site is picked by path
+ * (/sites/{id}/comments) or by the X-Ghost-Site header on the usual paths; /health and
+ * /test without a site report on every site.
+ */
+export function createSitesRouter(sites: Site[]): Router {
+  const router = Router();
+  const siteRouters = new Map(sites.map((site) => [site.config.siteId, createSiteRouter(site)]));
+
+  // /sites/{id}/... - signatures cover the path below the site prefix, as with a single-site shim
+  router.use('/sites/:site', (req: Request, res: Response, next: NextFunction) => {
+    const siteRouter = siteRouters.get(req.params.site);
+    if (!siteRouter) {
+      res.status(404).json({ error: `Unknown site: ${req.params.site}` });
+      return;
+    }
+    res.locals.sitePrefix = `/sites/${req.params.site}`;
+    siteRouter(req, res, next);
+  });
+
+  // X-Ghost-Site header on /comments, /test and /health
+  router.use((req: Request, res: Response, next: NextFunction) => {
+    const siteId = req.header(SITE_HEADER);
+    if (!siteId) {
+      next();
+      return;
+    }
+    const siteRouter = siteRouters.get(siteId);
+    if (!siteRouter) {
+      res.status(404).json({ error: `Unknown site: ${siteId}` });
+      return;
+    }
+    siteRouter(req, res, next);
+  });
+
+  // GET /health - Every site's database
+  router.get('/health', async (req: Request, res: Response) => {
+    const results = await Promise.all(sites.map(async (site) => [site.config.siteId, await siteHealth(site)] as const));
+    const healthy = results.every(([, health]) => health.status === 'ok');
+    res.status(healthy ? 200 : 503).json({
+      status: healthy ? 'ok' : 'degraded',
+      version: SHIM_VERSION,
+      sites: Object.fromEntries(results),
+    });
+  });
+
+  // GET /test - Connectivity tests for every site
+  router.get('/test', async (req: Request, res: Response) => {
+    const results: Record<string, ConnectivityResults> = {};
+    for (const site of sites) {
+      results[site.config.siteId] = await runConnectivityTests(site.config, site.db);
+    }
+    const healthy = Object.values(results).every((result) => result.database.status === 'ok');
+    res.status(healthy ? 200 : 500).json({ sites: results });
+  });
+
+  // Anything else needs a site
+  router.use(['/comments', '/test'], (req: Request, res: Response) => {
+    res.status(400).json({ error: 'Pick a site with /sites/{id}/... or the X-Ghost-Site header' });
+  });
+
+  return router;
+}
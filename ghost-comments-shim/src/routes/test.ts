@@ -1,68 +1,88 @@
 import { Request, Response, Router } from 'express';
 import { Config } from '../config';
 import { DbConnection, insertComment } from '../db';
+import { checkSchema, CompatibilityReport } from '../schema';
+import { checkAuthorization } from '../utils/auth';
 import { generateGhostId } from '../utils/ghost-id';
 
-export function createTestRouter(config: Config, db: DbConnection): Router {
-  const router = Router();
+export interface ConnectivityResults {
+  database: { status: string; message?: string };
+  posts: { status: string; count?: number; sample?: any; message?: string };
+  members: { status: string; blueskyMemberExists?: boolean; message?: string };
+  writeTest?: { status: string; message?: string };
+  compatibility?: CompatibilityReport | { error: string };
+}
 
-  // GET /test - Run database connectivity tests
-  router.get('/', async (req: Request, res: Response) => {
-    const results: {
-      database: { status: string; message?: string };
-      posts: { status: string; count?: number; sample?: any; message?: string };
-      members: { status: string; blueskyMemberExists?: boolean; message?: string };
-      writeTest?: { status: string; message?: string };
-    } = {
-      database: { status: 'pending' },
-      posts: { status: 'pending' },
-      members: { status: 'pending' },
+/**
+ * Check a site's database: connectivity, the posts table, the Bluesky member and whether
+ * the schema is one the shim can write to
+ */
+export async function runConnectivityTests(config: Config, db: DbConnection): Promise<ConnectivityResults> {
+  const results: ConnectivityResults = {
+    database: { status: 'pending' },
+    posts: { status: 'pending' },
+    members: { status: 'pending' },
+  };
+
+  // Test 1: Basic database connectivity
+  try {
+    await db.query('SELECT 1 as test');
+    results.database = { status: 'ok' };
+  } catch (err) {
+    results.database = { status: 'error', message: (err as Error).message };
+    return results;
+  }
+
+  // Test 2: Query posts table
+  try {
+    const posts = await db.query(
+      'SELECT id, slug, title FROM posts WHERE type = ? ORDER BY created_at DESC LIMIT 5',
+      ['post']
+    );
+    results.posts = {
+      status: 'ok',
+      count: posts.length,
+      sample: posts.map((p: any) => ({ id: p.id, slug: p.slug, title: p.title?.substring(0, 50) })),
     };
+  } catch (err) {
+    results.posts = { status: 'error', message: (err as Error).message };
+  }
 
-    try {
-      // Test 1: Basic database connectivity
-      try {
-        await db.query('SELECT 1 as test');
-        results.database = { status: 'ok' };
-      } catch (err) {
-        results.database = { status: 'error', message: (err as Error).message };
-        res.status(500).json(results);
-        return;
-      }
+  // Test 3: Check if Bluesky member exists
+  try {
+    const members = await db.query(
+      'SELECT id, name, email FROM members WHERE id = ?',
+      [config.blueskyMemberId]
+    );
+    results.members = {
+      status: 'ok',
+      blueskyMemberExists: members.length > 0,
+      message: members.length > 0
+        ? `Found member: ${members[0].name} (${members[0].email})`
+        : `Member ${config.blueskyMemberId} not found - create it in Ghost Admin`,
+    };
+  } catch (err) {
+    results.members = { status: 'error', message: (err as Error).message };
+  }
 
-      // Test 2: Query posts table
-      try {
-        const posts = await db.query(
-          'SELECT id, slug, title FROM posts WHERE type = ? ORDER BY created_at DESC LIMIT 5',
-          ['post']
-        );
-        results.posts = {
-          status: 'ok',
-          count: posts.length,
-          sample: posts.map((p: any) => ({ id: p.id, slug: p.slug, title: p.title?.substring(0, 50) })),
-        };
-      } catch (err) {
-        results.posts = { status: 'error', message: (err as Error).message };
-      }
+  // Test 4: Schema compatibility
+  try {
+    results.compatibility = await checkSchema(config, db);
+  } catch (err) {
+    results.compatibility = { error: (err as Error).message };
+  }
 
-      // Test 3: Check if Bluesky member exists
-      try {
-        const members = await db.query(
-          'SELECT id, name, email FROM members WHERE id = ?',
-          [config.blueskyMemberId]
-        );
-        results.members = {
-          status: 'ok',
-          blueskyMemberExists: members.length > 0,
-          message: members.length > 0
-            ? `Found member: ${members[0].name} (${members[0].email})`
-            : `Member ${config.blueskyMemberId} not found - create it in Ghost Admin`,
-        };
-      } catch (err) {
-        results.members = { status: 'error', message: (err as Error).message };
-      }
+  return results;
+}
+
+export function createTestRouter(config: Config, db: DbConnection): Router {
+  const router = Router();
 
-      res.json(results);
+  // GET /test - Run database connectivity tests
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const results = await runConnectivityTests(config, db);
+      res.status(results.database.status === 'ok' ? 200 : 500).json(results);
     } catch (err) {
       res.status(500).json({ error: (err as Error).message });
     }
@@ -71,16 +91,7 @@ export function createTestRouter(config: Config, db: DbConnection): Router {
   // POST /test/write - Test writing a comment (requires post_id)
   router.post('/write', async (req: Request, res: Response) => {
     try {
-      // Validate authorization
-      const authHeader = req.headers.authorization;
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        res.status(401).json({ error: 'Missing or invalid authorization header' });
-        return;
-      }
-
-      const token = authHeader.substring(7);
-      if (token !== config.bridgeSharedSecret) {
-        res.status(401).json({ error: 'Invalid authorization token' });
+      if (!checkAuthorization(req, res, config)) {
         return;
       }
 
@@ -125,7 +136,7 @@ export function createTestRouter(config: Config, db: DbConnection): Router {
       });
     } catch (err) {
       const error = err as Error & { code?: string; sqlMessage?: string };
-      res.status(500).json({
+      res.status(error.code === 'SHIM_READ_ONLY' ? 503 : 500).json({
         error: 'Write test failed',
         code: error.code,
         message: error.sqlMessage || error.message,
@@ -0,0 +1,124 @@
+import { Config, DbType } from './config';
+import { DbConnection } from './db';
+
+// Columns the shim reads or writes, per table
+export const REQUIRED_COLUMNS: Record<string, string[]> = {
+  comments: ['id', 'post_id', 'member_id', 'parent_id', 'status', 'html', 'created_at', 'updated_at'],
+  members: ['id', 'name', 'email'],
+  posts: ['id', 'slug', 'title', 'type', 'created_at'],
+};
+
+// Ghost majors whose comments schema the shim has been run against
+export const SUPPORTED_GHOST_MAJORS = [5, 6];
+
+export interface TableReport {
+  exists: boolean;
+  missingColumns: string[];
+}
+
+export interface CompatibilityReport {
+  compatible: boolean;
+  ghostVersion: string | null;
+  tables: Record<string, TableReport>;
+  blueskyMemberExists: boolean;
+  // Anything here makes writes unsafe
+  problems: string[];
+  // Worth a look, but writes can go ahead
+  warnings: string[];
+}
+
+async function tableColumns(db: DbConnection, dbType: DbType, table: string): Promise<string[]> {
+  const rows = dbType === 'mysql'
+    ? await db.query(
+      'SELECT COLUMN_NAME AS name FROM information_schema.columns WHERE table_schema = DATABASE() AND table_name = ?',
+      [table]
+    )
+    : await db.query('SELECT name FROM pragma_table_info(?)', [table]);
+  return rows.map((row) => String(row.name).toLowerCase());
+}
+
+/**
+ * The Ghost version that ran the latest migration, or null when there's no migrations
+ * table to tell
+ */
+async function detectGhostVersion(db: DbConnection): Promise<string | null> {
+  try {
+    const rows = await db.query('SELECT * FROM migrations ORDER BY id DESC LIMIT 1');
+    const row = rows[0];
+    return row ? String(row.currentVersion || row.version || '') || null : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Inspect the Ghost tables the shim touches: columns, Ghost version and the Bluesky member.
+ * Throws only when the database can't be reached at all.
+ */
+export async function checkSchema(config: Config, db: DbConnection): Promise<CompatibilityReport> {
+  const report: CompatibilityReport = {
+    compatible: true,
+    ghostVersion: null,
+    tables: {},
+    blueskyMemberExists: false,
+    problems: [],
+    warnings: [],
+  };
+
+  for (const [table, required] of Object.entries(REQUIRED_COLUMNS)) {
+    const columns = await tableColumns(db, config.ghostDbType, table);
+    const missingColumns = required.filter((column) => !columns.includes(column));
+    report.tables[table] = { exists: columns.length > 0, missingColumns };
+
+    if (columns.length === 0) {
+      report.problems.push(`Table ${table} not found - is this a Ghost database?`);
+    } else if (missingColumns.length > 0) {
+      report.problems.push(`Table ${table} is missing columns: ${missingColumns.join(', ')}`);
+    }
+  }
+
+  if (report.tables.members.exists) {
+    const members = await db.query('SELECT id FROM members WHERE id = ?', [config.blueskyMemberId]);
+    report.blueskyMemberExists = members.length > 0;
+    if (!report.blueskyMemberExists) {
+      report.problems.push(`Member ${config.blueskyMemberId} (BLUESKY_MEMBER_ID) not found - create it in Ghost Admin`);
+    }
+  }
+
+  report.ghostVersion = await detectGhostVersion(db);
+  if (!report.ghostVersion) {
+    report.warnings.push('Could not detect the Ghost version from the migrations table');
+  } else if (!SUPPORTED_GHOST_MAJORS.includes(parseInt(report.ghostVersion, 10))) {
+    report.warnings.push(
+      `Ghost ${report.ghostVersion} has not been tested with the shim (supported: ${SUPPORTED_GHOST_MAJORS.join(', ')}.x)`
+    );
+  }
+
+  report.compatible = report.problems.length === 0;
+  return report;
+}
+
+export class ReadOnlyError extends Error {
+  code = 'SHIM_READ_ONLY';
+
+  constructor(reason: string) {
+    super(`Shim is read-only: ${reason}`);
+    this.name = 'ReadOnlyError';
+  }
+}
+
+/**
+ * Wrap a connection so reads go through and every write fails with a ReadOnlyError
+ */
+export function readOnlyConnection(db: DbConnection, reason: string): DbConnection {
+  return {
+    execute: async () => {
+      throw new ReadOnlyError(reason);
+    },
+    query: (query, params) => db.query(query, params),
+    transaction: async () => {
+      throw new ReadOnlyError(reason);
+    },
+    close: () => db.close(),
+  };
+}
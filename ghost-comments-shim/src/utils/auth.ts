@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { Config } from '../config';
+import { authFailures, siteLabel } from '../metrics';
+import { logger } from './logger';
+
+export const TIMESTAMP_HEADER = 'x-bridge-timestamp';
+export const NONCE_HEADER = 'x-bridge-nonce';
+export const SIGNATURE_HEADER = 'x-bridge-signature';
+
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+const MAX_REMEMBERED_NONCES = 10000;
+
+export interface SignedRequestParts {
+  method: string;
+  path: string;
+  timestamp: string;
+  nonce: string;
+  body: string | Buffer;
+}
+
+/**
+ * HMAC-SHA256 (hex) over the method, path with query string, timestamp, nonce and a
+ * SHA-256 of the raw body. The bridge computes the same thing in ShimClient.
+ */
+export function signRequest(secret: string, parts: SignedRequestParts): string {
+  const bodyHash = crypto.createHash('sha256').update(parts.body).digest('hex');
+  const payload = [parts.method.toUpperCase(), parts.path, parts.timestamp, parts.nonce, bodyHash].join('\n');
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+/**
+ * Nonces seen on signed requests, each kept until its timestamp falls out of the
+ * clock-skew window (after which the timestamp check rejects a replay anyway)
+ */
+export class NonceCache {
+  private seen = new Map<string, number>();
+
+  constructor(private maxEntries = MAX_REMEMBERED_NONCES) {}
+
+  /**
+   * Remember a nonce. Returns false when it has been used before.
+   */
+  remember(nonce: string, expiresAt: number, now = Date.now()): boolean {
+    // Entries go in roughly in expiry order, so stop at the first live one
+    for (const [key, expiry] of this.seen) {
+      if (expiry > now) break;
+      this.seen.delete(key);
+    }
+
+    if (this.seen.has(nonce)) {
+      return false;
+    }
+
+    if (this.seen.size >= this.maxEntries) {
+      this.seen.delete(this.seen.keys().next().value as string);
+    }
+    this.seen.set(nonce, expiresAt);
+    return true;
+  }
+
+  get size(): number {
+    return this.seen.size;
+  }
+}
+
+const nonceCache = new NonceCache();
+
+/**
+ * express.json() `verify` hook that keeps the raw body, so the signature can be checked
+ * against the exact bytes the bridge sent
+ */
+export function captureRawBody(req: Request, _res: Response, buf: Buffer): void {
+  (req as Request & { rawBody?: Buffer }).rawBody = buf;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  // Compare digests so neither the contents nor the length leak through timing
+  const digestA = crypto.createHash('sha256').update(a).digest();
+  const digestB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(digestA, digestB);
+}
+
+// Why a request was turned away, for ghost_shim_auth_failures_total
+type AuthFailureReason = 'timestamp' | 'nonce' | 'signature' | 'replay' | 'unsigned' | 'missing_token' | 'invalid_token';
+
+interface AuthFailure {
+  reason: AuthFailureReason;
+  error: string;
+}
+
+/**
+ * Check a signed request. Returns why it fails, or null when it's good.
+ */
+function verifySignedRequest(req: Request, res: Response, config: Config, signature: string): AuthFailure | null {
+  const timestamp = req.header(TIMESTAMP_HEADER) || '';
+  const nonce = req.header(NONCE_HEADER) || '';
+
+  if (!/^\d+$/.test(timestamp)) {
+    return { reason: 'timestamp', error: 'Missing or invalid request timestamp' };
+  }
+  const now = Date.now();
+  const sentAt = parseInt(timestamp, 10) * 1000;
+  if (Math.abs(now - sentAt) > config.clockSkewSeconds * 1000) {
+    return { reason: 'timestamp', error: 'Request timestamp is outside the allowed clock skew' };
+  }
+
+  if (!NONCE_PATTERN.test(nonce)) {
+    return { reason: 'nonce', error: 'Missing or invalid request nonce' };
+  }
+
+  // In a multi-site shim the bridge signs the path below /sites/{id}
+  const sitePrefix: string = res.locals.sitePrefix || '';
+  const expected = signRequest(config.bridgeSharedSecret, {
+    method: req.method,
+    path: req.originalUrl.slice(sitePrefix.length),
+    timestamp,
+    nonce,
+    body: (req as Request & { rawBody?: Buffer }).rawBody || '',
+  });
+  if (!safeEqual(signature, expected)) {
+    return { reason: 'signature', error: 'Invalid request signature' };
+  }
+
+  // Only remembered once the signature checks out, so unsigned junk can't fill the cache
+  if (!nonceCache.remember(nonce, sentAt + config.clockSkewSeconds * 1000, now)) {
+    return { reason: 'replay', error: 'Request has already been used' };
+  }
+
+  return null;
+}
+
+/**
+ * Check that a request comes from the bridge: a signed request, or (in transition mode)
+ * the shared secret as a bearer token. Sends the 401 and returns false when it doesn't.
+ */
+export function checkAuthorization(req: Request, res: Response, config: Config): boolean {
+  const failure = authorizationFailure(req, res, config);
+  if (!failure) {
+    return true;
+  }
+
+  authFailures.inc({ site: siteLabel(config), reason: failure.reason });
+  logger.warn(`Rejected request: ${failure.error}`, {
+    request_id: res.locals.requestId,
+    site: res.locals.site,
+    reason: failure.reason,
+  });
+  res.status(401).json({ error: failure.error });
+  return false;
+}
+
+function authorizationFailure(req: Request, res: Response, config: Config): AuthFailure | null {
+  const signature = req.header(SIGNATURE_HEADER);
+  if (signature) {
+    return verifySignedRequest(req, res, config, signature);
+  }
+
+  if (config.authMode === 'signed') {
+    return { reason: 'unsigned', error: 'Request must be signed' };
+  }
+
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return { reason: 'missing_token', error: 'Missing or invalid authorization header' };
+  }
+
+  const token = authHeader.substring(7);
+  if (!safeEqual(token, config.bridgeSharedSecret)) {
+    return { reason: 'invalid_token', error: 'Invalid authorization token' };
+  }
+
+  return null;
+}
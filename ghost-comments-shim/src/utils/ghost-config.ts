@@ -0,0 +1,79 @@
+import fs from 'fs';
+import path from 'path';
+import { DbType } from '../config';
+
+// Where Ghost-CLI installs usually live
+export const GHOST_CONFIG_CANDIDATES = [
+  'config.production.json',
+  '/var/www/ghost/config.production.json',
+];
+
+export interface GhostDatabaseSettings {
+  ghostDbType: DbType;
+  ghostDbConnection: string;
+}
+
+/**
+ * The first Ghost config file that exists: the given path, the candidates above, or any
+ * /var/www/{site}/config.production.json
+ */
+export function findGhostConfig(explicitPath?: string): string | null {
+  if (explicitPath) {
+    return fs.existsSync(explicitPath) ? explicitPath : null;
+  }
+
+  const candidates = [...GHOST_CONFIG_CANDIDATES];
+  try {
+    for (const dir of fs.readdirSync('/var/www')) {
+      candidates.push(path.join('/var/www', dir, 'config.production.json'));
+    }
+  } catch {
+    // No /var/www
+  }
+
+  return candidates.find((candidate) => fs.existsSync(candidate)) || null;
+}
+
+/**
+ * Turn the `database` block of a Ghost config file into the shim's GHOST_DB_TYPE and
+ * GHOST_DB_CONNECTION. A relative SQLite filename is resolved against the config's directory,
+ * as Ghost does.
+ */
+export function readGhostDatabase(configPath: string): GhostDatabaseSettings {
+  let ghostConfig: any;
+  try {
+    ghostConfig = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  } catch (err) {
+    throw new Error(`Could not read Ghost config ${configPath}: ${(err as Error).message}`);
+  }
+
+  const database = ghostConfig?.database;
+  const connection = database?.connection;
+  if (!database || !connection) {
+    throw new Error(`${configPath} has no database settings`);
+  }
+
+  if (database.client === 'sqlite3' || database.client === 'better-sqlite3') {
+    if (typeof connection.filename !== 'string') {
+      throw new Error(`${configPath}: database.connection.filename is missing`);
+    }
+    return {
+      ghostDbType: 'sqlite',
+      ghostDbConnection: path.resolve(path.dirname(configPath), connection.filename),
+    };
+  }
+
+  if (database.client === 'mysql' || database.client === 'mysql2') {
+    if (!connection.user || !connection.database) {
+      throw new Error(`${configPath}: database.connection needs a user and database`);
+    }
+    const auth = `${encodeURIComponent(connection.user)}:${encodeURIComponent(connection.password || '')}`;
+    const host = `${connection.host || 'localhost'}:${connection.port || 3306}`;
+    return {
+      ghostDbType: 'mysql',
+      ghostDbConnection: `mysql://${auth}@${host}/${encodeURIComponent(connection.database)}`,
+    };
+  }
+
+  throw new Error(`${configPath}: unsupported database client "${database.client}"`);
+}
@@ -7,6 +7,13 @@ export function generateGhostId(): string {
   return crypto.randomBytes(12).toString('hex');
 }
 
+/**
+ * Derive a Ghost ID from an idempotency key, so the same key always gives the same ID
+ */
+export function ghostIdFromKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex').slice(0, 24);
+}
+
 /**
  * Validate a Ghost ID format
  */
@@ -0,0 +1,68 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+
+/**
+ * text: human-readable lines (the default)
+ * json: one JSON object per line, for log shippers
+ */
+export type LogFormat = 'text' | 'json';
+
+type Level = 'info' | 'warn' | 'error';
+type Fields = Record<string, unknown>;
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// What we'll take from the bridge as a request ID; anything else gets a fresh one
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+let format: LogFormat = 'text';
+
+export function setLogFormat(value: string): void {
+  if (value !== 'text' && value !== 'json') {
+    throw new Error(`Invalid LOG_FORMAT: ${value}. Must be 'text' or 'json'`);
+  }
+  format = value;
+}
+
+function write(level: Level, message: string, fields: Fields = {}): void {
+  const print = level === 'info' ? console.log : level === 'warn' ? console.warn : console.error;
+  const present = Object.entries(fields).filter(([, value]) => value !== undefined && value !== null);
+
+  if (format === 'json') {
+    print(JSON.stringify({ time: new Date().toISOString(), level, msg: message, ...Object.fromEntries(present) }));
+  } else {
+    print([message, ...present.map(([key, value]) => `${key}=${value}`)].join(' '));
+  }
+}
+
+export const logger = {
+  info: (message: string, fields?: Fields) => write('info', message, fields),
+  warn: (message: string, fields?: Fields) => write('warn', message, fields),
+  error: (message: string, fields?: Fields) => write('error', message, fields),
+};
+
+/**
+ * Give each request an ID (the bridge's X-Request-Id when it sends one), echo it back, and
+ * log the request once it's answered
+ */
+export function requestLogging(req: Request, res: Response, next: NextFunction): void {
+  const incoming = req.header(REQUEST_ID_HEADER);
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+  res.locals.requestId = requestId;
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+
+  const started = process.hrtime.bigint();
+  res.on('finish', () => {
+    logger.info('request', {
+      request_id: requestId,
+      site: res.locals.site,
+      method: req.method,
+      // Without the query string, which can be long and isn't needed to follow a request
+      path: req.originalUrl.split('?')[0],
+      status: res.statusCode,
+      duration_ms: Number((process.hrtime.bigint() - started) / BigInt(1000)) / 1000,
+    });
+  });
+
+  next();
+}
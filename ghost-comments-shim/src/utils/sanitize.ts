@@ -28,6 +28,210 @@ export function sanitizeUrl(url: string): string {
   }
 }
 
+/**
+ * A Bluesky rich text facet (app.bsky.richtext.facet). Byte offsets index into the
+ * UTF-8 encoding of the text, not JavaScript string positions.
+ */
+export interface Facet {
+  index: { byteStart: number; byteEnd: number };
+  features: FacetFeature[];
+}
+
+export type FacetFeature =
+  | { $type: 'app.bsky.richtext.facet#link'; uri: string }
+  | { $type: 'app.bsky.richtext.facet#mention'; did: string }
+  | { $type: 'app.bsky.richtext.facet#tag'; tag: string }
+  | { $type: string; [key: string]: unknown };
+
+const MAX_FACETS = 100;
+const DID_PATTERN = /^did:[a-z]+:[a-zA-Z0-9._:%-]+$/;
+
+/**
+ * Check the shape of a facets array from a request body. Unknown feature types are
+ * allowed (they're rendered as plain text); broken structure is not.
+ */
+export function validateFacets(value: unknown): Facet[] {
+  if (!Array.isArray(value)) {
+    throw new Error('facets must be an array');
+  }
+  if (value.length > MAX_FACETS) {
+    throw new Error(`facets must have at most ${MAX_FACETS} entries`);
+  }
+
+  for (const facet of value) {
+    const index = facet?.index;
+    if (!index || !Number.isInteger(index.byteStart) || !Number.isInteger(index.byteEnd)) {
+      throw new Error('each facet needs an index with integer byteStart and byteEnd');
+    }
+    if (!Array.isArray(facet.features) || facet.features.some((f: any) => typeof f?.$type !== 'string')) {
+      throw new Error('each facet needs a features array of typed objects');
+    }
+  }
+
+  return value as Facet[];
+}
+
+/**
+ * Turn a facet feature into a safe href, or null if it can't be linked
+ */
+function featureHref(feature: FacetFeature): string | null {
+  switch (feature.$type) {
+    case 'app.bsky.richtext.facet#link':
+      try {
+        return sanitizeUrl(String(feature.uri));
+      } catch {
+        return null;
+      }
+    case 'app.bsky.richtext.facet#mention':
+      return DID_PATTERN.test(String(feature.did))
+        ? `https://bsky.app/profile/${encodeURIComponent(String(feature.did))}`
+        : null;
+    case 'app.bsky.richtext.facet#tag':
+      return feature.tag
+        ? `https://bsky.app/search?q=${encodeURIComponent(`#${String(feature.tag)}`)}`
+        : null;
+    default:
+      return null;
+  }
+}
+
+// A byte offset is a character boundary unless it points at a UTF-8 continuation byte
+const isCharBoundary = (bytes: Buffer, offset: number) =>
+  offset === bytes.length || (bytes[offset] & 0xc0) !== 0x80;
+
+/**
+ * Render reply text with its facets as escaped HTML. Links keep their full target even
+ * when Bluesky shortened the display text; mentions and hashtags link to bsky.app.
+ * Facets that overlap, fall outside the text or split a character are ignored.
+ */
+export function renderRichText(text: string, facets: Facet[] = []): string {
+  const bytes = Buffer.from(text, 'utf8');
+  const sorted = [...facets].sort((a, b) => a.index.byteStart - b.index.byteStart);
+
+  let html = '';
+  let cursor = 0;
+
+  for (const facet of sorted) {
+    const { byteStart, byteEnd } = facet.index;
+    if (byteStart < cursor || byteEnd <= byteStart || byteEnd > bytes.length) continue;
+    if (!isCharBoundary(bytes, byteStart) || !isCharBoundary(bytes, byteEnd)) continue;
+
+    const href = facet.features.map(featureHref).find((h) => h !== null);
+    if (!href) continue;
+
+    html += escapeHtml(bytes.subarray(cursor, byteStart).toString('utf8'));
+    html += `<a href="${escapeHtml(href)}" target="_blank" rel="noopener noreferrer nofollow">${escapeHtml(bytes.subarray(byteStart, byteEnd).toString('utf8'))}</a>`;
+    cursor = byteEnd;
+  }
+
+  return html + escapeHtml(bytes.subarray(cursor).toString('utf8'));
+}
+
+/**
+ * Images and/or a quoted post attached to a reply, already resolved to URLs by the bridge
+ */
+export interface CommentEmbed {
+  images?: Array<{ thumb: string; fullsize: string; alt: string }>;
+  quote?: {
+    url: string;
+    author_handle: string;
+    author_name?: string;
+    text: string;
+  };
+}
+
+const MAX_EMBED_IMAGES = 4;
+
+/**
+ * Check the shape of an embed from a request body
+ */
+export function validateEmbed(value: unknown): CommentEmbed {
+  const embed = value as any;
+  if (!embed || typeof embed !== 'object' || Array.isArray(embed)) {
+    throw new Error('embed must be an object');
+  }
+
+  if (embed.images !== undefined) {
+    if (!Array.isArray(embed.images) || embed.images.length > MAX_EMBED_IMAGES) {
+      throw new Error(`embed.images must be an array of at most ${MAX_EMBED_IMAGES} images`);
+    }
+    for (const image of embed.images) {
+      if (typeof image?.thumb !== 'string' || typeof image?.fullsize !== 'string' || typeof image?.alt !== 'string') {
+        throw new Error('each embed image needs thumb, fullsize and alt strings');
+      }
+    }
+  }
+
+  if (embed.quote !== undefined) {
+    const quote = embed.quote;
+    if (typeof quote?.url !== 'string' || typeof quote?.author_handle !== 'string' || typeof quote?.text !== 'string') {
+      throw new Error('embed.quote needs url, author_handle and text strings');
+    }
+    if (quote.author_name !== undefined && typeof quote.author_name !== 'string') {
+      throw new Error('embed.quote.author_name must be a string');
+    }
+  }
+
+  return embed as CommentEmbed;
+}
+
+/**
+ * An https URL on one of the allowed image hosts, or null
+ */
+function allowedImageUrl(url: string, imageHosts: string[]): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:' || !imageHosts.includes(parsed.hostname.toLowerCase())) {
+      return null;
+    }
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Render an embed as HTML. Images only appear when both the thumbnail and the full-size
+ * link are on an allowed host; the quoted post is escaped like the comment itself.
+ */
+export function renderEmbed(embed: CommentEmbed | undefined, imageHosts: string[]): string {
+  if (!embed) {
+    return '';
+  }
+
+  const parts: string[] = [];
+
+  const images = (embed.images || [])
+    .map((image) => ({
+      thumb: allowedImageUrl(image.thumb, imageHosts),
+      fullsize: allowedImageUrl(image.fullsize, imageHosts),
+      alt: image.alt,
+    }))
+    .filter((image) => image.thumb && image.fullsize);
+  if (images.length > 0) {
+    parts.push(`<p>${images
+      .map((image) => `<a href="${escapeHtml(image.fullsize!)}" target="_blank" rel="noopener noreferrer"><img src="${escapeHtml(image.thumb!)}" alt="${escapeHtml(image.alt)}" loading="lazy" style="max-width:100%;height:auto;" /></a>`)
+      .join('')}</p>`);
+  }
+
+  if (embed.quote) {
+    let quoteUrl: string | null = null;
+    try {
+      quoteUrl = sanitizeUrl(embed.quote.url);
+    } catch {
+      quoteUrl = null;
+    }
+    const author = escapeHtml(embed.quote.author_name || `@${embed.quote.author_handle}`);
+    const byline = quoteUrl
+      ? `<a href="${escapeHtml(quoteUrl)}" target="_blank" rel="noopener noreferrer"><strong>${author}</strong></a>`
+      : `<strong>${author}</strong>`;
+    parts.push(`<blockquote><p>${byline}</p>
+<p>${escapeHtml(embed.quote.text)}</p></blockquote>`);
+  }
+
+  return parts.join('\n');
+}
+
 /**
  * Build the comment HTML with sanitized content
  */
@@ -36,19 +240,24 @@ export function buildCommentHtml(params: {
   bskyProfileUrl: string;
   commentText: string;
   bskyPostUrl: string;
+  facets?: Facet[];
+  embed?: CommentEmbed;
+  imageHosts?: string[];
 }): string {
-  const { bskyHandle, bskyProfileUrl, commentText, bskyPostUrl } = params;
+  const { bskyHandle, bskyProfileUrl, commentText, bskyPostUrl, facets, embed, imageHosts = [] } = params;
 
   // Validate and sanitize URLs
   const safeProfileUrl = sanitizeUrl(bskyProfileUrl);
   const safePostUrl = sanitizeUrl(bskyPostUrl);
 
-  // Escape user-provided text
+  // Escape user-provided text; facets become links, everything else stays escaped
   const safeHandle = escapeHtml(bskyHandle);
-  const safeText = escapeHtml(commentText);
+  const safeText = renderRichText(commentText, facets);
+
+  const embedHtml = renderEmbed(embed, imageHosts);
 
   // Build HTML with inline styles (no custom classes for theme compatibility)
   return `<p><a href="${safeProfileUrl}" target="_blank" rel="noopener noreferrer" style="color:inherit;text-decoration:none;"><strong>@${safeHandle}</strong></a></p>
 <p>${safeText}</p>
-<p style="font-size:0.85em;opacity:0.7;"><a href="${safePostUrl}" target="_blank" rel="noopener noreferrer">View on Bluesky ↗</a></p>`;
+${embedHtml ? `${embedHtml}\n` : ''}<p style="font-size:0.85em;opacity:0.7;"><a href="${safePostUrl}" target="_blank" rel="noopener noreferrer">View on Bluesky ↗</a></p>`;
 }
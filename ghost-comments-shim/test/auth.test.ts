@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import express from 'express';
+import request from 'supertest';
+import { Config } from '../src/config';
+import { captureRawBody, checkAuthorization, NonceCache, signRequest } from '../src/utils/auth';
+
+const secret = 'test-secret-key-min-32-characters-long';
+
+function createApp(authMode: Config['authMode']): express.Application {
+  const config = {
+    bridgeSharedSecret: secret,
+    authMode,
+    clockSkewSeconds: 300,
+  } as Config;
+
+  const app = express();
+  app.use(express.json({ verify: captureRawBody }));
+  app.all('/comments*', (req, res) => {
+    if (!checkAuthorization(req, res, config)) {
+      return;
+    }
+    res.json({ ok: true });
+  });
+  return app;
+}
+
+function signedHeaders(method: string, path: string, body = '', timestamp = Math.floor(Date.now() / 1000)) {
+  const nonce = crypto.randomBytes(16).toString('hex');
+  return {
+    'Content-Type': 'application/json',
+    'X-Bridge-Timestamp': String(timestamp),
+    'X-Bridge-Nonce': nonce,
+    'X-Bridge-Signature': signRequest(secret, { method, path, timestamp: String(timestamp), nonce, body }),
+  };
+}
+
+describe('checkAuthorization', () => {
+  it('should accept a signed request and reject a replay of it', async () => {
+    const app = createApp('signed');
+    const body = JSON.stringify({ status: 'hidden' });
+    const headers = signedHeaders('PATCH', '/comments/abc?x=1', body);
+
+    const first = await request(app).patch('/comments/abc?x=1').set(headers).send(body);
+    expect(first.status).toBe(200);
+
+    const replay = await request(app).patch('/comments/abc?x=1').set(headers).send(body);
+    expect(replay.status).toBe(401);
+    expect(replay.body.error).toBe('Request has already been used');
+  });
+
+  it('should reject a tampered body, path or stale timestamp', async () => {
+    const app = createApp('signed');
+    const body = JSON.stringify({ status: 'hidden' });
+
+    const tampered = await request(app)
+      .patch('/comments/abc')
+      .set(signedHeaders('PATCH', '/comments/abc', body))
+      .send(JSON.stringify({ status: 'deleted' }));
+    expect(tampered.body.error).toBe('Invalid request signature');
+
+    const otherPath = await request(app).delete('/comments/def').set(signedHeaders('DELETE', '/comments/abc'));
+    expect(otherPath.body.error).toBe('Invalid request signature');
+
+    const stale = await request(app)
+      .get('/comments')
+      .set(signedHeaders('GET', '/comments', '', Math.floor(Date.now() / 1000) - 600));
+    expect(stale.status).toBe(401);
+    expect(stale.body.error).toContain('clock skew');
+  });
+
+  it('should only accept bearer tokens in transition mode', async () => {
+    const bearer = { Authorization: `Bearer ${secret}` };
+
+    const signedOnly = await request(createApp('signed')).get('/comments').set(bearer);
+    expect(signedOnly.status).toBe(401);
+    expect(signedOnly.body.error).toBe('Request must be signed');
+
+    const transition = createApp('transition');
+    expect((await request(transition).get('/comments').set(bearer)).status).toBe(200);
+    expect((await request(transition).get('/comments').set({ Authorization: 'Bearer wrong' })).status).toBe(401);
+    expect((await request(transition).get('/comments').set(signedHeaders('GET', '/comments'))).status).toBe(200);
+  });
+});
+
+describe('NonceCache', () => {
+  it('should forget nonces once they expire and cap its size', () => {
+    const cache = new NonceCache(2);
+
+    expect(cache.remember('a', 1000, 0)).toBe(true);
+    expect(cache.remember('a', 1000, 500)).toBe(false);
+    expect(cache.remember('a', 3000, 1500)).toBe(true);
+
+    cache.remember('b', 3000, 1500);
+    cache.remember('c', 3000, 1500);
+    expect(cache.size).toBe(2);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Config } from '../src/config';
+import { createDbConnection, DbConnection, insertComment, listBridgedComments } from '../src/db';
+import { describeResults } from '../src/commands/doctor';
+import { BLUESKY_MEMBER_EMAIL, ensureBlueskyMember, generateSharedSecret } from '../src/commands/init';
+import { commentSnippet } from '../src/commands/list-bridged';
+
+const config = {
+  ghostDbType: 'sqlite',
+  ghostDbConnection: ':memory:',
+  blueskyMemberId: '507f1f77bcf86cd799439011',
+} as Config;
+
+describe('init', () => {
+  let db: DbConnection;
+
+  beforeEach(async () => {
+    db = createDbConnection(config);
+    await db.execute(
+      'CREATE TABLE members (id, uuid, transient_id, email, status, name, note, email_disabled, created_at, updated_at)',
+      []
+    );
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should create the Bluesky member once and find it after that', async () => {
+    const first = await ensureBlueskyMember(db);
+    expect(first.created).toBe(true);
+    expect(first.id).toMatch(/^[a-f0-9]{24}$/);
+
+    const again = await ensureBlueskyMember(db);
+    expect(again).toEqual({ id: first.id, created: false });
+
+    const rows = await db.query('SELECT email, status, email_disabled FROM members', []);
+    expect(rows).toEqual([{ email: BLUESKY_MEMBER_EMAIL, status: 'free', email_disabled: 1 }]);
+  });
+
+  it('should generate secrets the shim accepts', () => {
+    const secret = generateSharedSecret();
+    expect(secret.length).toBeGreaterThanOrEqual(32);
+    expect(generateSharedSecret()).not.toBe(secret);
+  });
+});
+
+describe('doctor', () => {
+  const compatibility = {
+    compatible: true,
+    ghostVersion: '5.96.2',
+    tables: {},
+    blueskyMemberExists: true,
+    problems: [],
+    warnings: [],
+  };
+
+  it('should pass a healthy site', () => {
+    const described = describeResults({
+      database: { status: 'ok' },
+      posts: { status: 'ok', count: 5 },
+      members: { status: 'ok', blueskyMemberExists: true, message: 'Found member: Bluesky' },
+      compatibility,
+    });
+
+    expect(described.healthy).toBe(true);
+    expect(described.lines).toContain('✓ Schema compatible (Ghost 5.96.2)');
+  });
+
+  it('should fail on a missing member or schema problems', () => {
+    const described = describeResults({
+      database: { status: 'ok' },
+      posts: { status: 'ok', count: 5 },
+      members: { status: 'ok', blueskyMemberExists: false, message: 'Member x not found' },
+      compatibility: { ...compatibility, compatible: false, problems: ['Table comments is missing columns: html'] },
+    });
+
+    expect(described.healthy).toBe(false);
+    expect(described.lines).toEqual([
+      '✓ Database reachable',
+      '✓ Posts table: 5 recent post(s)',
+      '✗ Member x not found',
+      '✗ Table comments is missing columns: html',
+    ]);
+  });
+
+  it('should stop at an unreachable database', () => {
+    const described = describeResults({
+      database: { status: 'error', message: 'connect ECONNREFUSED' },
+      posts: { status: 'pending' },
+      members: { status: 'pending' },
+    });
+
+    expect(described).toEqual({ lines: ['✗ Database unreachable: connect ECONNREFUSED'], healthy: false });
+  });
+});
+
+describe('list-bridged', () => {
+  let db: DbConnection;
+
+  beforeEach(async () => {
+    db = createDbConnection(config);
+    await db.execute('CREATE TABLE members (id, name, email)', []);
+    await db.execute('CREATE TABLE posts (id, slug)', []);
+    await db.execute('CREATE TABLE comments (id, post_id, member_id, parent_id, status, html, created_at, updated_at)', []);
+    await db.execute("INSERT INTO members VALUES (?, 'Bluesky', 'comments@bsky.atproto.invalid')", [config.blueskyMemberId]);
+    await db.execute("INSERT INTO members VALUES ('bbbbbbbbbbbbbbbbbbbbbbbb', 'Alice', 'did-plc-alice@bsky.atproto.invalid')", []);
+    await db.execute("INSERT INTO members VALUES ('cccccccccccccccccccccccc', 'Jamie', 'jamie@example.com')", []);
+    await db.execute("INSERT INTO posts VALUES ('507f1f77bcf86cd799439099', 'hello-world')", []);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  const comment = (id: string, memberId: string, createdAt: string) => insertComment(db, {
+    id,
+    postId: '507f1f77bcf86cd799439099',
+    memberId,
+    parentId: null,
+    html: `<p>${id}</p>`,
+    createdAt,
+  });
+
+  it('should list comments by Bluesky members only, newest first', async () => {
+    await comment('aaaaaaaaaaaaaaaaaaaaaaa1', config.blueskyMemberId, '2026-10-19 10:00:00');
+    await comment('aaaaaaaaaaaaaaaaaaaaaaa2', 'bbbbbbbbbbbbbbbbbbbbbbbb', '2026-10-19 11:00:00');
+    await comment('aaaaaaaaaaaaaaaaaaaaaaa3', 'cccccccccccccccccccccccc', '2026-10-19 12:00:00');
+
+    const comments = await listBridgedComments(db, { blueskyMemberId: config.blueskyMemberId, limit: 10 });
+
+    expect(comments.map((c) => c.id)).toEqual(['aaaaaaaaaaaaaaaaaaaaaaa2', 'aaaaaaaaaaaaaaaaaaaaaaa1']);
+    expect(comments[0]).toMatchObject({ post_slug: 'hello-world', member_name: 'Alice', status: 'published' });
+  });
+
+  it('should show comments as one line of plain text', () => {
+    expect(commentSnippet('<p><a href="x">@alice</a> says &lt;hi&gt; &amp; bye</p>')).toBe('@alice says <hi> & bye');
+    expect(commentSnippet(`<p>${'word '.repeat(30)}</p>`)).toHaveLength(60);
+  });
+});
@@ -4,13 +4,18 @@ import request from 'supertest';
 import { createCommentsRouter } from '../src/routes/comments';
 import { Config } from '../src/config';
 import { DbConnection } from '../src/db';
+import { Outbox } from '../src/outbox';
+import { readOnlyConnection } from '../src/schema';
 
 // Mock database connection
 function createMockDb(): DbConnection {
-  return {
+  const db: DbConnection = {
     execute: vi.fn().mockResolvedValue(undefined),
+    query: vi.fn().mockResolvedValue([]),
+    transaction: vi.fn(async (fn) => fn(db)) as DbConnection['transaction'],
     close: vi.fn().mockResolvedValue(undefined),
   };
+  return db;
 }
 
 // Test configuration
@@ -18,7 +23,12 @@ const testConfig: Config = {
   ghostDbType: 'sqlite',
   ghostDbConnection: ':memory:',
   bridgeSharedSecret: 'test-secret-key-min-32-characters-long',
+  authMode: 'transition',
+  clockSkewSeconds: 300,
   blueskyMemberId: '507f1f77bcf86cd799439011',
+  imageHostAllowlist: ['cdn.bsky.app'],
+  onSchemaMismatch: 'refuse',
+  outboxPath: null,
   port: 3001,
 };
 
@@ -164,6 +174,44 @@ describe('POST /comments', () => {
     expect(executeCall[1]).toContain(parentId);
   });
 
+  it('should return the existing comment when a reply URI is sent again', async () => {
+    const body = {
+      post_id: '507f1f77bcf86cd799439011',
+      bsky_handle: 'alice.bsky.social',
+      bsky_profile_url: 'https://bsky.app/profile/alice.bsky.social',
+      bsky_post_url: 'https://bsky.app/profile/alice.bsky.social/post/abc',
+      comment_text: 'Retried reply',
+      created_at: '2025-01-15T12:00:00Z',
+      bsky_reply_uri: 'at://did:plc:alice/app.bsky.feed.post/abc',
+    };
+
+    const first = await request(app)
+      .post('/comments')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send(body);
+    expect(first.status).toBe(201);
+    expect(mockDb.execute).toHaveBeenCalledTimes(1);
+
+    (mockDb.query as any).mockResolvedValue([{ id: first.body.comment_id, post_id: body.post_id, status: 'published' }]);
+    const retry = await request(app)
+      .post('/comments')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send(body);
+    expect(retry.status).toBe(200);
+    expect(retry.body.comment_id).toBe(first.body.comment_id);
+    expect(mockDb.execute).toHaveBeenCalledTimes(1);
+
+    // A concurrent retry that loses the race on the primary key
+    (mockDb.query as any).mockResolvedValue([]);
+    (mockDb.execute as any).mockRejectedValueOnce(Object.assign(new Error('duplicate'), { code: 'ER_DUP_ENTRY' }));
+    const raced = await request(app)
+      .post('/comments')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send(body);
+    expect(raced.status).toBe(200);
+    expect(raced.body.comment_id).toBe(first.body.comment_id);
+  });
+
   it('should reject invalid parent_comment_id format', async () => {
     const response = await request(app)
       .post('/comments')
@@ -182,6 +230,85 @@ describe('POST /comments', () => {
     expect(response.body.error).toContain('parent_comment_id must be a valid Ghost ID');
   });
 
+  it('should post as the given member_id, falling back to the shared member', async () => {
+    const memberId = '507f1f77bcf86cd7994390aa';
+    const body = {
+      post_id: '507f1f77bcf86cd799439011',
+      bsky_handle: 'carol.bsky.social',
+      bsky_profile_url: 'https://bsky.app/profile/carol.bsky.social',
+      bsky_post_url: 'https://bsky.app/profile/carol.bsky.social/post/ghi',
+      comment_text: 'Nice one',
+      parent_comment_id: null,
+      created_at: '2025-01-15T12:10:00Z',
+    };
+
+    await request(app)
+      .post('/comments')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send({ ...body, member_id: memberId })
+      .expect(201);
+    await request(app)
+      .post('/comments')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send(body)
+      .expect(201);
+
+    const calls = (mockDb.execute as any).mock.calls;
+    expect(calls[0][1][2]).toBe(memberId);
+    expect(calls[1][1][2]).toBe(testConfig.blueskyMemberId);
+  });
+
+  it('should reject invalid member_id format', async () => {
+    const response = await request(app)
+      .post('/comments')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send({
+        post_id: '507f1f77bcf86cd799439011',
+        bsky_handle: 'alice.bsky.social',
+        bsky_profile_url: 'https://bsky.app/profile/alice.bsky.social',
+        bsky_post_url: 'https://bsky.app/profile/alice.bsky.social/post/abc',
+        comment_text: 'Test comment',
+        parent_comment_id: null,
+        created_at: '2025-01-15T12:00:00Z',
+        member_id: 'did:plc:alice',
+      });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('member_id must be a valid Ghost ID');
+  });
+
+  it('should render facets and reject malformed ones', async () => {
+    const body = {
+      post_id: '507f1f77bcf86cd799439011',
+      bsky_handle: 'alice.bsky.social',
+      bsky_profile_url: 'https://bsky.app/profile/alice.bsky.social',
+      bsky_post_url: 'https://bsky.app/profile/alice.bsky.social/post/abc',
+      comment_text: '🎉 #launch',
+      parent_comment_id: null,
+      created_at: '2025-01-15T12:00:00Z',
+    };
+
+    await request(app)
+      .post('/comments')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send({
+        ...body,
+        facets: [{ index: { byteStart: 5, byteEnd: 12 }, features: [{ $type: 'app.bsky.richtext.facet#tag', tag: 'launch' }] }],
+      })
+      .expect(201);
+
+    const htmlParam = (mockDb.execute as any).mock.calls[0][1][4];
+    expect(htmlParam).toContain('🎉 <a href="https://bsky.app/search?q=%23launch"');
+
+    const response = await request(app)
+      .post('/comments')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send({ ...body, facets: { byteStart: 0 } });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('facets must be an array');
+  });
+
   it('should escape XSS in comment text', async () => {
     const response = await request(app)
       .post('/comments')
@@ -205,3 +332,491 @@ describe('POST /comments', () => {
     expect(htmlParam).toContain('&lt;script&gt;');
   });
 });
+
+describe('POST /comments/batch', () => {
+  let app: express.Application;
+  let mockDb: DbConnection;
+
+  const item = (tempId: string, overrides: Record<string, unknown> = {}) => ({
+    temp_id: tempId,
+    post_id: '507f1f77bcf86cd799439011',
+    bsky_handle: 'alice.bsky.social',
+    bsky_profile_url: 'https://bsky.app/profile/alice.bsky.social',
+    bsky_post_url: `https://bsky.app/profile/alice.bsky.social/post/${tempId}`,
+    comment_text: `Reply ${tempId}`,
+    created_at: '2025-01-15T12:00:00Z',
+    bsky_reply_uri: `at://did:plc:alice/app.bsky.feed.post/${tempId}`,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockDb = createMockDb();
+    app = express();
+    app.use(express.json());
+    app.use('/comments', createCommentsRouter(testConfig, mockDb));
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should insert a thread in one transaction and resolve temp parents', async () => {
+    const response = await request(app)
+      .post('/comments/batch')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send({ comments: [item('a'), item('b', { parent_temp_id: 'a' })] });
+
+    expect(response.status).toBe(201);
+    expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+    const [first, second] = response.body.comments;
+    expect(first).toMatchObject({ temp_id: 'a', created: true });
+    expect(second).toMatchObject({ temp_id: 'b', created: true });
+
+    const [, childParams] = (mockDb.execute as any).mock.calls[1];
+    expect(childParams[0]).toBe(second.comment_id);
+    expect(childParams[3]).toBe(first.comment_id);
+  });
+
+  it('should skip comments that already exist', async () => {
+    (mockDb.query as any).mockResolvedValueOnce([{ id: 'x', post_id: 'y', status: 'published' }]);
+
+    const response = await request(app)
+      .post('/comments/batch')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send({ comments: [item('a'), item('b', { parent_temp_id: 'a' })] });
+
+    expect(response.status).toBe(201);
+    expect(response.body.comments.map((c: any) => c.created)).toEqual([false, true]);
+    expect(mockDb.execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject bad items without touching the database', async () => {
+    const response = await request(app)
+      .post('/comments/batch')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send({ comments: [item('a', { parent_temp_id: 'b' }), item('b', { post_id: 'nope' })] });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('comments[0]: parent_temp_id must be the temp_id of an earlier comment');
+    expect(response.body.error).toContain('comments[1]: post_id must be a valid Ghost ID');
+    expect(mockDb.transaction).not.toHaveBeenCalled();
+  });
+
+  it('should report a failed transaction as an error', async () => {
+    (mockDb.execute as any).mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('Disk full'));
+
+    const response = await request(app)
+      .post('/comments/batch')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send({ comments: [item('a'), item('b')] });
+
+    expect(response.status).toBe(500);
+    expect(response.body.error).toBe('Disk full');
+  });
+});
+
+describe('outbox', () => {
+  let app: express.Application;
+  let mockDb: DbConnection;
+  let outbox: Outbox;
+
+  const body = (id: string) => ({
+    post_id: '507f1f77bcf86cd799439011',
+    bsky_handle: 'alice.bsky.social',
+    bsky_profile_url: 'https://bsky.app/profile/alice.bsky.social',
+    bsky_post_url: `https://bsky.app/profile/alice.bsky.social/post/${id}`,
+    comment_text: `Reply ${id}`,
+    created_at: '2025-01-15T12:00:00Z',
+    bsky_reply_uri: `at://did:plc:alice/app.bsky.feed.post/${id}`,
+  });
+  const refused = () => Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+
+  beforeEach(() => {
+    mockDb = createMockDb();
+    outbox = new Outbox(':memory:');
+    app = express();
+    app.use(express.json());
+    app.use('/comments', createCommentsRouter(testConfig, mockDb, outbox));
+  });
+
+  afterEach(() => {
+    outbox.close();
+    vi.clearAllMocks();
+  });
+
+  it('should queue a comment while Ghost is unreachable, and queue later ones behind it', async () => {
+    (mockDb.query as any).mockRejectedValueOnce(refused());
+
+    const queued = await request(app)
+      .post('/comments')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send(body('a'));
+    expect(queued.status).toBe(202);
+    expect(queued.body).toMatchObject({ status: 'queued' });
+    expect(queued.body.comment_id).toHaveLength(24);
+
+    // Ghost answers again, but the next comment still waits its turn
+    const next = await request(app)
+      .post('/comments')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send(body('b'));
+    expect(next.status).toBe(202);
+    expect(mockDb.execute).not.toHaveBeenCalled();
+
+    const status = await request(app)
+      .get(`/comments/outbox/${queued.body.comment_id}`)
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`);
+    expect(status.status).toBe(200);
+    expect(status.body).toMatchObject({ comment_id: queued.body.comment_id, status: 'queued', attempts: 0 });
+
+    expect(await outbox.flush(mockDb)).toEqual({ delivered: 2, failed: 0 });
+    const [, params] = (mockDb.execute as any).mock.calls[0];
+    expect(params[0]).toBe(queued.body.comment_id);
+  });
+
+  it('should queue a whole batch when its transaction cannot reach Ghost', async () => {
+    (mockDb.transaction as any).mockRejectedValueOnce(refused());
+
+    const response = await request(app)
+      .post('/comments/batch')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send({ comments: [{ temp_id: 'a', ...body('a') }, { temp_id: 'b', parent_temp_id: 'a', ...body('b') }] });
+
+    expect(response.status).toBe(202);
+    expect(response.body.comments.map((c: any) => c.queued)).toEqual([true, true]);
+    expect(outbox.get(response.body.comments[1].comment_id)).toMatchObject({ status: 'queued' });
+  });
+
+  it('should report where each batch item has got to when it was queued before', async () => {
+    (mockDb.transaction as any).mockRejectedValue(refused());
+    const comments = [{ temp_id: 'a', ...body('a') }, { temp_id: 'b', ...body('b') }];
+
+    const first = await request(app)
+      .post('/comments/batch')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send({ comments: [comments[0]] });
+    const [queuedA] = first.body.comments;
+
+    // Ghost turned the first one down; the retry queues it afresh
+    await outbox.flush({ ...mockDb, transaction: async () => { throw new Error('Unknown post'); } });
+    expect(outbox.get(queuedA.comment_id)).toMatchObject({ status: 'failed' });
+
+    const retry = await request(app)
+      .post('/comments/batch')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send({ comments });
+
+    expect(retry.status).toBe(202);
+    expect(retry.body.comments.map((c: any) => [c.comment_id === queuedA.comment_id, c.queued, c.status])).toEqual([
+      [true, true, 'queued'],
+      [false, true, 'queued'],
+    ]);
+    expect(outbox.get(queuedA.comment_id)).toMatchObject({ status: 'queued', attempts: 0 });
+  });
+
+  it('should not queue writes Ghost rejected, and 404 for comments it never queued', async () => {
+    (mockDb.execute as any).mockRejectedValueOnce(new Error('Disk full'));
+
+    const response = await request(app)
+      .post('/comments')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send(body('a'));
+    expect(response.status).toBe(500);
+    expect(outbox.hasQueued()).toBe(false);
+
+    const status = await request(app)
+      .get('/comments/outbox/507f1f77bcf86cd799439011')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`);
+    expect(status.status).toBe(404);
+  });
+});
+
+describe('GET /comments', () => {
+  let app: express.Application;
+  let mockDb: DbConnection;
+
+  beforeEach(() => {
+    mockDb = createMockDb();
+    app = express();
+    app.use(express.json());
+    app.use('/comments', createCommentsRouter(testConfig, mockDb));
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list native comments since a timestamp, excluding Bluesky members', async () => {
+    (mockDb.query as any).mockResolvedValue([
+      {
+        id: '507f1f77bcf86cd799439031',
+        post_id: '507f1f77bcf86cd799439012',
+        parent_id: null,
+        member_name: 'Jamie',
+        html: '<p>Nice post</p>',
+        created_at: '2025-01-15 12:00:00',
+      },
+    ]);
+
+    const response = await request(app)
+      .get('/comments?since=2025-01-15T11:00:00.000Z&limit=10')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      comments: [{
+        id: '507f1f77bcf86cd799439031',
+        post_id: '507f1f77bcf86cd799439012',
+        parent_id: null,
+        member_name: 'Jamie',
+        html: '<p>Nice post</p>',
+        created_at: '2025-01-15T12:00:00.000Z',
+      }],
+      has_more: false,
+    });
+
+    const [sql, params] = (mockDb.query as any).mock.calls[0];
+    expect(sql).toContain('LIMIT 11');
+    expect(params).toEqual([
+      '2025-01-15 11:00:00',
+      '2025-01-15 11:00:00',
+      '',
+      testConfig.blueskyMemberId,
+      '%@bsky.atproto.invalid',
+    ]);
+  });
+
+  it('should continue after the last comment seen when given its ID', async () => {
+    (mockDb.query as any).mockResolvedValue([]);
+
+    const response = await request(app)
+      .get('/comments?since=2025-01-15T12:00:00.000Z&after_id=507f1f77bcf86cd799439031')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`);
+
+    expect(response.status).toBe(200);
+    const [sql, params] = (mockDb.query as any).mock.calls[0];
+    expect(sql).toContain('(c.created_at > ? OR (c.created_at = ? AND c.id > ?))');
+    expect(params.slice(0, 3)).toEqual(['2025-01-15 12:00:00', '2025-01-15 12:00:00', '507f1f77bcf86cd799439031']);
+  });
+
+  it('should reject an after_id that is not a Ghost ID', async () => {
+    const response = await request(app)
+      .get('/comments?since=2025-01-15T12:00:00.000Z&after_id=nope')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('after_id must be a valid Ghost ID');
+  });
+
+  it('should require a valid since timestamp', async () => {
+    const response = await request(app)
+      .get('/comments?since=yesterday')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('since is required');
+  });
+});
+
+describe('GET /comments/:id', () => {
+  const commentId = '507f1f77bcf86cd799439021';
+  let app: express.Application;
+  let mockDb: DbConnection;
+
+  beforeEach(() => {
+    mockDb = createMockDb();
+    app = express();
+    app.use(express.json());
+    app.use('/comments', createCommentsRouter(testConfig, mockDb));
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return the stored comment', async () => {
+    (mockDb.query as any).mockResolvedValue([
+      {
+        id: commentId,
+        post_id: '507f1f77bcf86cd799439012',
+        member_id: testConfig.blueskyMemberId,
+        parent_id: null,
+        status: 'hidden',
+        html: '<p>Hello</p>',
+        created_at: '2025-01-15 12:00:00',
+        updated_at: new Date('2025-01-16T08:30:00.000Z'),
+      },
+    ]);
+
+    const response = await request(app)
+      .get(`/comments/${commentId}`)
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      comment_id: commentId,
+      post_id: '507f1f77bcf86cd799439012',
+      member_id: testConfig.blueskyMemberId,
+      parent_id: null,
+      status: 'hidden',
+      html: '<p>Hello</p>',
+      created_at: '2025-01-15T12:00:00.000Z',
+      updated_at: '2025-01-16T08:30:00.000Z',
+    });
+  });
+
+  it('should require auth and a valid ID, and 404 for unknown comments', async () => {
+    const noAuth = await request(app).get(`/comments/${commentId}`);
+    expect(noAuth.status).toBe(401);
+
+    const badId = await request(app)
+      .get('/comments/not-an-id')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`);
+    expect(badId.status).toBe(400);
+
+    const missing = await request(app)
+      .get(`/comments/${commentId}`)
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`);
+    expect(missing.status).toBe(404);
+  });
+});
+
+describe('PATCH /comments/:id', () => {
+  const commentId = '507f1f77bcf86cd799439021';
+  let app: express.Application;
+  let mockDb: DbConnection;
+
+  beforeEach(() => {
+    mockDb = createMockDb();
+    (mockDb.query as any).mockResolvedValue([
+      { id: commentId, post_id: '507f1f77bcf86cd799439011', status: 'published' },
+    ]);
+    app = express();
+    app.use(express.json());
+    app.use('/comments', createCommentsRouter(testConfig, mockDb));
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should require auth', async () => {
+    const response = await request(app).patch(`/comments/${commentId}`).send({ status: 'hidden' });
+
+    expect(response.status).toBe(401);
+    expect(mockDb.execute).not.toHaveBeenCalled();
+  });
+
+  it('should change the status', async () => {
+    const response = await request(app)
+      .patch(`/comments/${commentId}`)
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send({ status: 'hidden' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ comment_id: commentId, status: 'hidden' });
+
+    const [sql, params] = (mockDb.execute as any).mock.calls[0];
+    expect(sql).toContain('UPDATE comments SET status = ?, updated_at = ? WHERE id = ?');
+    expect(params[0]).toBe('hidden');
+    expect(params[2]).toBe(commentId);
+  });
+
+  it('should rebuild escaped html from new comment text', async () => {
+    const response = await request(app)
+      .patch(`/comments/${commentId}`)
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send({
+        comment_text: 'Edited <b>text</b>',
+        bsky_handle: 'alice.bsky.social',
+        bsky_profile_url: 'https://bsky.app/profile/alice.bsky.social',
+        bsky_post_url: 'https://bsky.app/profile/alice.bsky.social/post/abc',
+      });
+
+    expect(response.status).toBe(200);
+    const [sql, params] = (mockDb.execute as any).mock.calls[0];
+    expect(sql).toContain('html = ?');
+    expect(params[0]).toContain('Edited &lt;b&gt;text&lt;/b&gt;');
+  });
+
+  it('should reject unknown statuses and empty updates', async () => {
+    const badStatus = await request(app)
+      .patch(`/comments/${commentId}`)
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send({ status: 'archived' });
+    expect(badStatus.status).toBe(400);
+    expect(badStatus.body.error).toContain('status must be one of');
+
+    const empty = await request(app)
+      .patch(`/comments/${commentId}`)
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send({});
+    expect(empty.status).toBe(400);
+  });
+
+  it('should answer 503 when the site is read-only', async () => {
+    const readOnlyApp = express();
+    readOnlyApp.use(express.json());
+    readOnlyApp.use('/comments', createCommentsRouter(testConfig, readOnlyConnection(mockDb, 'Table comments is missing columns: html')));
+
+    const response = await request(readOnlyApp)
+      .patch(`/comments/${commentId}`)
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send({ status: 'hidden' });
+
+    expect(response.status).toBe(503);
+    expect(response.body.error).toBe('Shim is read-only: Table comments is missing columns: html');
+    expect(mockDb.execute).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for unknown comments', async () => {
+    (mockDb.query as any).mockResolvedValue([]);
+
+    const response = await request(app)
+      .patch(`/comments/${commentId}`)
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`)
+      .send({ status: 'hidden' });
+
+    expect(response.status).toBe(404);
+    expect(mockDb.execute).not.toHaveBeenCalled();
+  });
+});
+
+describe('DELETE /comments/:id', () => {
+  const commentId = '507f1f77bcf86cd799439021';
+  let app: express.Application;
+  let mockDb: DbConnection;
+
+  beforeEach(() => {
+    mockDb = createMockDb();
+    app = express();
+    app.use(express.json());
+    app.use('/comments', createCommentsRouter(testConfig, mockDb));
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should soft-delete by setting status to deleted', async () => {
+    (mockDb.query as any).mockResolvedValue([{ id: commentId, post_id: 'x', status: 'published' }]);
+
+    const response = await request(app)
+      .delete(`/comments/${commentId}`)
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ comment_id: commentId, status: 'deleted' });
+    const [sql, params] = (mockDb.execute as any).mock.calls[0];
+    expect(sql).toContain('UPDATE comments SET status = ?');
+    expect(params[0]).toBe('deleted');
+  });
+
+  it('should reject invalid IDs', async () => {
+    const response = await request(app)
+      .delete('/comments/not-an-id')
+      .set('Authorization', `Bearer ${testConfig.bridgeSharedSecret}`);
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi } from 'vitest';
-import { insertComment, DbConnection } from '../src/db';
+import { insertComment, createDbConnection, DbConnection, listNativeComments } from '../src/db';
+import { Config } from '../src/config';
 
 describe('insertComment', () => {
   it('should call execute with correct SQL and parameters', async () => {
@@ -80,3 +81,53 @@ describe('insertComment', () => {
     await expect(insertComment(mockDb, params)).rejects.toThrow('Database connection failed');
   });
 });
+
+describe('SqliteConnection.transaction', () => {
+  it('should commit on success and roll back when the callback throws', async () => {
+    const db = createDbConnection({ ghostDbType: 'sqlite', ghostDbConnection: ':memory:' } as Config);
+    await db.execute('CREATE TABLE comments (id TEXT PRIMARY KEY)', []);
+
+    await db.transaction(async (tx) => {
+      await tx.execute('INSERT INTO comments (id) VALUES (?)', ['a']);
+    });
+
+    await expect(db.transaction(async (tx) => {
+      await tx.execute('INSERT INTO comments (id) VALUES (?)', ['b']);
+      await tx.execute('INSERT INTO comments (id) VALUES (?)', ['a']);
+    })).rejects.toThrow();
+
+    expect(await db.query('SELECT id FROM comments')).toEqual([{ id: 'a' }]);
+    await db.close();
+  });
+});
+
+describe('listNativeComments', () => {
+  it('should page through comments that share a second without repeating or skipping any', async () => {
+    const db = createDbConnection({ ghostDbType: 'sqlite', ghostDbConnection: ':memory:' } as Config);
+    await db.execute('CREATE TABLE members (id TEXT PRIMARY KEY, name TEXT, email TEXT)', []);
+    await db.execute(
+      'CREATE TABLE comments (id TEXT PRIMARY KEY, post_id TEXT, member_id TEXT, parent_id TEXT, status TEXT, html TEXT, created_at TEXT)',
+      []
+    );
+    const ids = ['507f1f77bcf86cd799439033', '507f1f77bcf86cd799439031', '507f1f77bcf86cd799439032'];
+    for (const id of ids) {
+      await db.execute(
+        "INSERT INTO comments (id, post_id, status, html, created_at) VALUES (?, 'post', 'published', '<p>Hi</p>', '2025-01-15 12:00:00')",
+        [id]
+      );
+    }
+
+    const seen: string[] = [];
+    let cursor = { since: '2025-01-15 11:00:00', afterId: null as string | null };
+    for (let page = 0; page < 3; page++) {
+      const comments = await listNativeComments(db, { ...cursor, blueskyMemberId: 'bluesky', limit: 2 });
+      seen.push(...comments.map((comment) => comment.id));
+      const last = comments[comments.length - 1];
+      if (!last) break;
+      cursor = { since: '2025-01-15 12:00:00', afterId: last.id };
+    }
+
+    expect(seen).toEqual([...ids].sort());
+    await db.close();
+  });
+});
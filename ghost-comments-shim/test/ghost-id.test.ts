@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { generateGhostId, isValidGhostId } from '../src/utils/ghost-id';
+import { generateGhostId, ghostIdFromKey, isValidGhostId } from '../src/utils/ghost-id';
 
 describe('ghost-id', () => {
   it('should=((generateGhostId, 24-char hex))', () => {
@@ -24,4 +24,11 @@ describe('ghost-id', () => {
     expect(isValidGhostId('507f1f77bcf86cd79943901')).toBe(false);
     expect(isValidGhostId('gggggggggggggggggggggggg')).toBe(false);
   });
+
+  it('should=((ghostIdFromKey, deterministic))', () => {
+    const id = ghostIdFromKey('at://did:plc:alice/app.bsky.feed.post/abc');
+    expect(isValidGhostId(id)).toBe(true);
+    expect(ghostIdFromKey('at://did:plc:alice/app.bsky.feed.post/abc')).toBe(id);
+    expect(ghostIdFromKey('at://did:plc:alice/app.bsky.feed.post/def')).not.toBe(id);
+  });
 });
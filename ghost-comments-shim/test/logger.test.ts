@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { logger, requestLogging, setLogFormat } from '../src/utils/logger';
+
+describe('logger', () => {
+  afterEach(() => {
+    setLogFormat('text');
+    vi.restoreAllMocks();
+  });
+
+  it('should write one JSON object per line in json format', () => {
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+    setLogFormat('json');
+
+    logger.error('Error creating comment: Disk full', { request_id: 'abc', code: undefined });
+
+    const line = JSON.parse(log.mock.calls[0][0]);
+    expect(line).toMatchObject({ level: 'error', msg: 'Error creating comment: Disk full', request_id: 'abc' });
+    expect(line).not.toHaveProperty('code');
+    expect(() => setLogFormat('xml')).toThrow('Invalid LOG_FORMAT');
+  });
+
+  it('should pass the bridge\'s request ID through, or make one up', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    setLogFormat('json');
+    const app = express();
+    app.use(requestLogging);
+    app.get('/comments', (req, res) => {
+      res.json({ request_id: res.locals.requestId });
+    });
+
+    const passed = await request(app).get('/comments?since=2025-01-01').set('X-Request-Id', 'sync-post-1.42');
+    expect(passed.headers['x-request-id']).toBe('sync-post-1.42');
+    expect(passed.body.request_id).toBe('sync-post-1.42');
+    expect(JSON.parse(log.mock.calls[0][0])).toMatchObject({
+      msg: 'request',
+      request_id: 'sync-post-1.42',
+      method: 'GET',
+      path: '/comments',
+      status: 200,
+    });
+
+    const made = await request(app).get('/comments').set('X-Request-Id', 'has spaces; and more');
+    expect(made.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+  });
+});
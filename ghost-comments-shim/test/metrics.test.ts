@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { Config } from '../src/config';
+import { DbConnection } from '../src/db';
+import { authFailures, commentFailures, commentInserts, dbDuration, errorCodeLabel, instrumentConnection, registry } from '../src/metrics';
+import { createCommentsRouter } from '../src/routes/comments';
+
+function createMockDb(): DbConnection {
+  const db: DbConnection = {
+    execute: vi.fn().mockResolvedValue(undefined),
+    query: vi.fn().mockResolvedValue([]),
+    transaction: vi.fn(async (fn) => fn(db)) as DbConnection['transaction'],
+    close: vi.fn().mockResolvedValue(undefined),
+  };
+  return db;
+}
+
+const testConfig: Config = {
+  ghostDbType: 'sqlite',
+  ghostDbConnection: ':memory:',
+  bridgeSharedSecret: 'test-secret-key-min-32-characters-long',
+  authMode: 'transition',
+  clockSkewSeconds: 300,
+  blueskyMemberId: '507f1f77bcf86cd799439011',
+  imageHostAllowlist: ['cdn.bsky.app'],
+  onSchemaMismatch: 'refuse',
+  outboxPath: null,
+  port: 3001,
+};
+
+const comment = {
+  post_id: '507f1f77bcf86cd799439011',
+  bsky_handle: 'alice.bsky.social',
+  bsky_profile_url: 'https://bsky.app/profile/alice.bsky.social',
+  bsky_post_url: 'https://bsky.app/profile/alice.bsky.social/post/abc',
+  comment_text: 'Test comment',
+  created_at: '2025-01-15T12:00:00Z',
+};
+
+async function counterValue(counter: { get(): Promise<{ values: { labels: object; value: number }[] }> }, labels: object) {
+  const { values } = await counter.get();
+  return values.find((value) => JSON.stringify(value.labels) === JSON.stringify(labels))?.value || 0;
+}
+
+describe('metrics', () => {
+  let app: express.Application;
+  let mockDb: DbConnection;
+
+  beforeEach(() => {
+    registry.resetMetrics();
+    mockDb = createMockDb();
+    app = express();
+    app.use(express.json());
+    app.use('/comments', createCommentsRouter(testConfig, mockDb));
+  });
+
+  it('should count inserts, failures by error code and auth failures', async () => {
+    const auth = `Bearer ${testConfig.bridgeSharedSecret}`;
+    await request(app).post('/comments').set('Authorization', auth).send(comment).expect(201);
+
+    (mockDb.execute as any).mockRejectedValueOnce(Object.assign(new Error('fk'), { code: 'ER_NO_REFERENCED_ROW_2' }));
+    await request(app).post('/comments').set('Authorization', auth).send(comment).expect(500);
+
+    await request(app).post('/comments').set('Authorization', 'Bearer wrong').send(comment).expect(401);
+
+    expect(await counterValue(commentInserts, { site: 'default', result: 'created' })).toBe(1);
+    expect(await counterValue(commentFailures, {
+      site: 'default',
+      operation: 'creating comment',
+      code: 'ER_NO_REFERENCED_ROW_2',
+    })).toBe(1);
+    expect(await counterValue(authFailures, { site: 'default', reason: 'invalid_token' })).toBe(1);
+
+    const text = await registry.metrics();
+    expect(text).toContain('ghost_shim_comment_inserts_total{site="default",result="created"} 1');
+  });
+
+  it('should time database calls, including those inside a transaction', async () => {
+    const db = instrumentConnection(createMockDb(), 'blog-a');
+
+    await db.query('SELECT 1', []);
+    await db.transaction(async (tx) => tx.execute('UPDATE comments SET status = ?', ['hidden']));
+
+    const { values } = await dbDuration.get();
+    const count = (operation: string) => values.find((value) =>
+      value.metricName === 'ghost_shim_db_duration_seconds_count' && value.labels.operation === operation)?.value;
+    expect(count('query')).toBe(1);
+    expect(count('transaction')).toBe(1);
+    expect(count('execute')).toBe(1);
+  });
+
+  it('should keep unknown error codes out of the labels', () => {
+    expect(errorCodeLabel(Object.assign(new Error(), { code: 'ER_ACCESS_DENIED_ERROR' }))).toBe('ER_ACCESS_DENIED_ERROR');
+    expect(errorCodeLabel(Object.assign(new Error(), { code: 'ER_SOMETHING_NEW' }))).toBe('other');
+    expect(errorCodeLabel(new Error('no code'))).toBe('other');
+  });
+});
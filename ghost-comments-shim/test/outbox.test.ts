@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Config } from '../src/config';
+import { createDbConnection, DbConnection, NewComment } from '../src/db';
+import { Outbox } from '../src/outbox';
+
+const config = { ghostDbType: 'sqlite', ghostDbConnection: ':memory:' } as Config;
+
+const comment = (id: string, parentId: string | null = null): NewComment => ({
+  id,
+  postId: '507f1f77bcf86cd799439011',
+  memberId: '507f1f77bcf86cd799439012',
+  parentId,
+  html: `<p>${id}</p>`,
+  createdAt: '2026-10-19 12:00:00',
+});
+
+// Ghost's database, with every transaction failing while `down` is set
+function flakyGhost(db: DbConnection, error: { down: Error | null }): DbConnection {
+  return {
+    ...db,
+    transaction: async (fn) => {
+      if (error.down) throw error.down;
+      return db.transaction(fn);
+    },
+  };
+}
+
+const unavailable = () => Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:3306'), { code: 'ECONNREFUSED' });
+
+describe('Outbox', () => {
+  let ghost: DbConnection;
+  let outbox: Outbox;
+
+  beforeEach(async () => {
+    ghost = createDbConnection(config);
+    await ghost.execute(
+      `CREATE TABLE comments (id TEXT PRIMARY KEY, post_id, member_id, parent_id REFERENCES comments(id), status, html, created_at, updated_at)`,
+      []
+    );
+    outbox = new Outbox(':memory:');
+  });
+
+  afterEach(async () => {
+    outbox.close();
+    await ghost.close();
+  });
+
+  it('should hold comments while Ghost is down and deliver them in order once it is back', async () => {
+    const state: { down: Error | null } = { down: unavailable() };
+    const flaky = flakyGhost(ghost, state);
+
+    outbox.enqueue([comment('aaaaaaaaaaaaaaaaaaaaaaaa')]);
+    outbox.enqueue([comment('bbbbbbbbbbbbbbbbbbbbbbbb', 'aaaaaaaaaaaaaaaaaaaaaaaa')]);
+
+    expect(await outbox.flush(flaky)).toEqual({ delivered: 0, failed: 0 });
+    expect(outbox.hasQueued()).toBe(true);
+    expect(outbox.get('aaaaaaaaaaaaaaaaaaaaaaaa')).toMatchObject({
+      status: 'queued',
+      attempts: 1,
+      last_error: 'connect ECONNREFUSED 127.0.0.1:3306',
+    });
+    // The second comment wasn't tried while the first was stuck
+    expect(outbox.get('bbbbbbbbbbbbbbbbbbbbbbbb')).toMatchObject({ status: 'queued', attempts: 0 });
+
+    state.down = null;
+    expect(await outbox.flush(flaky)).toEqual({ delivered: 2, failed: 0 });
+    expect(outbox.hasQueued()).toBe(false);
+    expect(outbox.get('bbbbbbbbbbbbbbbbbbbbbbbb')).toMatchObject({ status: 'delivered', last_error: null });
+    expect(outbox.get('bbbbbbbbbbbbbbbbbbbbbbbb')!.delivered_at).not.toBeNull();
+
+    const rows = await ghost.query('SELECT id, parent_id FROM comments ORDER BY id', []);
+    expect(rows).toEqual([
+      { id: 'aaaaaaaaaaaaaaaaaaaaaaaa', parent_id: null },
+      { id: 'bbbbbbbbbbbbbbbbbbbbbbbb', parent_id: 'aaaaaaaaaaaaaaaaaaaaaaaa' },
+    ]);
+  });
+
+  it('should skip comments the original insert already wrote', async () => {
+    await ghost.execute("INSERT INTO comments (id, html) VALUES ('aaaaaaaaaaaaaaaaaaaaaaaa', 'first')", []);
+    outbox.enqueue([comment('aaaaaaaaaaaaaaaaaaaaaaaa'), comment('bbbbbbbbbbbbbbbbbbbbbbbb')]);
+    // Queuing the same comment again leaves the first entry alone
+    outbox.enqueue([comment('aaaaaaaaaaaaaaaaaaaaaaaa')]);
+
+    expect(await outbox.flush(ghost)).toEqual({ delivered: 2, failed: 0 });
+    const rows = await ghost.query('SELECT id, html FROM comments ORDER BY id', []);
+    expect(rows).toEqual([
+      { id: 'aaaaaaaaaaaaaaaaaaaaaaaa', html: 'first' },
+      { id: 'bbbbbbbbbbbbbbbbbbbbbbbb', html: '<p>bbbbbbbbbbbbbbbbbbbbbbbb</p>' },
+    ]);
+  });
+
+  it('should mark a job failed when Ghost rejects it and carry on with the rest', async () => {
+    const state: { down: Error | null } = { down: null };
+    const flaky = flakyGhost(ghost, state);
+    outbox.enqueue([comment('aaaaaaaaaaaaaaaaaaaaaaaa')]);
+    outbox.enqueue([comment('bbbbbbbbbbbbbbbbbbbbbbbb')]);
+
+    state.down = new Error('no such column: html');
+    expect(await outbox.flush(flaky)).toEqual({ delivered: 0, failed: 2 });
+    expect(outbox.get('aaaaaaaaaaaaaaaaaaaaaaaa')).toMatchObject({ status: 'failed', last_error: 'no such column: html' });
+    expect(outbox.hasQueued()).toBe(false);
+    expect(outbox.get('cccccccccccccccccccccccc')).toBeNull();
+  });
+
+  it('should queue a failed comment again when it is sent again', async () => {
+    const state: { down: Error | null } = { down: new Error('no such column: html') };
+    const flaky = flakyGhost(ghost, state);
+    outbox.enqueue([comment('aaaaaaaaaaaaaaaaaaaaaaaa')]);
+    await outbox.flush(flaky);
+    expect(outbox.get('aaaaaaaaaaaaaaaaaaaaaaaa')).toMatchObject({ status: 'failed', attempts: 1 });
+
+    outbox.enqueue([comment('bbbbbbbbbbbbbbbbbbbbbbbb')]);
+    outbox.enqueue([comment('aaaaaaaaaaaaaaaaaaaaaaaa')]);
+    expect(outbox.get('aaaaaaaaaaaaaaaaaaaaaaaa')).toMatchObject({ status: 'queued', attempts: 0, last_error: null });
+
+    state.down = null;
+    expect(await outbox.flush(flaky)).toEqual({ delivered: 2, failed: 0 });
+    const rows = await ghost.query('SELECT id FROM comments ORDER BY rowid', []);
+    expect(rows.map((row: any) => row.id)).toEqual(['bbbbbbbbbbbbbbbbbbbbbbbb', 'aaaaaaaaaaaaaaaaaaaaaaaa']);
+  });
+});
@@ -1,5 +1,14 @@
 import { describe, it, expect } from 'vitest';
-import { escapeHtml, sanitizeUrl, buildCommentHtml } from '../src/utils/sanitize';
+import {
+  escapeHtml,
+  sanitizeUrl,
+  buildCommentHtml,
+  renderRichText,
+  renderEmbed,
+  validateEmbed,
+  validateFacets,
+  Facet,
+} from '../src/utils/sanitize';
 
 describe('sanitize', () => {
   it('should=((escapeHtml, basic))', () => {
@@ -55,4 +64,137 @@ describe('sanitize', () => {
     expect(html).not.toContain('<script>');
     expect(html).not.toContain('<img');
   });
+
+  it('should=((buildCommentHtml, facets))', () => {
+    const html = buildCommentHtml({
+      bskyHandle: 'alice.bsky.social',
+      bskyProfileUrl: 'https://bsky.app/profile/alice.bsky.social',
+      commentText: 'see example.com/long...',
+      bskyPostUrl: 'https://bsky.app/profile/alice.bsky.social/post/abc123',
+      facets: [facet(4, 23, { $type: 'app.bsky.richtext.facet#link', uri: 'https://example.com/long/path?a=1&b=2' })],
+    });
+
+    expect(html).toContain('<p>see <a href="https://example.com/long/path?a=1&amp;b=2"');
+    expect(html).toContain('>example.com/long...</a></p>');
+  });
+});
+
+// Byte offsets of a substring in the UTF-8 encoding of text
+const bytesOf = (text: string, part: string): [number, number] => {
+  const start = Buffer.byteLength(text.slice(0, text.indexOf(part)), 'utf8');
+  return [start, start + Buffer.byteLength(part, 'utf8')];
+};
+
+const facet = (byteStart: number, byteEnd: number, ...features: Facet['features']): Facet => ({
+  index: { byteStart, byteEnd },
+  features,
+});
+
+describe('renderRichText', () => {
+  it('should=((renderRichText, multibyte-offsets))', () => {
+    const text = 'Héllo 👋🏽 @bob.bsky.social — loved #日本語 and ✨ https://example.com/x';
+    const html = renderRichText(text, [
+      facet(...bytesOf(text, '@bob.bsky.social'), { $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:bob123' }),
+      facet(...bytesOf(text, '#日本語'), { $type: 'app.bsky.richtext.facet#tag', tag: '日本語' }),
+      facet(...bytesOf(text, 'https://example.com/x'), { $type: 'app.bsky.richtext.facet#link', uri: 'https://example.com/x' }),
+    ]);
+
+    expect(html).toContain('Héllo 👋🏽 <a href="https://bsky.app/profile/did%3Aplc%3Abob123"');
+    expect(html).toContain('>@bob.bsky.social</a> — loved <a href="https://bsky.app/search?q=%23%E6%97%A5%E6%9C%AC%E8%AA%9E"');
+    expect(html).toContain('>#日本語</a> and ✨ <a href="https://example.com/x"');
+  });
+
+  it('should=((renderRichText, escapes-text-and-hrefs))', () => {
+    const text = '<b>click</b> here';
+    const html = renderRichText(text, [
+      facet(...bytesOf(text, 'here'), { $type: 'app.bsky.richtext.facet#link', uri: 'https://example.com/?q="><script>' }),
+    ]);
+
+    expect(html).toBe(
+      '&lt;b&gt;click&lt;/b&gt; <a href="https://example.com/?q=&quot;&gt;&lt;script&gt;" target="_blank" rel="noopener noreferrer nofollow">here</a>'
+    );
+  });
+
+  it('should=((renderRichText, unsafe-or-broken-facets-ignored))', () => {
+    const text = 'é <tag> ok';
+    const html = renderRichText(text, [
+      facet(0, 1, { $type: 'app.bsky.richtext.facet#link', uri: 'https://split.example' }), // splits "é"
+      facet(3, 8, { $type: 'app.bsky.richtext.facet#link', uri: 'javascript:alert(1)' }),
+      facet(3, 99, { $type: 'app.bsky.richtext.facet#tag', tag: 'x' }),
+      facet(9, 11, { $type: 'app.bsky.richtext.facet#mention', did: 'not a did' }),
+    ]);
+
+    expect(html).toBe('é &lt;tag&gt; ok');
+    expect(html).not.toContain('<a');
+  });
+
+  it('should=((validateFacets, shape))', () => {
+    expect(validateFacets([facet(0, 1, { $type: 'app.bsky.richtext.facet#tag', tag: 'x' })])).toHaveLength(1);
+    expect(() => validateFacets('nope')).toThrow('facets must be an array');
+    expect(() => validateFacets([{ index: { byteStart: '0', byteEnd: 1 }, features: [] }])).toThrow('byteStart');
+    expect(() => validateFacets([{ index: { byteStart: 0, byteEnd: 1 }, features: [{}] }])).toThrow('features');
+  });
+});
+
+describe('renderEmbed', () => {
+  const hosts = ['cdn.bsky.app'];
+  const cdn = (kind: string) => `https://cdn.bsky.app/img/${kind}/plain/did:plc:alice/bafkimg@jpeg`;
+
+  it('should=((renderEmbed, images-with-alt))', () => {
+    const html = renderEmbed({
+      images: [{ thumb: cdn('feed_thumbnail'), fullsize: cdn('feed_fullsize'), alt: 'A "cat" <on> a mat' }],
+    }, hosts);
+
+    expect(html).toContain(`<a href="${cdn('feed_fullsize')}"`);
+    expect(html).toContain(`<img src="${cdn('feed_thumbnail')}" alt="A &quot;cat&quot; &lt;on&gt; a mat"`);
+  });
+
+  it('should=((renderEmbed, image-host-allowlist))', () => {
+    const html = renderEmbed({
+      images: [
+        { thumb: 'https://evil.example/track.gif', fullsize: cdn('feed_fullsize'), alt: '' },
+        { thumb: cdn('feed_thumbnail'), fullsize: 'javascript:alert(1)', alt: '' },
+        { thumb: 'http://cdn.bsky.app/img/x', fullsize: 'http://cdn.bsky.app/img/y', alt: '' },
+      ],
+    }, hosts);
+
+    expect(html).toBe('');
+    expect(renderEmbed({ images: [{ thumb: cdn('a'), fullsize: cdn('b'), alt: '' }] }, [])).toBe('');
+  });
+
+  it('should=((renderEmbed, quote-escaped))', () => {
+    const html = renderEmbed({
+      quote: {
+        url: 'https://bsky.app/profile/bob.bsky.social/post/xyz',
+        author_handle: 'bob.bsky.social',
+        author_name: 'Bob <b>',
+        text: '<script>alert(1)</script> quoted',
+      },
+    }, hosts);
+
+    expect(html).toContain('<blockquote><p><a href="https://bsky.app/profile/bob.bsky.social/post/xyz"');
+    expect(html).toContain('<strong>Bob &lt;b&gt;</strong>');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt; quoted');
+    expect(html).not.toContain('<script>');
+  });
+
+  it('should=((validateEmbed, shape))', () => {
+    expect(() => validateEmbed([])).toThrow('embed must be an object');
+    expect(() => validateEmbed({ images: [{ thumb: 'x' }] })).toThrow('thumb, fullsize and alt');
+    expect(() => validateEmbed({ quote: { url: 'x' } })).toThrow('embed.quote');
+  });
+
+  it('should=((buildCommentHtml, embed))', () => {
+    const html = buildCommentHtml({
+      bskyHandle: 'alice.bsky.social',
+      bskyProfileUrl: 'https://bsky.app/profile/alice.bsky.social',
+      commentText: 'Look!',
+      bskyPostUrl: 'https://bsky.app/profile/alice.bsky.social/post/abc123',
+      embed: { images: [{ thumb: cdn('feed_thumbnail'), fullsize: cdn('feed_fullsize'), alt: 'cat' }] },
+      imageHosts: hosts,
+    });
+
+    expect(html.indexOf('<img')).toBeGreaterThan(html.indexOf('Look!'));
+    expect(html.indexOf('<img')).toBeLessThan(html.indexOf('View on Bluesky'));
+  });
 });
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Config } from '../src/config';
+import { createDbConnection, DbConnection } from '../src/db';
+import { checkSchema, readOnlyConnection } from '../src/schema';
+
+const config = {
+  ghostDbType: 'sqlite',
+  ghostDbConnection: ':memory:',
+  blueskyMemberId: '507f1f77bcf86cd799439011',
+} as Config;
+
+async function createGhostTables(db: DbConnection, commentColumns = 'id, post_id, member_id, parent_id, status, html, created_at, updated_at') {
+  await db.execute(`CREATE TABLE comments (${commentColumns})`, []);
+  await db.execute('CREATE TABLE members (id, name, email)', []);
+  await db.execute('CREATE TABLE posts (id, slug, title, type, created_at)', []);
+  await db.execute('CREATE TABLE migrations (id INTEGER PRIMARY KEY, name, version, currentVersion)', []);
+  await db.execute("INSERT INTO migrations (name, version, currentVersion) VALUES ('init', 'init', '5.80.0')", []);
+  await db.execute("INSERT INTO migrations (name, version, currentVersion) VALUES ('later', '5.96', '5.96.2')", []);
+  await db.execute('INSERT INTO members (id, name, email) VALUES (?, ?, ?)', [config.blueskyMemberId, 'Bluesky', 'bsky@example.com']);
+}
+
+describe('checkSchema', () => {
+  let db: DbConnection;
+
+  beforeEach(() => {
+    db = createDbConnection(config);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should pass a Ghost 5 database and report its version', async () => {
+    await createGhostTables(db);
+
+    const report = await checkSchema(config, db);
+
+    expect(report).toMatchObject({ compatible: true, ghostVersion: '5.96.2', blueskyMemberExists: true, problems: [], warnings: [] });
+    expect(report.tables.comments).toEqual({ exists: true, missingColumns: [] });
+  });
+
+  it('should flag missing columns, tables and the Bluesky member', async () => {
+    await createGhostTables(db, 'id, post_id, member_id, status, html, created_at');
+    await db.execute('DELETE FROM members', []);
+    await db.execute('DROP TABLE migrations', []);
+
+    const report = await checkSchema(config, db);
+
+    expect(report.compatible).toBe(false);
+    expect(report.problems).toEqual([
+      'Table comments is missing columns: parent_id, updated_at',
+      `Member ${config.blueskyMemberId} (BLUESKY_MEMBER_ID) not found - create it in Ghost Admin`,
+    ]);
+    expect(report.warnings).toEqual(['Could not detect the Ghost version from the migrations table']);
+  });
+
+  it('should report an empty database as incompatible', async () => {
+    const report = await checkSchema(config, db);
+
+    expect(report.compatible).toBe(false);
+    expect(report.tables.comments.exists).toBe(false);
+    expect(report.problems[0]).toBe('Table comments not found - is this a Ghost database?');
+  });
+});
+
+describe('readOnlyConnection', () => {
+  it('should allow reads and refuse writes', async () => {
+    const db = createDbConnection(config);
+    await db.execute('CREATE TABLE comments (id)', []);
+    const readOnly = readOnlyConnection(db, 'Table comments is missing columns: html');
+
+    await expect(readOnly.query('SELECT id FROM comments')).resolves.toEqual([]);
+    await expect(readOnly.execute('INSERT INTO comments (id) VALUES (?)', ['a']))
+      .rejects.toThrow('Shim is read-only: Table comments is missing columns: html');
+    await expect(readOnly.transaction(async () => undefined)).rejects.toMatchObject({ code: 'SHIM_READ_ONLY' });
+    await readOnly.close();
+  });
+});
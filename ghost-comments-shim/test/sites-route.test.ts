@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import crypto from 'crypto';
+import express from 'express';
+import request from 'supertest';
+import { SiteConfig } from '../src/config';
+import { DbConnection } from '../src/db';
+import { createSitesRouter, Site } from '../src/routes/sites';
+import { captureRawBody, signRequest } from '../src/utils/auth';
+
+function createMockDb(): DbConnection {
+  const db: DbConnection = {
+    execute: vi.fn().mockResolvedValue(undefined),
+    query: vi.fn().mockResolvedValue([]),
+    transaction: vi.fn(async (fn) => fn(db)) as DbConnection['transaction'],
+    close: vi.fn().mockResolvedValue(undefined),
+  };
+  return db;
+}
+
+const siteConfig = (siteId: string, secret: string): SiteConfig => ({
+  siteId,
+  ghostDbType: 'mysql',
+  ghostDbConnection: `mysql://localhost/${siteId}`,
+  bridgeSharedSecret: secret,
+  authMode: 'signed',
+  clockSkewSeconds: 300,
+  blueskyMemberId: '507f1f77bcf86cd799439011',
+  imageHostAllowlist: ['cdn.bsky.app'],
+  onSchemaMismatch: 'refuse',
+  outboxPath: null,
+  port: 3001,
+});
+
+function signedHeaders(secret: string, method: string, path: string) {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const nonce = crypto.randomBytes(16).toString('hex');
+  return {
+    'X-Bridge-Timestamp': timestamp,
+    'X-Bridge-Nonce': nonce,
+    'X-Bridge-Signature': signRequest(secret, { method, path, timestamp, nonce, body: '' }),
+  };
+}
+
+describe('createSitesRouter', () => {
+  const secretA = 'a'.repeat(32);
+  const secretB = 'b'.repeat(32);
+  let siteA: Site;
+  let siteB: Site;
+  let app: express.Application;
+
+  beforeEach(() => {
+    siteA = { config: siteConfig('blog-a', secretA), db: createMockDb() };
+    siteB = { config: siteConfig('blog-b', secretB), db: createMockDb() };
+    app = express();
+    app.use(express.json({ verify: captureRawBody }));
+    app.use(createSitesRouter([siteA, siteB]));
+  });
+
+  it('should route by path segment, verifying the path below the site prefix', async () => {
+    const response = await request(app)
+      .get('/sites/blog-b/comments?since=2025-01-15T12:00:00Z')
+      .set(signedHeaders(secretB, 'GET', '/comments?since=2025-01-15T12:00:00Z'));
+
+    expect(response.status).toBe(200);
+    expect(siteB.db.query).toHaveBeenCalled();
+    expect(siteA.db.query).not.toHaveBeenCalled();
+  });
+
+  it('should route by header and keep each site to its own secret', async () => {
+    const ok = await request(app)
+      .get('/comments?since=2025-01-15T12:00:00Z')
+      .set('X-Ghost-Site', 'blog-a')
+      .set(signedHeaders(secretA, 'GET', '/comments?since=2025-01-15T12:00:00Z'));
+    expect(ok.status).toBe(200);
+
+    const wrongSecret = await request(app)
+      .get('/comments?since=2025-01-15T12:00:00Z')
+      .set('X-Ghost-Site', 'blog-b')
+      .set(signedHeaders(secretA, 'GET', '/comments?since=2025-01-15T12:00:00Z'));
+    expect(wrongSecret.status).toBe(401);
+  });
+
+  it('should reject unknown sites and requests without one', async () => {
+    expect((await request(app).get('/sites/nope/comments')).status).toBe(404);
+    expect((await request(app).get('/comments').set('X-Ghost-Site', 'nope')).status).toBe(404);
+    expect((await request(app).get('/comments')).status).toBe(400);
+  });
+
+  it('should report health for every site, and for one site on its own', async () => {
+    (siteB.db.query as any).mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    const all = await request(app).get('/health');
+    expect(all.status).toBe(503);
+    expect(all.body.status).toBe('degraded');
+    expect(all.body.sites).toEqual({
+      'blog-a': { status: 'ok' },
+      'blog-b': { status: 'error', message: 'connect ECONNREFUSED' },
+    });
+
+    const one = await request(app).get('/sites/blog-a/health');
+    expect(one.status).toBe(200);
+    expect(one.body).toMatchObject({ status: 'ok', site: 'blog-a' });
+  });
+
+  it('should run the connectivity tests for every site', async () => {
+    const response = await request(app).get('/test');
+
+    expect(response.status).toBe(200);
+    expect(Object.keys(response.body.sites)).toEqual(['blog-a', 'blog-b']);
+    expect(response.body.sites['blog-a'].database).toEqual({ status: 'ok' });
+  });
+});